@@ -1,21 +1,71 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { 
   Play, Trash2, History, Heart, Library, Search, Clock, 
-  ChevronRight, LayoutGrid, Download, Smartphone, X
+  ChevronRight, LayoutGrid, Download, Smartphone, X, AlertCircle,
+  FileDown, FileUp, FolderSearch, Copy, FolderTree, Folder, ListVideo,
+  Sparkles, Plus, Pencil, CheckSquare, CheckCircle2, MicVocal, Disc3, Music
 } from 'lucide-react';
 import { useVideoStore } from './store';
 import VideoPlayer from './components/VideoPlayer';
 import Uploader from './components/Uploader';
-import { formatTime, formatFileSize } from './utils/helpers';
+import UpNext from './components/UpNext';
+import PlaylistView from './components/PlaylistView';
+import PlaylistExportButton from './components/PlaylistExportButton';
+import VideoDetailsEditor from './components/VideoDetailsEditor';
+import MarkersPanel from './components/MarkersPanel';
+import { startStoryboardJobs } from './utils/storyboard';
+import { startLoudnessJobs } from './utils/loudness';
+import BulkTagBar from './components/BulkTagBar';
+import SmartCollectionEditor from './components/SmartCollectionEditor';
+import SubtitleSearchResults from './components/SubtitleSearchResults';
+import VirtualLibrary from './components/VirtualLibrary';
+import LibraryControls from './components/LibraryControls';
+import ContinueWatching from './components/ContinueWatching';
+import { SmartCollection } from './types';
+import { formatFileSize, formatBitrate, formatChannels, downloadBlob } from './utils/helpers';
+import { buildVaultBundle, parseVaultBundle, findRelinkMatches } from './utils/vaultBackup';
+import { supportsDirectoryPicker, pickDirectory, walkMediaFiles } from './utils/fileSystem';
+import { findDuplicateGroups } from './utils/contentHash';
+import { listFolder } from './utils/folderTree';
+import { matchesCollection } from './utils/smartCollections';
+import { parseSearchQuery, isEmptyQuery } from './utils/searchQuery';
+import { searchVideos, startSearchIndex } from './utils/searchIndex';
+import { sortVideos, groupVideos } from './utils/libraryView';
+import { listAlbums, listArtists, isAudioItem, trackArtist } from './utils/audioLibrary';
 
-type ViewType = 'library' | 'collection' | 'recent';
+type ViewType = 'library' | 'collection' | 'recent' | 'playlists' | 'duplicates' | 'folders' | 'smart' | 'artists' | 'albums';
+
+// Default file names for views exported as playlists
+const VIEW_NAMES: Record<ViewType, string> = {
+  library: 'Vault', collection: 'Collection', recent: 'History', playlists: 'Playlists', duplicates: 'Duplicates', folders: 'Folder', smart: 'Smart Collection',
+  artists: 'Artist', albums: 'Album',
+};
 
 const App: React.FC = () => {
-  const { videos, currentVideoId, setCurrentVideo, removeVideo, clearHistory, toggleFavorite } = useVideoStore();
+  const {
+    videos, settings, folders, playlists, smartCollections, currentVideoId, isMiniPlayer, setMiniPlayer, removeVideo, clearHistory, toggleFavorite,
+    storageError, setStorageError, quarantine, clearQuarantine, importVault, relinkVideos, playVideos, setWatched
+  } = useVideoStore();
   const [currentView, setCurrentView] = useState<ViewType>('library');
   const [searchQuery, setSearchQuery] = useState('');
   const [deferredPrompt, setDeferredPrompt] = useState<any>(null);
+  const [vaultNotice, setVaultNotice] = useState<string | null>(null);
+  const [browsePath, setBrowsePath] = useState<{ folderId: string, dir: string } | null>(null);
+  const [musicKey, setMusicKey] = useState<string | null>(null); // Open artist or album
+  const [openPlaylistId, setOpenPlaylistId] = useState<string | null>(null);
+  const [activeSmartId, setActiveSmartId] = useState<string | null>(null);
+  const [editingSmart, setEditingSmart] = useState<SmartCollection | 'new' | null>(null);
+  // Grid selection mode for bulk tagging; null when off
+  const [selectedIds, setSelectedIds] = useState<string[] | null>(null);
   const searchInputRef = useRef<HTMLInputElement>(null);
+  const backupInputRef = useRef<HTMLInputElement>(null);
+
+  // Seek-preview sprites are built in the background for the whole library
+  useEffect(() => startStoryboardJobs(), []);
+  // Loudness is measured in the background only while normalization is switched on
+  useEffect(() => startLoudnessJobs(), []);
+  // The search index follows the library from here on
+  useEffect(() => startSearchIndex(), []);
 
   // PWA Install Logic
   useEffect(() => {
@@ -35,37 +85,124 @@ const App: React.FC = () => {
     }
   };
 
+  const missingCount = useMemo(() => videos.filter(v => v.missing).length, [videos]);
+
+  // Vault Backup Logic
+  const exportVault = async () => {
+    const bundle = await buildVaultBundle({ videos, settings, folders, playlists, smartCollections });
+    const date = new Date().toISOString().slice(0, 10);
+    downloadBlob(new Blob([JSON.stringify(bundle)], { type: 'application/json' }), `tawheed-vault-${date}.json`);
+  };
+
+  const handleBackupImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const { added, updated } = await importVault(parseVaultBundle(await file.text()));
+      setVaultNotice(`Imported ${added} new and merged ${updated} existing entries`);
+    } catch (err) {
+      setVaultNotice(err instanceof Error ? err.message : 'Import failed');
+    }
+  };
+
+  const relinkMissing = async () => {
+    try {
+      const dir = await pickDirectory();
+      const matches = await findRelinkMatches(videos, walkMediaFiles(dir));
+      await relinkVideos(matches);
+      setVaultNotice(`Relinked ${matches.length} of ${missingCount} missing files`);
+    } catch (e) {
+      console.log('User cancelled or folder access failed');
+    }
+  };
+
   const currentVideo = videos.find(v => v.id === currentVideoId);
+  const showDetail = !!currentVideo && !isMiniPlayer;
+  const isTheater = settings.isTheaterMode;
+  const activeSmart = currentView === 'smart' ? smartCollections.find(c => c.id === activeSmartId) : undefined;
 
-  // Instant Search Filtering Logic
-  const displayVideos = useMemo(() => {
+  const openView = (view: ViewType, smartId: string | null = null) => {
+    setCurrentView(view);
+    setActiveSmartId(smartId);
+    setMiniPlayer(true); // Whatever is playing carries on in the mini-player
+    setSearchQuery('');
+    setBrowsePath(null);
+    setMusicKey(null);
+    setOpenPlaylistId(null);
+    setSelectedIds(null);
+  };
+
+  const folderListing = useMemo(() => (
+    currentView === 'folders' && browsePath ? listFolder(videos, browsePath.folderId, browsePath.dir) : null
+  ), [videos, currentView, browsePath]);
+
+  // Artists and albums as tiles; the tracks of the open one are listed below them
+  const musicEntries = useMemo(() => {
+    if (currentView === 'artists') return listArtists(videos).map(a => ({ key: a.key, name: a.name, detail: `${a.albumCount} ${a.albumCount === 1 ? 'Album' : 'Albums'}`, cover: a.cover, tracks: a.tracks }));
+    if (currentView === 'albums') return listAlbums(videos).map(a => ({ key: a.key, name: a.title, detail: a.year ? `${a.artist} • ${a.year}` : a.artist, cover: a.cover, tracks: a.tracks }));
+    return [];
+  }, [videos, currentView]);
+  const openMusic = musicKey ? musicEntries.find(e => e.key === musicKey) : undefined;
+  const isMusicView = currentView === 'artists' || currentView === 'albums';
+
+  const parsedQuery = useMemo(() => parseSearchQuery(searchQuery), [searchQuery]);
+
+  const viewVideos = useMemo(() => {
     let base = videos;
     if (currentView === 'collection') {
       base = videos.filter(v => v.favorite);
     } else if (currentView === 'recent') {
       base = [...videos].sort((a, b) => (b.lastPlayedAt || 0) - (a.lastPlayedAt || 0));
+    } else if (currentView === 'duplicates') {
+      // Keep each group of identical files next to each other
+      base = findDuplicateGroups(videos).flat();
+    } else if (currentView === 'folders') {
+      base = folderListing?.videos || [];
+    } else if (isMusicView) {
+      base = openMusic?.tracks || [];
+    } else if (currentView === 'playlists') {
+      // PlaylistView lists its own entries, in playlist order
+      base = [];
+    } else if (currentView === 'smart') {
+      const now = Date.now();
+      base = activeSmart ? videos.filter(v => matchesCollection(v, activeSmart, now)) : [];
     }
-    
-    const query = searchQuery.toLowerCase().trim();
-    if (!query) return base;
+    return base;
+  }, [videos, currentView, folderListing, activeSmart, isMusicView, openMusic]);
+
+  // Query language and index live in utils/searchQuery.ts and utils/searchIndex.ts
+  const displayVideos = useMemo(() => sortVideos(
+    isEmptyQuery(parsedQuery) ? viewVideos : searchVideos(viewVideos, parsedQuery),
+    settings.library.sort,
+    settings.library.descending
+  ), [viewVideos, parsedQuery, settings.library.sort, settings.library.descending]);
 
-    return base.filter(v => 
-      v.title.toLowerCase().includes(query) || 
-      (v.metadata?.format && v.metadata.format.toLowerCase().includes(query))
-    );
-  }, [videos, searchQuery, currentView]);
+  // Duplicates are always shown as their sets of identical files, whatever the grouping setting
+  const videoGroups = useMemo(() => (
+    currentView === 'duplicates'
+      ? findDuplicateGroups(displayVideos).map(group => ({
+          key: group[0].contentHash!,
+          label: `${group.length} copies • ${formatFileSize(group[0].metadata?.size || 0)}`,
+          videos: group,
+        }))
+      : groupVideos(displayVideos, settings.library.group, folders)
+  ), [displayVideos, currentView, settings.library.group, folders]);
 
-  const NavItem = ({ icon: Icon, label, view }: { icon: any, label: string, view: ViewType }) => (
+  const NavItem = ({ icon: Icon, label, view, smartId = null }: { icon: any, label: string, view: ViewType, smartId?: string | null }) => (
     <button 
-      onClick={() => { setCurrentView(view); setCurrentVideo(null); setSearchQuery(''); }}
+      onClick={() => openView(view, smartId)}
       className={`w-full flex items-center gap-4 px-6 py-4 rounded-2xl transition-all font-black text-xs uppercase tracking-widest ${
-        currentView === view ? 'bg-blue-600 text-white shadow-lg' : 'text-white/30 hover:bg-white/5'
+        currentView === view && activeSmartId === smartId ? 'bg-blue-600 text-white shadow-lg' : 'text-white/30 hover:bg-white/5'
       }`}
     >
-      <Icon className="w-5 h-5" /> {label}
+      <Icon className="w-5 h-5 flex-shrink-0" /> <span className="truncate">{label}</span>
     </button>
   );
 
+  const toggleSelected = (id: string) =>
+    setSelectedIds(ids => ids && (ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id]));
+
   return (
     <div className="min-h-screen flex flex-col lg:flex-row bg-[#050505] text-white overflow-x-hidden">
       
@@ -78,10 +215,22 @@ const App: React.FC = () => {
           <span className="text-2xl font-black tracking-tighter uppercase italic">tawheed</span>
         </div>
         
-        <nav className="space-y-4 flex-1">
+        <nav className="space-y-4 flex-1 overflow-y-auto -mx-2 px-2">
           <NavItem icon={Library} label="Library" view="library" />
           <NavItem icon={Heart} label="Collection" view="collection" />
           <NavItem icon={History} label="History" view="recent" />
+          <NavItem icon={ListVideo} label="Playlists" view="playlists" />
+          <NavItem icon={FolderTree} label="Folders" view="folders" />
+          <NavItem icon={MicVocal} label="Artists" view="artists" />
+          <NavItem icon={Disc3} label="Albums" view="albums" />
+          <NavItem icon={Copy} label="Duplicates" view="duplicates" />
+          <div className="flex items-center justify-between px-6 pt-4">
+            <span className="text-[8px] font-black uppercase tracking-widest opacity-20">Smart Collections</span>
+            <button onClick={() => setEditingSmart('new')} className="text-white/20 hover:text-white transition-colors" title="New smart collection"><Plus className="w-4 h-4" /></button>
+          </div>
+          {smartCollections.map(c => (
+            <React.Fragment key={c.id}><NavItem icon={Sparkles} label={c.name} view="smart" smartId={c.id} /></React.Fragment>
+          ))}
         </nav>
 
         <div className="space-y-4 pt-8 border-t border-white/5">
@@ -90,6 +239,13 @@ const App: React.FC = () => {
               <Download className="w-5 h-5" /> Install Software
             </button>
           )}
+          <button onClick={exportVault} className="w-full flex items-center gap-4 px-6 py-4 text-white/30 hover:text-white transition-all font-black text-[10px] uppercase tracking-widest">
+            <FileDown className="w-5 h-5" /> Export Vault
+          </button>
+          <button onClick={() => backupInputRef.current?.click()} className="w-full flex items-center gap-4 px-6 py-4 text-white/30 hover:text-white transition-all font-black text-[10px] uppercase tracking-widest">
+            <FileUp className="w-5 h-5" /> Import Vault
+            <input ref={backupInputRef} type="file" accept=".json,application/json" onChange={handleBackupImport} className="hidden" />
+          </button>
           <button onClick={clearHistory} className="w-full flex items-center gap-4 px-6 py-4 text-red-500/40 hover:text-red-500 transition-all font-black text-[10px] uppercase tracking-widest">
             <Trash2 className="w-5 h-5" /> Clear Vault
           </button>
@@ -113,9 +269,14 @@ const App: React.FC = () => {
             <input 
               ref={searchInputRef}
               type="text" 
-              placeholder={`Instant search ${currentView}...`} 
+              placeholder={`Search ${currentView}... try format:mkv duration:>30m "exact phrase"`}
+              title={'Words match titles, tags and notes, typos allowed. "Quotes" match exactly, -word excludes.\nFilters: format: duration:>30m fav:yes added:<2w tag: series: rating:>=4 status:unwatched'}
               value={searchQuery} 
-              onChange={(e) => setSearchQuery(e.target.value)}
+              onChange={(e) => {
+                setSearchQuery(e.target.value);
+                // Results replace the detail view; the video carries on in the mini-player
+                if (e.target.value) setMiniPlayer(true);
+              }}
               className="w-full bg-white/5 border border-white/10 rounded-xl lg:rounded-2xl py-2 lg:py-3 pl-11 pr-4 outline-none focus:border-blue-500 focus:bg-white/10 transition-all font-bold text-xs lg:text-sm placeholder:text-white/20"
             />
           </div>
@@ -144,12 +305,59 @@ const App: React.FC = () => {
           </div>
         )}
 
-        <div className="p-4 md:p-8 lg:p-12 space-y-12">
-          {currentVideo ? (
-            <div className="space-y-8 animate-in fade-in slide-in-from-bottom-6 duration-700">
-              <div className="flex items-center justify-between">
-                <button onClick={() => setCurrentVideo(null)} className="flex items-center gap-2 text-white/40 hover:text-white transition-all font-black uppercase text-[10px] tracking-widest">
-                  <ChevronRight className="w-4 h-4 rotate-180" /> Back
+        {storageError && (
+          <div className="mx-4 md:mx-8 lg:mx-12 mt-4 p-4 bg-amber-500/10 border border-amber-500/20 rounded-2xl flex items-center justify-between gap-4 animate-in slide-in-from-top-4 duration-500">
+            <div className="flex items-center gap-3 text-amber-500">
+              <AlertCircle className="w-5 h-5 flex-shrink-0" />
+              <span className="text-[10px] font-black uppercase tracking-widest leading-relaxed">{storageError}</span>
+            </div>
+            <button onClick={() => setStorageError(null)} className="text-white/40 hover:text-white transition-colors flex-shrink-0"><X className="w-4 h-4" /></button>
+          </div>
+        )}
+
+        {(vaultNotice || (missingCount > 0 && supportsDirectoryPicker())) && (
+          <div className="mx-4 md:mx-8 lg:mx-12 mt-4 p-4 bg-blue-600/10 border border-blue-500/20 rounded-2xl flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3 text-blue-400">
+              <FolderSearch className="w-5 h-5 flex-shrink-0" />
+              <span className="text-[10px] font-black uppercase tracking-widest leading-relaxed">
+                {vaultNotice || `${missingCount} ${missingCount === 1 ? 'entry needs its' : 'entries need their'} local file`}
+              </span>
+            </div>
+            <div className="flex items-center gap-3 flex-shrink-0">
+              {missingCount > 0 && supportsDirectoryPicker() && (
+                <button onClick={relinkMissing} className="px-4 py-2 bg-blue-600 rounded-xl font-black text-[10px] uppercase tracking-widest">Relink Folder</button>
+              )}
+              {vaultNotice && <button onClick={() => setVaultNotice(null)} className="text-white/40 hover:text-white transition-colors"><X className="w-4 h-4" /></button>}
+            </div>
+          </div>
+        )}
+
+        {quarantine.length > 0 && (
+          <div className="mx-4 md:mx-8 lg:mx-12 mt-4 p-4 bg-white/5 border border-white/10 rounded-2xl flex items-center justify-between gap-4">
+            <div className="flex items-center gap-3 text-white/60">
+              <AlertCircle className="w-5 h-5 flex-shrink-0" />
+              <span className="text-[10px] font-black uppercase tracking-widest leading-relaxed">{quarantine.length} vault {quarantine.length === 1 ? 'entry' : 'entries'} could not be restored and were set aside</span>
+            </div>
+            <button onClick={clearQuarantine} className="px-4 py-2 bg-white/10 hover:bg-red-600 rounded-xl font-black text-[10px] uppercase tracking-widest transition-all flex-shrink-0">Discard</button>
+          </div>
+        )}
+
+        {/* Room below the library for the docked mini-player. Outside theater mode, wide screens put the side
+            panels next to the player; the last row takes their overflow so the details stay under the player. */}
+        <div className={`p-4 md:p-8 lg:p-12 ${isMiniPlayer ? 'pb-44 md:pb-56' : ''} ${showDetail && !isTheater ? 'xl:grid xl:grid-cols-3 xl:grid-rows-[auto_auto_1fr] xl:gap-x-8' : ''}`}>
+          {/* The player keeps this slot while browsing, so docking it as the mini-player never interrupts playback */}
+          {showDetail && (
+            <div className="flex items-center justify-between mb-8 xl:col-span-3 animate-in fade-in slide-in-from-bottom-6 duration-700">
+              <button onClick={() => setMiniPlayer(true)} className="flex items-center gap-2 text-white/40 hover:text-white transition-all font-black uppercase text-[10px] tracking-widest">
+                <ChevronRight className="w-4 h-4 rotate-180" /> Back
+              </button>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={() => setWatched([currentVideo.id], !currentVideo.watched)}
+                  title={currentVideo.watched ? 'Mark unwatched' : 'Mark watched'}
+                  className={`p-2 rounded-xl transition-all ${currentVideo.watched ? 'text-emerald-500 bg-emerald-500/10' : 'text-white/20 bg-white/5'}`}
+                >
+                  <CheckCircle2 className="w-5 h-5" />
                 </button>
                 <button 
                   onClick={() => toggleFavorite(currentVideo.id)}
@@ -158,44 +366,75 @@ const App: React.FC = () => {
                   <Heart className={`w-5 h-5 ${currentVideo.favorite ? 'fill-current' : ''}`} />
                 </button>
               </div>
+            </div>
+          )}
 
-              <VideoPlayer video={currentVideo} />
+          {currentVideo && <VideoPlayer video={currentVideo} mini={isMiniPlayer} />}
 
-              <div className="grid grid-cols-1 xl:grid-cols-3 gap-8">
-                <div className="xl:col-span-2 space-y-8">
-                  <div>
-                    <h1 className="text-2xl md:text-5xl font-black mb-4 tracking-tighter leading-tight break-words uppercase italic">{currentVideo.title}</h1>
-                    <div className="flex flex-wrap items-center gap-4 md:gap-8">
-                      <p className="text-white/30 font-bold uppercase tracking-widest text-[9px] flex items-center gap-2"><Clock className="w-3 h-3" /> Added {new Date(currentVideo.addedAt).toLocaleDateString()}</p>
+          {showDetail ? (
+            <div className={`grid grid-cols-1 gap-8 mt-8 animate-in fade-in slide-in-from-bottom-6 duration-700 ${isTheater ? 'xl:grid-cols-3' : 'xl:contents'}`}>
+              <div className={`xl:col-span-2 space-y-8 ${isTheater ? '' : 'xl:mt-8'}`}>
+                <div>
+                  <h1 className="text-2xl md:text-5xl font-black mb-4 tracking-tighter leading-tight break-words uppercase italic">{currentVideo.title}</h1>
+                  {isAudioItem(currentVideo) && (
+                    <p className="-mt-2 mb-4 text-blue-500 font-black uppercase tracking-widest text-[10px] md:text-xs">{trackArtist(currentVideo)}</p>
+                  )}
+                  <div className="flex flex-wrap items-center gap-4 md:gap-8">
+                    <p className="text-white/30 font-bold uppercase tracking-widest text-[9px] flex items-center gap-2"><Clock className="w-3 h-3" /> Added {new Date(currentVideo.addedAt).toLocaleDateString()}</p>
+                    {currentVideo.metadata?.unsupported?.length ? (
+                      <div className="flex items-center gap-2 text-red-500 font-black text-[9px] uppercase tracking-widest"><AlertCircle className="w-3 h-3" /> No decoder for {currentVideo.metadata.unsupported.join(', ')}</div>
+                    ) : (
                       <div className="flex items-center gap-2 text-blue-500 font-black text-[9px] uppercase tracking-widest"><span className="w-2 h-2 rounded-full bg-blue-500 animate-pulse"></span> Hardware Optimized</div>
-                    </div>
-                  </div>
-                  <div className="bg-[#0c0c0c] p-6 md:p-10 rounded-[2rem] border border-white/5 grid grid-cols-2 md:grid-cols-4 gap-6">
-                    {[{l:'Resolution', v:`${currentVideo.metadata?.width}p`}, {l:'Size', v:formatFileSize(currentVideo.metadata?.size || 0)}, {l:'Bitrate', v:'Optimal'}, {l:'Format', v:currentVideo.metadata?.format?.toUpperCase() || 'N/A'}].map(i => (
-                      <div key={i.l} className="space-y-1">
-                        <div className="text-[8px] font-black uppercase tracking-widest opacity-30">{i.l}</div>
-                        <div className="font-black text-sm md:text-lg">{i.v}</div>
-                      </div>
-                    ))}
+                    )}
                   </div>
                 </div>
-                
-                <div className="space-y-6">
-                  <h3 className="text-[10px] font-black uppercase tracking-widest opacity-20 px-2">Next in Vault</h3>
-                  <div className="space-y-3">
-                    {displayVideos.filter(v => v.id !== currentVideo.id).slice(0, 8).map(v => (
-                      <button key={v.id} onClick={() => setCurrentVideo(v.id)} className="w-full flex gap-4 p-3 rounded-2xl hover:bg-white/5 transition-all text-left group">
-                        <div className="w-24 md:w-32 aspect-video rounded-xl bg-zinc-900 overflow-hidden relative border border-white/5 flex-shrink-0">
-                          {v.thumbnail && <img src={v.thumbnail} className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-500" />}
-                          <div className="absolute bottom-1 right-1 bg-black/80 px-1.5 py-0.5 rounded text-[8px] font-black">{formatTime(v.metadata?.duration || 0)}</div>
-                        </div>
-                        <div className="min-w-0 py-1">
-                          <h4 className="font-black text-[10px] md:text-xs text-white/80 line-clamp-2 leading-tight uppercase italic group-hover:text-blue-500 transition-colors">{v.title}</h4>
-                        </div>
-                      </button>
+                <div className="bg-[#0c0c0c] p-6 md:p-10 rounded-[2rem] border border-white/5 grid grid-cols-2 md:grid-cols-4 gap-6">
+                  {/* Song tags take the place of the picture details for audio items */}
+                  {[
+                    ...(isAudioItem(currentVideo) ? [
+                      {l:'Artist', v:trackArtist(currentVideo)},
+                      {l:'Album', v:currentVideo.audioTags?.album || 'N/A'},
+                      {l:'Track', v:currentVideo.audioTags?.track ? `${currentVideo.audioTags.track}${currentVideo.audioTags.trackTotal ? ` / ${currentVideo.audioTags.trackTotal}` : ''}` : 'N/A'},
+                      {l:'Year', v:currentVideo.audioTags?.year ? String(currentVideo.audioTags.year) : 'N/A'},
+                    ] : [
+                      {l:'Resolution', v: currentVideo.metadata?.width ? `${currentVideo.metadata.width}×${currentVideo.metadata.height}` : 'N/A'},
+                      {l:'Size', v:formatFileSize(currentVideo.metadata?.size || 0)},
+                    ]),
+                    {l:'Bitrate', v:formatBitrate(currentVideo.metadata?.bitrate)},
+                    {l:'Format', v:(currentVideo.metadata?.container || currentVideo.metadata?.format)?.toUpperCase() || 'N/A'},
+                    ...(isAudioItem(currentVideo) ? [] : [
+                      {l:'Video', v:currentVideo.metadata?.videoCodec?.toUpperCase() || 'N/A'},
+                      {l:'Frame Rate', v:currentVideo.metadata?.frameRate ? `${+currentVideo.metadata.frameRate.toFixed(3)} fps` : 'N/A'},
+                    ]),
+                    {l:'Audio', v:currentVideo.metadata?.audioCodec?.toUpperCase() || 'N/A'},
+                    {l:'Channels', v:formatChannels(currentVideo.metadata?.audioChannels)},
+                  ].map(i => (
+                    <div key={i.l} className="space-y-1 min-w-0">
+                      <div className="text-[8px] font-black uppercase tracking-widest opacity-30">{i.l}</div>
+                      <div className="font-black text-sm md:text-lg truncate" title={i.v}>{i.v}</div>
+                    </div>
+                  ))}
+                </div>
+                {currentVideo.metadata?.tracks?.some(t => t.kind !== 'video') && (
+                  <div className="bg-[#0c0c0c] p-6 md:p-10 rounded-[2rem] border border-white/5 space-y-3">
+                    <div className="text-[8px] font-black uppercase tracking-widest opacity-30">Embedded Tracks</div>
+                    {currentVideo.metadata.tracks.filter(t => t.kind !== 'video').map(t => (
+                      <div key={`${t.kind}-${t.id}`} className="flex flex-wrap items-center gap-3 text-[10px] font-black uppercase tracking-widest">
+                        <span className={`px-2 py-0.5 rounded-md ${t.kind === 'audio' ? 'bg-blue-600/20 text-blue-400' : 'bg-emerald-600/20 text-emerald-400'}`}>{t.kind}</span>
+                        <span>{t.codec}</span>
+                        {t.language && <span className="opacity-40">{t.language}</span>}
+                        {t.channels && <span className="opacity-40">{formatChannels(t.channels)}</span>}
+                        {t.name && <span className="opacity-40 normal-case tracking-normal truncate">{t.name}</span>}
+                      </div>
                     ))}
                   </div>
-                </div>
+                )}
+                <VideoDetailsEditor video={currentVideo} />
+              </div>
+              
+              <div className={`space-y-8 ${isTheater ? '' : 'xl:col-start-3 xl:row-start-2 xl:row-span-2'}`}>
+                <MarkersPanel video={currentVideo} />
+                <UpNext />
               </div>
             </div>
           ) : (
@@ -203,45 +442,119 @@ const App: React.FC = () => {
               <Uploader />
               
               <div className="mt-12 space-y-8">
-                <div className="flex items-center justify-between border-b border-white/5 pb-4">
-                  <h2 className="text-xl md:text-2xl font-black uppercase tracking-widest italic flex items-center gap-3">
+                {currentView === 'library' && !searchQuery && <ContinueWatching />}
+
+                <div className="flex flex-wrap items-center justify-between gap-4 border-b border-white/5 pb-4">
+                  <h2 className="text-xl md:text-2xl font-black uppercase tracking-widest italic flex items-center gap-3 min-w-0">
                     {currentView === 'library' && <><Library className="w-6 h-6 text-blue-500" /> Vault</>}
                     {currentView === 'collection' && <><Heart className="w-6 h-6 text-red-500" /> Collection</>}
                     {currentView === 'recent' && <><History className="w-6 h-6 text-emerald-500" /> History</>}
+                    {currentView === 'playlists' && <><ListVideo className="w-6 h-6 text-blue-500" /> Playlists</>}
+                    {currentView === 'duplicates' && <><Copy className="w-6 h-6 text-amber-500" /> Duplicates</>}
+                    {currentView === 'folders' && <><FolderTree className="w-6 h-6 text-emerald-500" /> Folders</>}
+                    {currentView === 'artists' && <><MicVocal className="w-6 h-6 text-pink-500" /> Artists</>}
+                    {currentView === 'albums' && <><Disc3 className="w-6 h-6 text-pink-500" /> Albums</>}
+                    {currentView === 'smart' && <><Sparkles className="w-6 h-6 text-violet-500 flex-shrink-0" /> <span className="truncate">{activeSmart?.name}</span></>}
                   </h2>
-                  <div className="text-[10px] font-black opacity-30 uppercase tracking-[0.2em]">{displayVideos.length} Assets</div>
+                  <div className="flex flex-wrap items-center gap-4">
+                    {currentView !== 'playlists' && <LibraryControls />}
+                    <div className="text-[10px] font-black opacity-30 uppercase tracking-[0.2em]">
+                      {currentView !== 'playlists' ? `${displayVideos.length} Assets` : openPlaylistId ? '' : `${playlists.length} Playlists`}
+                    </div>
+                    {activeSmart && (
+                      <button onClick={() => setEditingSmart(activeSmart)} className="p-2 rounded-xl text-white/20 bg-white/5 hover:text-white transition-all" title="Edit rules">
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                    )}
+                    {currentView !== 'playlists' && (
+                      <button
+                        onClick={() => setSelectedIds(selectedIds ? null : [])} disabled={displayVideos.length === 0} title="Select to tag"
+                        className={`p-2 rounded-xl transition-all disabled:opacity-20 ${selectedIds ? 'text-blue-500 bg-blue-500/10' : 'text-white/20 bg-white/5 hover:text-white'}`}
+                      >
+                        <CheckSquare className="w-4 h-4" />
+                      </button>
+                    )}
+                    {currentView !== 'playlists' && <PlaylistExportButton name={activeSmart?.name || openMusic?.name || VIEW_NAMES[currentView]} videos={displayVideos} />}
+                  </div>
                 </div>
 
-                {displayVideos.length > 0 ? (
-                  <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-6">
-                    {displayVideos.map(v => (
-                      <div key={v.id} onClick={() => setCurrentVideo(v.id)} className="group cursor-pointer">
-                        <div className="aspect-video rounded-[1.5rem] md:rounded-[2rem] overflow-hidden bg-zinc-900 border border-white/5 transition-all duration-500 group-hover:scale-[1.02] group-hover:shadow-2xl relative">
-                          {v.thumbnail ? <img src={v.thumbnail} className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-1000" /> : <div className="w-full h-full flex items-center justify-center opacity-10"><Play className="w-12 h-12" /></div>}
-                          <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center backdrop-blur-[2px]">
-                            <Play className="w-10 h-10 fill-white text-white" />
+                {currentView === 'folders' && (
+                  <div className="space-y-6">
+                    {browsePath && (
+                      <div className="flex flex-wrap items-center gap-2 text-[10px] font-black uppercase tracking-widest">
+                        <button onClick={() => setBrowsePath(null)} className="text-white/40 hover:text-white transition-colors">All Folders</button>
+                        {[folders.find(f => f.id === browsePath.folderId)?.name || 'Folder', ...browsePath.dir.split('/').filter(Boolean)].map((name, i, parts) => (
+                          <React.Fragment key={i}>
+                            <ChevronRight className="w-3 h-3 opacity-20" />
+                            <button
+                              onClick={() => setBrowsePath({ folderId: browsePath.folderId, dir: parts.slice(1, i + 1).map(p => `${p}/`).join('') })}
+                              className={i === parts.length - 1 ? 'text-emerald-500' : 'text-white/40 hover:text-white transition-colors'}
+                            >
+                              {name}
+                            </button>
+                          </React.Fragment>
+                        ))}
+                      </div>
+                    )}
+                    <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6 gap-4">
+                      {(browsePath
+                        ? (folderListing?.subfolders || []).map(sub => ({ key: sub.dir, name: sub.name, count: sub.count, open: () => setBrowsePath({ ...browsePath, dir: sub.dir }) }))
+                        : folders.map(f => ({ key: f.id, name: f.name, count: videos.filter(v => v.folderId === f.id).length, open: () => setBrowsePath({ folderId: f.id, dir: '' }) }))
+                      ).map(tile => (
+                        <button key={tile.key} onClick={tile.open} className="flex items-center gap-3 p-4 rounded-2xl bg-[#0c0c0c] border border-white/5 hover:border-emerald-500/30 transition-all text-left min-w-0">
+                          <Folder className="w-6 h-6 text-emerald-500 flex-shrink-0" />
+                          <div className="min-w-0">
+                            <p className="font-black text-[10px] uppercase tracking-widest truncate">{tile.name}</p>
+                            <p className="text-[8px] font-bold uppercase tracking-widest opacity-30">{tile.count} Assets</p>
                           </div>
-                          {v.progress && (
-                            <div className="absolute bottom-0 left-0 h-1 bg-blue-600 shadow-[0_0_10px_#2563eb]" style={{width: `${Math.min(100, (v.progress/(v.metadata?.duration||1))*100)}%`}} />
-                          )}
-                        </div>
-                        <div className="mt-4 flex items-start justify-between px-2">
-                          <div className="min-w-0 pr-2">
-                            <h3 className="font-black text-xs md:text-sm uppercase italic truncate leading-none mb-1">{v.title}</h3>
-                            <div className="flex items-center gap-2">
-                              {v.favorite && <Heart className="w-3 h-3 text-red-500 fill-current" />}
-                              <span className="text-[9px] font-bold uppercase tracking-widest opacity-30">{v.metadata?.format?.toUpperCase() || 'MEDIA'} • {formatTime(v.metadata?.duration || 0)}</span>
+                        </button>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                {isMusicView && (
+                  <div className="space-y-6">
+                    {openMusic && (
+                      <div className="flex flex-wrap items-center gap-2 text-[10px] font-black uppercase tracking-widest">
+                        <button onClick={() => setMusicKey(null)} className="text-white/40 hover:text-white transition-colors">All {currentView === 'artists' ? 'Artists' : 'Albums'}</button>
+                        <ChevronRight className="w-3 h-3 opacity-20" />
+                        <span className="text-pink-500">{openMusic.name}</span>
+                      </div>
+                    )}
+                    {!openMusic && (
+                      <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6 gap-4">
+                        {musicEntries.map(entry => (
+                          <button key={entry.key} onClick={() => setMusicKey(entry.key)} className="group p-3 rounded-2xl bg-[#0c0c0c] border border-white/5 hover:border-pink-500/30 transition-all text-left min-w-0">
+                            <div className={`aspect-square bg-zinc-900 overflow-hidden mb-3 flex items-center justify-center ${currentView === 'artists' ? 'rounded-full' : 'rounded-xl'}`}>
+                              {entry.cover ? <img src={entry.cover} loading="lazy" className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-700" /> : <Music className="w-8 h-8 opacity-10" />}
                             </div>
-                          </div>
-                          <button onClick={(e) => {e.stopPropagation(); removeVideo(v.id)}} className="text-white/10 hover:text-red-500 transition-colors flex-shrink-0 p-1 -mt-1"><Trash2 className="w-4 h-4" /></button>
-                        </div>
+                            <p className="font-black text-[10px] uppercase tracking-widest truncate">{entry.name}</p>
+                            <p className="text-[8px] font-bold uppercase tracking-widest opacity-30 truncate">{entry.detail} • {entry.tracks.length} {entry.tracks.length === 1 ? 'Track' : 'Tracks'}</p>
+                          </button>
+                        ))}
                       </div>
-                    ))}
+                    )}
                   </div>
-                ) : (
+                )}
+
+                {currentView === 'playlists' && (
+                  <PlaylistView playlistId={openPlaylistId} onOpen={setOpenPlaylistId} query={searchQuery} />
+                )}
+
+                {currentView !== 'playlists' && <SubtitleSearchResults videos={viewVideos} query={parsedQuery} />}
+
+                {displayVideos.length > 0 ? (
+                  <VirtualLibrary
+                    groups={videoGroups}
+                    selectedIds={selectedIds}
+                    showPath={currentView === 'duplicates'}
+                    onOpen={(v) => selectedIds ? toggleSelected(v.id) : playVideos(displayVideos.map(d => d.id), displayVideos.indexOf(v))}
+                  />
+                ) : (currentView === 'folders' && folders.length > 0 && !searchQuery) || (isMusicView && !openMusic && musicEntries.length > 0) || currentView === 'playlists' ? null : (
                   <div className="py-24 md:py-40 text-center opacity-20 font-black uppercase tracking-[0.4em] bg-white/[0.02] rounded-[3rem] border border-dashed border-white/10 mx-2 flex flex-col items-center gap-4">
                     <Search className="w-12 h-12 opacity-40" />
-                    {searchQuery ? 'Asset not found' : `Your vault is empty`}
+                    {searchQuery ? 'Asset not found' : currentView === 'folders' ? 'No synced folders' : isMusicView ? 'No music in the vault' : currentView === 'smart' ? 'Nothing matches these rules' : `Your vault is empty`}
                   </div>
                 )}
               </div>
@@ -251,26 +564,84 @@ const App: React.FC = () => {
       </main>
 
       {/* Mobile Sticky Bottom Navigation */}
-      <nav className="fixed bottom-0 inset-x-0 bg-[#070707]/90 backdrop-blur-2xl border-t border-white/5 flex lg:hidden items-center justify-around py-3 px-6 z-50 safe-bottom shadow-[0_-10px_30px_rgba(0,0,0,0.5)]">
+      <nav className="fixed bottom-0 inset-x-0 bg-[#070707]/90 backdrop-blur-2xl border-t border-white/5 flex lg:hidden items-center justify-between gap-6 overflow-x-auto py-3 px-6 z-50 safe-bottom shadow-[0_-10px_30px_rgba(0,0,0,0.5)]">
         <button 
-          onClick={() => { setCurrentView('library'); setCurrentVideo(null); setSearchQuery(''); }}
-          className={`flex flex-col items-center gap-1 transition-all ${currentView === 'library' ? 'text-blue-500 scale-110' : 'text-white/30'}`}
+          onClick={() => openView('library')}
+          className={`flex flex-col items-center gap-1 flex-shrink-0 transition-all ${currentView === 'library' ? 'text-blue-500 scale-110' : 'text-white/30'}`}
         >
           <Library className="w-6 h-6" /><span className="text-[8px] font-black uppercase tracking-widest">Vault</span>
         </button>
         <button 
-          onClick={() => { setCurrentView('collection'); setCurrentVideo(null); setSearchQuery(''); }}
-          className={`flex flex-col items-center gap-1 transition-all ${currentView === 'collection' ? 'text-red-500 scale-110' : 'text-white/30'}`}
+          onClick={() => openView('collection')}
+          className={`flex flex-col items-center gap-1 flex-shrink-0 transition-all ${currentView === 'collection' ? 'text-red-500 scale-110' : 'text-white/30'}`}
         >
           <Heart className="w-6 h-6" /><span className="text-[8px] font-black uppercase tracking-widest">Liked</span>
         </button>
         <button 
-          onClick={() => { setCurrentView('recent'); setCurrentVideo(null); setSearchQuery(''); }}
-          className={`flex flex-col items-center gap-1 transition-all ${currentView === 'recent' ? 'text-emerald-500 scale-110' : 'text-white/30'}`}
+          onClick={() => openView('recent')}
+          className={`flex flex-col items-center gap-1 flex-shrink-0 transition-all ${currentView === 'recent' ? 'text-emerald-500 scale-110' : 'text-white/30'}`}
         >
           <History className="w-6 h-6" /><span className="text-[8px] font-black uppercase tracking-widest">History</span>
         </button>
+        <button 
+          onClick={() => openView('playlists')}
+          className={`flex flex-col items-center gap-1 flex-shrink-0 transition-all ${currentView === 'playlists' ? 'text-blue-500 scale-110' : 'text-white/30'}`}
+        >
+          <ListVideo className="w-6 h-6" /><span className="text-[8px] font-black uppercase tracking-widest">Lists</span>
+        </button>
+        <button 
+          onClick={() => openView('folders')}
+          className={`flex flex-col items-center gap-1 flex-shrink-0 transition-all ${currentView === 'folders' ? 'text-emerald-500 scale-110' : 'text-white/30'}`}
+        >
+          <FolderTree className="w-6 h-6" /><span className="text-[8px] font-black uppercase tracking-widest">Folders</span>
+        </button>
+        <button 
+          onClick={() => openView('artists')}
+          className={`flex flex-col items-center gap-1 flex-shrink-0 transition-all ${currentView === 'artists' ? 'text-pink-500 scale-110' : 'text-white/30'}`}
+        >
+          <MicVocal className="w-6 h-6" /><span className="text-[8px] font-black uppercase tracking-widest">Artists</span>
+        </button>
+        <button 
+          onClick={() => openView('albums')}
+          className={`flex flex-col items-center gap-1 flex-shrink-0 transition-all ${currentView === 'albums' ? 'text-pink-500 scale-110' : 'text-white/30'}`}
+        >
+          <Disc3 className="w-6 h-6" /><span className="text-[8px] font-black uppercase tracking-widest">Albums</span>
+        </button>
+        <button 
+          onClick={() => openView('duplicates')}
+          className={`flex flex-col items-center gap-1 flex-shrink-0 transition-all ${currentView === 'duplicates' ? 'text-amber-500 scale-110' : 'text-white/30'}`}
+        >
+          <Copy className="w-6 h-6" /><span className="text-[8px] font-black uppercase tracking-widest">Dupes</span>
+        </button>
+        {smartCollections.map(c => (
+          <button 
+            key={c.id}
+            onClick={() => openView('smart', c.id)}
+            className={`flex flex-col items-center gap-1 flex-shrink-0 max-w-[4.5rem] transition-all ${activeSmart?.id === c.id ? 'text-violet-500 scale-110' : 'text-white/30'}`}
+          >
+            <Sparkles className="w-6 h-6" /><span className="text-[8px] font-black uppercase tracking-widest truncate max-w-full">{c.name}</span>
+          </button>
+        ))}
+        <button 
+          onClick={() => setEditingSmart('new')}
+          className="flex flex-col items-center gap-1 flex-shrink-0 transition-all text-white/30"
+        >
+          <Plus className="w-6 h-6" /><span className="text-[8px] font-black uppercase tracking-widest">Smart</span>
+        </button>
       </nav>
+
+      {selectedIds && !showDetail && (
+        <BulkTagBar selectedIds={selectedIds} visibleIds={displayVideos.map(v => v.id)} onSelect={setSelectedIds} onClose={() => setSelectedIds(null)} />
+      )}
+
+      {editingSmart && (
+        <SmartCollectionEditor
+          collection={editingSmart === 'new' ? null : editingSmart}
+          onClose={() => setEditingSmart(null)}
+          onSaved={(id) => { setEditingSmart(null); openView('smart', id); }}
+          onDeleted={() => { setEditingSmart(null); openView('library'); }}
+        />
+      )}
     </div>
   );
 };
@@ -0,0 +1,201 @@
+import React, { useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import { VideoItem, PictureAdjustments, AudioAdjustments, AspectOverride } from '../types';
+import { useVideoStore } from '../store';
+import {
+  DEFAULT_PICTURE, DEFAULT_AUDIO, EQ_BANDS, EQ_RANGE, EQ_PRESETS, MAX_BOOST, ASPECT_RATIOS,
+  MIN_LOUDNESS_TARGET, MAX_LOUDNESS_TARGET, presetFor, isDefaultPicture, isDefaultAudio,
+} from '../utils/adjustments';
+import { loudnessFailed } from '../utils/loudness';
+
+interface AdjustmentsMenuProps {
+  video: VideoItem;
+  soundOnly?: boolean; // Audio items have no picture to adjust
+}
+
+const ROTATIONS: PictureAdjustments['rotation'][] = [0, 90, 180, 270];
+const ASPECTS: AspectOverride[] = ['auto', ...(Object.keys(ASPECT_RATIOS) as AspectOverride[])];
+
+// Why a video has no loudness measurement yet
+const loudnessHint = (video: VideoItem, normalize: boolean) => {
+  const skip = video.metadata?.loudnessSkip;
+  if (skip === 'too-large') return 'This video is too large to measure';
+  if (skip === 'no-audio') return 'This video has no audio that can be decoded';
+  if (!normalize) return 'Videos are measured while normalization is on';
+  return loudnessFailed(video.id) ? 'Measuring this video failed' : 'This video has not been measured yet';
+};
+
+const SectionLabel = ({ children }: { children: React.ReactNode }) => (
+  <div className="text-[8px] font-black uppercase tracking-widest opacity-30 px-3 mt-3 mb-2">{children}</div>
+);
+
+const inputClass = 'w-16 bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-[10px] font-black text-right outline-none focus:border-blue-500';
+
+const chipClass = (selected: boolean) =>
+  `px-2 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all ${
+    selected ? 'bg-blue-600 text-white' : 'bg-white/5 text-white/40 hover:bg-white/10 hover:text-white'
+  }`;
+
+interface SliderRowProps {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  step?: number;
+  onChange: (value: number) => void;
+}
+
+// Double-clicking the value puts the slider back at 100%
+const SliderRow: React.FC<SliderRowProps> = ({ label, value, min, max, step = 1, onChange }) => (
+  <label className="block px-3 py-1">
+    <span className="flex items-center justify-between text-[9px] font-black uppercase tracking-widest text-white/60">
+      {label}
+      <span onDoubleClick={() => onChange(100)} className="tabular-nums text-white/40 cursor-pointer" title="Double-click to reset">{Math.round(value)}%</span>
+    </span>
+    <input
+      type="range" min={min} max={max} step={step} value={value}
+      onChange={(e) => onChange(Number(e.target.value))}
+      className="w-full h-1 accent-blue-500 cursor-pointer rounded-full"
+    />
+  </label>
+);
+
+const formatBand = (hz: number) => (hz >= 1000 ? `${hz / 1000}k` : String(hz));
+
+// Picture settings apply to every video unless this one has its own; audio settings are global
+const AdjustmentsMenu: React.FC<AdjustmentsMenuProps> = ({ video, soundOnly = false }) => {
+  const { settings, updateSettings, updateVideo } = useVideoStore();
+  const [tab, setTab] = useState<'picture' | 'audio'>(soundOnly ? 'audio' : 'picture');
+
+  const picture = video.picture ?? settings.picture;
+  const audio = settings.audio;
+  const preset = presetFor(audio.eq);
+  const loudness = video.metadata?.loudness;
+
+  const setPicture = (patch: Partial<PictureAdjustments>) => {
+    if (video.picture) updateVideo(video.id, { picture: { ...video.picture, ...patch } });
+    else updateSettings({ picture: { ...settings.picture, ...patch } });
+  };
+  const setAudio = (patch: Partial<AudioAdjustments>) => updateSettings({ audio: { ...audio, ...patch } });
+  const setTarget = (value: string) => {
+    const target = Number(value);
+    if (Number.isFinite(target)) updateSettings({ loudnessTarget: Math.min(MAX_LOUDNESS_TARGET, Math.max(MIN_LOUDNESS_TARGET, target)) });
+  };
+  const setBand = (index: number, gain: number) => setAudio({ eq: audio.eq.map((g, i) => (i === index ? gain : g)) });
+
+  const isReset = tab === 'picture' ? isDefaultPicture(picture) : isDefaultAudio(audio);
+  const reset = () => (tab === 'picture' ? setPicture(DEFAULT_PICTURE) : updateSettings({ audio: DEFAULT_AUDIO }));
+
+  return (
+    <div className="absolute bottom-20 right-4 lg:right-12 w-72 bg-black/95 backdrop-blur-3xl border border-white/10 rounded-2xl lg:rounded-3xl p-2 lg:p-3 z-50 animate-in slide-in-from-bottom-4 shadow-2xl max-h-72 lg:max-h-[32rem] overflow-y-auto">
+      <div className="flex items-center gap-1 px-1">
+        {soundOnly ? (
+          <span className="flex-1 px-2 text-[9px] font-black uppercase tracking-widest text-white/60">Audio</span>
+        ) : (['picture', 'audio'] as const).map(t => (
+          <button key={t} onClick={() => setTab(t)} className={`flex-1 ${chipClass(tab === t)}`}>{t}</button>
+        ))}
+        <button onClick={reset} disabled={isReset} className="p-1.5 text-white/40 hover:text-white disabled:opacity-20 transition-colors" title={`Reset ${tab}`}>
+          <RotateCcw className="w-3.5 h-3.5" />
+        </button>
+      </div>
+
+      {tab === 'picture' ? (
+        <>
+          <SectionLabel>Applies To</SectionLabel>
+          <div className="flex gap-1 px-3">
+            <button onClick={() => updateVideo(video.id, { picture: undefined })} className={chipClass(!video.picture)}>All videos</button>
+            <button onClick={() => !video.picture && updateVideo(video.id, { picture: settings.picture })} className={chipClass(!!video.picture)}>This video</button>
+          </div>
+
+          <SectionLabel>Color</SectionLabel>
+          <SliderRow label="Brightness" value={picture.brightness} min={0} max={200} onChange={(brightness) => setPicture({ brightness })} />
+          <SliderRow label="Contrast" value={picture.contrast} min={0} max={200} onChange={(contrast) => setPicture({ contrast })} />
+          <SliderRow label="Saturation" value={picture.saturation} min={0} max={300} onChange={(saturation) => setPicture({ saturation })} />
+
+          <SectionLabel>Rotate &amp; Flip</SectionLabel>
+          <div className="flex flex-wrap gap-1 px-3">
+            {ROTATIONS.map(rotation => (
+              <button key={rotation} onClick={() => setPicture({ rotation })} className={chipClass(picture.rotation === rotation)}>{rotation}°</button>
+            ))}
+            <button onClick={() => setPicture({ flipH: !picture.flipH })} className={chipClass(picture.flipH)}>Flip H</button>
+            <button onClick={() => setPicture({ flipV: !picture.flipV })} className={chipClass(picture.flipV)}>Flip V</button>
+          </div>
+
+          <SectionLabel>Shape</SectionLabel>
+          <div className="flex flex-wrap gap-1 px-3 mb-1">
+            {ASPECTS.map(aspect => (
+              <button key={aspect} onClick={() => setPicture({ aspect })} className={chipClass(picture.aspect === aspect)}>{aspect === 'auto' ? 'Original' : aspect}</button>
+            ))}
+          </div>
+          <SliderRow label="Zoom" value={picture.zoom} min={100} max={300} step={5} onChange={(zoom) => setPicture({ zoom })} />
+        </>
+      ) : (
+        <>
+          <SectionLabel>Equalizer{preset ? ` • ${preset.name}` : ' • Custom'}</SectionLabel>
+          <div className="flex flex-wrap gap-1 px-3">
+            {EQ_PRESETS.map(p => (
+              <button key={p.name} onClick={() => setAudio({ eq: p.eq })} className={chipClass(preset === p)}>{p.name}</button>
+            ))}
+          </div>
+          <div className="grid grid-cols-10 gap-0.5 px-2 pt-4">
+            {EQ_BANDS.map((hz, i) => (
+              <div key={hz} className="flex flex-col items-center gap-1">
+                <span className="text-[7px] font-black tabular-nums text-white/40">{audio.eq[i] > 0 ? '+' : ''}{audio.eq[i]}</span>
+                <input
+                  type="range" min={-EQ_RANGE} max={EQ_RANGE} step={1} value={audio.eq[i]}
+                  onChange={(e) => setBand(i, Number(e.target.value))}
+                  onDoubleClick={() => setBand(i, 0)}
+                  className="h-24 w-3 accent-blue-500 cursor-pointer"
+                  style={{ writingMode: 'vertical-lr', direction: 'rtl' }}
+                  title={`${formatBand(hz)}Hz`}
+                />
+                <span className="text-[7px] font-black text-white/40">{formatBand(hz)}</span>
+              </div>
+            ))}
+          </div>
+
+          <SectionLabel>Output</SectionLabel>
+          <label className="block px-3 py-1">
+            <span className="flex items-center justify-between text-[9px] font-black uppercase tracking-widest text-white/60">
+              Volume Boost
+              <span className={`tabular-nums ${audio.boost > 1 ? 'text-amber-400' : 'text-white/40'}`}>{Math.round(audio.boost * 100)}%</span>
+            </span>
+            <input
+              type="range" min={1} max={MAX_BOOST} step={0.05} value={audio.boost}
+              onChange={(e) => setAudio({ boost: Number(e.target.value) })}
+              className="w-full h-1 accent-blue-500 cursor-pointer rounded-full"
+            />
+          </label>
+          <div className="flex gap-1 px-3 pt-1 pb-2">
+            <button onClick={() => setAudio({ mono: false })} className={chipClass(!audio.mono)}>Stereo</button>
+            <button onClick={() => setAudio({ mono: true })} className={chipClass(audio.mono)}>Mono</button>
+          </div>
+
+          <SectionLabel>Loudness</SectionLabel>
+          <div className="flex items-center justify-between gap-2 px-3">
+            <button onClick={() => updateSettings({ normalizeLoudness: !settings.normalizeLoudness })} className={chipClass(settings.normalizeLoudness)}>Normalize</button>
+            <label className="flex items-center gap-1 text-[9px] font-black uppercase tracking-widest text-white/60">
+              Target
+              <input
+                type="number" min={MIN_LOUDNESS_TARGET} max={MAX_LOUDNESS_TARGET} step={1} defaultValue={settings.loudnessTarget}
+                onBlur={(e) => setTarget(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+                className={inputClass}
+              />
+              LUFS
+            </label>
+          </div>
+          <p className="px-3 pt-2 pb-2 text-[8px] font-bold uppercase tracking-widest opacity-30 leading-relaxed">
+            {!loudness
+              ? loudnessHint(video, settings.normalizeLoudness)
+              : loudness.integrated === null
+                ? 'This video is silent'
+                : `This video: ${loudness.integrated} LUFS • peak ${loudness.peak ?? '-∞'} dBFS`}
+          </p>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default AdjustmentsMenu;
@@ -0,0 +1,85 @@
+import React, { useEffect, useRef } from 'react';
+import { VisualizerMode } from '../types';
+import { getAnalyser } from '../utils/audioGraph';
+
+interface AudioVisualizerProps {
+  mediaRef: React.RefObject<HTMLMediaElement | null>;
+  mode: VisualizerMode;
+  className?: string;
+}
+
+const BAR_COUNT = 64;
+const MIN_FREQUENCY = 30; // Hz; bars are spaced logarithmically from here to Nyquist
+const COLOR = '#3b82f6'; // Tailwind blue-500
+
+// Bin ranges of the spectrum bars, so each octave gets about the same width on screen
+const barBins = (binCount: number, sampleRate: number) => {
+  const nyquist = sampleRate / 2;
+  const edges = Array.from({ length: BAR_COUNT + 1 }, (_, i) =>
+    Math.min(binCount, Math.round((MIN_FREQUENCY * Math.pow(nyquist / MIN_FREQUENCY, i / BAR_COUNT)) / nyquist * binCount)));
+  return edges.slice(0, -1).map((start, i) => [start, Math.max(start + 1, edges[i + 1])] as const);
+};
+
+// Live spectrum or waveform of what the player outputs, after EQ and normalization
+const AudioVisualizer: React.FC<AudioVisualizerProps> = ({ mediaRef, mode, className }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const media = mediaRef.current;
+    const analyser = media && getAnalyser(media);
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !analyser || !ctx) return;
+
+    const frequencies = new Uint8Array(analyser.frequencyBinCount);
+    const samples = new Float32Array(analyser.fftSize);
+    const bins = barBins(analyser.frequencyBinCount, analyser.context.sampleRate);
+    let frame = 0;
+
+    const draw = () => {
+      frame = requestAnimationFrame(draw);
+      const dpr = window.devicePixelRatio || 1;
+      const width = Math.round(canvas.clientWidth * dpr);
+      const height = Math.round(canvas.clientHeight * dpr);
+      if (canvas.width !== width || canvas.height !== height) {
+        canvas.width = width;
+        canvas.height = height;
+      }
+      ctx.clearRect(0, 0, width, height);
+      ctx.fillStyle = COLOR;
+      ctx.strokeStyle = COLOR;
+
+      if (mode === 'spectrum') {
+        analyser.getByteFrequencyData(frequencies);
+        const slot = width / BAR_COUNT;
+        const gap = Math.max(1, slot * 0.25);
+        bins.forEach(([start, end], i) => {
+          let peak = 0;
+          for (let b = start; b < end; b++) peak = Math.max(peak, frequencies[b]);
+          const barHeight = Math.max(dpr * 2, (peak / 255) * height);
+          ctx.globalAlpha = 0.35 + 0.65 * (peak / 255);
+          ctx.fillRect(i * slot + gap / 2, height - barHeight, slot - gap, barHeight);
+        });
+        ctx.globalAlpha = 1;
+      } else {
+        analyser.getFloatTimeDomainData(samples);
+        ctx.lineWidth = 2 * dpr;
+        ctx.lineJoin = 'round';
+        ctx.beginPath();
+        for (let i = 0; i < samples.length; i++) {
+          const x = (i / (samples.length - 1)) * width;
+          const y = (0.5 - Math.max(-1, Math.min(1, samples[i])) / 2) * height;
+          if (i === 0) ctx.moveTo(x, y);
+          else ctx.lineTo(x, y);
+        }
+        ctx.stroke();
+      }
+    };
+    draw();
+    return () => cancelAnimationFrame(frame);
+  }, [mediaRef, mode]);
+
+  return <canvas ref={canvasRef} className={className} />;
+};
+
+export default AudioVisualizer;
@@ -0,0 +1,70 @@
+import React, { useMemo, useState } from 'react';
+import { X, Plus, Tag, CheckSquare } from 'lucide-react';
+import { useVideoStore } from '../store';
+import { collectTags } from '../utils/smartCollections';
+
+interface BulkTagBarProps {
+  selectedIds: string[];
+  visibleIds: string[];
+  onSelect: (ids: string[]) => void;
+  onClose: () => void;
+}
+
+// Floating bar shown while the grid is in selection mode; adds or strips tags on every selected item
+const BulkTagBar: React.FC<BulkTagBarProps> = ({ selectedIds, visibleIds, onSelect, onClose }) => {
+  const { videos, editTags } = useVideoStore();
+  const [newTag, setNewTag] = useState('');
+  const selected = useMemo(() => {
+    const ids = new Set(selectedIds);
+    return videos.filter(v => ids.has(v.id));
+  }, [videos, selectedIds]);
+  const selectionTags = useMemo(() => collectTags(selected), [selected]);
+  const knownTags = useMemo(() => collectTags(videos), [videos]);
+  const allSelected = visibleIds.length > 0 && visibleIds.every(id => selectedIds.includes(id));
+
+  const addTag = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newTag.trim() || selectedIds.length === 0) return;
+    editTags(selectedIds, [newTag], []);
+    setNewTag('');
+  };
+
+  return (
+    <div className="fixed bottom-24 lg:bottom-8 left-4 right-4 lg:left-80 lg:right-12 z-[120] bg-black/95 backdrop-blur-3xl border border-white/10 rounded-2xl p-4 shadow-2xl animate-in fade-in slide-in-from-bottom-4 flex flex-wrap items-center gap-3">
+      <span className="text-[10px] font-black uppercase tracking-widest text-blue-500">{selectedIds.length} Selected</span>
+      <button
+        onClick={() => onSelect(allSelected ? [] : visibleIds)}
+        className="flex items-center gap-2 px-3 py-1.5 rounded-lg bg-white/5 text-[10px] font-black uppercase tracking-widest text-white/60 hover:text-white transition-all"
+      >
+        <CheckSquare className="w-3 h-3" /> {allSelected ? 'Select None' : 'Select All'}
+      </button>
+
+      <form onSubmit={addTag} className="flex items-center gap-2">
+        <div className="relative">
+          <Tag className="absolute left-3 top-1/2 -translate-y-1/2 w-3 h-3 text-white/30" />
+          <input
+            value={newTag} onChange={(e) => setNewTag(e.target.value)} placeholder="Tag selection" list="bulk-tags"
+            className="w-40 bg-white/5 border border-white/10 rounded-lg pl-8 pr-3 py-1.5 text-[10px] font-bold outline-none focus:border-blue-500"
+          />
+        </div>
+        <button type="submit" disabled={!newTag.trim() || selectedIds.length === 0} className="p-1.5 rounded-lg bg-blue-600 disabled:opacity-20"><Plus className="w-3 h-3" /></button>
+        <datalist id="bulk-tags">
+          {knownTags.map(tag => <option key={tag} value={tag} />)}
+        </datalist>
+      </form>
+
+      <div className="flex flex-wrap items-center gap-2 flex-1 min-w-0">
+        {selectionTags.map(tag => (
+          <span key={tag} className="flex items-center gap-1.5 pl-3 pr-1.5 py-1 rounded-lg bg-blue-600/20 text-blue-400 text-[10px] font-black uppercase tracking-widest">
+            {tag}
+            <button onClick={() => editTags(selectedIds, [], [tag])} className="hover:text-white transition-colors" title="Remove from selection"><X className="w-3 h-3" /></button>
+          </span>
+        ))}
+      </div>
+
+      <button onClick={onClose} className="px-4 py-1.5 rounded-lg bg-white/10 hover:bg-white/20 font-black text-[10px] uppercase tracking-widest transition-all">Done</button>
+    </div>
+  );
+};
+
+export default BulkTagBar;
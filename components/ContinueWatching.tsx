@@ -0,0 +1,92 @@
+import React, { useMemo, useState } from 'react';
+import { Play, X, SlidersHorizontal } from 'lucide-react';
+import { useVideoStore } from '../store';
+import { formatTime } from '../utils/helpers';
+import { continueWatching } from '../utils/watchState';
+
+const inputClass = 'w-16 bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-[10px] font-black text-right outline-none focus:border-blue-500';
+
+// Resume rules live with the shelf they shape
+const WatchSettings: React.FC = () => {
+  const { settings, updateSettings } = useVideoStore();
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className="relative">
+      <button onClick={() => setIsOpen(!isOpen)} className="p-1.5 text-white/20 hover:text-white transition-colors" title="Watch settings">
+        <SlidersHorizontal className="w-4 h-4" />
+      </button>
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 top-8 w-64 bg-black/95 backdrop-blur-3xl border border-white/10 rounded-2xl p-4 z-50 shadow-2xl animate-in fade-in slide-in-from-top-2 space-y-3">
+            <label className="flex items-center justify-between gap-3 text-[9px] font-black uppercase tracking-widest text-white/60">
+              Watched after
+              <span className="flex items-center gap-1">
+                <input
+                  type="number" min={50} max={100} value={Math.round(settings.watchedThreshold * 100)}
+                  onChange={(e) => updateSettings({ watchedThreshold: Math.min(100, Math.max(50, Number(e.target.value) || 95)) / 100 })}
+                  className={inputClass}
+                />%
+              </span>
+            </label>
+            <label className="flex items-center justify-between gap-3 text-[9px] font-black uppercase tracking-widest text-white/60">
+              Start over in last
+              <span className="flex items-center gap-1">
+                <input
+                  type="number" min={0} max={600} value={settings.resumeTail}
+                  onChange={(e) => updateSettings({ resumeTail: Math.min(600, Math.max(0, Number(e.target.value) || 0)) })}
+                  className={inputClass}
+                />s
+              </span>
+            </label>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+const ContinueWatching: React.FC = () => {
+  const { videos, settings, setCurrentVideo, updateVideo } = useVideoStore();
+  const items = useMemo(() => continueWatching(videos, settings), [videos, settings.watchedThreshold, settings.resumeTail]);
+
+  if (items.length === 0) return null;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-[10px] font-black uppercase tracking-widest opacity-30">Continue Watching</h3>
+        <WatchSettings />
+      </div>
+      <div className="flex gap-4 overflow-x-auto pb-2 -mx-1 px-1">
+        {items.map(v => {
+          const duration = v.metadata?.duration || 0;
+          return (
+            <div key={v.id} onClick={() => setCurrentVideo(v.id)} className="group cursor-pointer w-56 md:w-64 flex-shrink-0">
+              <div className="aspect-video rounded-2xl overflow-hidden bg-zinc-900 border border-white/5 relative">
+                {v.thumbnail && <img src={v.thumbnail} loading="lazy" className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-1000" />}
+                <div className="absolute inset-0 bg-black/50 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
+                  <Play className="w-8 h-8 fill-white text-white" />
+                </div>
+                <button
+                  onClick={(e) => { e.stopPropagation(); updateVideo(v.id, { progress: undefined }); }}
+                  className="absolute top-2 right-2 p-1 rounded-lg bg-black/60 text-white/60 hover:text-white opacity-0 group-hover:opacity-100 transition-all" title="Remove from Continue Watching"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+                <div className="absolute bottom-0 inset-x-0 h-1 bg-white/10">
+                  <div className="h-full bg-blue-600" style={{ width: `${Math.min(100, ((v.progress || 0) / (duration || 1)) * 100)}%` }} />
+                </div>
+              </div>
+              <p className="mt-2 font-black text-[10px] uppercase italic truncate px-1">{v.title}</p>
+              <p className="text-[8px] font-bold uppercase tracking-widest opacity-30 px-1">{formatTime(duration - (v.progress || 0))} left</p>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default ContinueWatching;
@@ -0,0 +1,192 @@
+import React, { useRef, useState } from 'react';
+import { FolderOpen, RefreshCw, X, FilePlus, FileMinus, FilePen, MoveRight } from 'lucide-react';
+import { useVideoStore } from '../store';
+import { SyncedFolder } from '../types';
+import { supportsDirectoryPicker, pickDirectory } from '../utils/fileSystem';
+import { loadFolderHandle, ensurePermission } from '../utils/vaultDb';
+import { SyncPlan, SyncProgress, planFolderSync, applyFolderSync, hasChanges, isAbortError } from '../utils/folderSync';
+
+const PHASE_LABELS: Record<SyncProgress['phase'], string> = {
+  scanning: 'Scanning',
+  comparing: 'Comparing',
+  applying: 'Applying',
+};
+
+const PlanList = ({ icon: Icon, label, names, color }: { icon: any, label: string, names: string[], color: string }) => (
+  <div className="bg-white/[0.03] rounded-2xl p-4 min-w-0">
+    <div className={`flex items-center gap-2 mb-3 text-[10px] font-black uppercase tracking-widest ${color}`}>
+      <Icon className="w-4 h-4" /> {names.length} {label}
+    </div>
+    <div className="space-y-1 max-h-48 overflow-y-auto">
+      {names.slice(0, 200).map((name, i) => (
+        <p key={i} className="text-[10px] font-bold text-white/40 truncate">{name}</p>
+      ))}
+    </div>
+  </div>
+);
+
+const FolderSync: React.FC = () => {
+  const { folders, forgetFolder } = useVideoStore();
+  const [progress, setProgress] = useState<SyncProgress | null>(null);
+  const [plan, setPlan] = useState<SyncPlan | null>(null);
+  const [lastResult, setLastResult] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const handleRef = useRef<FileSystemDirectoryHandle | null>(null);
+
+  const apply = async (syncPlan: SyncPlan) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setPlan(null);
+    try {
+      await applyFolderSync(syncPlan, handleRef.current!, { signal: controller.signal, onProgress: setProgress });
+      setLastResult(hasChanges(syncPlan)
+        ? `${syncPlan.added.length} added • ${syncPlan.moved.length} moved • ${syncPlan.changed.length} changed • ${syncPlan.removed.length} removed`
+        : 'Already up to date');
+    } catch (err) {
+      if (!isAbortError(err)) console.error('Sync failed:', err);
+      setLastResult(isAbortError(err) ? 'Sync cancelled' : 'Sync failed');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const startSync = async (folder: SyncedFolder, handle: FileSystemDirectoryHandle) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    handleRef.current = handle;
+    setLastResult(null);
+    setProgress({ phase: 'scanning', done: 0, total: 0 });
+    try {
+      const syncPlan = await planFolderSync(folder, handle, { signal: controller.signal, onProgress: setProgress });
+      // Nothing to confirm: just refresh the handles of known files
+      if (hasChanges(syncPlan)) setPlan(syncPlan);
+      else await apply(syncPlan);
+    } catch (err) {
+      if (!isAbortError(err)) console.error('Sync failed:', err);
+      setLastResult(isAbortError(err) ? 'Sync cancelled' : 'Folder access failed');
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const syncNewFolder = async () => {
+    if (!supportsDirectoryPicker()) {
+      alert("Directory Scanning is only supported in modern Chromium browsers (Chrome, Edge).");
+      return;
+    }
+    let handle: FileSystemDirectoryHandle;
+    try {
+      handle = await pickDirectory();
+    } catch {
+      console.log('User cancelled folder selection');
+      return;
+    }
+
+    // Picking a folder that is already synced re-syncs it instead of adding a second copy
+    for (const folder of folders) {
+      const known = await loadFolderHandle(folder.id).catch(() => undefined);
+      if (known && await known.isSameEntry(handle)) return startSync(folder, known);
+    }
+    startSync({ id: crypto.randomUUID(), name: handle.name, lastSyncedAt: 0 }, handle);
+  };
+
+  const resyncFolder = async (folder: SyncedFolder) => {
+    const handle = await loadFolderHandle(folder.id).catch(() => undefined);
+    // Folders restored from a backup have no handle on this machine until the user picks them again
+    if (!handle) return reconnectFolder(folder);
+    if (!(await ensurePermission(handle))) {
+      setLastResult(`Access to "${folder.name}" was denied`);
+      return;
+    }
+    startSync(folder, handle);
+  };
+
+  const reconnectFolder = async (folder: SyncedFolder) => {
+    if (!supportsDirectoryPicker()) {
+      setLastResult(`"${folder.name}" can only be reconnected in Chromium browsers`);
+      return;
+    }
+    try {
+      startSync(folder, await pickDirectory());
+    } catch {
+      console.log('User cancelled folder selection');
+    }
+  };
+
+  const percent = progress && progress.total > 0 ? (progress.done / progress.total) * 100 : 0;
+
+  return (
+    <div className="relative group overflow-hidden bg-[#0c0c0c] p-6 lg:p-10 rounded-[2rem] border border-white/5 hover:border-blue-500/30 transition-all duration-700 shadow-2xl">
+      <div className="flex flex-col items-center text-center">
+        <div className="w-16 h-16 bg-emerald-600/10 rounded-2xl flex items-center justify-center mb-4">
+          <FolderOpen className="w-8 h-8 text-emerald-500" />
+        </div>
+        <h3 className="text-xl font-black mb-1 uppercase italic">Bulk Scan</h3>
+        <p className="text-white/20 text-[10px] mb-6 font-bold uppercase tracking-widest">{lastResult || 'Index Entire Directories'}</p>
+
+        {progress ? (
+          <div className="w-full space-y-3">
+            <div className="relative h-2 w-full bg-white/10 rounded-full overflow-hidden">
+              <div
+                className={`absolute top-0 left-0 h-full bg-emerald-500 rounded-full transition-all duration-300 ${progress.total === 0 ? 'w-1/3 animate-pulse' : ''}`}
+                style={progress.total > 0 ? { width: `${percent}%` } : undefined}
+              />
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-[10px] font-black uppercase tracking-widest opacity-60 tabular-nums">
+                {PHASE_LABELS[progress.phase]} • {progress.total > 0 ? `${progress.done} / ${progress.total}` : `${progress.done} files`}
+              </span>
+              <button onClick={() => abortRef.current?.abort()} className="px-4 py-1.5 rounded-lg bg-white/10 hover:bg-red-600 font-black text-[10px] uppercase tracking-widest transition-all">Cancel</button>
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={syncNewFolder} disabled={!!plan}
+            className="w-full py-3 rounded-xl bg-white text-black font-black text-[10px] uppercase tracking-[0.2em] hover:bg-emerald-600 hover:text-white transition-all"
+          >
+            Sync Folder
+          </button>
+        )}
+
+        {folders.length > 0 && (
+          <div className="w-full mt-4 space-y-2">
+            {folders.map(folder => (
+              <div key={folder.id} className="flex items-center gap-3 px-4 py-2 rounded-xl bg-white/[0.03] text-left">
+                <FolderOpen className="w-4 h-4 text-emerald-500 flex-shrink-0" />
+                <div className="min-w-0 flex-1">
+                  <p className="text-[10px] font-black uppercase tracking-widest truncate">{folder.name}</p>
+                  <p className="text-[8px] font-bold uppercase tracking-widest opacity-30">
+                    {folder.lastSyncedAt ? `Synced ${new Date(folder.lastSyncedAt).toLocaleString()}` : 'Never completed'}
+                  </p>
+                </div>
+                <button onClick={() => resyncFolder(folder)} disabled={!!progress || !!plan} className="p-1 text-white/30 hover:text-emerald-500 transition-colors disabled:opacity-20"><RefreshCw className="w-4 h-4" /></button>
+                <button onClick={() => forgetFolder(folder.id)} disabled={!!progress} className="p-1 text-white/30 hover:text-red-500 transition-colors disabled:opacity-20"><X className="w-4 h-4" /></button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {plan && (
+        <div className="fixed inset-0 z-[200] bg-black/80 backdrop-blur-xl flex items-center justify-center p-4 animate-in fade-in duration-300">
+          <div className="w-full max-w-3xl bg-[#0c0c0c] border border-white/10 rounded-[2rem] p-6 md:p-10 shadow-2xl">
+            <h3 className="text-xl md:text-2xl font-black uppercase italic tracking-tighter mb-1">Review Sync</h3>
+            <p className="text-[10px] font-bold uppercase tracking-widest opacity-30 mb-6">{plan.folder.name} • {plan.unchanged.length} unchanged</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <PlanList icon={FilePlus} label="New" color="text-emerald-500" names={plan.added.map(e => e.path)} />
+              <PlanList icon={MoveRight} label="Moved / Renamed" color="text-blue-500" names={plan.moved.map(m => `${m.video.path} → ${m.entry.path}`)} />
+              <PlanList icon={FilePen} label="Changed" color="text-amber-500" names={plan.changed.map(c => c.entry.path)} />
+              <PlanList icon={FileMinus} label="Deleted" color="text-red-500" names={plan.removed.map(v => v.path || v.title)} />
+            </div>
+            <div className="flex justify-end gap-3 mt-8">
+              <button onClick={() => setPlan(null)} className="px-6 py-3 rounded-xl bg-white/5 hover:bg-white/10 font-black text-[10px] uppercase tracking-widest transition-all">Discard</button>
+              <button onClick={() => apply(plan)} className="px-6 py-3 rounded-xl bg-emerald-600 hover:bg-emerald-500 font-black text-[10px] uppercase tracking-widest transition-all">Apply Changes</button>
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FolderSync;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { ArrowDownWideNarrow, ArrowUpNarrowWide, LayoutGrid, List } from 'lucide-react';
+import { LibrarySortKey, LibraryGroupKey, LibraryLayout } from '../types';
+import { useVideoStore } from '../store';
+import { SORT_LABELS, GROUP_LABELS } from '../utils/libraryView';
+
+const selectClass = 'bg-white/5 border border-white/10 rounded-xl px-2 py-2 text-[9px] font-black uppercase tracking-widest text-white/60 outline-none focus:border-blue-500 [&>option]:bg-black';
+
+// Sort, group and grid/list switches for the library header; choices persist with the player settings
+const LibraryControls: React.FC = () => {
+  const { settings, updateSettings } = useVideoStore();
+  const layout = settings.library;
+  const update = (patch: Partial<LibraryLayout>) => updateSettings({ library: { ...layout, ...patch } });
+  const DirectionIcon = layout.descending ? ArrowDownWideNarrow : ArrowUpNarrowWide;
+
+  const toggleClass = (on: boolean) =>
+    `p-2 rounded-xl transition-all ${on ? 'text-blue-500 bg-blue-500/10' : 'text-white/20 bg-white/5 hover:text-white'}`;
+
+  return (
+    <div className="flex items-center gap-2">
+      <select value={layout.sort} onChange={(e) => update({ sort: e.target.value as LibrarySortKey })} className={selectClass} title="Sort by">
+        {(Object.keys(SORT_LABELS) as LibrarySortKey[]).map(key => <option key={key} value={key}>{SORT_LABELS[key]}</option>)}
+      </select>
+      <button onClick={() => update({ descending: !layout.descending })} className={toggleClass(false)} title={layout.descending ? 'Descending' : 'Ascending'}>
+        <DirectionIcon className="w-4 h-4" />
+      </button>
+      <select value={layout.group} onChange={(e) => update({ group: e.target.value as LibraryGroupKey })} className={selectClass} title="Group by">
+        {(Object.keys(GROUP_LABELS) as LibraryGroupKey[]).map(key => <option key={key} value={key}>{key === 'none' ? 'No Groups' : `By ${GROUP_LABELS[key]}`}</option>)}
+      </select>
+      <div className="flex items-center gap-1">
+        <button onClick={() => update({ mode: 'grid' })} className={toggleClass(layout.mode === 'grid')} title="Grid"><LayoutGrid className="w-4 h-4" /></button>
+        <button onClick={() => update({ mode: 'list' })} className={toggleClass(layout.mode === 'list')} title="List"><List className="w-4 h-4" /></button>
+      </div>
+    </div>
+  );
+};
+
+export default LibraryControls;
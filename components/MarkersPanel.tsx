@@ -0,0 +1,142 @@
+import React, { useRef, useState } from 'react';
+import { Bookmark as BookmarkIcon, ListVideo, Pencil, X, Upload, RotateCcw } from 'lucide-react';
+import { VideoItem, Bookmark } from '../types';
+import { useVideoStore } from '../store';
+import { formatTime } from '../utils/helpers';
+import { importChapterFile } from '../utils/importer';
+import { videoChapters, chapterEnd } from '../utils/chapters';
+
+interface MarkersPanelProps {
+  video: VideoItem;
+}
+
+const fieldClass = 'w-full bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-xs font-bold outline-none focus:border-blue-500 transition-all';
+const timeClass = 'w-14 flex-shrink-0 text-[10px] font-black tabular-nums text-blue-500';
+
+interface BookmarkRowProps {
+  videoId: string;
+  bookmark: Bookmark;
+  onSeek: () => void;
+}
+
+// Label and note save on blur, like the other detail fields
+const BookmarkRow: React.FC<BookmarkRowProps> = ({ videoId, bookmark, onSeek }) => {
+  const { updateBookmark, removeBookmark } = useVideoStore();
+  const [isEditing, setIsEditing] = useState(false);
+
+  const saveLabel = (value: string) => {
+    const label = value.trim();
+    if (label && label !== bookmark.label) updateBookmark(videoId, bookmark.id, { label });
+  };
+  const saveNote = (value: string) => {
+    const note = value.trim() || undefined;
+    if (note !== bookmark.note) updateBookmark(videoId, bookmark.id, { note });
+  };
+
+  return (
+    <div className="group rounded-2xl hover:bg-white/5 transition-all">
+      <div className="flex items-start gap-2 p-2">
+        <button onClick={onSeek} className="flex-1 min-w-0 flex items-start gap-3 text-left">
+          <span className={`${timeClass} text-amber-400 pt-0.5`}>{formatTime(bookmark.time)}</span>
+          <span className="min-w-0">
+            <span className="block font-black text-[10px] md:text-xs uppercase italic truncate group-hover:text-amber-400 transition-colors">{bookmark.label}</span>
+            {bookmark.note && !isEditing && <span className="block text-[10px] font-bold opacity-40 whitespace-pre-line line-clamp-3 mt-0.5">{bookmark.note}</span>}
+          </span>
+        </button>
+        <button onClick={() => setIsEditing(!isEditing)} className={`p-1 transition-colors flex-shrink-0 ${isEditing ? 'text-blue-500' : 'text-white/10 hover:text-white'}`} title="Edit bookmark">
+          <Pencil className="w-3.5 h-3.5" />
+        </button>
+        <button onClick={() => removeBookmark(videoId, bookmark.id)} className="p-1 text-white/10 hover:text-red-500 transition-colors flex-shrink-0" title="Delete bookmark">
+          <X className="w-3.5 h-3.5" />
+        </button>
+      </div>
+      {isEditing && (
+        <div className="px-2 pb-3 space-y-2">
+          <input
+            defaultValue={bookmark.label} placeholder="Label" autoFocus
+            onBlur={(e) => saveLabel(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+            className={fieldClass}
+          />
+          <textarea
+            defaultValue={bookmark.note} placeholder="Note" rows={3}
+            onBlur={(e) => saveNote(e.target.value)}
+            className={`${fieldClass} resize-y`}
+          />
+        </div>
+      )}
+    </div>
+  );
+};
+
+// Chapters and bookmarks of the open video; clicking one seeks the player
+const MarkersPanel: React.FC<MarkersPanelProps> = ({ video }) => {
+  const { openAt, updateVideo } = useVideoStore();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const chapters = videoChapters(video);
+  const bookmarks = video.bookmarks || [];
+  const duration = video.metadata?.duration || 0;
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    setError(null);
+    const file = e.target.files?.[0];
+    if (file) {
+      try {
+        await importChapterFile(video.id, file);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Could not read chapters file');
+      }
+    }
+    e.target.value = '';
+  };
+
+  return (
+    <div key={video.id} className="bg-[#0c0c0c] p-6 rounded-[2rem] border border-white/5 space-y-6">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between px-2">
+          <h3 className="text-[10px] font-black uppercase tracking-widest opacity-20 flex items-center gap-2"><ListVideo className="w-3 h-3" /> Chapters</h3>
+          <div className="flex items-center gap-1">
+            {video.chapters && (
+              <button onClick={() => updateVideo(video.id, { chapters: undefined })} className="p-1.5 text-white/20 hover:text-white transition-colors" title={video.metadata?.chapters ? 'Back to the embedded chapters' : 'Remove loaded chapters'}>
+                <RotateCcw className="w-3.5 h-3.5" />
+              </button>
+            )}
+            <button onClick={() => inputRef.current?.click()} className="p-1.5 text-white/20 hover:text-white transition-colors" title="Load WebVTT chapters">
+              <Upload className="w-3.5 h-3.5" />
+            </button>
+            <input type="file" ref={inputRef} accept=".vtt" onChange={handleImport} className="hidden" />
+          </div>
+        </div>
+        {error && <p className="px-2 text-[9px] font-bold text-red-400">{error}</p>}
+        {chapters.length === 0 ? (
+          <p className="px-2 text-[9px] font-bold uppercase tracking-widest opacity-20">No chapters in this file</p>
+        ) : (
+          <div className="max-h-72 overflow-y-auto -mx-1 px-1">
+            {chapters.map((c, i) => (
+              <button key={i} onClick={() => openAt(video.id, c.start)} className="group w-full flex items-center gap-3 p-2 rounded-2xl hover:bg-white/5 transition-all text-left">
+                <span className={timeClass}>{formatTime(c.start)}</span>
+                <span className="flex-1 min-w-0 font-black text-[10px] md:text-xs uppercase italic truncate group-hover:text-blue-500 transition-colors">{c.title}</span>
+                {duration > 0 && <span className="text-[9px] font-black tabular-nums opacity-20">{formatTime(chapterEnd(chapters, i, duration) - c.start)}</span>}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="px-2 text-[10px] font-black uppercase tracking-widest opacity-20 flex items-center gap-2"><BookmarkIcon className="w-3 h-3" /> Bookmarks</h3>
+        {bookmarks.length === 0 ? (
+          <p className="px-2 text-[9px] font-bold uppercase tracking-widest opacity-20">Press B while watching to save a moment</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto -mx-1 px-1">
+            {bookmarks.map(b => <BookmarkRow key={b.id} videoId={video.id} bookmark={b} onSeek={() => openAt(video.id, b.time)} />)}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default MarkersPanel;
@@ -0,0 +1,81 @@
+import React, { useState } from 'react';
+import { useVideoStore } from '../store';
+import { MIN_PLAYBACK_RATE, MAX_PLAYBACK_RATE } from '../utils/vaultSchema';
+
+interface PlaybackMenuProps {
+  onClose: () => void;
+}
+
+const PLAYBACK_SPEEDS = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 1.75, 2, 2.5, 3];
+
+const inputClass = 'w-16 bg-white/5 border border-white/10 rounded-lg px-2 py-1 text-[10px] font-black text-right outline-none focus:border-blue-500';
+
+const SectionLabel = ({ children }: { children: React.ReactNode }) => (
+  <div className="text-[8px] font-black uppercase tracking-widest opacity-30 px-3 mt-3 mb-2">{children}</div>
+);
+
+// Speed presets plus a free-form rate, and the seek distances the keyboard uses
+const PlaybackMenu: React.FC<PlaybackMenuProps> = ({ onClose }) => {
+  const { settings, updateSettings } = useVideoStore();
+  const [customSpeed, setCustomSpeed] = useState(String(settings.playbackRate));
+
+  const applyCustomSpeed = (e: React.FormEvent) => {
+    e.preventDefault();
+    const rate = Number(customSpeed);
+    if (!Number.isFinite(rate) || rate <= 0) return;
+    const clamped = Math.min(MAX_PLAYBACK_RATE, Math.max(MIN_PLAYBACK_RATE, rate));
+    updateSettings({ playbackRate: clamped });
+    setCustomSpeed(String(clamped));
+  };
+
+  const setStep = (key: 'seekStep' | 'longSeekStep', value: string) => {
+    const seconds = Number(value);
+    if (Number.isFinite(seconds) && seconds > 0) updateSettings({ [key]: Math.min(key === 'seekStep' ? 600 : 3600, seconds) });
+  };
+
+  return (
+    <div className="absolute bottom-20 right-4 lg:right-12 w-56 bg-black/95 backdrop-blur-3xl border border-white/10 rounded-2xl lg:rounded-3xl p-2 lg:p-3 z-50 animate-in slide-in-from-bottom-4 shadow-2xl max-h-64 lg:max-h-96 overflow-y-auto">
+      <div className="text-[8px] font-black uppercase tracking-widest opacity-30 px-3 mb-2">Speed</div>
+      {PLAYBACK_SPEEDS.map(speed => (
+        <button
+          key={speed}
+          onClick={() => { updateSettings({ playbackRate: speed }); onClose(); }}
+          className={`w-full text-left px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${
+            settings.playbackRate === speed ? 'bg-blue-600 text-white shadow-lg' : 'text-white/40 hover:bg-white/10 hover:text-white'
+          }`}
+        >
+          {speed === 1 ? 'Normal' : `${speed}x`}
+        </button>
+      ))}
+      <form onSubmit={applyCustomSpeed} className="flex items-center justify-between gap-2 px-3 py-2">
+        <span className={`text-[10px] font-black uppercase tracking-widest ${PLAYBACK_SPEEDS.includes(settings.playbackRate) ? 'text-white/40' : 'text-blue-500'}`}>Custom</span>
+        <span className="flex items-center gap-1 text-[10px] font-black">
+          <input
+            type="number" min={MIN_PLAYBACK_RATE} max={MAX_PLAYBACK_RATE} step="any" value={customSpeed}
+            onChange={(e) => setCustomSpeed(e.target.value)} onBlur={applyCustomSpeed}
+            className={inputClass}
+          />x
+        </span>
+      </form>
+
+      <SectionLabel>Seek Steps</SectionLabel>
+      <label className="flex items-center justify-between gap-3 px-3 py-1 text-[9px] font-black uppercase tracking-widest text-white/60">
+        ← / →
+        <span className="flex items-center gap-1">
+          <input type="number" min={0.1} max={600} step="any" defaultValue={settings.seekStep} onBlur={(e) => setStep('seekStep', e.target.value)} className={inputClass} />s
+        </span>
+      </label>
+      <label className="flex items-center justify-between gap-3 px-3 py-1 text-[9px] font-black uppercase tracking-widest text-white/60">
+        J / L
+        <span className="flex items-center gap-1">
+          <input type="number" min={1} max={3600} step="any" defaultValue={settings.longSeekStep} onBlur={(e) => setStep('longSeekStep', e.target.value)} className={inputClass} />s
+        </span>
+      </label>
+      <p className="px-3 pt-2 text-[8px] font-bold uppercase tracking-widest opacity-30 leading-relaxed">
+        , / . frame step • [ / ] loop A / B • \ clear loop • G go to time
+      </p>
+    </div>
+  );
+};
+
+export default PlaybackMenu;
@@ -0,0 +1,52 @@
+import React, { useState } from 'react';
+import { FileDown } from 'lucide-react';
+import { VideoItem } from '../types';
+import { useVideoStore } from '../store';
+import { downloadBlob } from '../utils/helpers';
+import { buildPlaylistFile, PlaylistFileFormat } from '../utils/playlistFiles';
+
+interface PlaylistExportButtonProps {
+  name: string;
+  videos: VideoItem[];
+}
+
+const FORMATS: { format: PlaylistFileFormat, label: string }[] = [
+  { format: 'm3u8', label: 'M3U Playlist' },
+  { format: 'xspf', label: 'XSPF Playlist' },
+];
+
+// Saves any list of vault entries (playlist, view, queue) as a playlist file other players can open
+const PlaylistExportButton: React.FC<PlaylistExportButtonProps> = ({ name, videos }) => {
+  const folders = useVideoStore(state => state.folders);
+  const [isOpen, setIsOpen] = useState(false);
+
+  const save = (format: PlaylistFileFormat) => {
+    downloadBlob(buildPlaylistFile(name, videos, folders, format), `${name.replace(/[\\/:*?"<>|]+/g, '_')}.${format}`);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setIsOpen(!isOpen)} disabled={videos.length === 0} title="Export playlist"
+        className="p-2 rounded-xl text-white/20 bg-white/5 hover:text-white transition-all disabled:opacity-20"
+      >
+        <FileDown className="w-4 h-4" />
+      </button>
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setIsOpen(false)} />
+          <div className="absolute right-0 top-10 w-48 bg-black/95 backdrop-blur-3xl border border-white/10 rounded-2xl p-2 z-50 shadow-2xl animate-in fade-in slide-in-from-top-2">
+            {FORMATS.map(({ format, label }) => (
+              <button key={format} onClick={() => save(format)} className="w-full text-left px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-white/60 hover:bg-white/10 hover:text-white transition-all">
+                {label}
+              </button>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PlaylistExportButton;
@@ -0,0 +1,194 @@
+import React, { useRef, useState } from 'react';
+import { Play, Shuffle, Trash2, X, GripVertical, ChevronUp, ChevronDown, ChevronRight, ListVideo, Plus, FileUp, AlertCircle } from 'lucide-react';
+import { VideoItem } from '../types';
+import { useVideoStore } from '../store';
+import { formatTime } from '../utils/helpers';
+import { importPlaylistFile, PlaylistImportReport, PLAYLIST_FILE_EXTS } from '../utils/playlistFiles';
+import PlaylistExportButton from './PlaylistExportButton';
+
+interface PlaylistViewProps {
+  playlistId: string | null;
+  onOpen: (id: string | null) => void;
+  query: string;
+}
+
+const PlaylistView: React.FC<PlaylistViewProps> = ({ playlistId, onOpen, query }) => {
+  const {
+    videos, playlists, createPlaylist, renamePlaylist, deletePlaylist,
+    removeFromPlaylist, movePlaylistItem, playVideos, setShuffle
+  } = useVideoStore();
+  const [newName, setNewName] = useState('');
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [reports, setReports] = useState<PlaylistImportReport[]>([]);
+  const [importError, setImportError] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const byId = new Map(videos.map(v => [v.id, v]));
+  const playlist = playlists.find(p => p.id === playlistId);
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from<File>(e.target.files || []);
+    e.target.value = '';
+    setImportError(null);
+    const imported: PlaylistImportReport[] = [];
+    for (const file of files) {
+      try {
+        imported.push(await importPlaylistFile(file));
+      } catch (err) {
+        setImportError(err instanceof Error ? err.message : 'Import failed');
+      }
+    }
+    setReports(imported);
+  };
+
+  if (!playlist) {
+    const needle = query.toLowerCase().trim();
+    return (
+      <div className="space-y-6">
+        <div className="flex items-center gap-3">
+          <button onClick={() => importInputRef.current?.click()} className="flex items-center gap-2 px-4 py-2 bg-white/5 border border-white/10 hover:border-blue-500 rounded-xl font-black text-[10px] uppercase tracking-widest transition-all">
+            <FileUp className="w-4 h-4" /> Import M3U / XSPF
+          </button>
+          <input ref={importInputRef} type="file" accept={PLAYLIST_FILE_EXTS.map(e => `.${e}`).join(',')} multiple onChange={handleImport} className="hidden" />
+          {importError && <span className="text-[10px] font-bold text-red-400">{importError}</span>}
+        </div>
+
+        {reports.map(report => (
+          <div key={report.playlist.id} className="p-4 bg-blue-600/10 border border-blue-500/20 rounded-2xl space-y-2">
+            <div className="flex items-center justify-between gap-4">
+              <button onClick={() => onOpen(report.playlist.id)} className="text-[10px] font-black uppercase tracking-widest text-blue-400 text-left">
+                "{report.playlist.name}": matched {report.total - report.unresolved.length} of {report.total} entries
+              </button>
+              <button onClick={() => setReports(reports.filter(r => r !== report))} className="text-white/40 hover:text-white transition-colors flex-shrink-0"><X className="w-4 h-4" /></button>
+            </div>
+            {report.unresolved.length > 0 && (
+              <ul className="space-y-1 max-h-40 overflow-y-auto">
+                {report.unresolved.map((entry, i) => (
+                  <li key={i} className="flex items-center gap-2 text-[10px] font-bold text-amber-500/80 min-w-0">
+                    <AlertCircle className="w-3 h-3 flex-shrink-0" />
+                    <span className="truncate" title={entry.location}>{entry.title || entry.location}</span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        ))}
+
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 xl:grid-cols-6 gap-4">
+          {playlists.filter(p => p.name.toLowerCase().includes(needle)).map(p => {
+            const cover = p.videoIds.map(id => byId.get(id)?.thumbnail).find(Boolean);
+            return (
+              <button key={p.id} onClick={() => onOpen(p.id)} className="group text-left min-w-0">
+                <div className="aspect-video rounded-2xl overflow-hidden bg-zinc-900 border border-white/5 group-hover:border-blue-500/30 transition-all flex items-center justify-center">
+                  {cover ? <img src={cover} className="w-full h-full object-cover" /> : <ListVideo className="w-8 h-8 opacity-10" />}
+                </div>
+                <p className="mt-3 font-black text-[10px] uppercase tracking-widest truncate px-1">{p.name}</p>
+                <p className="text-[8px] font-bold uppercase tracking-widest opacity-30 px-1">{p.videoIds.length} Assets</p>
+              </button>
+            );
+          })}
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              if (!newName.trim()) return;
+              createPlaylist(newName.trim());
+              setNewName('');
+            }}
+            className="aspect-video rounded-2xl border border-dashed border-white/10 flex flex-col items-center justify-center gap-3 p-4"
+          >
+            <input
+              value={newName} onChange={(e) => setNewName(e.target.value)} placeholder="New playlist"
+              className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-[10px] font-bold outline-none focus:border-blue-500"
+            />
+            <button type="submit" disabled={!newName.trim()} className="flex items-center gap-2 px-4 py-1.5 rounded-lg bg-blue-600 disabled:opacity-20 font-black text-[10px] uppercase tracking-widest">
+              <Plus className="w-3 h-3" /> Create
+            </button>
+          </form>
+        </div>
+      </div>
+    );
+  }
+
+  const items = playlist.videoIds.map((id, index) => ({ id, index, video: byId.get(id) }));
+  const totalDuration = items.reduce((sum, item) => sum + (item.video?.metadata?.duration || 0), 0);
+  const playlistVideos = items.map(item => item.video).filter((v): v is VideoItem => !!v);
+
+  const drop = (to: number) => {
+    if (dragIndex !== null) movePlaylistItem(playlist.id, dragIndex, to);
+    setDragIndex(null);
+  };
+
+  return (
+    <div className="space-y-6">
+      <button onClick={() => onOpen(null)} className="flex items-center gap-2 text-white/40 hover:text-white transition-all font-black uppercase text-[10px] tracking-widest">
+        <ChevronRight className="w-4 h-4 rotate-180" /> All Playlists
+      </button>
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="min-w-0 flex-1">
+          <input
+            key={playlist.id}
+            defaultValue={playlist.name}
+            onBlur={(e) => e.target.value.trim() && e.target.value.trim() !== playlist.name && renamePlaylist(playlist.id, e.target.value.trim())}
+            onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+            className="w-full bg-transparent text-xl md:text-3xl font-black uppercase italic tracking-tighter outline-none border-b border-transparent focus:border-blue-500 transition-all"
+          />
+          <p className="text-[9px] font-bold uppercase tracking-widest opacity-30 mt-1">{items.length} Assets • {formatTime(totalDuration)}</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => { setShuffle(false); playVideos(playlist.videoIds); }} disabled={items.length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 rounded-xl font-black text-[10px] uppercase tracking-widest disabled:opacity-20"
+          >
+            <Play className="w-4 h-4 fill-current" /> Play
+          </button>
+          <button
+            onClick={() => { setShuffle(true); playVideos(playlist.videoIds, Math.floor(Math.random() * items.length)); }} disabled={items.length === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-white/5 border border-white/10 rounded-xl font-black text-[10px] uppercase tracking-widest disabled:opacity-20"
+          >
+            <Shuffle className="w-4 h-4" /> Shuffle
+          </button>
+          <PlaylistExportButton name={playlist.name} videos={playlistVideos} />
+          <button onClick={() => { deletePlaylist(playlist.id); onOpen(null); }} className="p-2 text-white/20 hover:text-red-500 transition-colors" title="Delete playlist">
+            <Trash2 className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      {items.length === 0 ? (
+        <div className="py-16 text-center opacity-20 font-black uppercase tracking-[0.3em] text-xs rounded-[2rem] border border-dashed border-white/10">
+          Add videos from the library menu
+        </div>
+      ) : (
+        <div className="space-y-2">
+          {items.map(({ id, index, video }) => (
+            <div
+              key={`${id}-${index}`}
+              draggable
+              onDragStart={() => setDragIndex(index)}
+              onDragOver={(e) => e.preventDefault()}
+              onDrop={() => drop(index)}
+              onDragEnd={() => setDragIndex(null)}
+              className={`flex items-center gap-3 p-2 rounded-2xl bg-[#0c0c0c] border transition-all ${dragIndex === index ? 'border-blue-500/50 opacity-50' : 'border-white/5'}`}
+            >
+              <GripVertical className="w-4 h-4 text-white/20 cursor-grab flex-shrink-0 hidden md:block" />
+              <span className="w-6 text-center text-[10px] font-black opacity-30 tabular-nums flex-shrink-0">{index + 1}</span>
+              <button onClick={() => playVideos(playlist.videoIds, index)} disabled={!video} className="flex-1 min-w-0 flex items-center gap-4 text-left group disabled:opacity-30">
+                <div className="w-20 md:w-28 aspect-video rounded-xl bg-zinc-900 overflow-hidden relative border border-white/5 flex-shrink-0">
+                  {video?.thumbnail && <img src={video.thumbnail} className="w-full h-full object-cover" />}
+                  <div className="absolute bottom-1 right-1 bg-black/80 px-1.5 py-0.5 rounded text-[8px] font-black">{formatTime(video?.metadata?.duration || 0)}</div>
+                </div>
+                <span className="font-black text-[10px] md:text-xs uppercase italic truncate group-hover:text-blue-500 transition-colors">{video?.title || 'Removed from vault'}</span>
+              </button>
+              <div className="flex flex-col flex-shrink-0">
+                <button onClick={() => movePlaylistItem(playlist.id, index, index - 1)} disabled={index === 0} className="p-0.5 text-white/20 hover:text-white disabled:opacity-0"><ChevronUp className="w-4 h-4" /></button>
+                <button onClick={() => movePlaylistItem(playlist.id, index, index + 1)} disabled={index === items.length - 1} className="p-0.5 text-white/20 hover:text-white disabled:opacity-0"><ChevronDown className="w-4 h-4" /></button>
+              </div>
+              <button onClick={() => removeFromPlaylist(playlist.id, index)} className="p-2 text-white/10 hover:text-red-500 transition-colors flex-shrink-0"><X className="w-4 h-4" /></button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PlaylistView;
@@ -0,0 +1,123 @@
+import React, { useMemo, useState } from 'react';
+import { X, Plus, Trash2, Sparkles } from 'lucide-react';
+import { SmartCollection, SmartRule, SmartRuleField } from '../types';
+import { useVideoStore } from '../store';
+import { RULE_FIELDS, OP_LABELS, createRule, matchesCollection, collectTags } from '../utils/smartCollections';
+
+interface SmartCollectionEditorProps {
+  collection: SmartCollection | null; // null creates a new one
+  onClose: () => void;
+  onSaved: (id: string) => void;
+  onDeleted: () => void;
+}
+
+const selectClass = 'bg-white/5 border border-white/10 rounded-lg px-2 py-1.5 text-[10px] font-black uppercase tracking-widest outline-none focus:border-blue-500 [&>option]:bg-black';
+const inputClass = 'w-full bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-[10px] font-bold outline-none focus:border-blue-500';
+
+const SmartCollectionEditor: React.FC<SmartCollectionEditorProps> = ({ collection, onClose, onSaved, onDeleted }) => {
+  const { videos, saveSmartCollection, deleteSmartCollection } = useVideoStore();
+  const [name, setName] = useState(collection?.name || '');
+  const [match, setMatch] = useState<SmartCollection['match']>(collection?.match || 'all');
+  const [rules, setRules] = useState<SmartRule[]>(collection?.rules || [createRule('tag')]);
+  const knownTags = useMemo(() => collectTags(videos), [videos]);
+
+  const draft: SmartCollection = {
+    id: collection?.id || '',
+    name: name.trim(),
+    match,
+    rules,
+    createdAt: collection?.createdAt || Date.now(),
+  };
+  const matchCount = useMemo(() => videos.filter(v => matchesCollection(v, draft)).length, [videos, match, rules]);
+
+  const updateRule = (index: number, patch: Partial<SmartRule>) =>
+    setRules(rules.map((r, i) => i === index ? { ...r, ...patch } : r));
+
+  const save = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.name) return;
+    const saved = { ...draft, id: draft.id || crypto.randomUUID() };
+    saveSmartCollection(saved);
+    onSaved(saved.id);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[200] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <form
+        onSubmit={save} onClick={(e) => e.stopPropagation()}
+        className="w-full max-w-2xl max-h-full overflow-y-auto bg-[#0c0c0c] border border-white/5 rounded-[2rem] p-6 md:p-8 space-y-6 shadow-2xl animate-in fade-in slide-in-from-bottom-4"
+      >
+        <div className="flex items-center justify-between gap-4">
+          <h2 className="text-lg font-black uppercase tracking-widest italic flex items-center gap-3">
+            <Sparkles className="w-5 h-5 text-violet-500" /> {collection ? 'Edit' : 'New'} Smart Collection
+          </h2>
+          <button type="button" onClick={onClose} className="text-white/40 hover:text-white transition-colors"><X className="w-5 h-5" /></button>
+        </div>
+
+        <input
+          value={name} onChange={(e) => setName(e.target.value)} placeholder="Collection name" autoFocus
+          className="w-full bg-white/5 border border-white/10 rounded-xl px-4 py-3 text-sm font-bold outline-none focus:border-blue-500"
+        />
+
+        <div className="flex items-center gap-3 text-[10px] font-black uppercase tracking-widest">
+          <span className="opacity-40">Match</span>
+          <select value={match} onChange={(e) => setMatch(e.target.value as SmartCollection['match'])} className={selectClass}>
+            <option value="all">All rules</option>
+            <option value="any">Any rule</option>
+          </select>
+        </div>
+
+        <div className="space-y-3">
+          {rules.map((rule, i) => {
+            const spec = RULE_FIELDS[rule.field];
+            return (
+              <div key={i} className="flex flex-wrap md:flex-nowrap items-center gap-2">
+                <select value={rule.field} onChange={(e) => updateRule(i, createRule(e.target.value as SmartRuleField))} className={selectClass}>
+                  {(Object.keys(RULE_FIELDS) as SmartRuleField[]).map(field => <option key={field} value={field}>{RULE_FIELDS[field].label}</option>)}
+                </select>
+                <select value={rule.op} onChange={(e) => updateRule(i, { op: e.target.value as SmartRule['op'] })} className={selectClass}>
+                  {spec.ops.map(op => <option key={op} value={op}>{OP_LABELS[op]}</option>)}
+                </select>
+                <div className="flex-1 min-w-[8rem] flex items-center gap-2">
+                  {spec.input === 'choice' ? (
+                    <select value={rule.value} onChange={(e) => updateRule(i, { value: e.target.value })} className={`${selectClass} w-full`}>
+                      {spec.choices!.map(choice => <option key={choice} value={choice}>{choice}</option>)}
+                    </select>
+                  ) : (
+                    <input
+                      type={spec.input} min={0} value={rule.value} list={rule.field === 'tag' ? 'smart-tags' : undefined}
+                      onChange={(e) => updateRule(i, { value: spec.input === 'number' ? Number(e.target.value) : e.target.value })}
+                      className={inputClass}
+                    />
+                  )}
+                  {spec.unit && <span className="text-[9px] font-black uppercase tracking-widest opacity-30 whitespace-nowrap">{spec.unit}</span>}
+                </div>
+                <button type="button" onClick={() => setRules(rules.filter((_, j) => j !== i))} className="p-1.5 text-white/20 hover:text-red-500 transition-colors"><X className="w-4 h-4" /></button>
+              </div>
+            );
+          })}
+          <datalist id="smart-tags">
+            {knownTags.map(tag => <option key={tag} value={tag} />)}
+          </datalist>
+          <button type="button" onClick={() => setRules([...rules, createRule('tag')])} className="flex items-center gap-2 text-[10px] font-black uppercase tracking-widest text-blue-500 hover:text-blue-400 transition-colors">
+            <Plus className="w-3 h-3" /> Add Rule
+          </button>
+        </div>
+
+        <div className="flex items-center justify-between gap-4 pt-4 border-t border-white/5">
+          <span className="text-[10px] font-black uppercase tracking-widest opacity-30">Matches {matchCount} Assets</span>
+          <div className="flex items-center gap-3">
+            {collection && (
+              <button type="button" onClick={() => { deleteSmartCollection(collection.id); onDeleted(); }} className="p-2 text-white/20 hover:text-red-500 transition-colors" title="Delete collection">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
+            <button type="submit" disabled={!draft.name} className="px-6 py-2 rounded-xl bg-blue-600 disabled:opacity-20 font-black text-[10px] uppercase tracking-widest">Save</button>
+          </div>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default SmartCollectionEditor;
@@ -0,0 +1,121 @@
+import React, { useRef, useState } from 'react';
+import { Plus, X, Minus } from 'lucide-react';
+import { VideoItem, SubtitleStyle } from '../types';
+import { useVideoStore } from '../store';
+import { importSubtitleFile } from '../utils/importer';
+import { SUBTITLE_EXTS, pickSubtitle } from '../utils/subtitles';
+
+interface SubtitleMenuProps {
+  video: VideoItem;
+}
+
+const FONT_SIZES = [75, 100, 125, 150, 200];
+const COLORS = ['#ffffff', '#ffeb3b', '#4dd0e1', '#a5d6a7'];
+const BACKGROUNDS: { label: string, opacity: number }[] = [
+  { label: 'None', opacity: 0 },
+  { label: 'Dim', opacity: 0.6 },
+  { label: 'Solid', opacity: 1 },
+];
+const OFFSET_STEP = 0.1;
+
+const SectionLabel = ({ children }: { children: React.ReactNode }) => (
+  <div className="text-[8px] font-black uppercase tracking-widest opacity-30 px-3 mt-3 mb-2">{children}</div>
+);
+
+const SubtitleMenu: React.FC<SubtitleMenuProps> = ({ video }) => {
+  const { settings, updateSettings, updateVideo, removeSubtitle } = useVideoStore();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const active = pickSubtitle(video, settings.subtitleLanguage);
+  const offset = video.subtitleOffset || 0;
+  const style = settings.subtitleStyle;
+
+  const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    setError(null);
+    for (const file of Array.from<File>(e.target.files || [])) {
+      try {
+        await importSubtitleFile(video.id, file);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Could not read subtitle file');
+      }
+    }
+    e.target.value = '';
+  };
+
+  const selectTrack = (id: string | null) => {
+    const track = video.subtitles?.find(s => s.id === id);
+    updateVideo(video.id, { activeSubtitleId: id });
+    if (track?.language) updateSettings({ subtitleLanguage: track.language });
+  };
+
+  const setOffset = (value: number) => updateVideo(video.id, { subtitleOffset: Math.round(value * 10) / 10 });
+  const setStyle = (patch: Partial<SubtitleStyle>) => updateSettings({ subtitleStyle: { ...style, ...patch } });
+
+  const optionClass = (selected: boolean) =>
+    `w-full text-left px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${
+      selected ? 'bg-blue-600 text-white shadow-lg' : 'text-white/40 hover:bg-white/10 hover:text-white'
+    }`;
+  const chipClass = (selected: boolean) =>
+    `px-2 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all ${
+      selected ? 'bg-blue-600 text-white' : 'bg-white/5 text-white/40 hover:bg-white/10 hover:text-white'
+    }`;
+
+  return (
+    <div className="absolute bottom-20 right-4 lg:right-12 w-64 bg-black/95 backdrop-blur-3xl border border-white/10 rounded-2xl lg:rounded-3xl p-2 lg:p-3 z-50 animate-in slide-in-from-bottom-4 shadow-2xl max-h-72 lg:max-h-96 overflow-y-auto">
+      <div className="text-[8px] font-black uppercase tracking-widest opacity-30 px-3 mb-2">Subtitles</div>
+      <button onClick={() => selectTrack(null)} className={optionClass(!active)}>Off</button>
+      {video.subtitles?.map(track => (
+        <div key={track.id} className="flex items-center gap-1">
+          <button onClick={() => selectTrack(track.id)} className={`${optionClass(active?.id === track.id)} truncate`}>
+            {track.label} <span className="opacity-50">• {track.embedded !== undefined ? 'embedded' : track.format}</span>
+          </button>
+          <button onClick={() => removeSubtitle(video.id, track.id)} className="p-1 text-white/20 hover:text-red-500 transition-colors flex-shrink-0"><X className="w-3 h-3" /></button>
+        </div>
+      ))}
+      <button onClick={() => inputRef.current?.click()} className={`${optionClass(false)} flex items-center gap-2`}>
+        <Plus className="w-3 h-3" /> Load File
+      </button>
+      <input type="file" ref={inputRef} accept={SUBTITLE_EXTS.map(e => `.${e}`).join(',')} multiple onChange={handleUpload} className="hidden" />
+      {error && <p className="px-3 py-1 text-[9px] font-bold text-red-400">{error}</p>}
+
+      {active && (
+        <>
+          <SectionLabel>Timing</SectionLabel>
+          <div className="flex items-center justify-between px-3">
+            <button onClick={() => setOffset(offset - OFFSET_STEP)} className={chipClass(false)}><Minus className="w-3 h-3" /></button>
+            <button onClick={() => setOffset(0)} className="text-[10px] font-black tabular-nums tracking-widest" title="Reset">
+              {offset > 0 ? '+' : ''}{offset.toFixed(1)}s
+            </button>
+            <button onClick={() => setOffset(offset + OFFSET_STEP)} className={chipClass(false)}><Plus className="w-3 h-3" /></button>
+          </div>
+        </>
+      )}
+
+      <SectionLabel>Size</SectionLabel>
+      <div className="flex flex-wrap gap-1 px-3">
+        {FONT_SIZES.map(size => (
+          <button key={size} onClick={() => setStyle({ fontSize: size })} className={chipClass(style.fontSize === size)}>{size}%</button>
+        ))}
+      </div>
+      <SectionLabel>Color</SectionLabel>
+      <div className="flex gap-2 px-3">
+        {COLORS.map(color => (
+          <button
+            key={color} onClick={() => setStyle({ color })}
+            className={`w-6 h-6 rounded-full border-2 transition-all ${style.color === color ? 'border-blue-500 scale-110' : 'border-white/10'}`}
+            style={{ backgroundColor: color }}
+          />
+        ))}
+      </div>
+      <SectionLabel>Background</SectionLabel>
+      <div className="flex flex-wrap gap-1 px-3 pb-2">
+        {BACKGROUNDS.map(bg => (
+          <button key={bg.label} onClick={() => setStyle({ backgroundOpacity: bg.opacity })} className={chipClass(style.backgroundOpacity === bg.opacity)}>{bg.label}</button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default SubtitleMenu;
@@ -0,0 +1,69 @@
+import React, { useEffect, useState } from 'react';
+import { Captions } from 'lucide-react';
+import { VideoItem } from '../types';
+import { useVideoStore } from '../store';
+import { formatTime } from '../utils/helpers';
+import { SearchQuery } from '../utils/searchQuery';
+import { searchSubtitles, SubtitleHit } from '../utils/searchIndex';
+import { isAbortError } from '../utils/folderSync';
+
+interface SubtitleSearchResultsProps {
+  videos: VideoItem[];
+  query: SearchQuery;
+}
+
+// Waits for a pause in typing; subtitle text is read from IndexedDB, unlike the in-memory title index
+const SEARCH_DELAY = 300;
+
+const SubtitleSearchResults: React.FC<SubtitleSearchResultsProps> = ({ videos, query }) => {
+  const openAt = useVideoStore(state => state.openAt);
+  const [hits, setHits] = useState<SubtitleHit[]>([]);
+  const byId = new Map<string, VideoItem>(videos.map(v => [v.id, v]));
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const timer = setTimeout(() => {
+      searchSubtitles(videos, query, { signal: controller.signal })
+        .then(setHits)
+        .catch((err) => {
+          if (!isAbortError(err)) console.error('Subtitle search failed:', err);
+        });
+    }, SEARCH_DELAY);
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [videos, query]);
+
+  if (hits.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      <div className="text-[10px] font-black uppercase tracking-widest opacity-30 flex items-center gap-2">
+        <Captions className="w-4 h-4" /> In Subtitles • {hits.length}
+      </div>
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-2">
+        {hits.map(hit => {
+          const video = byId.get(hit.videoId);
+          return video && (
+            <button
+              key={`${hit.trackId}-${hit.time}`} onClick={() => openAt(hit.videoId, hit.time)}
+              className="flex items-center gap-4 p-2 rounded-2xl bg-[#0c0c0c] border border-white/5 hover:border-blue-500/30 transition-all text-left group min-w-0"
+            >
+              <div className="w-20 aspect-video rounded-xl bg-zinc-900 overflow-hidden relative border border-white/5 flex-shrink-0">
+                {video.thumbnail && <img src={video.thumbnail} className="w-full h-full object-cover" />}
+                <div className="absolute bottom-1 right-1 bg-black/80 px-1.5 py-0.5 rounded text-[8px] font-black">{formatTime(hit.time)}</div>
+              </div>
+              <div className="min-w-0">
+                <p className="font-black text-[10px] uppercase italic truncate group-hover:text-blue-500 transition-colors">{video.title}</p>
+                <p className="text-xs text-white/60 line-clamp-2">{hit.text}</p>
+              </div>
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default SubtitleSearchResults;
@@ -0,0 +1,97 @@
+import React from 'react';
+import { Shuffle, Repeat, Repeat1, X } from 'lucide-react';
+import { VideoItem, RepeatMode } from '../types';
+import { useVideoStore } from '../store';
+import { formatTime } from '../utils/helpers';
+import PlaylistExportButton from './PlaylistExportButton';
+
+const MAX_CONTEXT_ROWS = 25;
+const NEXT_REPEAT: Record<RepeatMode, RepeatMode> = { off: 'all', all: 'one', one: 'off' };
+
+interface UpNextRowProps {
+  video: VideoItem;
+  onPlay: () => void;
+  onRemove?: () => void;
+}
+
+const UpNextRow: React.FC<UpNextRowProps> = ({ video, onPlay, onRemove }) => (
+  <div className="flex items-center gap-2 group">
+    <button onClick={onPlay} className="flex-1 min-w-0 flex gap-4 p-3 rounded-2xl hover:bg-white/5 transition-all text-left">
+      <div className="w-24 md:w-32 aspect-video rounded-xl bg-zinc-900 overflow-hidden relative border border-white/5 flex-shrink-0">
+        {video.thumbnail && <img src={video.thumbnail} className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-500" />}
+        <div className="absolute bottom-1 right-1 bg-black/80 px-1.5 py-0.5 rounded text-[8px] font-black">{formatTime(video.metadata?.duration || 0)}</div>
+      </div>
+      <div className="min-w-0 py-1">
+        <h4 className="font-black text-[10px] md:text-xs text-white/80 line-clamp-2 leading-tight uppercase italic group-hover:text-blue-500 transition-colors">{video.title}</h4>
+      </div>
+    </button>
+    {onRemove && (
+      <button onClick={onRemove} className="p-2 text-white/10 hover:text-red-500 transition-colors flex-shrink-0" title="Remove from queue"><X className="w-4 h-4" /></button>
+    )}
+  </div>
+);
+
+// Hand-picked queue first, then the rest of the list the current video was started from
+const UpNext: React.FC = () => {
+  const {
+    videos, currentVideoId, queue, playContext, contextIndex, settings, updateSettings, setShuffle,
+    playQueued, playContextItem, removeFromQueue, clearQueue
+  } = useVideoStore();
+  const byId = new Map(videos.map(v => [v.id, v]));
+  const upcoming = playContext.slice(contextIndex + 1);
+  const RepeatIcon = settings.repeat === 'one' ? Repeat1 : Repeat;
+  const queuedVideos = [currentVideoId, ...queue, ...upcoming]
+    .map(id => id && byId.get(id))
+    .filter((v): v is VideoItem => !!v);
+
+  const toggleClass = (on: boolean) =>
+    `p-2 rounded-xl transition-all ${on ? 'text-blue-500 bg-blue-500/10' : 'text-white/20 bg-white/5 hover:text-white'}`;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between px-2">
+        <h3 className="text-[10px] font-black uppercase tracking-widest opacity-20">Up Next</h3>
+        <div className="flex items-center gap-2">
+          <button onClick={() => setShuffle(!settings.shuffle)} className={toggleClass(settings.shuffle)} title="Shuffle">
+            <Shuffle className="w-4 h-4" />
+          </button>
+          <button onClick={() => updateSettings({ repeat: NEXT_REPEAT[settings.repeat] })} className={toggleClass(settings.repeat !== 'off')} title={`Repeat: ${settings.repeat}`}>
+            <RepeatIcon className="w-4 h-4" />
+          </button>
+          <PlaylistExportButton name="Queue" videos={queuedVideos} />
+        </div>
+      </div>
+
+      {queue.length > 0 && (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between px-2">
+            <span className="text-[8px] font-black uppercase tracking-widest text-blue-500">Queue • {queue.length}</span>
+            <button onClick={clearQueue} className="text-[8px] font-black uppercase tracking-widest text-white/30 hover:text-red-500 transition-colors">Clear</button>
+          </div>
+          {queue.map((id, i) => {
+            const video = byId.get(id);
+            return video && <UpNextRow key={`${id}-${i}`} video={video} onPlay={() => playQueued(i)} onRemove={() => removeFromQueue(i)} />;
+          })}
+        </div>
+      )}
+
+      <div className="space-y-3">
+        {queue.length > 0 && upcoming.length > 0 && <div className="text-[8px] font-black uppercase tracking-widest opacity-30 px-2">Then</div>}
+        {upcoming.slice(0, MAX_CONTEXT_ROWS).map((id, i) => {
+          const video = byId.get(id);
+          return video && <UpNextRow key={`${id}-${i}`} video={video} onPlay={() => playContextItem(contextIndex + 1 + i)} />;
+        })}
+        {upcoming.length > MAX_CONTEXT_ROWS && (
+          <p className="text-[9px] font-black uppercase tracking-widest opacity-20 px-2">+{upcoming.length - MAX_CONTEXT_ROWS} more</p>
+        )}
+        {queue.length === 0 && upcoming.length === 0 && (
+          <p className="text-[9px] font-black uppercase tracking-widest opacity-20 px-2">
+            {settings.repeat === 'all' && playContext.length > 0 ? 'Starts over from the top' : 'Nothing up next'}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UpNext;
@@ -0,0 +1,142 @@
+import React, { useEffect, useState } from 'react';
+import { Play, Music, Trash2, Heart, AlertCircle, CheckSquare, Square, CheckCircle2 } from 'lucide-react';
+import { VideoItem } from '../types';
+import { useVideoStore } from '../store';
+import { formatTime, formatFileSize } from '../utils/helpers';
+import { watchStatus } from '../utils/watchState';
+import { useStoryboard, storyboardFrameStyle } from '../utils/storyboard';
+import { isAudioItem, trackArtist } from '../utils/audioLibrary';
+import VideoMenu from './VideoMenu';
+
+interface VideoCardProps {
+  video: VideoItem;
+  onOpen: () => void;
+  selected?: boolean; // undefined when the grid is not in selection mode
+  showPath?: boolean;
+}
+
+const progressWidth = (v: VideoItem) => `${Math.min(100, ((v.progress || 0) / (v.metadata?.duration || 1)) * 100)}%`;
+
+// The caption block has a fixed height so the virtualized grid can compute row heights up front
+export const CARD_CAPTION_HEIGHT = 80;
+export const LIST_ROW_HEIGHT = 72;
+
+const PREVIEW_STEPS = 12;
+const PREVIEW_STEP_MS = 600;
+
+// Flips through the storyboard while the card is hovered; nothing is loaded for cards that never are
+const HoverPreview: React.FC<{ videoId: string, active: boolean }> = ({ videoId, active }) => {
+  const storyboard = useStoryboard(videoId, active);
+  const [step, setStep] = useState(0);
+
+  useEffect(() => {
+    setStep(0);
+    if (!active || !storyboard) return;
+    const timer = setInterval(() => setStep(s => (s + 1) % PREVIEW_STEPS), PREVIEW_STEP_MS);
+    return () => clearInterval(timer);
+  }, [active, storyboard]);
+
+  if (!active || !storyboard) return null;
+  const time = ((step + 0.5) / PREVIEW_STEPS) * storyboard.count * storyboard.interval;
+  return (
+    <>
+      <div className="absolute inset-0 bg-black" style={storyboardFrameStyle(storyboard, time)} />
+      <div className="absolute bottom-0 left-0 h-0.5 bg-white/60 transition-all" style={{ width: `${((step + 1) / PREVIEW_STEPS) * 100}%` }} />
+    </>
+  );
+};
+
+const VideoCard: React.FC<VideoCardProps> = ({ video: v, onOpen, selected, showPath }) => {
+  const removeVideo = useVideoStore(state => state.removeVideo);
+  const [isHovering, setIsHovering] = useState(false);
+
+  return (
+    <div onClick={onOpen} className="group cursor-pointer">
+      <div onMouseEnter={() => setIsHovering(true)} onMouseLeave={() => setIsHovering(false)} className={`aspect-video rounded-[1.5rem] md:rounded-[2rem] overflow-hidden bg-zinc-900 border transition-all duration-500 group-hover:scale-[1.02] group-hover:shadow-2xl relative ${selected ? 'border-blue-500' : 'border-white/5'}`}>
+        {v.thumbnail && isAudioItem(v) ? (
+          // Square cover art, centered over a blurred copy of itself
+          <>
+            <img src={v.thumbnail} loading="lazy" className="absolute inset-0 w-full h-full object-cover blur-2xl opacity-40" />
+            <img src={v.thumbnail} loading="lazy" className="relative w-full h-full object-contain group-hover:scale-110 transition-transform duration-1000" />
+          </>
+        ) : v.thumbnail ? <img src={v.thumbnail} loading="lazy" className="w-full h-full object-cover group-hover:scale-110 transition-transform duration-1000" /> : (
+          <div className="w-full h-full flex items-center justify-center opacity-10">{isAudioItem(v) ? <Music className="w-12 h-12" /> : <Play className="w-12 h-12" />}</div>
+        )}
+        <HoverPreview videoId={v.id} active={isHovering} />
+        <div className="absolute inset-0 bg-black/30 opacity-0 group-hover:opacity-100 transition-opacity flex items-center justify-center">
+          <Play className="w-10 h-10 fill-white text-white" />
+        </div>
+        {selected !== undefined && (
+          <div className={`absolute top-3 right-3 p-1 rounded-lg backdrop-blur-md ${selected ? 'bg-blue-600 text-white' : 'bg-black/60 text-white/60'}`}>
+            {selected ? <CheckSquare className="w-4 h-4" /> : <Square className="w-4 h-4" />}
+          </div>
+        )}
+        {!!v.metadata?.unsupported?.length && (
+          <div title={`Can't decode: ${v.metadata.unsupported.join(', ')}`} className="absolute top-3 left-3 px-2 py-1 rounded-lg bg-red-600/90 backdrop-blur-md text-[8px] font-black uppercase tracking-widest">Unsupported</div>
+        )}
+        {watchStatus(v) === 'in-progress' && (
+          <div className="absolute bottom-0 left-0 h-1 bg-blue-600 shadow-[0_0_10px_#2563eb]" style={{width: progressWidth(v)}} />
+        )}
+      </div>
+      <div className="pt-4 flex items-start justify-between px-2 overflow-hidden" style={{ height: CARD_CAPTION_HEIGHT }}>
+        <div className="min-w-0 pr-2">
+          <h3 className="font-black text-xs md:text-sm uppercase italic truncate leading-none mb-1">{v.title}</h3>
+          <div className="flex items-center gap-2">
+            {v.favorite && <Heart className="w-3 h-3 text-red-500 fill-current" />}
+            {v.watched && <CheckCircle2 className="w-3 h-3 text-emerald-500" />}
+            {v.missing && <AlertCircle className="w-3 h-3 text-amber-500" />}
+            <span className="text-[9px] font-bold uppercase tracking-widest opacity-30 truncate">{isAudioItem(v) ? trackArtist(v) : v.metadata?.format?.toUpperCase() || 'MEDIA'} • {formatTime(v.metadata?.duration || 0)}</span>
+          </div>
+          {showPath && v.path && <p className="text-[9px] font-bold opacity-30 truncate mt-1">{v.path}</p>}
+          {!!v.tags?.length && <p className="text-[9px] font-bold text-blue-400/60 truncate mt-1">{v.tags.map(t => `#${t}`).join(' ')}</p>}
+        </div>
+        <div className="flex items-start flex-shrink-0">
+          <VideoMenu videoId={v.id} />
+          <button onClick={(e) => {e.stopPropagation(); removeVideo(v.id)}} className="text-white/10 hover:text-red-500 transition-colors flex-shrink-0 p-1 -mt-1"><Trash2 className="w-4 h-4" /></button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// Same entry as a table row for the list layout
+export const VideoRow: React.FC<VideoCardProps> = ({ video: v, onOpen, selected, showPath }) => {
+  const removeVideo = useVideoStore(state => state.removeVideo);
+
+  return (
+    <div
+      onClick={onOpen} style={{ height: LIST_ROW_HEIGHT }}
+      className={`group cursor-pointer flex items-center gap-4 px-2 rounded-2xl border transition-all hover:bg-white/[0.03] ${selected ? 'border-blue-500/50 bg-blue-600/5' : 'border-transparent'}`}
+    >
+      {selected !== undefined && (selected ? <CheckSquare className="w-4 h-4 text-blue-500 flex-shrink-0" /> : <Square className="w-4 h-4 text-white/30 flex-shrink-0" />)}
+      <div className="w-24 aspect-video rounded-xl bg-zinc-900 overflow-hidden relative border border-white/5 flex-shrink-0">
+        {v.thumbnail ? <img src={v.thumbnail} loading="lazy" className={`w-full h-full ${isAudioItem(v) ? 'object-contain' : 'object-cover'}`} /> : isAudioItem(v) && (
+          <div className="w-full h-full flex items-center justify-center opacity-10"><Music className="w-6 h-6" /></div>
+        )}
+        {watchStatus(v) === 'in-progress' && <div className="absolute bottom-0 left-0 h-0.5 bg-blue-600" style={{width: progressWidth(v)}} />}
+      </div>
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2 min-w-0">
+          {v.favorite && <Heart className="w-3 h-3 text-red-500 fill-current flex-shrink-0" />}
+          {v.watched && <CheckCircle2 className="w-3 h-3 text-emerald-500 flex-shrink-0" />}
+          {v.missing && <AlertCircle className="w-3 h-3 text-amber-500 flex-shrink-0" />}
+          <h3 className="font-black text-[10px] md:text-xs uppercase italic truncate group-hover:text-blue-500 transition-colors">{v.title}</h3>
+        </div>
+        <p className="text-[9px] font-bold opacity-30 truncate mt-1">
+          {showPath && v.path ? v.path : v.tags?.length ? v.tags.map(t => `#${t}`).join(' ') : isAudioItem(v) ? trackArtist(v) : ''}
+        </p>
+      </div>
+      <span className="hidden md:block w-16 text-[9px] font-black uppercase tracking-widest opacity-30">{v.metadata?.format?.toUpperCase() || 'MEDIA'}</span>
+      <span className="w-14 text-right text-[10px] font-black tabular-nums opacity-60">{formatTime(v.metadata?.duration || 0)}</span>
+      <span className="hidden md:block w-20 text-right text-[10px] font-black tabular-nums opacity-30">{v.metadata?.size ? formatFileSize(v.metadata.size) : '—'}</span>
+      <span className="hidden lg:block w-24 text-right text-[10px] font-black tabular-nums opacity-30">{new Date(v.addedAt).toLocaleDateString()}</span>
+      <span className="hidden xl:block w-24 text-right text-[10px] font-black tabular-nums opacity-30">{v.lastPlayedAt ? new Date(v.lastPlayedAt).toLocaleDateString() : '—'}</span>
+      <div className="flex items-center flex-shrink-0" onClick={(e) => e.stopPropagation()}>
+        <VideoMenu videoId={v.id} />
+        <button onClick={() => removeVideo(v.id)} className="text-white/10 hover:text-red-500 transition-colors flex-shrink-0 p-1 -mt-1"><Trash2 className="w-4 h-4" /></button>
+      </div>
+    </div>
+  );
+};
+
+export default VideoCard;
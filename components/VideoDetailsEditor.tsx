@@ -0,0 +1,110 @@
+import React, { useMemo, useState } from 'react';
+import { Star, X, Plus, Tag } from 'lucide-react';
+import { VideoItem } from '../types';
+import { useVideoStore } from '../store';
+import { collectTags } from '../utils/smartCollections';
+
+interface VideoDetailsEditorProps {
+  video: VideoItem;
+}
+
+const fieldClass = 'w-full bg-white/5 border border-white/10 rounded-xl px-3 py-2 text-xs font-bold outline-none focus:border-blue-500 transition-all';
+const labelClass = 'text-[8px] font-black uppercase tracking-widest opacity-30';
+
+const parseCount = (value: string) => {
+  const n = parseInt(value, 10);
+  return n > 0 ? n : undefined;
+};
+
+// Tags and the optional user fields; text fields save on blur so typing doesn't rewrite the vault per key
+const VideoDetailsEditor: React.FC<VideoDetailsEditorProps> = ({ video }) => {
+  const { videos, updateVideo, editTags } = useVideoStore();
+  const [newTag, setNewTag] = useState('');
+  const knownTags = useMemo(() => collectTags(videos), [videos]);
+
+  const addTag = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!newTag.trim()) return;
+    editTags([video.id], [newTag], []);
+    setNewTag('');
+  };
+
+  const saveText = (key: 'series' | 'notes', value: string) => {
+    const trimmed = value.trim() || undefined;
+    if (trimmed !== video[key]) updateVideo(video.id, { [key]: trimmed });
+  };
+
+  return (
+    <div key={video.id} className="bg-[#0c0c0c] p-6 md:p-10 rounded-[2rem] border border-white/5 space-y-6">
+      <div className="space-y-3">
+        <div className={labelClass}>Tags</div>
+        <div className="flex flex-wrap items-center gap-2">
+          {(video.tags || []).map(tag => (
+            <span key={tag} className="flex items-center gap-1.5 pl-3 pr-1.5 py-1 rounded-lg bg-blue-600/20 text-blue-400 text-[10px] font-black uppercase tracking-widest">
+              {tag}
+              <button onClick={() => editTags([video.id], [], [tag])} className="hover:text-white transition-colors"><X className="w-3 h-3" /></button>
+            </span>
+          ))}
+          <form onSubmit={addTag} className="flex items-center gap-2">
+            <div className="relative">
+              <Tag className="absolute left-3 top-1/2 -translate-y-1/2 w-3 h-3 text-white/30" />
+              <input
+                value={newTag} onChange={(e) => setNewTag(e.target.value)} placeholder="Add tag" list="vault-tags"
+                className="w-36 bg-white/5 border border-white/10 rounded-lg pl-8 pr-3 py-1.5 text-[10px] font-bold outline-none focus:border-blue-500"
+              />
+            </div>
+            <button type="submit" disabled={!newTag.trim()} className="p-1.5 rounded-lg bg-blue-600 disabled:opacity-20"><Plus className="w-3 h-3" /></button>
+          </form>
+          <datalist id="vault-tags">
+            {knownTags.map(tag => <option key={tag} value={tag} />)}
+          </datalist>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <label className="col-span-2 space-y-2">
+          <div className={labelClass}>Series</div>
+          <input defaultValue={video.series} onBlur={(e) => saveText('series', e.target.value)} className={fieldClass} />
+        </label>
+        <label className="space-y-2">
+          <div className={labelClass}>Season</div>
+          <input
+            type="number" min={1} defaultValue={video.season}
+            onBlur={(e) => parseCount(e.target.value) !== video.season && updateVideo(video.id, { season: parseCount(e.target.value) })}
+            className={fieldClass}
+          />
+        </label>
+        <label className="space-y-2">
+          <div className={labelClass}>Episode</div>
+          <input
+            type="number" min={1} defaultValue={video.episode}
+            onBlur={(e) => parseCount(e.target.value) !== video.episode && updateVideo(video.id, { episode: parseCount(e.target.value) })}
+            className={fieldClass}
+          />
+        </label>
+      </div>
+
+      <div className="space-y-2">
+        <div className={labelClass}>Rating</div>
+        <div className="flex items-center gap-1">
+          {[1, 2, 3, 4, 5].map(star => (
+            <button
+              key={star} title={video.rating === star ? 'Clear rating' : `${star} stars`}
+              onClick={() => updateVideo(video.id, { rating: video.rating === star ? undefined : star })}
+              className={`p-1 transition-colors ${star <= (video.rating || 0) ? 'text-amber-400' : 'text-white/10 hover:text-white/40'}`}
+            >
+              <Star className={`w-5 h-5 ${star <= (video.rating || 0) ? 'fill-current' : ''}`} />
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <label className="block space-y-2">
+        <div className={labelClass}>Notes</div>
+        <textarea defaultValue={video.notes} onBlur={(e) => saveText('notes', e.target.value)} rows={3} className={`${fieldClass} resize-y`} />
+      </label>
+    </div>
+  );
+};
+
+export default VideoDetailsEditor;
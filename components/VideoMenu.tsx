@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { MoreVertical, ListStart, ListEnd, ListPlus, Plus, CheckCircle2, Circle } from 'lucide-react';
+import { useVideoStore } from '../store';
+
+interface VideoMenuProps {
+  videoId: string;
+}
+
+// Per-card actions: queueing, watch state and adding to playlists
+const VideoMenu: React.FC<VideoMenuProps> = ({ videoId }) => {
+  const { playlists, playNext, addToQueue, addToPlaylist, createPlaylist, setWatched } = useVideoStore();
+  const watched = useVideoStore(state => !!state.videos.find(v => v.id === videoId)?.watched);
+  const [isOpen, setIsOpen] = useState(false);
+  const [newName, setNewName] = useState('');
+
+  const close = () => {
+    setIsOpen(false);
+    setNewName('');
+  };
+  const run = (action: () => void) => {
+    action();
+    close();
+  };
+
+  const itemClass = 'w-full flex items-center gap-3 px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-white/60 hover:bg-white/10 hover:text-white transition-all text-left';
+
+  return (
+    <div className="relative flex-shrink-0" onClick={(e) => e.stopPropagation()}>
+      <button onClick={() => setIsOpen(!isOpen)} className="text-white/10 hover:text-white transition-colors p-1 -mt-1"><MoreVertical className="w-4 h-4" /></button>
+      {isOpen && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={close} />
+          <div className="absolute right-0 top-6 w-56 bg-black/95 backdrop-blur-3xl border border-white/10 rounded-2xl p-2 z-50 shadow-2xl animate-in fade-in slide-in-from-top-2">
+            <button onClick={() => run(() => playNext(videoId))} className={itemClass}><ListStart className="w-4 h-4" /> Play Next</button>
+            <button onClick={() => run(() => addToQueue(videoId))} className={itemClass}><ListEnd className="w-4 h-4" /> Add to Queue</button>
+            <button onClick={() => run(() => setWatched([videoId], !watched))} className={itemClass}>
+              {watched ? <><Circle className="w-4 h-4" /> Mark Unwatched</> : <><CheckCircle2 className="w-4 h-4" /> Mark Watched</>}
+            </button>
+            <div className="text-[8px] font-black uppercase tracking-widest opacity-30 px-4 mt-3 mb-1">Add to Playlist</div>
+            <div className="max-h-40 overflow-y-auto">
+              {playlists.map(p => (
+                <button key={p.id} onClick={() => run(() => addToPlaylist(p.id, [videoId]))} className={itemClass}>
+                  <ListPlus className="w-4 h-4 flex-shrink-0" /> <span className="truncate">{p.name}</span>
+                </button>
+              ))}
+            </div>
+            <form
+              onSubmit={(e) => {
+                e.preventDefault();
+                if (newName.trim()) run(() => createPlaylist(newName.trim(), [videoId]));
+              }}
+              className="flex items-center gap-2 px-2 pt-2"
+            >
+              <input
+                value={newName} onChange={(e) => setNewName(e.target.value)} placeholder="New playlist"
+                className="flex-1 min-w-0 bg-white/5 border border-white/10 rounded-lg px-3 py-1.5 text-[10px] font-bold outline-none focus:border-blue-500"
+              />
+              <button type="submit" disabled={!newName.trim()} className="p-1.5 rounded-lg bg-blue-600 disabled:opacity-20"><Plus className="w-3 h-3" /></button>
+            </form>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default VideoMenu;
@@ -1,36 +1,101 @@
-import React, { useEffect, useRef, useState, useCallback } from 'react';
+import React, { useEffect, useRef, useState, useCallback, useMemo } from 'react';
 import { 
   Play, Pause, Volume2, VolumeX, Maximize, Minimize, Settings, 
   ChevronRight, Fullscreen, Monitor, Info, Clock, Heart, 
   RotateCcw, Zap, ExternalLink, Sun, AlertCircle,
-  Subtitles, Gauge
+  Subtitles, Gauge, SkipBack, SkipForward, BookmarkPlus, Repeat, Pin, X, Music, Maximize2
 } from 'lucide-react';
-import { VideoItem } from '../types';
-import { formatTime } from '../utils/helpers';
+import { VideoItem, MiniPlayerCorner } from '../types';
+import { formatTime, formatTimecode, parseTimecode } from '../utils/helpers';
 import { useVideoStore } from '../store';
+import { canRemux, getRemuxedSource } from '../utils/remux';
+import { isAbortError } from '../utils/folderSync';
+import { SubtitleCue, cueSegments, parseSubtitles, pickSubtitle } from '../utils/subtitles';
+import { getSubtitleText } from '../utils/embeddedSubtitles';
+import { resumePosition } from '../utils/watchState';
+import { videoChapters, chapterIndexAt, adjacentChapterStart } from '../utils/chapters';
+import { useStoryboard, prioritizeStoryboard, storyboardFrameStyle } from '../utils/storyboard';
+import { pictureStyle, isDefaultPicture, isDefaultAudio, normalizationGain } from '../utils/adjustments';
+import { prioritizeLoudness } from '../utils/loudness';
+import { applyAudioAdjustments, releaseAudioGraph } from '../utils/audioGraph';
+import { trackArtist } from '../utils/audioLibrary';
+import { useMediaSession } from '../utils/mediaSession';
+import SubtitleMenu from './SubtitleMenu';
+import PlaybackMenu from './PlaybackMenu';
+import AdjustmentsMenu from './AdjustmentsMenu';
+import AudioVisualizer from './AudioVisualizer';
 
 interface VideoPlayerProps {
   video: VideoItem;
+  mini?: boolean; // Docked while the library is browsed: small, with only transport controls
 }
 
-const PLAYBACK_SPEEDS = [0.25, 0.5, 0.75, 1, 1.25, 1.5, 1.75, 2, 2.5, 3];
+// Progress is persisted with the whole vault, so it is written on this cadence plus on pause/exit
+const PROGRESS_SAVE_INTERVAL = 5000;
+// Hovering within this fraction of the bar of a bookmark shows its label instead of the chapter title
+const BOOKMARK_HOVER_RANGE = 0.015;
+// Frame stepping needs a rate; this covers files the probe couldn't read one from
+const DEFAULT_FRAME_RATE = 30;
+// Seeking exactly onto a frame's timestamp can land on the one before it through rounding
+const FRAME_SEEK_EPSILON = 0.001;
+
+type PlayerMenu = 'subtitles' | 'playback' | 'adjust' | 'jump';
+
+// Clear of the header, the desktop sidebar (w-72) and the mobile nav
+const MINI_CORNERS: Record<MiniPlayerCorner, string> = {
+  'top-left': 'top-24 left-4 lg:top-28 lg:left-[19.5rem]',
+  'top-right': 'top-24 right-4 lg:top-28 lg:right-6',
+  'bottom-left': 'bottom-24 left-4 lg:bottom-6 lg:left-[19.5rem]',
+  'bottom-right': 'bottom-24 right-4 lg:bottom-6 lg:right-6',
+};
+// Pixels the pointer has to travel before a press on the mini-player becomes a drag rather than a click
+const DRAG_THRESHOLD = 6;
 
-const VideoPlayer: React.FC<VideoPlayerProps> = ({ video }) => {
+const VideoPlayer: React.FC<VideoPlayerProps> = ({ video, mini = false }) => {
   const videoRef = useRef<HTMLVideoElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
-  const subtitleInputRef = useRef<HTMLInputElement>(null);
   
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
   const [showControls, setShowControls] = useState(true);
   const [buffered, setBuffered] = useState(0);
-  const [isSpeedMenuOpen, setIsSpeedMenuOpen] = useState(false);
-  const [skipFeedback, setSkipFeedback] = useState<'left' | 'right' | null>(null);
+  const [sourceAspect, setSourceAspect] = useState(16 / 9); // Of the decoded frames, for rotation and aspect overrides
+  const [openMenu, setOpenMenu] = useState<PlayerMenu | null>(null); // One popover at a time
+  const [skipFeedback, setSkipFeedback] = useState<number | null>(null); // Seconds of the last seek, negative for back
   const [loadError, setLoadError] = useState(false);
-  const [subtitleUrl, setSubtitleUrl] = useState<string | null>(null);
+  const [reloadKey, setReloadKey] = useState(0);
+  const [remuxProgress, setRemuxProgress] = useState<number | null>(null);
+  const [remuxError, setRemuxError] = useState<string | null>(null);
+  const remuxAbortRef = useRef<AbortController | null>(null);
+  const [subtitleCues, setSubtitleCues] = useState<SubtitleCue[]>([]);
+  const [activeCues, setActiveCues] = useState<string[]>([]);
+  const [subtitleStatus, setSubtitleStatus] = useState<string | null>(null);
+  const subtitleTrackRef = useRef<TextTrack | null>(null);
+  const [seekHover, setSeekHover] = useState<number | null>(null); // Fraction of the bar under the pointer
+  const [flashMessage, setFlashMessage] = useState<string | null>(null);
+  const flashTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // A set, B not yet; the loop only runs once both ends are set
+  const [loop, setLoop] = useState<{ start: number, end?: number } | null>(null);
+  const loopRef = useRef(loop);
+  loopRef.current = loop;
+  const presentedTimeRef = useRef<number | null>(null); // Media time of the frame on screen, from requestVideoFrameCallback
+  const [jumpError, setJumpError] = useState(false);
+  // Mini-player drag: the press and whether it moved far enough to count, then the offset while dragging
+  const dragRef = useRef<{ x: number, y: number, moved: boolean } | null>(null);
+  const [dragOffset, setDragOffset] = useState<{ x: number, y: number } | null>(null);
+
+  // Wraps back to A once playback passes B
+  const enforceLoop = (videoEl: HTMLVideoElement, time = videoEl.currentTime) => {
+    const current = loopRef.current;
+    if (current?.end !== undefined && !videoEl.paused && time >= current.end) videoEl.currentTime = current.start;
+  };
   
-  const { settings, updateSettings, updateVideoProgress } = useVideoStore();
+  const { settings, updateSettings, updateVideoProgress, setCurrentVideo, setMiniPlayer, updateVideo, skip, seekRequest, clearSeekRequest, addBookmark } = useVideoStore();
+  const chapters = useMemo(() => videoChapters(video), [video.chapters, video.metadata?.chapters]);
+  const bookmarks = video.bookmarks || [];
+  const storyboard = useStoryboard(video.id);
+  const autoplayRef = useRef(false); // Set when the queue advanced on its own, so the next video starts playing
   const controlsTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
 
   const handleMouseMove = useCallback(() => {
@@ -46,10 +111,20 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ video }) => {
     else videoRef.current?.pause();
   }, []);
 
+  const toggleMenu = (menu: PlayerMenu) => setOpenMenu(open => (open === menu ? null : menu));
+
+  const skipTrack = useCallback((direction: 1 | -1) => {
+    autoplayRef.current = skip(direction);
+  }, [skip]);
+
   const toggleMute = useCallback(() => {
     updateSettings({ isMuted: !settings.isMuted });
   }, [settings.isMuted, updateSettings]);
 
+  const toggleTheater = useCallback(() => {
+    updateSettings({ isTheaterMode: !useVideoStore.getState().settings.isTheaterMode });
+  }, [updateSettings]);
+
   const toggleFullscreen = useCallback(() => {
     const el = containerRef.current;
     if (!el) return;
@@ -67,15 +142,86 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ video }) => {
   const seek = useCallback((amount: number) => {
     if (videoRef.current) {
       videoRef.current.currentTime += amount;
-      setSkipFeedback(amount < 0 ? 'left' : 'right');
+      setSkipFeedback(amount);
       setTimeout(() => setSkipFeedback(null), 500);
     }
   }, []);
 
-  // Keyboard Shortcuts
+  useMediaSession(videoRef, video, { seek, skip: skipTrack, seekStep: settings.seekStep });
+
+  const flash = useCallback((message: string) => {
+    setFlashMessage(message);
+    if (flashTimeoutRef.current) clearTimeout(flashTimeoutRef.current);
+    flashTimeoutRef.current = setTimeout(() => setFlashMessage(null), 1500);
+  }, []);
+
+  const jumpChapter = useCallback((direction: 1 | -1) => {
+    const videoEl = videoRef.current;
+    if (!videoEl || chapters.length === 0) return;
+    const start = adjacentChapterStart(chapters, videoEl.currentTime, direction);
+    if (start === null) return;
+    videoEl.currentTime = start;
+    flash(chapters[chapterIndexAt(chapters, start)].title);
+  }, [chapters, flash]);
+
+  const bookmarkHere = useCallback(() => {
+    const videoEl = videoRef.current;
+    if (!videoEl || videoEl.readyState < HTMLMediaElement.HAVE_METADATA) return;
+    const bookmark = addBookmark(video.id, videoEl.currentTime);
+    flash(`Bookmarked ${bookmark.label}`);
+  }, [video.id, addBookmark, flash]);
+
+  const frameRate = video.metadata?.frameRate || DEFAULT_FRAME_RATE;
+
+  // Pauses and moves exactly one frame, counting from the frame actually on screen
+  const stepFrame = useCallback((direction: 1 | -1) => {
+    const videoEl = videoRef.current;
+    if (!videoEl || videoEl.readyState < HTMLMediaElement.HAVE_METADATA) return;
+    videoEl.pause();
+    const frame = Math.round((presentedTimeRef.current ?? videoEl.currentTime) * frameRate) + direction;
+    const target = Math.min(videoEl.duration, Math.max(0, frame / frameRate));
+    // Held keys fire faster than frames arrive, so count on the target until the callback confirms it
+    presentedTimeRef.current = target;
+    videoEl.currentTime = target + FRAME_SEEK_EPSILON;
+    flash(`Frame ${Math.max(0, frame)} • ${formatTimecode(target)}`);
+  }, [frameRate, flash]);
+
+  const setLoopPoint = useCallback((point: 'start' | 'end') => {
+    const videoEl = videoRef.current;
+    if (!videoEl || videoEl.readyState < HTMLMediaElement.HAVE_METADATA) return;
+    const time = videoEl.currentTime;
+    const current = loopRef.current;
+    if (point === 'start') {
+      setLoop({ start: time, end: current?.end !== undefined && current.end > time ? current.end : undefined });
+      flash(`Loop A • ${formatTime(time)}`);
+      return;
+    }
+    const start = current?.start ?? 0;
+    if (time <= start) {
+      flash('Loop B must come after A');
+      return;
+    }
+    setLoop({ start, end: time });
+    flash(`Loop ${formatTime(start)} – ${formatTime(time)}`);
+  }, [flash]);
+
+  const clearLoop = useCallback(() => {
+    setLoop(null);
+    if (video.loop) updateVideo(video.id, { loop: undefined });
+  }, [video.id, video.loop, updateVideo]);
+
+  const saveLoop = () => {
+    if (loop?.end !== undefined) updateVideo(video.id, { loop: { start: loop.start, end: loop.end } });
+  };
+  const isLoopSaved = !!loop && loop.start === video.loop?.start && loop.end === video.loop?.end;
+
+  // Keyboard Shortcuts; the page belongs to the library while the player is docked
   useEffect(() => {
+    if (mini) return;
     const handleKeyDown = (e: KeyboardEvent) => {
       if (['input', 'textarea'].includes(document.activeElement?.tagName.toLowerCase() || '')) return;
+      // Browser shortcuts (Ctrl+L, Cmd+F, ...) are left alone
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
 
       switch (e.code) {
         case 'Space':
@@ -84,11 +230,13 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ video }) => {
           break;
         case 'ArrowLeft':
           e.preventDefault();
-          seek(-10);
+          if (e.shiftKey) jumpChapter(-1);
+          else seek(-settings.seekStep);
           break;
         case 'ArrowRight':
           e.preventDefault();
-          seek(10);
+          if (e.shiftKey) jumpChapter(1);
+          else seek(settings.seekStep);
           break;
         case 'ArrowUp':
           e.preventDefault();
@@ -106,12 +254,67 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ video }) => {
           e.preventDefault();
           toggleMute();
           break;
+        case 'KeyT':
+          e.preventDefault();
+          toggleTheater();
+          break;
+        case 'KeyB':
+          e.preventDefault();
+          bookmarkHere();
+          break;
+        case 'KeyJ':
+          e.preventDefault();
+          seek(-settings.longSeekStep);
+          break;
+        case 'KeyL':
+          e.preventDefault();
+          seek(settings.longSeekStep);
+          break;
+        case 'Comma':
+          e.preventDefault();
+          stepFrame(-1);
+          break;
+        case 'Period':
+          e.preventDefault();
+          stepFrame(1);
+          break;
+        case 'BracketLeft':
+          e.preventDefault();
+          setLoopPoint('start');
+          break;
+        case 'BracketRight':
+          e.preventDefault();
+          setLoopPoint('end');
+          break;
+        case 'Backslash':
+          e.preventDefault();
+          clearLoop();
+          break;
+        case 'KeyG':
+          e.preventDefault();
+          setOpenMenu('jump');
+          break;
+        case 'KeyN':
+          if (!e.shiftKey) break;
+          e.preventDefault();
+          skipTrack(1);
+          break;
+        case 'KeyP':
+          if (!e.shiftKey) break;
+          e.preventDefault();
+          skipTrack(-1);
+          break;
       }
     };
 
     window.addEventListener('keydown', handleKeyDown);
     return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [togglePlay, toggleMute, toggleFullscreen, seek, settings.volume, updateSettings]);
+  }, [mini, togglePlay, toggleMute, toggleTheater, toggleFullscreen, seek, jumpChapter, bookmarkHere, stepFrame, setLoopPoint, clearLoop, settings.volume, settings.seekStep, settings.longSeekStep, updateSettings, skipTrack]);
+
+  // Popovers don't fit the mini-player
+  useEffect(() => {
+    if (mini) setOpenMenu(null);
+  }, [mini]);
 
   useEffect(() => {
     const videoEl = videoRef.current;
@@ -122,42 +325,222 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ video }) => {
     videoEl.playbackRate = settings.playbackRate;
     videoEl.volume = settings.volume;
     videoEl.muted = settings.isMuted;
+    videoEl.loop = settings.repeat === 'one';
+
+    // Until metadata is in, currentTime is 0 and must not overwrite the saved position
+    let metadataLoaded = false;
+    let lastSavedAt = 0;
+    const saveProgress = () => {
+      if (!metadataLoaded) return;
+      lastSavedAt = Date.now();
+      updateVideoProgress(video.id, videoEl.currentTime, videoEl.duration);
+    };
 
     const handleTimeUpdate = () => {
       setCurrentTime(videoEl.currentTime);
+      enforceLoop(videoEl);
       if (videoEl.buffered.length > 0) {
         setBuffered(videoEl.buffered.end(videoEl.buffered.length - 1));
       }
-      updateVideoProgress(video.id, videoEl.currentTime);
+      if (Date.now() - lastSavedAt >= PROGRESS_SAVE_INTERVAL) saveProgress();
     };
 
     const handleLoadedMetadata = () => {
       setDuration(videoEl.duration);
-      if (video.progress) videoEl.currentTime = video.progress;
+      if (videoEl.videoWidth && videoEl.videoHeight) setSourceAspect(videoEl.videoWidth / videoEl.videoHeight);
+      metadataLoaded = true;
+      const { seekRequest, clearSeekRequest, settings: current } = useVideoStore.getState();
+      if (seekRequest?.videoId === video.id) {
+        videoEl.currentTime = seekRequest.time;
+        clearSeekRequest();
+      } else {
+        // Nearly finished videos start over instead of ending again straight away
+        videoEl.currentTime = resumePosition(video, videoEl.duration, current);
+      }
+      if (autoplayRef.current) {
+        autoplayRef.current = false;
+        videoEl.play().catch(() => setIsPlaying(false));
+      }
+    };
+
+    // Repeat-one loops the element itself, so reaching the end always means moving on (unless an A-B loop runs to it)
+    const handleEnded = () => {
+      const loop = loopRef.current;
+      if (loop?.end !== undefined) {
+        videoEl.currentTime = loop.start;
+        videoEl.play().catch(() => setIsPlaying(false));
+        return;
+      }
+      saveProgress();
+      autoplayRef.current = useVideoStore.getState().skip(1);
     };
 
     const handleError = () => setLoadError(true);
+    const handlePlay = () => setIsPlaying(true);
+    const handlePause = () => {
+      setIsPlaying(false);
+      saveProgress();
+    };
+    const handleVisibility = () => document.visibilityState === 'hidden' && saveProgress();
 
     videoEl.addEventListener('timeupdate', handleTimeUpdate);
     videoEl.addEventListener('loadedmetadata', handleLoadedMetadata);
     videoEl.addEventListener('error', handleError);
-    videoEl.addEventListener('play', () => setIsPlaying(true));
-    videoEl.addEventListener('pause', () => setIsPlaying(false));
+    videoEl.addEventListener('play', handlePlay);
+    videoEl.addEventListener('pause', handlePause);
+    videoEl.addEventListener('ended', handleEnded);
+    document.addEventListener('visibilitychange', handleVisibility);
 
     return () => {
+      saveProgress();
       videoEl.removeEventListener('timeupdate', handleTimeUpdate);
       videoEl.removeEventListener('loadedmetadata', handleLoadedMetadata);
       videoEl.removeEventListener('error', handleError);
+      videoEl.removeEventListener('play', handlePlay);
+      videoEl.removeEventListener('pause', handlePause);
+      videoEl.removeEventListener('ended', handleEnded);
+      document.removeEventListener('visibilitychange', handleVisibility);
     };
+  }, [video.id, video.source, reloadKey]);
+
+  // Frame callbacks give the exact media time of each presented frame: frame stepping counts from it and the
+  // A-B loop wraps on it, which is much tighter than timeupdate's ~250ms cadence
+  useEffect(() => {
+    const videoEl = videoRef.current;
+    presentedTimeRef.current = null;
+    if (!videoEl || !('requestVideoFrameCallback' in videoEl)) return;
+    let handle = 0;
+    const onFrame: VideoFrameRequestCallback = (_, frame) => {
+      presentedTimeRef.current = frame.mediaTime;
+      enforceLoop(videoEl, frame.mediaTime);
+      handle = videoEl.requestVideoFrameCallback(onFrame);
+    };
+    handle = videoEl.requestVideoFrameCallback(onFrame);
+    return () => videoEl.cancelVideoFrameCallback(handle);
+  }, [video.id, reloadKey]);
+
+  // A saved loop comes back with its video
+  useEffect(() => {
+    setLoop(video.loop ? { ...video.loop } : null);
+  }, [video.id]);
+
+  // Jumps asked for while this video is already loaded; otherwise loadedmetadata picks them up
+  useEffect(() => {
+    const videoEl = videoRef.current;
+    if (!videoEl || seekRequest?.videoId !== video.id || videoEl.readyState < HTMLMediaElement.HAVE_METADATA) return;
+    videoEl.currentTime = seekRequest.time;
+    clearSeekRequest();
+  }, [seekRequest, video.id]);
+
+  // The open video jumps the storyboard and loudness queues; its source being set means the file is readable now
+  useEffect(() => {
+    if (!video.source) return;
+    prioritizeStoryboard(video.id);
+    prioritizeLoudness(video.id);
   }, [video.id, video.source]);
 
+  // Re-runs the source effect above, which resets the element without touching the rest of the app
+  const reloadPlayer = () => setReloadKey(k => k + 1);
+  const unsupported = video.metadata?.unsupported || [];
+
+  // A conversion belongs to the video it was started for
+  useEffect(() => {
+    setRemuxError(null);
+    return () => remuxAbortRef.current?.abort();
+  }, [video.id]);
+
+  const convertToMp4 = async () => {
+    const controller = new AbortController();
+    remuxAbortRef.current = controller;
+    setRemuxError(null);
+    setRemuxProgress(0);
+    try {
+      const blob = await getRemuxedSource(video, { signal: controller.signal, onProgress: setRemuxProgress });
+      if (video.source) URL.revokeObjectURL(video.source);
+      updateVideo(video.id, { source: URL.createObjectURL(blob), missing: false });
+    } catch (err) {
+      if (!isAbortError(err)) {
+        console.error('Remux failed:', err);
+        setRemuxError(err instanceof Error ? err.message : 'Conversion failed');
+      }
+    } finally {
+      setRemuxProgress(null);
+    }
+  };
+
   useEffect(() => {
     if (videoRef.current) {
       videoRef.current.playbackRate = settings.playbackRate;
       videoRef.current.volume = settings.volume;
       videoRef.current.muted = settings.isMuted;
+      videoRef.current.loop = settings.repeat === 'one';
+    }
+  }, [settings.playbackRate, settings.volume, settings.isMuted, settings.repeat]);
+
+  // EQ, boost, loudness normalization and downmix; the element keeps handling plain volume and mute
+  const loudness = video.metadata?.loudness;
+  useEffect(() => {
+    const gain = settings.normalizeLoudness ? normalizationGain(loudness, settings.loudnessTarget) : 1;
+    if (videoRef.current) applyAudioAdjustments(videoRef.current, settings.audio, gain);
+  }, [settings.audio, settings.normalizeLoudness, settings.loudnessTarget, loudness]);
+
+  useEffect(() => {
+    const videoEl = videoRef.current;
+    return () => { if (videoEl) releaseAudioGraph(videoEl); };
+  }, []);
+
+  const activeSubtitle = pickSubtitle(video, settings.subtitleLanguage);
+
+  // Embedded tracks are read out of the video file the first time, which can take a while for large MKVs
+  useEffect(() => {
+    setSubtitleCues([]);
+    setSubtitleStatus(null);
+    if (!activeSubtitle) return;
+    const controller = new AbortController();
+    const onProgress = (fraction: number) => setSubtitleStatus(`Reading subtitles • ${Math.round(fraction * 100)}%`);
+    getSubtitleText(video, activeSubtitle, { signal: controller.signal, onProgress })
+      .then(text => {
+        setSubtitleCues(parseSubtitles(text, activeSubtitle.format));
+        setSubtitleStatus(null);
+      })
+      .catch(err => {
+        if (isAbortError(err)) return;
+        console.error('Failed to load subtitles:', err);
+        setSubtitleStatus(err instanceof Error ? err.message : 'Subtitles could not be loaded');
+      });
+    return () => controller.abort();
+  }, [activeSubtitle?.id]);
+
+  // Cues go through a hidden text track so the browser does the timing; rendering is ours so it can be styled
+  useEffect(() => {
+    const videoEl = videoRef.current;
+    if (!videoEl) return;
+    if (!subtitleTrackRef.current) {
+      subtitleTrackRef.current = videoEl.addTextTrack('subtitles');
+      subtitleTrackRef.current.mode = 'hidden';
+    }
+    const track = subtitleTrackRef.current;
+    for (const cue of Array.from(track.cues || [])) track.removeCue(cue);
+
+    const offset = video.subtitleOffset || 0;
+    for (const cue of subtitleCues) {
+      if (cue.end + offset <= 0) continue;
+      track.addCue(new VTTCue(Math.max(0, cue.start + offset), cue.end + offset, cue.text));
     }
-  }, [settings.playbackRate, settings.volume, settings.isMuted]);
+
+    const handleCueChange = () => setActiveCues(Array.from(track.activeCues || []).map(cue => (cue as VTTCue).text));
+    handleCueChange();
+    track.addEventListener('cuechange', handleCueChange);
+    return () => track.removeEventListener('cuechange', handleCueChange);
+  }, [subtitleCues, video.subtitleOffset]);
+
+  const { subtitleStyle: style } = settings;
+  const subtitleStyle: React.CSSProperties = {
+    fontSize: `calc(clamp(14px, 2.4vw, 34px) * ${style.fontSize / 100})`,
+    color: style.color,
+    backgroundColor: `rgba(${parseInt(style.background.slice(1, 3), 16)}, ${parseInt(style.background.slice(3, 5), 16)}, ${parseInt(style.background.slice(5, 7), 16)}, ${style.backgroundOpacity})`,
+    textShadow: style.backgroundOpacity < 0.3 ? '0 0 4px #000, 0 1px 2px #000' : undefined,
+  };
 
   const lastTapRef = useRef<{time: number, x: number} | null>(null);
   const handleTap = (e: React.MouseEvent | React.TouchEvent) => {
@@ -170,7 +553,7 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ video }) => {
     const isLeftSide = relativeX < rect.width / 2;
 
     if (lastTapRef.current && (now - lastTapRef.current.time) < 300) {
-      seek(isLeftSide ? -10 : 10);
+      seek(isLeftSide ? -settings.seekStep : settings.seekStep);
       lastTapRef.current = null;
     } else {
       lastTapRef.current = { time: now, x };
@@ -179,6 +562,76 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ video }) => {
     }
   };
 
+  const jumpTo = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const input = new FormData(e.currentTarget).get('time');
+    const time = parseTimecode(String(input || ''));
+    const videoEl = videoRef.current;
+    if (time === null || !videoEl) {
+      setJumpError(true);
+      return;
+    }
+    videoEl.currentTime = Math.min(time, videoEl.duration || time);
+    setOpenMenu(null);
+  };
+
+  const handleSeekHover = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    setSeekHover(Math.min(1, Math.max(0, (e.clientX - rect.left) / rect.width)));
+  };
+
+  const hoverTime = seekHover !== null ? seekHover * duration : 0;
+  const hoverBookmark = seekHover !== null && duration > 0
+    ? bookmarks.find(b => Math.abs(b.time / duration - seekHover) <= BOOKMARK_HOVER_RANGE)
+    : undefined;
+  const hoverChapter = seekHover !== null ? chapters[chapterIndexAt(chapters, hoverTime)] : undefined;
+  const currentChapter = chapters[chapterIndexAt(chapters, currentTime)];
+  const picture = video.picture ?? settings.picture;
+  const isAudio = video.type === 'audio';
+  const isAdjusted = (!isAudio && !isDefaultPicture(picture)) || !isDefaultAudio(settings.audio) || settings.normalizeLoudness;
+  const albumLine = [video.audioTags?.album, video.audioTags?.year].filter(Boolean).join(' • ');
+
+  // The mini-player follows the pointer and docks in the nearest corner when let go
+  const startDrag = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 0) return;
+    dragRef.current = { x: e.clientX, y: e.clientY, moved: false };
+  };
+
+  const moveDrag = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    const x = e.clientX - drag.x;
+    const y = e.clientY - drag.y;
+    if (!drag.moved) {
+      if (Math.hypot(x, y) < DRAG_THRESHOLD) return;
+      drag.moved = true;
+      e.currentTarget.setPointerCapture(e.pointerId);
+    }
+    setDragOffset({ x, y });
+  };
+
+  const endDrag = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    if (!drag?.moved) {
+      dragRef.current = null;
+      return;
+    }
+    const rect = e.currentTarget.getBoundingClientRect();
+    const top = rect.top + rect.height / 2 < window.innerHeight / 2;
+    const left = rect.left + rect.width / 2 < window.innerWidth / 2;
+    updateSettings({ miniPlayerCorner: `${top ? 'top' : 'bottom'}-${left ? 'left' : 'right'}` });
+    setDragOffset(null);
+  };
+
+  // A drag ends with a click on whatever was under the pointer; it must not play, pause or close
+  const swallowDragClick = (e: React.MouseEvent) => {
+    if (dragRef.current?.moved) {
+      e.stopPropagation();
+      e.preventDefault();
+    }
+    dragRef.current = null;
+  };
+
   const togglePiP = async () => {
     try {
       if (document.pictureInPictureElement) await document.exitPictureInPicture();
@@ -186,143 +639,338 @@ const VideoPlayer: React.FC<VideoPlayerProps> = ({ video }) => {
     } catch (e) { console.error(e); }
   };
 
-  const handleSubtitleUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0];
-    if (file) {
-      const url = URL.createObjectURL(file);
-      setSubtitleUrl(url);
-    }
-  };
 
   return (
     <div 
       ref={containerRef}
-      className="relative group bg-black overflow-hidden select-none transition-all duration-700 rounded-2xl md:rounded-[2.5rem] shadow-2xl border border-white/5 aspect-video w-full"
+      className={`group bg-black overflow-hidden select-none aspect-video ${mini
+        ? `fixed z-[105] ${MINI_CORNERS[settings.miniPlayerCorner]} w-64 md:w-80 rounded-2xl shadow-2xl border border-white/10 touch-none ${dragOffset ? 'cursor-grabbing' : 'cursor-grab'}`
+        : settings.isTheaterMode
+          // Edge to edge across the main column, cancelling the page padding
+          ? 'relative transition-all duration-700 -mx-4 md:-mx-8 lg:-mx-12 max-h-[calc(100vh-10rem)] border-y border-white/5'
+          : 'relative transition-all duration-700 rounded-2xl md:rounded-[2.5rem] shadow-2xl border border-white/5 w-full xl:col-span-2'}`}
+      style={dragOffset ? { translate: `${dragOffset.x}px ${dragOffset.y}px` } : undefined}
       onMouseMove={handleMouseMove}
       onTouchStart={handleMouseMove}
+      onPointerDown={mini ? startDrag : undefined}
+      onPointerMove={mini ? moveDrag : undefined}
+      onPointerUp={mini ? endDrag : undefined}
+      onPointerCancel={mini ? endDrag : undefined}
+      onClickCapture={mini ? swallowDragClick : undefined}
     >
-      <video
-        ref={videoRef}
-        className="w-full h-full object-contain pointer-events-auto"
-        onClick={handleTap}
-        playsInline
-      >
-        {subtitleUrl && (
-          <track 
-            src={subtitleUrl} 
-            kind="subtitles" 
-            srcLang="en" 
-            label="English" 
-            default 
-          />
-        )}
-      </video>
+      {/* A size container, so rotated or reshaped pictures can be fitted with container units */}
+      <div className="absolute inset-0 flex items-center justify-center" style={{ containerType: 'size' }}>
+        <video
+          ref={videoRef}
+          className={isAudio ? 'hidden' : 'w-full h-full object-contain pointer-events-auto transition-transform duration-300'}
+          style={isAudio ? undefined : pictureStyle(picture, sourceAspect)}
+          onClick={handleTap}
+          playsInline
+        />
+      </div>
 
-      {loadError && (
+      {/* Audio layout: cover art and tags beside a live visualizer, over a blurred copy of the cover */}
+      {isAudio && (
+        <div className="absolute inset-0 overflow-hidden" onClick={handleTap}>
+          {video.thumbnail && <img src={video.thumbnail} className="absolute inset-0 w-full h-full object-cover blur-3xl scale-125 opacity-30 pointer-events-none" />}
+          <div className={`relative h-full flex items-center ${mini ? 'justify-center p-3' : 'gap-4 md:gap-12 px-6 md:px-16 pt-6 md:pt-12 pb-24 md:pb-44'}`}>
+            <div className={`h-full aspect-square bg-zinc-900 overflow-hidden border border-white/10 shadow-2xl flex-shrink-0 flex items-center justify-center ${mini ? 'rounded-lg' : 'rounded-xl md:rounded-3xl'}`}>
+              {video.thumbnail ? <img src={video.thumbnail} className="w-full h-full object-cover" /> : <Music className="w-1/3 h-1/3 text-white/10" />}
+            </div>
+            {!mini && <div className="min-w-0 flex-1 h-full flex flex-col justify-center">
+              <h3 className="text-base md:text-4xl font-black uppercase italic tracking-tighter truncate">{video.audioTags?.title || video.title}</h3>
+              <p className="text-[10px] md:text-sm font-black uppercase tracking-widest text-blue-500 truncate mt-1 md:mt-2">{trackArtist(video)}</p>
+              {albumLine && <p className="text-[9px] md:text-xs font-black uppercase tracking-widest opacity-40 truncate mt-1">{albumLine}</p>}
+              <button
+                onClick={(e) => { e.stopPropagation(); updateSettings({ visualizer: settings.visualizer === 'spectrum' ? 'waveform' : 'spectrum' }); }}
+                className="mt-3 md:mt-8 h-12 md:h-32 w-full" title={`Switch to ${settings.visualizer === 'spectrum' ? 'waveform' : 'spectrum'}`}
+              >
+                <AudioVisualizer mediaRef={videoRef} mode={settings.visualizer} className="w-full h-full" />
+              </button>
+            </div>}
+          </div>
+        </div>
+      )}
+
+      {subtitleStatus && (
+        <div className="absolute top-4 left-4 md:top-8 md:left-8 px-3 py-1.5 rounded-lg bg-black/80 backdrop-blur-xl border border-white/10 text-[9px] md:text-[10px] font-black uppercase tracking-widest text-white/60 tabular-nums pointer-events-none z-[15]">
+          {subtitleStatus}
+        </div>
+      )}
+
+      {flashMessage && (
+        <div className="absolute top-4 right-4 md:top-8 md:right-8 max-w-[60%] truncate px-3 py-1.5 rounded-lg bg-black/80 backdrop-blur-xl border border-white/10 text-[9px] md:text-[10px] font-black uppercase tracking-widest text-white/80 pointer-events-none z-[15] animate-in fade-in">
+          {flashMessage}
+        </div>
+      )}
+
+      {activeCues.length > 0 && !mini && (
+        <div className={`absolute inset-x-4 md:inset-x-16 flex flex-col items-center gap-1 text-center pointer-events-none transition-all duration-500 z-[15] ${showControls || !isPlaying ? 'bottom-28 md:bottom-44' : 'bottom-6 md:bottom-12'}`}>
+          {activeCues.map((text, i) => (
+            <span key={i} className="px-2 py-0.5 rounded-md font-bold leading-snug whitespace-pre-line" style={subtitleStyle}>
+              {cueSegments(text).map((segment, j) => (
+                <span key={j} className={`${segment.italic ? 'italic' : ''} ${segment.bold ? 'font-black' : ''} ${segment.underline ? 'underline' : ''}`}>
+                  {segment.text}
+                </span>
+              ))}
+            </span>
+          ))}
+        </div>
+      )}
+
+      {loadError && !mini && (
         <div className="absolute inset-0 flex flex-col items-center justify-center bg-zinc-900/95 text-center p-6 z-30">
           <AlertCircle className="w-12 h-12 text-red-500 mb-4" />
-          <h3 className="text-xl font-black uppercase italic mb-2 tracking-tighter">Codec Error</h3>
+          <h3 className="text-xl font-black uppercase italic mb-2 tracking-tighter">{unsupported.length > 0 ? 'Unsupported Media' : 'Codec Error'}</h3>
+          <p className="text-white/40 text-[10px] max-w-sm font-bold uppercase tracking-widest leading-relaxed">
+            {unsupported.length > 0
+              ? `This browser can't decode: ${unsupported.join(', ')}.`
+              : 'Format not supported natively. Use MP4/AAC for best results.'}
+            {canRemux(video.metadata) && ' Its streams can be rewrapped as MP4 without re-encoding.'}
+          </p>
+          {remuxProgress !== null ? (
+            <div className="mt-6 w-full max-w-xs space-y-3">
+              <div className="relative h-2 w-full bg-white/10 rounded-full overflow-hidden">
+                <div className="absolute top-0 left-0 h-full bg-blue-600 rounded-full transition-all duration-300" style={{ width: `${remuxProgress * 100}%` }} />
+              </div>
+              <div className="flex items-center justify-between">
+                <span className="text-[10px] font-black uppercase tracking-widest opacity-60 tabular-nums">Remuxing • {Math.round(remuxProgress * 100)}%</span>
+                <button onClick={() => remuxAbortRef.current?.abort()} className="px-4 py-1.5 rounded-lg bg-white/10 hover:bg-red-600 font-black text-[10px] uppercase tracking-widest transition-all">Cancel</button>
+              </div>
+            </div>
+          ) : (
+            <div className="mt-6 flex gap-3">
+              <button onClick={reloadPlayer} className="px-6 py-2 bg-white text-black font-black text-[10px] uppercase tracking-widest rounded-xl">Retry</button>
+              {canRemux(video.metadata) && (
+                <button onClick={convertToMp4} className="px-6 py-2 bg-blue-600 text-white font-black text-[10px] uppercase tracking-widest rounded-xl">Convert to MP4</button>
+              )}
+            </div>
+          )}
+          {remuxError && <p className="mt-4 text-red-400 text-[10px] font-bold uppercase tracking-widest">{remuxError}</p>}
+        </div>
+      )}
+
+      {video.missing && !video.source && !mini && (
+        <div className="absolute inset-0 flex flex-col items-center justify-center bg-zinc-900/95 text-center p-6 z-30">
+          <AlertCircle className="w-12 h-12 text-amber-500 mb-4" />
+          <h3 className="text-xl font-black uppercase italic mb-2 tracking-tighter">File Missing</h3>
           <p className="text-white/40 text-[10px] max-w-sm font-bold uppercase tracking-widest leading-relaxed">
-            Format not supported natively. Use MP4/AAC for best results.
+            The original file was moved, deleted or access was denied.
           </p>
-          <button onClick={() => window.location.reload()} className="mt-6 px-6 py-2 bg-white text-black font-black text-[10px] uppercase tracking-widest rounded-xl">Retry</button>
+          <button onClick={() => setCurrentVideo(video.id)} className="mt-6 px-6 py-2 bg-white text-black font-black text-[10px] uppercase tracking-widest rounded-xl">Grant Access</button>
         </div>
       )}
 
-      {skipFeedback && (
-        <div className={`absolute inset-y-0 ${skipFeedback === 'left' ? 'left-0' : 'right-0'} w-1/3 flex items-center justify-center bg-white/5 backdrop-blur-md pointer-events-none animate-in fade-in zoom-in duration-300 z-10`}>
+      {skipFeedback !== null && (
+        <div className={`absolute inset-y-0 ${skipFeedback < 0 ? 'left-0' : 'right-0'} w-1/3 flex items-center justify-center bg-white/5 backdrop-blur-md pointer-events-none animate-in fade-in zoom-in duration-300 z-10`}>
           <div className="flex flex-col items-center gap-2">
-            <RotateCcw className={`w-8 h-8 md:w-16 md:h-16 ${skipFeedback === 'left' ? '' : 'rotate-180'}`} />
-            <span className="font-black text-xs md:text-2xl">{skipFeedback === 'left' ? '-' : '+'}10s</span>
+            <RotateCcw className={`w-8 h-8 md:w-16 md:h-16 ${skipFeedback < 0 ? '' : 'rotate-180'}`} />
+            <span className="font-black text-xs md:text-2xl">{skipFeedback < 0 ? '-' : '+'}{+Math.abs(skipFeedback).toFixed(2)}s</span>
           </div>
         </div>
       )}
 
-      {isSpeedMenuOpen && (
-        <div className="absolute bottom-20 right-4 lg:right-12 bg-black/95 backdrop-blur-3xl border border-white/10 rounded-2xl lg:rounded-3xl p-2 lg:p-3 z-50 animate-in slide-in-from-bottom-4 shadow-2xl max-h-48 lg:max-h-64 overflow-y-auto">
-          <div className="text-[8px] font-black uppercase tracking-widest opacity-30 px-3 mb-2">Speed</div>
-          {PLAYBACK_SPEEDS.map(speed => (
-            <button
-              key={speed}
-              onClick={() => { updateSettings({ playbackRate: speed }); setIsSpeedMenuOpen(false); }}
-              className={`w-full text-left px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${
-                settings.playbackRate === speed ? 'bg-blue-600 text-white shadow-lg' : 'text-white/40 hover:bg-white/10 hover:text-white'
-              }`}
-            >
-              {speed === 1 ? 'Normal' : `${speed}x`}
-            </button>
-          ))}
-        </div>
+      {openMenu === 'subtitles' && <SubtitleMenu video={video} />}
+
+      {openMenu === 'playback' && <PlaybackMenu onClose={() => setOpenMenu(null)} />}
+
+      {openMenu === 'adjust' && <AdjustmentsMenu video={video} soundOnly={isAudio} />}
+
+      {openMenu === 'jump' && (
+        <>
+          <div className="fixed inset-0 z-40" onClick={() => setOpenMenu(null)} />
+          <form
+            onSubmit={jumpTo}
+            className="absolute bottom-20 left-4 lg:left-12 bg-black/95 backdrop-blur-3xl border border-white/10 rounded-2xl p-3 z-50 animate-in slide-in-from-bottom-4 shadow-2xl space-y-2"
+          >
+            <div className="text-[8px] font-black uppercase tracking-widest opacity-30 px-1">Go to time</div>
+            <input
+              name="time" autoFocus defaultValue={formatTimecode(currentTime)} placeholder="hh:mm:ss.fff"
+              onFocus={(e) => e.target.select()}
+              onChange={() => setJumpError(false)}
+              onKeyDown={(e) => e.key === 'Escape' && setOpenMenu(null)}
+              className={`w-40 bg-white/5 border rounded-lg px-3 py-1.5 text-xs font-black tabular-nums outline-none ${jumpError ? 'border-red-500' : 'border-white/10 focus:border-blue-500'}`}
+            />
+          </form>
+        </>
+      )}
+
+      {mini && (
+        <>
+          <div className={`absolute inset-0 flex flex-col bg-black/50 transition-opacity duration-300 z-20 ${showControls || !isPlaying ? 'opacity-100' : 'opacity-0 pointer-events-none'}`}>
+            <div className="flex items-center gap-2 p-2">
+              <span className="flex-1 min-w-0 truncate text-[9px] font-black uppercase tracking-widest">{video.audioTags?.title || video.title}</span>
+              <button onClick={() => setMiniPlayer(false)} className="p-1 text-white/60 hover:text-white transition-colors" title="Expand">
+                <Maximize2 className="w-4 h-4" />
+              </button>
+              <button onClick={() => setCurrentVideo(null)} className="p-1 text-white/60 hover:text-red-500 transition-colors" title="Close">
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+            <div className="flex-1 flex items-center justify-center gap-6 pb-6">
+              <button onClick={() => skipTrack(-1)} className="text-white hover:text-blue-500 transition-all active:scale-75" title="Previous">
+                <SkipBack className="w-4 h-4 fill-current" />
+              </button>
+              <button onClick={togglePlay} className="text-white hover:text-blue-500 transition-all active:scale-75 disabled:opacity-20" disabled={loadError}>
+                {isPlaying ? <Pause className="w-7 h-7 fill-current" /> : <Play className="w-7 h-7 fill-current" />}
+              </button>
+              <button onClick={() => skipTrack(1)} className="text-white hover:text-blue-500 transition-all active:scale-75" title="Next">
+                <SkipForward className="w-4 h-4 fill-current" />
+              </button>
+            </div>
+          </div>
+          <div className="absolute bottom-0 inset-x-0 h-0.5 bg-white/10 pointer-events-none z-20">
+            <div className="h-full bg-blue-600" style={{ width: `${duration > 0 ? (currentTime / duration) * 100 : 0}%` }} />
+          </div>
+        </>
       )}
 
       <div className={`absolute inset-0 flex items-center justify-center pointer-events-none transition-all duration-500 ${!isPlaying ? 'opacity-100 scale-100' : 'opacity-0 scale-95'} z-10`}>
-        {!isPlaying && !loadError && (
+        {!isPlaying && !loadError && !video.missing && !mini && (
           <button onClick={togglePlay} className="p-6 md:p-12 bg-blue-600/90 backdrop-blur-2xl rounded-full border border-white/20 shadow-2xl pointer-events-auto hover:scale-110 active:scale-90 transition-all">
             <Play className="w-8 h-8 md:w-16 md:h-16 text-white fill-white ml-1 md:ml-2" />
           </button>
         )}
       </div>
 
-      <div className={`absolute bottom-0 inset-x-0 p-3 md:p-10 video-gradient transition-all duration-500 ${showControls || !isPlaying ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-6 pointer-events-none'} z-20`}>
-        
-        {/* Progress Bar */}
-        <div className="relative h-1.5 md:h-3 w-full bg-white/10 rounded-full mb-4 md:mb-10 cursor-pointer group/seek overflow-hidden">
-          <div className="absolute top-0 left-0 h-full bg-white/20 rounded-full transition-all duration-300" style={{ width: `${(buffered / duration) * 100}%` }} />
-          <div className="absolute top-0 left-0 h-full bg-blue-600 rounded-full shadow-[0_0_20px_#2563eb]" style={{ width: `${(currentTime / duration) * 100}%` }} />
-          <input 
-            type="range" min="0" max={duration || 0} step="0.01" value={currentTime}
-            onChange={(e) => videoRef.current && (videoRef.current.currentTime = parseFloat(e.target.value))}
-            className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
-          />
-        </div>
-
-        <div className="flex items-center justify-between gap-4">
-          <div className="flex items-center gap-2 md:gap-10">
-            <button onClick={togglePlay} className="text-white hover:text-blue-500 transition-all active:scale-75 disabled:opacity-20" disabled={loadError}>
-              {isPlaying ? <Pause className="w-6 h-6 md:w-10 md:h-10 fill-current" /> : <Play className="w-6 h-6 md:w-10 md:h-10 fill-current" />}
-            </button>
-            
-            <div className="flex items-center gap-2 md:gap-4">
-              <button onClick={toggleMute} className="text-white hover:text-blue-500 transition-colors">
-                {settings.isMuted || settings.volume === 0 ? <VolumeX className="w-5 h-5 md:w-7 md:h-7" /> : <Volume2 className="w-5 h-5 md:w-7 md:h-7" />}
-              </button>
+      {!mini && (
+        <div className={`absolute bottom-0 inset-x-0 p-3 md:p-10 video-gradient transition-all duration-500 ${showControls || !isPlaying ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-6 pointer-events-none'} z-20`}>
+          
+          {/* Progress Bar: chapter boundaries cut the bar, bookmarks sit above it */}
+          <div className="relative mb-4 md:mb-10 group/seek" onMouseMove={handleSeekHover} onMouseLeave={() => setSeekHover(null)}>
+            {seekHover !== null && duration > 0 && (
+              <div
+                className={`absolute bottom-full mb-3 -translate-x-1/2 rounded-lg bg-black/90 backdrop-blur-xl border border-white/10 text-center pointer-events-none ${storyboard ? 'w-32 md:w-44 p-1' : 'max-w-[16rem] px-3 py-1.5'}`}
+                style={{ left: `clamp(${storyboard ? '5.5rem' : '4rem'}, ${seekHover * 100}%, calc(100% - ${storyboard ? '5.5rem' : '4rem'}))` }}
+              >
+                {storyboard && <div className="aspect-video w-full rounded-md mb-1 bg-zinc-900" style={storyboardFrameStyle(storyboard, hoverBookmark ? hoverBookmark.time : hoverTime)} />}
+                {(hoverBookmark || hoverChapter) && (
+                  <div className={`text-[9px] md:text-[10px] font-black uppercase tracking-widest truncate ${hoverBookmark ? 'text-amber-400' : 'text-white'}`}>
+                    {hoverBookmark ? hoverBookmark.label : hoverChapter!.title}
+                  </div>
+                )}
+                <div className="text-[9px] font-black tabular-nums opacity-60">{formatTime(hoverBookmark ? hoverBookmark.time : hoverTime)}</div>
+              </div>
+            )}
+            <div className="relative h-1.5 md:h-3 w-full bg-white/10 rounded-full cursor-pointer overflow-hidden">
+              <div className="absolute top-0 left-0 h-full bg-white/20 rounded-full transition-all duration-300" style={{ width: `${(buffered / duration) * 100}%` }} />
+              <div className="absolute top-0 left-0 h-full bg-blue-600 rounded-full shadow-[0_0_20px_#2563eb]" style={{ width: `${(currentTime / duration) * 100}%` }} />
+              {duration > 0 && loop && (
+                <div
+                  className="absolute top-0 h-full min-w-[2px] bg-emerald-400/50 border-x border-emerald-300 pointer-events-none"
+                  style={{ left: `${(loop.start / duration) * 100}%`, width: loop.end !== undefined ? `${((loop.end - loop.start) / duration) * 100}%` : 0 }}
+                />
+              )}
+              {duration > 0 && chapters.filter(c => c.start > 0 && c.start < duration).map((c, i) => (
+                <div key={i} className="absolute top-0 h-full w-0.5 md:w-1 -translate-x-1/2 bg-black/70 pointer-events-none" style={{ left: `${(c.start / duration) * 100}%` }} />
+              ))}
               <input 
-                type="range" min="0" max="1" step="0.01" value={settings.volume}
-                onChange={(e) => updateSettings({ volume: parseFloat(e.target.value) })}
-                className="w-16 md:w-32 transition-all h-1 accent-blue-500 cursor-pointer rounded-full"
+                type="range" min="0" max={duration || 0} step="0.01" value={currentTime}
+                onChange={(e) => videoRef.current && (videoRef.current.currentTime = parseFloat(e.target.value))}
+                className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
               />
             </div>
-            
-            <span className="text-[9px] md:text-base font-black tabular-nums opacity-60 tracking-wider">
-              {formatTime(currentTime)} <span className="opacity-20 mx-0.5">/</span> {formatTime(duration)}
-            </span>
+            {duration > 0 && bookmarks.map(b => (
+              <div
+                key={b.id}
+                className={`absolute -top-2.5 md:-top-3 w-1.5 h-1.5 md:w-2 md:h-2 -translate-x-1/2 rounded-full bg-amber-400 shadow-[0_0_8px_#fbbf24] pointer-events-none transition-transform ${hoverBookmark?.id === b.id ? 'scale-150' : ''}`}
+                style={{ left: `${Math.min(100, (b.time / duration) * 100)}%` }}
+              />
+            ))}
           </div>
 
-          <div className="flex items-center gap-2 md:gap-8">
-            <button onClick={() => subtitleInputRef.current?.click()} className="text-white hover:text-blue-500 transition-all relative">
-              <Subtitles className={`w-5 h-5 md:w-7 md:h-7 ${subtitleUrl ? 'text-blue-500' : 'opacity-40'}`} />
-              <input type="file" ref={subtitleInputRef} accept=".vtt,.srt" onChange={handleSubtitleUpload} className="hidden" />
-              {subtitleUrl && <div className="absolute -top-1 -right-1 w-1.5 h-1.5 bg-blue-500 rounded-full"></div>}
-            </button>
-
-            <button 
-              onClick={() => setIsSpeedMenuOpen(!isSpeedMenuOpen)} 
-              className={`flex items-center gap-1 px-2 py-1 rounded-lg border border-white/10 hover:border-blue-500 transition-all ${isSpeedMenuOpen ? 'bg-blue-600 border-blue-600' : 'bg-white/5'}`}
-            >
-              <Gauge className="w-4 h-4 md:w-6 md:h-6" />
-              <span className="text-[8px] md:text-[10px] font-black uppercase tracking-widest">{settings.playbackRate}x</span>
-            </button>
-
-            <button onClick={togglePiP} className="text-white hover:text-blue-500 transition-colors hidden md:block">
-              <ExternalLink className="w-5 h-5 md:w-7 md:h-7" />
-            </button>
-            
-            <button onClick={toggleFullscreen} className="text-white hover:text-blue-500 transition-colors">
-              <Maximize className="w-5 h-5 md:w-7 md:h-7" />
-            </button>
+          <div className="flex items-center justify-between gap-4">
+            <div className="flex items-center gap-2 md:gap-10">
+              <div className="flex items-center gap-2 md:gap-6">
+                <button onClick={() => skipTrack(-1)} className="text-white hover:text-blue-500 transition-all active:scale-75 hidden sm:block" title="Previous (Shift+P)">
+                  <SkipBack className="w-4 h-4 md:w-6 md:h-6 fill-current" />
+                </button>
+                <button onClick={togglePlay} className="text-white hover:text-blue-500 transition-all active:scale-75 disabled:opacity-20" disabled={loadError}>
+                  {isPlaying ? <Pause className="w-6 h-6 md:w-10 md:h-10 fill-current" /> : <Play className="w-6 h-6 md:w-10 md:h-10 fill-current" />}
+                </button>
+                <button onClick={() => skipTrack(1)} className="text-white hover:text-blue-500 transition-all active:scale-75" title="Next (Shift+N)">
+                  <SkipForward className="w-4 h-4 md:w-6 md:h-6 fill-current" />
+                </button>
+              </div>
+              
+              <div className="flex items-center gap-2 md:gap-4">
+                <button onClick={toggleMute} className="text-white hover:text-blue-500 transition-colors">
+                  {settings.isMuted || settings.volume === 0 ? <VolumeX className="w-5 h-5 md:w-7 md:h-7" /> : <Volume2 className="w-5 h-5 md:w-7 md:h-7" />}
+                </button>
+                <input 
+                  type="range" min="0" max="1" step="0.01" value={settings.volume}
+                  onChange={(e) => updateSettings({ volume: parseFloat(e.target.value) })}
+                  className="w-16 md:w-32 transition-all h-1 accent-blue-500 cursor-pointer rounded-full"
+                />
+              </div>
+              
+              <button
+                onClick={() => toggleMenu('jump')}
+                className="text-[9px] md:text-base font-black tabular-nums opacity-60 hover:opacity-100 tracking-wider transition-opacity" title="Go to time (G)"
+              >
+                {formatTime(currentTime)} <span className="opacity-20 mx-0.5">/</span> {formatTime(duration)}
+              </button>
+              {currentChapter && (
+                <span className="hidden lg:block max-w-[14rem] truncate text-[10px] font-black uppercase tracking-widest opacity-40">{currentChapter.title}</span>
+              )}
+            </div>
+
+            <div className="flex items-center gap-2 md:gap-8">
+              {loop && (
+                <div className="flex items-center gap-1 pl-2 pr-1 py-1 rounded-lg bg-emerald-500/10 border border-emerald-500/30 text-emerald-400">
+                  <Repeat className="w-3 h-3 md:w-4 md:h-4" />
+                  <span className="text-[8px] md:text-[10px] font-black tabular-nums tracking-wider">
+                    {formatTime(loop.start)}–{loop.end !== undefined ? formatTime(loop.end) : '…'}
+                  </span>
+                  {loop.end !== undefined && (
+                    <button onClick={saveLoop} className={`p-0.5 transition-colors ${isLoopSaved ? 'text-emerald-300' : 'text-emerald-400/40 hover:text-emerald-300'}`} title={isLoopSaved ? 'Saved with this video' : 'Save loop with this video'}>
+                      <Pin className={`w-3 h-3 ${isLoopSaved ? 'fill-current' : ''}`} />
+                    </button>
+                  )}
+                  <button onClick={clearLoop} className="p-0.5 text-emerald-400/40 hover:text-white transition-colors" title="Clear loop (\)">
+                    <X className="w-3 h-3" />
+                  </button>
+                </div>
+              )}
+
+              <button onClick={() => toggleMenu('subtitles')} className="text-white hover:text-blue-500 transition-all relative">
+                <Subtitles className={`w-5 h-5 md:w-7 md:h-7 ${activeSubtitle ? 'text-blue-500' : 'opacity-40'}`} />
+                {activeSubtitle && <div className="absolute -top-1 -right-1 w-1.5 h-1.5 bg-blue-500 rounded-full"></div>}
+              </button>
+
+              <button 
+                onClick={() => toggleMenu('playback')} 
+                className={`flex items-center gap-1 px-2 py-1 rounded-lg border border-white/10 hover:border-blue-500 transition-all ${openMenu === 'playback' ? 'bg-blue-600 border-blue-600' : 'bg-white/5'}`}
+              >
+                <Gauge className="w-4 h-4 md:w-6 md:h-6" />
+                <span className="text-[8px] md:text-[10px] font-black uppercase tracking-widest">{settings.playbackRate}x</span>
+              </button>
+
+              <button onClick={() => toggleMenu('adjust')} className="text-white hover:text-blue-500 transition-colors" title={isAudio ? 'Sound' : 'Picture & sound'}>
+                <Sun className={`w-5 h-5 md:w-7 md:h-7 ${isAdjusted || openMenu === 'adjust' ? 'text-blue-500' : ''}`} />
+              </button>
+
+              <button onClick={bookmarkHere} className="text-white hover:text-amber-400 transition-colors" title="Bookmark this moment (B)">
+                <BookmarkPlus className="w-5 h-5 md:w-7 md:h-7" />
+              </button>
+
+              <button onClick={toggleTheater} className="text-white hover:text-blue-500 transition-colors hidden md:block" title="Theater mode (T)">
+                <Monitor className={`w-5 h-5 md:w-7 md:h-7 ${settings.isTheaterMode ? 'text-blue-500' : ''}`} />
+              </button>
+
+              {!isAudio && (
+                <button onClick={togglePiP} className="text-white hover:text-blue-500 transition-colors hidden md:block">
+                  <ExternalLink className="w-5 h-5 md:w-7 md:h-7" />
+                </button>
+              )}
+              
+              <button onClick={toggleFullscreen} className="text-white hover:text-blue-500 transition-colors">
+                <Maximize className="w-5 h-5 md:w-7 md:h-7" />
+              </button>
+            </div>
           </div>
         </div>
-      </div>
+      )}
     </div>
   );
 };
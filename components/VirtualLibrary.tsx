@@ -0,0 +1,169 @@
+import React, { useEffect, useLayoutEffect, useMemo, useRef, useState } from 'react';
+import { ChevronDown, ArrowUp, ArrowDown } from 'lucide-react';
+import { VideoItem, LibrarySortKey } from '../types';
+import { useVideoStore } from '../store';
+import { VideoGroup } from '../utils/libraryView';
+import VideoCard, { VideoRow, CARD_CAPTION_HEIGHT, LIST_ROW_HEIGHT } from './VideoCard';
+
+interface VirtualLibraryProps {
+  groups: VideoGroup[];
+  onOpen: (video: VideoItem) => void;
+  selectedIds: string[] | null;
+  showPath?: boolean;
+}
+
+type Row =
+  | { kind: 'header', key: string, group: VideoGroup }
+  | { kind: 'items', key: string, videos: VideoItem[] };
+
+const GAP = 24;
+const LIST_GAP = 4;
+const HEADER_HEIGHT = 56;
+const MIN_CARD_WIDTH = 200;
+const MAX_COLUMNS = 6;
+const OVERSCAN = 600; // Pixels rendered beyond each edge of the viewport
+
+const LIST_COLUMNS: { label: string, sort: LibrarySortKey, className: string }[] = [
+  { label: 'Title', sort: 'title', className: 'flex-1' },
+  { label: 'Duration', sort: 'duration', className: 'w-14 text-right' },
+  { label: 'Size', sort: 'size', className: 'hidden md:block w-20 text-right' },
+  { label: 'Added', sort: 'added', className: 'hidden lg:block w-24 text-right' },
+  { label: 'Played', sort: 'played', className: 'hidden xl:block w-24 text-right' },
+];
+
+// Windowed grid/list: only the rows near the viewport are mounted, positioned absolutely inside a
+// spacer as tall as the whole library. The page itself scrolls, so this tracks the window.
+const VirtualLibrary: React.FC<VirtualLibraryProps> = ({ groups, onOpen, selectedIds, showPath }) => {
+  const { settings, updateSettings } = useVideoStore();
+  const layout = settings.library;
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [width, setWidth] = useState(0);
+  const [viewport, setViewport] = useState({ top: 0, bottom: typeof window !== 'undefined' ? window.innerHeight : 0 });
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set());
+
+  useLayoutEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    let frame = 0;
+    const update = () => {
+      frame = 0;
+      const el = containerRef.current;
+      if (!el) return;
+      const top = -el.getBoundingClientRect().top;
+      setViewport({ top, bottom: top + window.innerHeight });
+    };
+    const schedule = () => { if (!frame) frame = requestAnimationFrame(update); };
+    update();
+    window.addEventListener('scroll', schedule, { passive: true });
+    window.addEventListener('resize', schedule);
+    return () => {
+      cancelAnimationFrame(frame);
+      window.removeEventListener('scroll', schedule);
+      window.removeEventListener('resize', schedule);
+    };
+  }, []);
+
+  const isList = layout.mode === 'list';
+  const columns = isList ? 1 : Math.min(MAX_COLUMNS, Math.max(1, Math.floor((width + GAP) / (MIN_CARD_WIDTH + GAP))));
+  const cardWidth = (width - GAP * (columns - 1)) / columns;
+  const itemRowHeight = isList ? LIST_ROW_HEIGHT + LIST_GAP : cardWidth * 9 / 16 + CARD_CAPTION_HEIGHT + GAP;
+
+  const { rows, offsets, totalHeight } = useMemo(() => {
+    const rows: Row[] = [];
+    for (const group of groups) {
+      if (group.label) rows.push({ kind: 'header', key: `h-${group.key}`, group });
+      if (collapsed.has(group.key)) continue;
+      for (let i = 0; i < group.videos.length; i += columns) {
+        rows.push({ kind: 'items', key: `${group.key}-${i}`, videos: group.videos.slice(i, i + columns) });
+      }
+    }
+    const offsets: number[] = [];
+    let y = 0;
+    for (const row of rows) {
+      offsets.push(y);
+      y += row.kind === 'header' ? HEADER_HEIGHT : itemRowHeight;
+    }
+    return { rows, offsets, totalHeight: y };
+  }, [groups, collapsed, columns, itemRowHeight]);
+
+  // First row whose bottom edge is inside the overscanned viewport
+  let first = 0;
+  for (let lo = 0, hi = rows.length - 1; lo <= hi;) {
+    const mid = (lo + hi) >> 1;
+    const bottom = offsets[mid] + (rows[mid].kind === 'header' ? HEADER_HEIGHT : itemRowHeight);
+    if (bottom < viewport.top - OVERSCAN) lo = mid + 1;
+    else { first = mid; hi = mid - 1; }
+  }
+  const visible: number[] = [];
+  for (let i = first; i < rows.length && offsets[i] <= viewport.bottom + OVERSCAN; i++) visible.push(i);
+
+  const toggleGroup = (key: string) => setCollapsed(prev => {
+    const next = new Set(prev);
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    return next;
+  });
+
+  const sortBy = (sort: LibrarySortKey) => updateSettings({
+    library: { ...layout, sort, descending: layout.sort === sort ? !layout.descending : sort !== 'title' },
+  });
+
+  const SortArrow = layout.descending ? ArrowDown : ArrowUp;
+
+  return (
+    <div className="space-y-2">
+      {isList && (
+        <div className="flex items-center gap-4 px-2 text-[8px] font-black uppercase tracking-widest">
+          {selectedIds && <span className="w-4 flex-shrink-0" />}
+          <span className="w-24 flex-shrink-0" />
+          {LIST_COLUMNS.map(col => (
+            <button key={col.sort} onClick={() => sortBy(col.sort)} className={`${col.className} flex items-center gap-1 ${col.className.includes('text-right') ? 'justify-end' : ''} ${layout.sort === col.sort ? 'text-blue-500' : 'opacity-30 hover:opacity-60'}`}>
+              {col.label} {layout.sort === col.sort && <SortArrow className="w-3 h-3" />}
+            </button>
+          ))}
+          <span className="w-14 flex-shrink-0" />
+        </div>
+      )}
+      <div ref={containerRef} className="relative" style={{ height: totalHeight }}>
+        {width > 0 && visible.map(i => {
+          const row = rows[i];
+          if (row.kind === 'header') {
+            const isCollapsed = collapsed.has(row.group.key);
+            return (
+              <button
+                key={row.key} onClick={() => toggleGroup(row.group.key)}
+                className="absolute inset-x-0 flex items-center gap-3 px-2 border-b border-white/5 text-left group"
+                style={{ top: offsets[i], height: HEADER_HEIGHT - 8 }}
+              >
+                <ChevronDown className={`w-4 h-4 text-white/30 transition-transform ${isCollapsed ? '-rotate-90' : ''}`} />
+                <span className="text-[10px] font-black uppercase tracking-widest truncate group-hover:text-blue-500 transition-colors">{row.group.label}</span>
+                <span className="text-[9px] font-black uppercase tracking-widest opacity-20">{row.group.videos.length}</span>
+              </button>
+            );
+          }
+          return (
+            <div
+              key={row.key} className="absolute inset-x-0"
+              style={isList
+                ? { top: offsets[i] }
+                : { top: offsets[i], display: 'grid', gridTemplateColumns: `repeat(${columns}, minmax(0, 1fr))`, gap: GAP }}
+            >
+              {row.videos.map(v => {
+                const Item = isList ? VideoRow : VideoCard;
+                return <Item key={v.id} video={v} onOpen={() => onOpen(v)} selected={selectedIds ? selectedIds.includes(v.id) : undefined} showPath={showPath} />;
+              })}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default VirtualLibrary;
@@ -1,48 +1,204 @@
 
 import { create } from 'zustand';
-import { persist } from 'zustand/middleware';
-import { VideoItem, PlayerSettings } from './types';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import { VideoItem, PlayerSettings, QuarantinedRecord, SyncedFolder, Playlist, SmartCollection, Bookmark } from './types';
+import {
+  resolveSourceUrl, saveSource, deleteSource, clearSources,
+  saveThumbnail, deleteThumbnail, clearThumbnails, loadThumbnailUrls,
+  deleteFolderHandle, clearFolderHandles, deleteRemux, clearRemuxes,
+  saveSubtitle, deleteSubtitle, clearSubtitles, deleteStoryboard, clearStoryboards
+} from './utils/vaultDb';
+import { createVaultStorage } from './utils/vaultStorage';
+import { VaultBundle, RelinkMatch, mergeVaultBundle } from './utils/vaultBackup';
+import { dataUrlToBlob, formatTime } from './utils/helpers';
+import { VAULT_VERSION, DEFAULT_SETTINGS, migrateVaultState, validateVaultState } from './utils/vaultSchema';
+import { shuffled, shuffleUpcoming, stepContext, moveItem, withoutId } from './utils/playQueue';
+import { normalizeTag } from './utils/smartCollections';
+import { crossesWatchedThreshold } from './utils/watchState';
+import { sortBookmarks } from './utils/chapters';
 
 interface VideoStore {
   videos: VideoItem[];
   currentVideoId: string | null;
+  // Session-only: the current video keeps playing in the docked mini-player while the library is browsed
+  isMiniPlayer: boolean;
   settings: PlayerSettings;
+  folders: SyncedFolder[];
+  playlists: Playlist[];
+  smartCollections: SmartCollection[];
+  storageError: string | null;
+  quarantine: QuarantinedRecord[];
+  // Session-only play queue, see utils/playQueue.ts
+  queue: string[];
+  playContext: string[];
+  contextIndex: number;
+  // Position to start at the next time the player loads this video, e.g. a subtitle search hit
+  seekRequest: { videoId: string, time: number } | null;
   
   addVideo: (video: VideoItem) => void;
+  updateVideo: (id: string, patch: Partial<VideoItem>) => void;
   removeVideo: (id: string) => void;
+  removeSubtitle: (videoId: string, subtitleId: string) => void;
   setCurrentVideo: (id: string | null) => void;
-  updateVideoProgress: (id: string, progress: number) => void;
+  setMiniPlayer: (mini: boolean) => void;
+  openAt: (id: string, time: number) => void;
+  clearSeekRequest: () => void;
+  updateVideoProgress: (id: string, progress: number, duration?: number) => void;
+  setWatched: (ids: string[], watched: boolean) => void;
   toggleFavorite: (id: string) => void;
   updateSettings: (settings: Partial<PlayerSettings>) => void;
   clearHistory: () => void;
+  setStorageError: (message: string | null) => void;
+  clearQuarantine: () => void;
+  importVault: (bundle: VaultBundle) => Promise<{ added: number, updated: number }>;
+  relinkVideos: (matches: RelinkMatch[]) => Promise<void>;
+  saveFolder: (folder: SyncedFolder) => void;
+  forgetFolder: (id: string) => void;
+  playVideos: (ids: string[], startIndex?: number) => void;
+  playNext: (id: string) => void;
+  addToQueue: (id: string) => void;
+  removeFromQueue: (index: number) => void;
+  clearQueue: () => void;
+  playQueued: (index: number) => void;
+  playContextItem: (index: number) => void;
+  skip: (direction: 1 | -1) => boolean;
+  setShuffle: (shuffle: boolean) => void;
+  createPlaylist: (name: string, videoIds?: string[]) => Playlist;
+  renamePlaylist: (id: string, name: string) => void;
+  deletePlaylist: (id: string) => void;
+  addToPlaylist: (id: string, videoIds: string[]) => void;
+  removeFromPlaylist: (id: string, index: number) => void;
+  movePlaylistItem: (id: string, from: number, to: number) => void;
+  editTags: (videoIds: string[], add: string[], remove: string[]) => void;
+  saveSmartCollection: (collection: SmartCollection) => void;
+  deleteSmartCollection: (id: string) => void;
+  addBookmark: (videoId: string, time: number, label?: string) => Bookmark;
+  updateBookmark: (videoId: string, id: string, patch: Partial<Pick<Bookmark, 'time' | 'label' | 'note'>>) => void;
+  removeBookmark: (videoId: string, id: string) => void;
 }
 
+// Older builds stored thumbnails inline as data URLs; move them into IndexedDB as Blobs
+const migrateInlineThumbnails = async (videos: VideoItem[]) => {
+  for (const v of videos) {
+    if (!v.thumbnail?.startsWith('data:')) continue;
+    try {
+      const blob = await dataUrlToBlob(v.thumbnail);
+      await saveThumbnail(v.id, blob);
+    } catch (err) {
+      console.error('Thumbnail migration failed:', err);
+    }
+  }
+};
+
+const hydrateThumbnails = async (videos: VideoItem[]) => {
+  await migrateInlineThumbnails(videos);
+  const urls = await loadThumbnailUrls();
+  useVideoStore.setState((state) => ({
+    videos: state.videos.map((v) => ({ ...v, thumbnail: urls[v.id] }))
+  }));
+};
+
+// Source and thumbnail object URLs only live for the session; drop them with the entry they belong to
+const revokeUrls = (video: VideoItem) => {
+  if (video.source) URL.revokeObjectURL(video.source);
+  if (video.thumbnail) URL.revokeObjectURL(video.thumbnail);
+};
+
 export const useVideoStore = create<VideoStore>()(
   persist(
-    (set) => ({
+    (set, get) => ({
       videos: [],
       currentVideoId: null,
-      settings: {
-        volume: 0.8,
-        playbackRate: 1,
-        isMuted: false,
-        isTheaterMode: false,
-        quality: 'auto',
-      },
+      isMiniPlayer: false,
+      settings: DEFAULT_SETTINGS,
+      folders: [],
+      playlists: [],
+      smartCollections: [],
+      storageError: null,
+      quarantine: [],
+      queue: [],
+      playContext: [],
+      contextIndex: -1,
+      seekRequest: null,
 
       addVideo: (video) => set((state) => ({ 
-        videos: [video, ...state.videos.filter(v => v.id !== video.id)].slice(0, 50) 
+        videos: [video, ...state.videos.filter(v => v.id !== video.id)]
       })),
 
-      removeVideo: (id) => set((state) => ({ 
-        videos: state.videos.filter((v) => v.id !== id),
-        currentVideoId: state.currentVideoId === id ? null : state.currentVideoId
+      updateVideo: (id, patch) => set((state) => ({
+        videos: state.videos.map((v) => v.id === id ? { ...v, ...patch } : v)
       })),
 
-      setCurrentVideo: (id) => set({ currentVideoId: id }),
+      removeVideo: (id) => {
+        const video = get().videos.find(v => v.id === id);
+        if (video) revokeUrls(video);
+        deleteSource(id).catch(console.error);
+        deleteThumbnail(id).catch(console.error);
+        deleteRemux(id).catch(console.error);
+        deleteStoryboard(id).catch(console.error);
+        video?.subtitles?.forEach(s => deleteSubtitle(s.id).catch(console.error));
+        set((state) => {
+          const context = withoutId(state.playContext, state.contextIndex, id);
+          const isCurrent = state.currentVideoId === id;
+          return {
+            videos: state.videos.filter((v) => v.id !== id),
+            currentVideoId: isCurrent ? null : state.currentVideoId,
+            isMiniPlayer: isCurrent ? false : state.isMiniPlayer,
+            playlists: state.playlists.map(p => p.videoIds.includes(id) ? { ...p, videoIds: p.videoIds.filter(v => v !== id) } : p),
+            queue: state.queue.filter(v => v !== id),
+            playContext: context.ids,
+            contextIndex: context.index,
+          };
+        });
+      },
+
+      removeSubtitle: (videoId, subtitleId) => {
+        deleteSubtitle(subtitleId).catch(console.error);
+        set((state) => ({
+          videos: state.videos.map((v) => v.id === videoId ? {
+            ...v,
+            subtitles: v.subtitles?.filter(s => s.id !== subtitleId),
+            activeSubtitleId: v.activeSubtitleId === subtitleId ? undefined : v.activeSubtitleId,
+          } : v)
+        }));
+      },
+
+      // Opening a video always brings back the full player; skip() keeps the mini-player docked
+      setCurrentVideo: (id) => {
+        set({ currentVideoId: id, isMiniPlayer: false });
+        const video = id ? get().videos.find(v => v.id === id) : undefined;
+        if (!video || video.source) return;
+
+        // Object URLs die with the session, so rebuild one from the stored handle/Blob
+        resolveSourceUrl(video.id).then((source) => set((state) => ({
+          videos: state.videos.map((v) => v.id === video.id
+            ? (source ? { ...v, source, missing: false } : { ...v, missing: true })
+            : v)
+        })));
+      },
+
+      setMiniPlayer: (mini) => set((state) => ({ isMiniPlayer: mini && !!state.currentVideoId })),
+
+      openAt: (id, time) => {
+        set({ seekRequest: { videoId: id, time } });
+        get().setCurrentVideo(id);
+      },
+
+      clearSeekRequest: () => set({ seekRequest: null }),
+
+      // Called by the player every few seconds, not per frame: each call persists the whole vault
+      updateVideoProgress: (id, progress, duration) => set((state) => ({
+        videos: state.videos.map((v) => v.id === id ? {
+          ...v,
+          progress,
+          lastPlayedAt: Date.now(),
+          watched: v.watched || crossesWatchedThreshold(progress, duration ?? v.metadata?.duration ?? 0, state.settings.watchedThreshold),
+        } : v)
+      })),
 
-      updateVideoProgress: (id, progress) => set((state) => ({
-        videos: state.videos.map((v) => v.id === id ? { ...v, progress, lastPlayedAt: Date.now() } : v)
+      // Manual toggle; either way the saved position is dropped so the next play starts from the top
+      setWatched: (ids, watched) => set((state) => ({
+        videos: state.videos.map((v) => ids.includes(v.id) ? { ...v, watched, progress: undefined } : v)
       })),
 
       toggleFavorite: (id) => set((state) => ({
@@ -53,15 +209,212 @@ export const useVideoStore = create<VideoStore>()(
         settings: { ...state.settings, ...newSettings }
       })),
 
-      clearHistory: () => set({ videos: [], currentVideoId: null }),
+      clearHistory: () => {
+        get().videos.forEach(revokeUrls);
+        clearSources().catch(console.error);
+        clearThumbnails().catch(console.error);
+        clearFolderHandles().catch(console.error);
+        clearRemuxes().catch(console.error);
+        clearSubtitles().catch(console.error);
+        clearStoryboards().catch(console.error);
+        set({ videos: [], folders: [], playlists: [], smartCollections: [], currentVideoId: null, isMiniPlayer: false, queue: [], playContext: [], contextIndex: -1 });
+      },
+
+      setStorageError: (storageError) => set({ storageError }),
+
+      clearQuarantine: () => set({ quarantine: [] }),
+
+      importVault: async (bundle) => {
+        const { videos, settings, folders, playlists, smartCollections } = get();
+        const merged = mergeVaultBundle({ videos, settings, folders, playlists, smartCollections }, bundle);
+        // Thumbnails and subtitle text arrive inline; store them like any other and hand the UI object URLs
+        for (const v of merged.videos) {
+          if (!v.thumbnail?.startsWith('data:')) continue;
+          const blob = await dataUrlToBlob(v.thumbnail);
+          await saveThumbnail(v.id, blob).catch(console.error);
+          v.thumbnail = URL.createObjectURL(blob);
+        }
+        for (const track of merged.videos.flatMap(v => v.subtitles || [])) {
+          const text = bundle.subtitles?.[track.id];
+          if (text != null) await saveSubtitle(track.id, text).catch(console.error);
+        }
+        set({
+          videos: merged.videos,
+          settings: merged.settings,
+          folders: merged.folders,
+          playlists: merged.playlists,
+          smartCollections: merged.smartCollections,
+        });
+        return { added: merged.added, updated: merged.updated };
+      },
+
+      relinkVideos: async (matches) => {
+        for (const { id, handle } of matches) await saveSource(id, handle);
+        const urls = new Map(matches.map(({ id, file }) => [id, URL.createObjectURL(file)]));
+        set((state) => ({
+          videos: state.videos.map((v) => urls.has(v.id) ? { ...v, source: urls.get(v.id)!, missing: false } : v)
+        }));
+      },
+
+      saveFolder: (folder) => set((state) => ({
+        folders: [...state.folders.filter(f => f.id !== folder.id), folder]
+      })),
+
+      // Stops syncing a folder; its entries stay in the vault as regular items
+      forgetFolder: (id) => {
+        deleteFolderHandle(id).catch(console.error);
+        set((state) => ({
+          folders: state.folders.filter(f => f.id !== id),
+          videos: state.videos.map((v) => v.folderId === id ? { ...v, folderId: undefined } : v)
+        }));
+      },
+
+      // Starts playback from a list (a library view, a playlist); the hand-picked queue is kept
+      playVideos: (ids, startIndex = 0) => {
+        if (ids.length === 0) return;
+        const start = Math.min(Math.max(0, startIndex), ids.length - 1);
+        const playContext = get().settings.shuffle
+          ? [ids[start], ...shuffled(ids.filter((_, i) => i !== start))]
+          : ids;
+        set({ playContext, contextIndex: get().settings.shuffle ? 0 : start });
+        get().setCurrentVideo(playContext[get().contextIndex]);
+      },
+
+      // With nothing playing there is no "next" to wait for, so it simply starts
+      playNext: (id) => {
+        if (get().currentVideoId) set((state) => ({ queue: [id, ...state.queue] }));
+        else get().setCurrentVideo(id);
+      },
+
+      addToQueue: (id) => set((state) => ({ queue: [...state.queue, id] })),
+
+      removeFromQueue: (index) => set((state) => ({ queue: state.queue.filter((_, i) => i !== index) })),
+
+      clearQueue: () => set({ queue: [] }),
+
+      // Jumping ahead in the queue skips the entries before the one picked
+      playQueued: (index) => {
+        const id = get().queue[index];
+        if (!id) return;
+        set((state) => ({ queue: state.queue.slice(index + 1) }));
+        get().setCurrentVideo(id);
+      },
+
+      playContextItem: (index) => {
+        const id = get().playContext[index];
+        if (!id) return;
+        set({ contextIndex: index });
+        get().setCurrentVideo(id);
+      },
+
+      // Next/previous video; returns false when there is nothing to move to
+      skip: (direction) => {
+        const { queue, playContext, contextIndex, settings, isMiniPlayer } = get();
+        if (direction === 1 && queue.length > 0) {
+          get().playQueued(0);
+          set({ isMiniPlayer });
+          return true;
+        }
+        const step = stepContext(playContext, contextIndex, direction, settings.repeat, settings.shuffle);
+        if (!step) return false;
+        set({ playContext: step.context });
+        get().playContextItem(step.index);
+        set({ isMiniPlayer });
+        return true;
+      },
+
+      setShuffle: (shuffle) => {
+        get().updateSettings({ shuffle });
+        if (shuffle) set((state) => ({ playContext: shuffleUpcoming(state.playContext, state.contextIndex) }));
+      },
+
+      createPlaylist: (name, videoIds = []) => {
+        const playlist: Playlist = { id: crypto.randomUUID(), name, videoIds, createdAt: Date.now(), updatedAt: Date.now() };
+        set((state) => ({ playlists: [...state.playlists, playlist] }));
+        return playlist;
+      },
+
+      renamePlaylist: (id, name) => set((state) => ({
+        playlists: state.playlists.map(p => p.id === id ? { ...p, name, updatedAt: Date.now() } : p)
+      })),
+
+      deletePlaylist: (id) => set((state) => ({ playlists: state.playlists.filter(p => p.id !== id) })),
+
+      addToPlaylist: (id, videoIds) => set((state) => ({
+        playlists: state.playlists.map(p => p.id === id ? { ...p, videoIds: [...p.videoIds, ...videoIds], updatedAt: Date.now() } : p)
+      })),
+
+      removeFromPlaylist: (id, index) => set((state) => ({
+        playlists: state.playlists.map(p => p.id === id ? { ...p, videoIds: p.videoIds.filter((_, i) => i !== index), updatedAt: Date.now() } : p)
+      })),
+
+      movePlaylistItem: (id, from, to) => set((state) => ({
+        playlists: state.playlists.map(p => p.id === id ? { ...p, videoIds: moveItem(p.videoIds, from, to), updatedAt: Date.now() } : p)
+      })),
+
+      // Bulk tag edit; tags match case-insensitively, so "Anime" is not added next to an existing "anime"
+      editTags: (videoIds, add, remove) => {
+        const ids = new Set(videoIds);
+        const removed = new Set(remove.map(t => normalizeTag(t).toLowerCase()));
+        const added = add.map(normalizeTag).filter(Boolean);
+        set((state) => ({
+          videos: state.videos.map((v) => {
+            if (!ids.has(v.id)) return v;
+            const tags = (v.tags || []).filter(t => !removed.has(t.toLowerCase()));
+            for (const tag of added) {
+              if (!tags.some(t => t.toLowerCase() === tag.toLowerCase())) tags.push(tag);
+            }
+            return { ...v, tags };
+          })
+        }));
+      },
+
+      saveSmartCollection: (collection) => set((state) => ({
+        smartCollections: state.smartCollections.some(c => c.id === collection.id)
+          ? state.smartCollections.map(c => c.id === collection.id ? collection : c)
+          : [...state.smartCollections, collection]
+      })),
+
+      deleteSmartCollection: (id) => set((state) => ({ smartCollections: state.smartCollections.filter(c => c.id !== id) })),
+
+      addBookmark: (videoId, time, label) => {
+        const bookmark: Bookmark = { id: crypto.randomUUID(), time, label: label?.trim() || formatTime(time), createdAt: Date.now() };
+        set((state) => ({
+          videos: state.videos.map((v) => v.id === videoId ? { ...v, bookmarks: sortBookmarks([...(v.bookmarks || []), bookmark]) } : v)
+        }));
+        return bookmark;
+      },
+
+      updateBookmark: (videoId, id, patch) => set((state) => ({
+        videos: state.videos.map((v) => v.id === videoId ? {
+          ...v,
+          bookmarks: sortBookmarks((v.bookmarks || []).map(b => b.id === id ? { ...b, ...patch } : b)),
+        } : v)
+      })),
+
+      removeBookmark: (videoId, id) => set((state) => ({
+        videos: state.videos.map((v) => v.id === videoId ? { ...v, bookmarks: v.bookmarks?.filter(b => b.id !== id) } : v)
+      })),
     }),
     {
       name: 'nexus-player-storage',
-      // Store everything EXCEPT the Blob URL (source) as it's session-only
+      version: VAULT_VERSION,
+      storage: createJSONStorage(() => createVaultStorage((message) => useVideoStore.getState().setStorageError(message))),
+      // Store everything EXCEPT the Blob URLs (source, thumbnail) as they're session-only;
+      // the underlying files and thumbnail Blobs live in their own IndexedDB stores
       partialize: (state) => ({
-        videos: state.videos.map(v => ({ ...v, source: '' })),
+        videos: state.videos.map(v => ({ ...v, source: '', thumbnail: undefined })),
         settings: state.settings,
+        folders: state.folders,
+        playlists: state.playlists,
+        smartCollections: state.smartCollections,
+        quarantine: state.quarantine,
       }),
+      migrate: (persisted, version) => migrateVaultState(persisted, version),
+      merge: (persisted, current) => persisted ? { ...current, ...validateVaultState(persisted) } : current,
+      onRehydrateStorage: () => (state) => {
+        if (state) hydrateThumbnails(state.videos).catch(console.error);
+      },
     }
   )
 );
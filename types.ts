@@ -1,12 +1,81 @@
 
-export type VideoSourceType = 'local';
+export type VideoSourceType = 'local' | 'audio'; // 'audio': a local file without a picture, played in the audio layout
+
+export type TrackKind = 'video' | 'audio' | 'subtitle';
+
+export interface MediaTrack {
+  id: number; // Track number/ID inside the container
+  kind: TrackKind;
+  codec: string; // Normalized short name: 'h264', 'hevc', 'aac', 'opus', 'srt', 'ass', ...
+  codecString?: string; // RFC 6381 string for MSE/mediaCapabilities checks, e.g. 'avc1.64001F'
+  language?: string;
+  name?: string;
+  isDefault?: boolean;
+  width?: number;
+  height?: number;
+  frameRate?: number;
+  channels?: number;
+  sampleRate?: number;
+}
 
 export interface VideoMetadata {
   duration: number;
   width: number;
   height: number;
-  format?: string;
+  format?: string; // File extension
   size?: number;
+  // Filled in by the container probe (utils/probe)
+  container?: string;
+  videoCodec?: string;
+  audioCodec?: string;
+  bitrate?: number; // Bits per second, whole file
+  frameRate?: number;
+  audioChannels?: number;
+  tracks?: MediaTrack[];
+  unsupported?: string[]; // Tracks this browser can't decode, checked at import (utils/playability.ts)
+  chapters?: Chapter[]; // Embedded in the container, see utils/chapters.ts
+  loudness?: Loudness; // Measured in the background, see utils/loudness.ts
+  loudnessSkip?: LoudnessSkip; // Why loudness won't be measured for this file
+}
+
+// EBU R128 measurement of a file's audio
+export interface Loudness {
+  integrated: number | null; // LUFS; null when the audio never rises above the -70 LUFS gate
+  peak: number | null; // Sample peak in dBFS; null for digital silence
+}
+
+// 'too-large': more audio than a tab can decode at once; 'no-audio': no audio track, or none this browser decodes
+export type LoudnessSkip = 'too-large' | 'no-audio';
+
+export interface Chapter {
+  start: number; // Seconds
+  end?: number; // Defaults to the next chapter's start
+  title: string;
+}
+
+// A-B repeat range, in seconds
+export interface ABLoop {
+  start: number;
+  end: number;
+}
+
+// A user-saved moment
+export interface Bookmark {
+  id: string;
+  time: number; // Seconds
+  label: string;
+  note?: string;
+  createdAt: number;
+}
+
+export type SubtitleFormat = 'srt' | 'vtt' | 'ass';
+
+export interface SubtitleTrack {
+  id: string; // Key of the subtitle text in IndexedDB
+  label: string;
+  language?: string; // BCP 47 / ISO 639 code when known
+  format: SubtitleFormat;
+  embedded?: number; // Track number inside the video file; the text is extracted on first use
 }
 
 export interface VideoItem {
@@ -14,19 +83,153 @@ export interface VideoItem {
   title: string;
   source: string; // Object URL
   type: VideoSourceType;
-  thumbnail?: string;
-  subtitleUrl?: string; // For captions
+  path?: string; // Relative to the scanned folder, or just the file name for picked files
+  folderId?: string; // SyncedFolder this entry was found in
+  contentHash?: string; // Size + sampled-bytes fingerprint, see utils/sampleHash.ts
+  thumbnail?: string; // Object URL, Blob kept in IndexedDB
+  subtitles?: SubtitleTrack[];
+  activeSubtitleId?: string | null; // null = switched off, undefined = follow the preferred language
+  subtitleOffset?: number; // Seconds added to every cue
   metadata?: VideoMetadata;
   addedAt: number;
   lastPlayedAt?: number;
   progress?: number; // In seconds
+  watched?: boolean; // See utils/watchState.ts
   favorite?: boolean;
+  missing?: boolean; // Backing file could not be resolved
+  // User-entered details
+  tags?: string[]; // Free-form, compared case-insensitively
+  series?: string;
+  season?: number;
+  episode?: number;
+  rating?: number; // 1-5 stars
+  notes?: string;
+  bookmarks?: Bookmark[]; // Sorted by time
+  chapters?: Chapter[]; // Imported from a WebVTT file; replaces the embedded ones while set
+  loop?: ABLoop; // Saved A-B loop, restored when the video is opened
+  picture?: PictureAdjustments; // Overrides PlayerSettings.picture for this video
+  audioTags?: AudioTags; // Read from the file at import, audio items only
+}
+
+// Song details from ID3v2, Vorbis comments or FLAC metadata, see utils/probe/tags.ts
+export interface AudioTags {
+  title?: string;
+  artist?: string;
+  album?: string;
+  albumArtist?: string;
+  track?: number;
+  trackTotal?: number;
+  disc?: number;
+  year?: number;
+  genre?: string;
+}
+
+export interface Playlist {
+  id: string;
+  name: string;
+  videoIds: string[]; // In play order; the same video may appear more than once
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type SmartRuleField = 'tag' | 'duration' | 'status' | 'added' | 'favorite' | 'rating' | 'series' | 'format';
+
+export type SmartRuleOp = 'is' | 'isNot' | 'gt' | 'lt';
+
+// Units depend on the field: minutes for duration, days ago for added, stars for rating
+export interface SmartRule {
+  field: SmartRuleField;
+  op: SmartRuleOp;
+  value: string | number;
+}
+
+// A saved view defined by rules instead of a hand-picked list, see utils/smartCollections.ts
+export interface SmartCollection {
+  id: string;
+  name: string;
+  match: 'all' | 'any';
+  rules: SmartRule[];
+  createdAt: number;
+}
+
+export type RepeatMode = 'off' | 'all' | 'one';
+
+export interface SyncedFolder {
+  id: string;
+  name: string;
+  lastSyncedAt: number;
+}
+
+// 'view' keeps each view's own order (insertion, or last played for History)
+export type LibrarySortKey = 'view' | 'title' | 'size' | 'duration' | 'added' | 'played' | 'progress';
+
+export type LibraryGroupKey = 'none' | 'folder' | 'format' | 'tag' | 'date';
+
+export interface LibraryLayout {
+  sort: LibrarySortKey;
+  descending: boolean;
+  group: LibraryGroupKey;
+  mode: 'grid' | 'list';
 }
 
 export interface PlayerSettings {
   volume: number;
   playbackRate: number;
   isMuted: boolean;
-  isTheaterMode: boolean;
+  isTheaterMode: boolean; // The player spans the whole main column, with the side panels below it
+  miniPlayerCorner: MiniPlayerCorner; // Where the mini-player docks; dragged there by the user
   quality: 'auto' | '1080p' | '720p' | '480p';
+  shuffle: boolean;
+  repeat: RepeatMode;
+  watchedThreshold: number; // Fraction of the duration after which a video counts as watched
+  resumeTail: number; // Seconds; stopping this close to the end starts over next time
+  seekStep: number; // Seconds per arrow key press or double tap
+  longSeekStep: number; // Seconds per J/L press
+  subtitleLanguage?: string; // Picked automatically when a video has a track in it
+  subtitleStyle: SubtitleStyle;
+  picture: PictureAdjustments;
+  audio: AudioAdjustments;
+  normalizeLoudness: boolean; // Brings every video to loudnessTarget
+  loudnessTarget: number; // LUFS
+  visualizer: VisualizerMode; // Shown while an audio item plays
+  library: LibraryLayout;
+}
+
+export type VisualizerMode = 'spectrum' | 'waveform';
+
+export type MiniPlayerCorner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+export type AspectOverride = 'auto' | '4:3' | '16:9' | '1.85:1' | '2.39:1' | '1:1';
+
+// Applied to the video element with CSS, see utils/adjustments.ts
+export interface PictureAdjustments {
+  brightness: number; // Percent, 100 = unchanged
+  contrast: number; // Percent
+  saturation: number; // Percent
+  rotation: 0 | 90 | 180 | 270; // Degrees clockwise
+  flipH: boolean;
+  flipV: boolean;
+  zoom: number; // Percent; above 100 crops the edges
+  aspect: AspectOverride; // Stretches files with wrong display dimensions
+}
+
+// Applied through a Web Audio graph, see utils/audioGraph.ts
+export interface AudioAdjustments {
+  eq: number[]; // Gain in dB for each of EQ_BANDS
+  boost: number; // Gain on top of the element volume, 1-3
+  mono: boolean; // Downmix every channel to one
+}
+
+export interface SubtitleStyle {
+  fontSize: number; // Percent of the default size
+  color: string; // #rrggbb
+  background: string; // #rrggbb
+  backgroundOpacity: number; // 0-1
+}
+
+export interface QuarantinedRecord {
+  record: unknown; // Raw persisted data, kept so nothing is silently thrown away
+  reason: string;
+  fromVersion: number;
+  quarantinedAt: number;
 }
@@ -0,0 +1,114 @@
+import { CSSProperties } from 'react';
+import { PictureAdjustments, AudioAdjustments, AspectOverride, Loudness } from '../types';
+
+// Picture and sound adjustments of the player. Picture settings are CSS on the <video> element and
+// can be saved per video; audio settings drive the Web Audio graph in utils/audioGraph.ts.
+
+export const DEFAULT_PICTURE: PictureAdjustments = {
+  brightness: 100,
+  contrast: 100,
+  saturation: 100,
+  rotation: 0,
+  flipH: false,
+  flipV: false,
+  zoom: 100,
+  aspect: 'auto',
+};
+
+// Centre frequencies in Hz; the outer bands are shelves, the rest peaking filters
+export const EQ_BANDS = [31, 62, 125, 250, 500, 1000, 2000, 4000, 8000, 16000];
+export const EQ_RANGE = 12; // dB either way
+
+export const DEFAULT_AUDIO: AudioAdjustments = {
+  eq: EQ_BANDS.map(() => 0),
+  boost: 1,
+  mono: false,
+};
+
+export const MAX_BOOST = 3;
+
+export const EQ_PRESETS: { name: string, eq: number[] }[] = [
+  { name: 'Flat', eq: [0, 0, 0, 0, 0, 0, 0, 0, 0, 0] },
+  { name: 'Bass Boost', eq: [6, 5, 4, 2, 0, 0, 0, 0, 0, 0] },
+  { name: 'Treble Boost', eq: [0, 0, 0, 0, 0, 1, 2, 4, 5, 6] },
+  { name: 'Vocal', eq: [-2, -2, -1, 1, 3, 4, 3, 1, 0, -1] },
+  { name: 'Rock', eq: [4, 3, 2, 0, -1, -1, 1, 2, 3, 4] },
+  { name: 'Pop', eq: [-1, 1, 3, 4, 3, 0, -1, -1, -1, -1] },
+  { name: 'Jazz', eq: [3, 2, 1, 2, -1, -1, 0, 1, 2, 3] },
+  { name: 'Classical', eq: [4, 3, 2, 1, 0, 0, 0, 1, 2, 3] },
+  { name: 'Loudness', eq: [5, 4, 2, 0, -1, -1, 0, 2, 4, 5] },
+];
+
+export const presetFor = (eq: number[]) => EQ_PRESETS.find(p => p.eq.every((gain, i) => gain === eq[i]));
+
+// Normalization gain is bounded; the limiter in the audio graph catches peaks the gain pushes up
+const MAX_NORMALIZE_GAIN = 12; // dB
+const MIN_NORMALIZE_GAIN = -20;
+
+export const MIN_LOUDNESS_TARGET = -31; // LUFS
+export const MAX_LOUDNESS_TARGET = -5;
+
+// Linear gain that brings a measured video to the target, or 1 when it hasn't been measured
+export const normalizationGain = (loudness: Loudness | undefined, target: number) => {
+  if (loudness?.integrated == null) return 1;
+  const db = Math.min(MAX_NORMALIZE_GAIN, Math.max(MIN_NORMALIZE_GAIN, target - loudness.integrated));
+  return Math.pow(10, db / 20);
+};
+
+export const isLoudness = (l: any): l is Loudness =>
+  !!l && typeof l === 'object' && (l.integrated === null || Number.isFinite(l.integrated)) && (l.peak === null || Number.isFinite(l.peak));
+
+export const ASPECT_RATIOS: Record<Exclude<AspectOverride, 'auto'>, number> = {
+  '4:3': 4 / 3,
+  '16:9': 16 / 9,
+  '1.85:1': 1.85,
+  '2.39:1': 2.39,
+  '1:1': 1,
+};
+
+export const isDefaultPicture = (p: PictureAdjustments) =>
+  (Object.keys(DEFAULT_PICTURE) as (keyof PictureAdjustments)[]).every(key => p[key] === DEFAULT_PICTURE[key]);
+
+export const isDefaultAudio = (a: AudioAdjustments) => a.boost === 1 && !a.mono && a.eq.every(gain => gain === 0);
+
+// Styles for the <video> element. Its parent must be a size container: a quarter turn or a forced
+// aspect ratio sizes the element itself with container units so the rotated picture still fits.
+export const pictureStyle = (p: PictureAdjustments, sourceAspect: number): CSSProperties => {
+  const style: CSSProperties = {};
+  if (p.brightness !== 100 || p.contrast !== 100 || p.saturation !== 100) {
+    style.filter = `brightness(${p.brightness}%) contrast(${p.contrast}%) saturate(${p.saturation}%)`;
+  }
+  if (p.rotation || p.flipH || p.flipV || p.zoom !== 100) {
+    const scale = p.zoom / 100;
+    style.transform = `rotate(${p.rotation}deg) scale(${p.flipH ? -scale : scale}, ${p.flipV ? -scale : scale})`;
+  }
+  const quarterTurn = p.rotation % 180 !== 0;
+  const aspect = p.aspect === 'auto' ? sourceAspect : ASPECT_RATIOS[p.aspect];
+  if ((quarterTurn || p.aspect !== 'auto') && aspect > 0) {
+    const [across, down] = quarterTurn ? ['100cqh', '100cqw'] : ['100cqw', '100cqh'];
+    style.width = `min(${across}, ${down} * ${aspect})`;
+    style.height = `min(${down}, ${across} / ${aspect})`;
+    style.objectFit = 'fill';
+  }
+  return style;
+};
+
+const clamp = (n: unknown, min: number, max: number, fallback: number) =>
+  typeof n === 'number' && Number.isFinite(n) ? Math.min(max, Math.max(min, n)) : fallback;
+
+export const sanitizePicture = (p: any): PictureAdjustments => ({
+  brightness: clamp(p?.brightness, 0, 200, 100),
+  contrast: clamp(p?.contrast, 0, 200, 100),
+  saturation: clamp(p?.saturation, 0, 300, 100),
+  rotation: [0, 90, 180, 270].includes(p?.rotation) ? p.rotation : 0,
+  flipH: p?.flipH === true,
+  flipV: p?.flipV === true,
+  zoom: clamp(p?.zoom, 100, 300, 100),
+  aspect: Object.keys(ASPECT_RATIOS).includes(p?.aspect) ? p.aspect : 'auto',
+});
+
+export const sanitizeAudio = (a: any): AudioAdjustments => ({
+  eq: EQ_BANDS.map((_, i) => clamp(Array.isArray(a?.eq) ? a.eq[i] : 0, -EQ_RANGE, EQ_RANGE, 0)),
+  boost: clamp(a?.boost, 1, MAX_BOOST, 1),
+  mono: a?.mono === true,
+});
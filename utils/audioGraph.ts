@@ -0,0 +1,100 @@
+import { AudioAdjustments } from '../types';
+import { EQ_BANDS, isDefaultAudio } from './adjustments';
+
+// Web Audio routing for the player: element → EQ bands → gain → limiter → downmix → speakers,
+// with an analyser tapped off the end for the audio visualizer.
+// An element can only be captured by one MediaElementAudioSourceNode, ever, and captured audio
+// stops playing through the element itself, so the graph is built the first time an adjustment
+// needs it and kept for the element's lifetime.
+
+interface AudioGraph {
+  context: AudioContext;
+  bands: BiquadFilterNode[];
+  boost: GainNode;
+  downmix: GainNode;
+  analyser: AnalyserNode;
+  resume: () => void;
+}
+
+const graphs = new WeakMap<HTMLMediaElement, AudioGraph>();
+const failed = new WeakSet<HTMLMediaElement>();
+
+const createGraph = (el: HTMLMediaElement): AudioGraph => {
+  const context = new AudioContext();
+  const source = context.createMediaElementSource(el);
+  const bands = EQ_BANDS.map((frequency, i) => {
+    const band = context.createBiquadFilter();
+    band.type = i === 0 ? 'lowshelf' : i === EQ_BANDS.length - 1 ? 'highshelf' : 'peaking';
+    band.frequency.value = frequency;
+    band.Q.value = 1.4; // About an octave wide
+    return band;
+  });
+  const boost = context.createGain();
+  // Keeps boosted or EQ'd peaks from clipping; it only acts close to full scale
+  const limiter = context.createDynamicsCompressor();
+  limiter.threshold.value = -1;
+  limiter.knee.value = 0;
+  limiter.ratio.value = 20;
+  limiter.attack.value = 0.003;
+  limiter.release.value = 0.25;
+  const downmix = context.createGain();
+  downmix.channelInterpretation = 'speakers';
+
+  [...bands, boost, limiter, downmix, context.destination].reduce<AudioNode>((prev, node) => prev.connect(node), source);
+  // Analysers process their input without being connected onwards
+  const analyser = context.createAnalyser();
+  analyser.fftSize = 2048;
+  analyser.smoothingTimeConstant = 0.8;
+  downmix.connect(analyser);
+
+  // Contexts created outside a user gesture start suspended
+  const resume = () => { if (context.state === 'suspended') context.resume().catch(() => {}); };
+  el.addEventListener('play', resume);
+  return { context, bands, boost, downmix, analyser, resume };
+};
+
+const graphFor = (el: HTMLMediaElement) => {
+  let graph = graphs.get(el);
+  if (graph || failed.has(el)) return graph;
+  try {
+    graph = createGraph(el);
+  } catch (err) {
+    failed.add(el);
+    console.warn('Audio adjustments are not available:', err);
+    return undefined;
+  }
+  graphs.set(el, graph);
+  return graph;
+};
+
+// `gain` is the loudness normalization of the playing video (utils/loudness.ts), on top of the boost
+export const applyAudioAdjustments = (el: HTMLMediaElement, audio: AudioAdjustments, gain = 1) => {
+  if (!graphs.has(el) && isDefaultAudio(audio) && gain === 1) return;
+  const graph = graphFor(el);
+  if (!graph) return;
+  graph.bands.forEach((band, i) => { band.gain.value = audio.eq[i] ?? 0; });
+  graph.boost.gain.value = audio.boost * gain;
+  graph.downmix.channelCount = audio.mono ? 1 : 2;
+  graph.downmix.channelCountMode = audio.mono ? 'explicit' : 'max';
+  graph.resume();
+};
+
+// Builds the graph if nothing has yet; the default settings leave the sound untouched
+export const getAnalyser = (el: HTMLMediaElement) => {
+  const graph = graphFor(el);
+  graph?.resume();
+  return graph?.analyser;
+};
+
+// Closes the context once the element has left the page. Effects also re-run with the element still
+// mounted (StrictMode, hot reload), and a captured element can never be routed through a new context.
+export const releaseAudioGraph = (el: HTMLMediaElement) => {
+  setTimeout(() => {
+    const graph = graphs.get(el);
+    if (!graph || el.isConnected) return;
+    el.removeEventListener('play', graph.resume);
+    graph.context.close().catch(() => {});
+    graphs.delete(el);
+    failed.add(el);
+  });
+};
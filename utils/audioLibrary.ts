@@ -0,0 +1,92 @@
+import { VideoItem, MediaTrack } from '../types';
+
+// Music browsing: audio items grouped into albums and artists by their tags (utils/probe/tags.ts)
+
+export const UNKNOWN_ARTIST = 'Unknown Artist';
+export const UNKNOWN_ALBUM = 'Unknown Album';
+const VARIOUS_ARTISTS = 'Various Artists';
+
+// Audio and no picture: cover art is read from tags, never from a video frame
+export const isAudioOnly = (tracks?: MediaTrack[]) =>
+  !!tracks?.some(t => t.kind === 'audio') && !tracks.some(t => t.kind === 'video');
+
+export const isAudioItem = (v: VideoItem) => v.type === 'audio';
+
+export const trackArtist = (v: VideoItem) => v.audioTags?.artist || v.audioTags?.albumArtist || UNKNOWN_ARTIST;
+
+// Albums are credited to the album artist; the track artist stands in when there is none
+const albumArtist = (v: VideoItem) => v.audioTags?.albumArtist || v.audioTags?.artist;
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+// Disc, then track number, then title
+export const sortTracks = (videos: VideoItem[]) => [...videos].sort((a, b) =>
+  (a.audioTags?.disc || 1) - (b.audioTags?.disc || 1) ||
+  (a.audioTags?.track || Infinity) - (b.audioTags?.track || Infinity) ||
+  collator.compare(a.title, b.title));
+
+export interface AlbumEntry {
+  key: string;
+  title: string;
+  artist: string;
+  year?: number;
+  cover?: string; // Thumbnail of the first track that has one
+  tracks: VideoItem[]; // In album order
+}
+
+export interface ArtistEntry {
+  key: string;
+  name: string;
+  albumCount: number;
+  cover?: string;
+  tracks: VideoItem[];
+}
+
+const keyOf = (...parts: (string | undefined)[]) => parts.map(p => (p || '').toLowerCase()).join('\u0000');
+
+// Tracks without an album artist are grouped by album title alone, so a compilation tagged only
+// with per-track artists stays one album
+export const listAlbums = (videos: VideoItem[]): AlbumEntry[] => {
+  const albums = new Map<string, VideoItem[]>();
+  for (const v of videos) {
+    if (!isAudioItem(v)) continue;
+    const key = keyOf(v.audioTags?.album || UNKNOWN_ALBUM, v.audioTags?.albumArtist);
+    const members = albums.get(key);
+    if (members) members.push(v);
+    else albums.set(key, [v]);
+  }
+  return Array.from(albums, ([key, members]): AlbumEntry => {
+    const tracks = sortTracks(members);
+    const artists = new Set(tracks.map(t => albumArtist(t)?.toLowerCase()));
+    return {
+      key,
+      title: tracks[0].audioTags?.album || UNKNOWN_ALBUM,
+      artist: artists.size > 1 ? VARIOUS_ARTISTS : albumArtist(tracks[0]) || UNKNOWN_ARTIST,
+      year: tracks.find(t => t.audioTags?.year)?.audioTags?.year,
+      cover: tracks.find(t => t.thumbnail)?.thumbnail,
+      tracks,
+    };
+  }).sort((a, b) => collator.compare(a.title, b.title));
+};
+
+// An artist's tracks come album by album, newest album last
+export const listArtists = (videos: VideoItem[]): ArtistEntry[] => {
+  const artists = new Map<string, VideoItem[]>();
+  for (const v of videos) {
+    if (!isAudioItem(v)) continue;
+    const key = keyOf(albumArtist(v) || UNKNOWN_ARTIST);
+    const members = artists.get(key);
+    if (members) members.push(v);
+    else artists.set(key, [v]);
+  }
+  return Array.from(artists, ([key, members]): ArtistEntry => {
+    const albums = listAlbums(members).sort((a, b) => (a.year || 0) - (b.year || 0) || collator.compare(a.title, b.title));
+    return {
+      key,
+      name: albumArtist(members[0]) || UNKNOWN_ARTIST,
+      albumCount: albums.length,
+      cover: albums.find(a => a.cover)?.cover,
+      tracks: albums.flatMap(a => a.tracks),
+    };
+  }).sort((a, b) => collator.compare(a.name, b.name));
+};
@@ -0,0 +1,47 @@
+import { VideoItem, Chapter, Bookmark } from '../types';
+import { parseSubtitles } from './subtitles';
+
+// Chapters come from the container (read by the probe at import) or from a WebVTT chapters file the
+// user loads, which then takes precedence. Bookmarks are the user's own markers and live on the VideoItem.
+
+export const videoChapters = (video: VideoItem): Chapter[] => video.chapters ?? video.metadata?.chapters ?? [];
+
+// Cue text is VTT markup; chapter titles are shown as plain text
+const plainText = (markup: string) => markup
+  .replace(/<[^>]*>/g, '')
+  .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&nbsp;/g, ' ').replace(/&amp;/g, '&')
+  .replace(/\s+/g, ' ')
+  .trim();
+
+// A WebVTT file of kind "chapters": one cue per chapter, the cue text is its title
+export const parseChapterFile = (text: string): Chapter[] =>
+  parseSubtitles(text, 'vtt')
+    .map((cue, i) => ({ start: cue.start, end: cue.end, title: plainText(cue.text) || `Chapter ${i + 1}` }))
+    .sort((a, b) => a.start - b.start);
+
+export const chapterEnd = (chapters: Chapter[], index: number, duration: number) =>
+  chapters[index].end ?? chapters[index + 1]?.start ?? duration;
+
+export const chapterIndexAt = (chapters: Chapter[], time: number) => {
+  for (let i = chapters.length - 1; i >= 0; i--) if (chapters[i].start <= time) return i;
+  return -1;
+};
+
+// Pressing "previous" a few seconds into a chapter restarts it, as with tracks in a music player
+const RESTART_GRACE = 3;
+
+export const adjacentChapterStart = (chapters: Chapter[], time: number, direction: 1 | -1): number | null => {
+  const index = chapterIndexAt(chapters, time + 0.25);
+  if (direction === 1) return chapters[index + 1]?.start ?? null;
+  if (index >= 0 && time - chapters[index].start > RESTART_GRACE) return chapters[index].start;
+  return index > 0 ? chapters[index - 1].start : index === 0 ? chapters[0].start : null;
+};
+
+export const sortBookmarks = (bookmarks: Bookmark[]) => [...bookmarks].sort((a, b) => a.time - b.time);
+
+export const isChapter = (c: any): c is Chapter =>
+  !!c && Number.isFinite(c.start) && c.start >= 0 && typeof c.title === 'string' && (c.end == null || Number.isFinite(c.end));
+
+export const isBookmark = (b: any): b is Bookmark =>
+  !!b && typeof b.id === 'string' && Number.isFinite(b.time) && b.time >= 0 && typeof b.label === 'string' &&
+  (b.note == null || typeof b.note === 'string') && Number.isFinite(b.createdAt);
@@ -0,0 +1,73 @@
+import { VideoItem } from '../types';
+import { hashFileSample } from './sampleHash';
+
+let worker: Worker | null = null;
+let workerFailed = false;
+let nextRequestId = 0;
+const pending = new Map<number, { file: File, resolve: (hash: string) => void, reject: (err: Error) => void }>();
+
+// A worker that fails to load or crashes never answers, so whatever it was holding is hashed here instead,
+// as is everything after it for the rest of the session
+const abandonWorker = (reason: string) => {
+  console.error('Hash worker failed, hashing on the main thread:', reason);
+  worker?.terminate();
+  worker = null;
+  workerFailed = true;
+  const requests = Array.from(pending.values());
+  pending.clear();
+  requests.forEach(({ file, resolve, reject }) => hashFileSample(file).then(resolve, reject));
+};
+
+const getWorker = () => {
+  if (worker) return worker;
+  worker = new Worker(new URL('../workers/hash.worker.ts', import.meta.url), { type: 'module' });
+  worker.onmessage = (e: MessageEvent<{ id: number, hash?: string, error?: string }>) => {
+    const request = pending.get(e.data.id);
+    if (!request) return;
+    pending.delete(e.data.id);
+    if (e.data.hash) request.resolve(e.data.hash);
+    else request.reject(new Error(e.data.error || 'Hashing failed'));
+  };
+  worker.onerror = (e) => {
+    e.preventDefault();
+    abandonWorker(e.message || 'Worker error');
+  };
+  worker.onmessageerror = () => abandonWorker('Unreadable worker message');
+  return worker;
+};
+
+// Stable identity for a file's bytes, independent of its name or location. Hashed off the main thread.
+export const computeContentHash = (file: File): Promise<string> => {
+  if (typeof Worker === 'undefined' || workerFailed) return hashFileSample(file);
+  return new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    pending.set(id, { file, resolve, reject });
+    try {
+      getWorker().postMessage({ id, file });
+    } catch (err) {
+      abandonWorker(err instanceof Error ? err.message : String(err));
+    }
+  });
+};
+
+const baseName = (path: string) => path.split('/').pop() || path;
+
+// Picked files carry no folder, so their path is just the name and matches that file anywhere
+const samePath = (entryPath: string, path: string) =>
+  entryPath === path || (!entryPath.includes('/') && entryPath === baseName(path));
+
+// The entry a freshly imported file should update instead of being added again:
+// same bytes at the same path, or a pre-hash entry with the same name and size.
+export const findExistingEntry = (videos: VideoItem[], contentHash: string, path: string, size: number) =>
+  videos.find(v => v.contentHash === contentHash && samePath(v.path ?? `${v.title}.${v.metadata?.format}`, path)) ??
+  videos.find(v => !v.contentHash && v.metadata?.size === size && `${v.title}.${v.metadata?.format}` === baseName(path));
+
+// Groups of entries that share the same bytes under different names or folders
+export const findDuplicateGroups = (videos: VideoItem[]): VideoItem[][] => {
+  const groups = new Map<string, VideoItem[]>();
+  videos.forEach(v => {
+    if (!v.contentHash) return;
+    groups.set(v.contentHash, [...(groups.get(v.contentHash) || []), v]);
+  });
+  return Array.from(groups.values()).filter(group => group.length > 1);
+};
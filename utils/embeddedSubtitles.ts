@@ -0,0 +1,180 @@
+import { SubtitleTrack, VideoItem, VideoMetadata } from '../types';
+import { useVideoStore } from '../store';
+import { readRange, readUtf8 } from './probe/reader';
+import { readTopLevel, readBoxes, boxPayload, findPath, readSampleTable } from './probe/isobmff';
+import { readMatroskaSegment, parseMatroskaTracks, timecodeScale, EBML_ID, MatroskaTrack } from './probe/matroska';
+import { readMatroskaClusters } from './remux/matroskaDemux';
+import { concatBytes } from './remux/mp4Writer';
+import { loadSubtitle, saveSubtitle, resolveSourceFile, isQuotaError } from './vaultDb';
+import { SubtitleCue, sanitizeCueText, assText, cuesToVtt, languageLabel } from './subtitles';
+
+// Text subtitle tracks carried inside the video file: S_TEXT/* blocks in Matroska, tx3g and wvtt
+// samples in MP4. They are listed at import and pulled out as WebVTT the first time one is shown.
+
+const TEXT_CODECS = ['srt', 'ass', 'ssa', 'webvtt', 'tx3g'];
+
+// A cue with no duration of its own lasts until the next one, but not forever
+const MAX_OPEN_CUE_SECONDS = 10;
+
+interface ExtractOptions {
+  signal?: AbortSignal;
+  onProgress?: (fraction: number) => void;
+}
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('Subtitle extraction cancelled', 'AbortError');
+};
+
+export const listEmbeddedSubtitles = (metadata?: VideoMetadata): SubtitleTrack[] =>
+  (metadata?.tracks || [])
+    .filter(t => t.kind === 'subtitle' && TEXT_CODECS.includes(t.codec))
+    .map(t => ({
+      id: crypto.randomUUID(),
+      label: t.name || (t.language ? languageLabel(t.language) : `Track ${t.id}`),
+      language: t.language,
+      format: 'vtt',
+      embedded: t.id,
+    }));
+
+const escapeText = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').trim();
+
+const closeOpenCues = (cues: SubtitleCue[]) => {
+  cues.sort((a, b) => a.start - b.start);
+  cues.forEach((cue, i) => {
+    if (Number.isFinite(cue.end)) return;
+    const next = cues.slice(i + 1).find(c => c.start > cue.start);
+    cue.end = Math.min(next ? next.start : Infinity, cue.start + MAX_OPEN_CUE_SECONDS);
+  });
+  return cues;
+};
+
+// --- Matroska -------------------------------------------------------------
+
+// zlib-wrapped deflate, which is what ContentCompAlgo 0 means
+const inflate = async (data: Uint8Array) =>
+  new Uint8Array(await new Response(new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'))).arrayBuffer());
+
+const blockText = async (track: MatroskaTrack, data: Uint8Array) => {
+  let bytes = track.zlibCompressed ? await inflate(data) : data;
+  if (track.strippedHeader) bytes = concatBytes([track.strippedHeader, bytes]);
+  const text = new TextDecoder('utf-8').decode(bytes);
+  // ASS/SSA blocks are Dialogue lines without the timing: ReadOrder, Layer, Style, Name, margins, Effect, Text
+  return track.codec === 'ass' || track.codec === 'ssa' ? assText(text.split(',').slice(8).join(',')) : sanitizeCueText(text);
+};
+
+const extractMatroska = async (file: Blob, trackIds: number[], { signal, onProgress }: ExtractOptions) => {
+  const segment = await readMatroskaSegment(file);
+  const tracksEl = segment?.elements.get(EBML_ID.Tracks);
+  if (!segment || !tracksEl) throw new Error('Could not read the Matroska track list');
+
+  // Encrypted tracks can't be read at all; everything else we can undo
+  const tracks = parseMatroskaTracks(tracksEl).filter(t => trackIds.includes(t.id) && (!t.unsupportedEncoding || t.zlibCompressed));
+  const secondsPerTick = timecodeScale(segment);
+  const cues = new Map<number, SubtitleCue[]>(tracks.map(t => [t.id, []]));
+  if (tracks.length === 0) return cues;
+
+  for await (const cluster of readMatroskaClusters(file, segment)) {
+    throwIfAborted(signal);
+    for (const frame of cluster.frames) {
+      const track = tracks.find(t => t.id === frame.track);
+      if (!track) continue;
+      const text = await blockText(track, frame.data);
+      if (!text) continue;
+      const start = frame.timecode * secondsPerTick;
+      const end = frame.duration ? start + frame.duration * secondsPerTick : Infinity;
+      cues.get(track.id)!.push({ start, end, text });
+    }
+    onProgress?.(cluster.end / file.size);
+  }
+  cues.forEach(closeOpenCues);
+  return cues;
+};
+
+// --- MP4 ------------------------------------------------------------------
+
+// 3GPP timed text: a 16-bit length, then UTF-8 (or UTF-16 with a BOM); style boxes after it are ignored
+const tx3gText = (sample: DataView) => {
+  const length = Math.min(sample.getUint16(0), sample.byteLength - 2);
+  if (length <= 0) return '';
+  const bytes = new Uint8Array(sample.buffer, sample.byteOffset + 2, length);
+  const utf16 = bytes[0] === 0xfe && bytes[1] === 0xff;
+  return escapeText(new TextDecoder(utf16 ? 'utf-16be' : 'utf-8').decode(bytes));
+};
+
+// ISO 14496-30: each sample holds one 'vttc' box per visible cue ('vtte' marks a gap)
+const wvttTexts = (sample: DataView) =>
+  readBoxes(sample)
+    .filter(b => b.type === 'vttc')
+    .map(b => findPath(boxPayload(sample, b), ['payl']))
+    .map(payl => (payl ? sanitizeCueText(readUtf8(payl, 0, payl.byteLength)) : ''))
+    .filter(Boolean);
+
+const extractMp4 = async (file: Blob, trackIds: number[], { signal, onProgress }: ExtractOptions) => {
+  const { moov } = await readTopLevel(file);
+  if (!moov) throw new Error('Could not read the MP4 movie header');
+  const cues = new Map<number, SubtitleCue[]>();
+
+  const traks = readBoxes(moov).filter(b => b.type === 'trak').map(b => boxPayload(moov, b));
+  for (const trak of traks) {
+    const tkhd = findPath(trak, ['tkhd']);
+    const mdhd = findPath(trak, ['mdia', 'mdhd']);
+    const stbl = findPath(trak, ['mdia', 'minf', 'stbl']);
+    const stsd = stbl && findPath(stbl, ['stsd']);
+    if (!tkhd || !mdhd || !stbl || !stsd) continue;
+    const id = tkhd.getUint32(tkhd.getUint8(0) === 1 ? 20 : 12);
+    if (!trackIds.includes(id)) continue;
+
+    const format = readBoxes(stsd, 8)[0]?.type;
+    const timescale = mdhd.getUint32(mdhd.getUint8(0) === 1 ? 20 : 12);
+    const samples = readSampleTable(stbl, timescale);
+    const trackCues: SubtitleCue[] = [];
+    for (const [i, sample] of samples.entries()) {
+      if (i % 100 === 0) throwIfAborted(signal);
+      if (sample.size <= 2 || sample.end <= sample.start) continue;
+      const data = await readRange(file, sample.offset, sample.size);
+      const texts = format === 'wvtt' ? wvttTexts(data) : format === 'tx3g' ? [tx3gText(data)] : [];
+      texts.filter(Boolean).forEach(text => trackCues.push({ start: sample.start, end: sample.end, text }));
+    }
+    cues.set(id, trackCues);
+    onProgress?.(cues.size / trackIds.length);
+  }
+  return cues;
+};
+
+// --- Vault ----------------------------------------------------------------
+
+export const extractEmbeddedSubtitles = (file: Blob, metadata: VideoMetadata | undefined, trackIds: number[], options: ExtractOptions = {}) => {
+  const container = metadata?.container;
+  if (container === 'mkv' || container === 'webm') return extractMatroska(file, trackIds, options);
+  if (container === 'mp4' || container === 'mov' || container === 'm4a' || container === '3gp') return extractMp4(file, trackIds, options);
+  return Promise.reject(new Error('Subtitles can only be read from MKV and MP4 files'));
+};
+
+// Stored text first; embedded tracks are extracted from the original file, all at once since
+// reading a Matroska file means going through every cluster anyway
+export const getSubtitleText = async (video: VideoItem, track: SubtitleTrack, options: ExtractOptions = {}): Promise<string> => {
+  const cached = await loadSubtitle(track.id).catch(() => undefined);
+  if (cached != null) return cached;
+  if (track.embedded === undefined) throw new Error('This subtitle file is no longer in the vault');
+
+  const file = await resolveSourceFile(video.id);
+  if (!file) throw new Error('The original file can no longer be read');
+  const pending = (video.subtitles || []).filter(t => t.embedded !== undefined);
+  const extracted = await extractEmbeddedSubtitles(file, video.metadata, pending.map(t => t.embedded!), options);
+
+  let text: string | undefined;
+  for (const t of pending) {
+    const cues = extracted.get(t.embedded!);
+    if (!cues) continue;
+    const vtt = cuesToVtt(cues);
+    if (t.id === track.id) text = vtt;
+    try {
+      await saveSubtitle(t.id, vtt);
+    } catch (err) {
+      console.error('Could not cache subtitles:', err);
+      if (isQuotaError(err)) useVideoStore.getState().setStorageError(`Not enough browser storage to keep the subtitles of "${video.title}".`);
+    }
+  }
+  if (text === undefined) throw new Error(`Subtitle track ${track.embedded} could not be read`);
+  return text;
+};
@@ -0,0 +1,31 @@
+// Helpers for the File System Access API, which is not yet in the standard lib.dom.d.ts
+
+// Expanded video check and added common file extensions
+export const MEDIA_EXTS = ['mp4', 'mkv', 'webm', 'mov', 'avi', 'mp3', 'ogg', 'wav', 'flac', 'm4a', 'opus', 'aac'];
+
+export const isMediaFile = (file: File) => {
+  const ext = file.name.split('.').pop()?.toLowerCase();
+  return file.type.startsWith('video/') || file.type.startsWith('audio/') || (!!ext && MEDIA_EXTS.includes(ext));
+};
+
+export const supportsDirectoryPicker = () => !!(window as any).showDirectoryPicker;
+
+export const pickDirectory = (): Promise<FileSystemDirectoryHandle> => (window as any).showDirectoryPicker();
+
+export interface MediaFileEntry {
+  file: File;
+  handle: FileSystemFileHandle;
+  path: string; // Relative to the walked directory, '/'-separated
+}
+
+// Recursively yields every media file below a directory together with its handle
+export async function* walkMediaFiles(dir: FileSystemDirectoryHandle, prefix = ''): AsyncGenerator<MediaFileEntry> {
+  for await (const entry of (dir as any).values()) {
+    if (entry.kind === 'file') {
+      const file: File = await entry.getFile();
+      if (isMediaFile(file)) yield { file, handle: entry, path: prefix + file.name };
+    } else if (entry.kind === 'directory') {
+      yield* walkMediaFiles(entry, `${prefix}${entry.name}/`);
+    }
+  }
+}
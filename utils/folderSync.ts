@@ -0,0 +1,156 @@
+import { VideoItem, SyncedFolder } from '../types';
+import { useVideoStore } from '../store';
+import { walkMediaFiles, MediaFileEntry } from './fileSystem';
+import { computeContentHash } from './contentHash';
+import { importMediaFile, refreshMediaFile, persistMedia } from './importer';
+import { saveFolderHandle } from './vaultDb';
+
+export interface SyncProgress {
+  phase: 'scanning' | 'comparing' | 'applying';
+  done: number;
+  total: number; // 0 while the total is still unknown
+}
+
+interface SyncOptions {
+  signal?: AbortSignal;
+  onProgress?: (progress: SyncProgress) => void;
+}
+
+// What a re-sync would change, shown to the user before anything is applied
+export interface SyncPlan {
+  folder: SyncedFolder;
+  added: MediaFileEntry[];
+  moved: { video: VideoItem, entry: MediaFileEntry }[];
+  changed: { video: VideoItem, entry: MediaFileEntry }[]; // Same path, new size: edited or re-encoded in place
+  removed: VideoItem[];
+  unchanged: { video: VideoItem, entry: MediaFileEntry }[];
+}
+
+export const hasChanges = (plan: SyncPlan) =>
+  plan.added.length + plan.moved.length + plan.changed.length + plan.removed.length > 0;
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('Sync cancelled', 'AbortError');
+};
+
+export const isAbortError = (err: unknown) => err instanceof DOMException && err.name === 'AbortError';
+
+const titleFromPath = (path: string) => (path.split('/').pop() || path).replace(/\.[^.]+$/, '');
+
+const matchByContent = async (vanished: VideoItem[], entry: MediaFileEntry) => {
+  const sameSize = vanished.filter(v => v.contentHash && v.metadata?.size === entry.file.size);
+  if (sameSize.length === 0) return undefined;
+  const hash = await computeContentHash(entry.file);
+  return sameSize.find(v => v.contentHash === hash);
+};
+
+export const planFolderSync = async (
+  folder: SyncedFolder,
+  handle: FileSystemDirectoryHandle,
+  { signal, onProgress }: SyncOptions = {}
+): Promise<SyncPlan> => {
+  const entries: MediaFileEntry[] = [];
+  for await (const entry of walkMediaFiles(handle)) {
+    throwIfAborted(signal);
+    entries.push(entry);
+    onProgress?.({ phase: 'scanning', done: entries.length, total: 0 });
+  }
+
+  const known = useVideoStore.getState().videos.filter(v => v.folderId === folder.id);
+  const byPath = new Map(known.map(v => [v.path, v]));
+  const plan: SyncPlan = { folder, added: [], moved: [], changed: [], removed: [], unchanged: [] };
+  const candidates: MediaFileEntry[] = [];
+
+  // Same path and size is treated as the same file without hashing it again; same path with another
+  // size is still the same entry, only its contents changed
+  for (const entry of entries) {
+    const video = byPath.get(entry.path);
+    if (!video) {
+      candidates.push(entry);
+      continue;
+    }
+    byPath.delete(entry.path);
+    if ((video.metadata?.size ?? entry.file.size) === entry.file.size) plan.unchanged.push({ video, entry });
+    else plan.changed.push({ video, entry });
+  }
+
+  // Whatever disappeared from its old path may have been moved or renamed: match it by content
+  const vanished = Array.from(byPath.values());
+  const vanishedSizes = new Set(vanished.map(v => v.metadata?.size));
+  for (const [index, entry] of candidates.entries()) {
+    throwIfAborted(signal);
+    onProgress?.({ phase: 'comparing', done: index + 1, total: candidates.length });
+
+    const video = vanishedSizes.has(entry.file.size) ? await matchByContent(vanished, entry) : undefined;
+    if (video) {
+      plan.moved.push({ video, entry });
+      vanished.splice(vanished.indexOf(video), 1);
+    } else {
+      plan.added.push(entry);
+    }
+  }
+
+  plan.removed = vanished;
+  return plan;
+};
+
+export const applyFolderSync = async (
+  plan: SyncPlan,
+  handle: FileSystemDirectoryHandle,
+  { signal, onProgress }: SyncOptions = {}
+) => {
+  const { updateVideo, removeVideo, saveFolder } = useVideoStore.getState();
+  const total = plan.added.length + plan.moved.length + plan.changed.length + plan.removed.length + plan.unchanged.length;
+  let done = 0;
+  const step = () => onProgress?.({ phase: 'applying', done: ++done, total });
+
+  // Remember the folder up front so entries imported before a cancel still belong to it
+  await saveFolderHandle(plan.folder.id, handle);
+  saveFolder({ ...plan.folder, name: handle.name });
+
+  // Fresh handles for files we already know keep them playable even if the old grant was lost
+  for (const { video, entry } of plan.unchanged) {
+    throwIfAborted(signal);
+    await persistMedia(video.id, video.title, entry.handle);
+    if (video.missing) updateVideo(video.id, { missing: false });
+    step();
+  }
+
+  for (const { video, entry } of plan.moved) {
+    throwIfAborted(signal);
+    await persistMedia(video.id, video.title, entry.handle);
+    if (video.source) URL.revokeObjectURL(video.source);
+    // A title edited by hand or read from tags stays; one still derived from the old file name follows it
+    const renamed = !!video.path && video.title === titleFromPath(video.path);
+    updateVideo(video.id, { path: entry.path, ...(renamed && { title: titleFromPath(entry.path) }), source: '', missing: false });
+    step();
+  }
+
+  for (const { video, entry } of plan.changed) {
+    throwIfAborted(signal);
+    try {
+      await refreshMediaFile(video, entry.file, entry.handle);
+    } catch (err) {
+      console.error('Refresh failed:', err);
+    }
+    step();
+  }
+
+  for (const video of plan.removed) {
+    throwIfAborted(signal);
+    removeVideo(video.id);
+    step();
+  }
+
+  for (const entry of plan.added) {
+    throwIfAborted(signal);
+    try {
+      await importMediaFile(entry.file, entry.handle, { path: entry.path, folderId: plan.folder.id });
+    } catch (err) {
+      console.error('Import failed:', err);
+    }
+    step();
+  }
+
+  saveFolder({ ...plan.folder, name: handle.name, lastSyncedAt: Date.now() });
+};
@@ -0,0 +1,26 @@
+import { VideoItem } from '../types';
+
+export interface FolderListing {
+  subfolders: { name: string, dir: string, count: number }[];
+  videos: VideoItem[];
+}
+
+// Contents of one directory level of a synced folder. `dir` is '' for the root or 'a/b/' below it.
+export const listFolder = (videos: VideoItem[], folderId: string, dir: string): FolderListing => {
+  const subfolders = new Map<string, number>();
+  const direct: VideoItem[] = [];
+
+  for (const v of videos) {
+    if (v.folderId !== folderId || !v.path?.startsWith(dir)) continue;
+    const rest = v.path.slice(dir.length);
+    const slash = rest.indexOf('/');
+    if (slash === -1) direct.push(v);
+    else subfolders.set(rest.slice(0, slash), (subfolders.get(rest.slice(0, slash)) || 0) + 1);
+  }
+
+  return {
+    subfolders: Array.from(subfolders, ([name, count]) => ({ name, dir: `${dir}${name}/`, count }))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    videos: direct.sort((a, b) => (a.path || '').localeCompare(b.path || '')),
+  };
+};
@@ -11,6 +11,25 @@ export const formatTime = (seconds: number): string => {
   return `${mins}:${secs.toString().padStart(2, '0')}`;
 };
 
+// "01:02:03.456"; the hours are always shown so the value reads back the same in the jump box
+export const formatTimecode = (seconds: number): string => {
+  const ms = Math.round(Math.max(0, seconds || 0) * 1000);
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}.${pad(ms % 1000, 3)}`;
+};
+
+// Accepts "hh:mm:ss.fff", "mm:ss", "ss.fff" and everything in between; null when it isn't a time
+export const parseTimecode = (text: string): number | null => {
+  const m = text.trim().match(/^(?:(?:(\d+):)?(\d+):)?(\d+(?:[.,]\d+)?)$/);
+  if (!m) return null;
+  const [, hours, minutes, rawSeconds] = m;
+  const seconds = Number(rawSeconds.replace(',', '.'));
+  // Only the leading field may overflow: "90" and "99:00" are fine, "1:75" is a typo
+  if (hours !== undefined && Number(minutes) >= 60) return null;
+  if (minutes !== undefined && seconds >= 60) return null;
+  return Number(hours || 0) * 3600 + Number(minutes || 0) * 60 + seconds;
+};
+
 export const formatFileSize = (bytes: number): string => {
   if (bytes === 0) return '0 Bytes';
   const k = 1024;
@@ -19,7 +38,7 @@ export const formatFileSize = (bytes: number): string => {
   return parseFloat((bytes / Math.pow(k, i)).toFixed(2)) + ' ' + sizes[i];
 };
 
-export const generateThumbnail = (file: File): Promise<{ thumbnail: string, duration: number, width: number, height: number }> => {
+export const generateThumbnail = (file: File): Promise<{ thumbnail: Blob | null, duration: number, width: number, height: number }> => {
   return new Promise((resolve) => {
     const video = document.createElement('video');
     video.preload = 'metadata';
@@ -39,20 +58,95 @@ export const generateThumbnail = (file: File): Promise<{ thumbnail: string, dura
       
       const ctx = canvas.getContext('2d');
       ctx?.drawImage(video, 0, 0, canvas.width, canvas.height);
-      const thumbnail = canvas.toDataURL('image/jpeg', 0.8);
-      
-      resolve({ 
-        thumbnail, 
-        duration: video.duration,
-        width: video.videoWidth,
-        height: video.videoHeight
-      });
-      URL.revokeObjectURL(video.src);
+      // Blob rather than a data URL: thumbnails are stored in IndexedDB, not serialized as text
+      canvas.toBlob((thumbnail) => {
+        resolve({ 
+          thumbnail, 
+          duration: video.duration,
+          width: video.videoWidth,
+          height: video.videoHeight
+        });
+        URL.revokeObjectURL(video.src);
+      }, 'image/jpeg', 0.8);
     };
     
     video.onerror = () => {
       URL.revokeObjectURL(video.src);
-      resolve({ thumbnail: '', duration: 0, width: 0, height: 0 });
+      resolve({ thumbnail: null, duration: 0, width: 0, height: 0 });
     };
   });
 };
+
+// Embedded cover art can be a multi-megabyte print scan; thumbnails are kept at video-thumbnail size
+export const resizeCoverArt = async (image: Blob, size = 640): Promise<Blob | null> => {
+  try {
+    const bitmap = await createImageBitmap(image);
+    const scale = Math.min(1, size / Math.max(bitmap.width, bitmap.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(bitmap.width * scale);
+    canvas.height = Math.round(bitmap.height * scale);
+    canvas.getContext('2d')?.drawImage(bitmap, 0, 0, canvas.width, canvas.height);
+    bitmap.close();
+    return await new Promise(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.85));
+  } catch {
+    return null; // Not an image the browser can decode
+  }
+};
+
+// Cheaper than generateThumbnail when only the duration is needed (e.g. relinking)
+export const readMediaDuration = (file: File): Promise<number> => {
+  return new Promise((resolve) => {
+    const video = document.createElement('video');
+    video.preload = 'metadata';
+    video.src = URL.createObjectURL(file);
+    const done = (duration: number) => {
+      URL.revokeObjectURL(video.src);
+      resolve(duration);
+    };
+    video.onloadedmetadata = () => done(video.duration);
+    video.onerror = () => done(0);
+  });
+};
+
+export const blobToDataUrl = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+};
+
+export const dataUrlToBlob = async (dataUrl: string): Promise<Blob> => (await fetch(dataUrl)).blob();
+
+// Subtitle and playlist files are often not UTF-8; fall back to the usual Windows code page rather than showing mojibake
+export const decodeTextFile = async (file: Blob) => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (bytes[0] === 0xff && bytes[1] === 0xfe) return new TextDecoder('utf-16le').decode(bytes);
+  if (bytes[0] === 0xfe && bytes[1] === 0xff) return new TextDecoder('utf-16be').decode(bytes);
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+  } catch {
+    return new TextDecoder('windows-1252').decode(bytes);
+  }
+};
+
+export const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+export const formatBitrate = (bps?: number): string => {
+  if (!bps) return 'N/A';
+  if (bps >= 1_000_000) return `${(bps / 1_000_000).toFixed(1)} Mbps`;
+  return `${Math.round(bps / 1000)} kbps`;
+};
+
+const CHANNEL_LAYOUTS: Record<number, string> = { 1: 'Mono', 2: 'Stereo', 6: '5.1', 8: '7.1' };
+
+export const formatChannels = (channels?: number): string =>
+  channels ? CHANNEL_LAYOUTS[channels] || `${channels} ch` : 'N/A';
@@ -0,0 +1,169 @@
+import { VideoItem, SubtitleTrack } from '../types';
+import { useVideoStore } from '../store';
+import { generateThumbnail, readMediaDuration, resizeCoverArt, decodeTextFile } from './helpers';
+import { saveSource, saveThumbnail, saveSubtitle, deleteSubtitle, deleteRemux, deleteStoryboard, isQuotaError, StoredSource } from './vaultDb';
+import { computeContentHash, findExistingEntry } from './contentHash';
+import { probeMedia, withProbeMetadata, readAudioTags } from './probe';
+import { isAudioOnly } from './audioLibrary';
+import { withPlaybackCheck } from './playability';
+import { listEmbeddedSubtitles } from './embeddedSubtitles';
+import { subtitleFormatOf, parseSubtitles, guessSubtitleLanguage, languageLabel } from './subtitles';
+import { parseChapterFile } from './chapters';
+
+interface ImportOptions {
+  path?: string;
+  folderId?: string;
+}
+
+// Persist the handle when we have one (re-readable after reload), otherwise the File itself
+export const persistMedia = async (id: string, title: string, stored: StoredSource, thumbnail?: Blob | null) => {
+  try {
+    await saveSource(id, stored);
+    if (thumbnail) await saveThumbnail(id, thumbnail);
+  } catch (err) {
+    console.error('Could not persist media:', err);
+    if (isQuotaError(err)) useVideoStore.getState().setStorageError(`Not enough browser storage to keep "${title}" after a reload.`);
+  }
+};
+
+// Audio files have no frame to grab: the duration comes from the element, the thumbnail from the cover art
+const readAudioFile = async (file: File) => {
+  const [duration, { tags, cover }] = await Promise.all([readMediaDuration(file), readAudioTags(file)]);
+  const thumbnail = cover ? await resizeCoverArt(cover) : null;
+  return { duration, tags, thumbnail };
+};
+
+// Everything a fresh import reads from the file: layout, duration, thumbnail or cover art, codec details
+const readMediaDetails = async (file: File) => {
+  const probe = await probeMedia(file);
+  // Without a probe result (unknown container) the MIME type decides
+  const isAudio = probe ? isAudioOnly(probe.tracks) : file.type.startsWith('audio/');
+  const { thumbnail, duration, width, height, tags } = isAudio
+    ? { ...(await readAudioFile(file)), width: 0, height: 0 }
+    : { ...(await generateThumbnail(file)), tags: undefined };
+  const metadata = withProbeMetadata({ duration, width, height, format: file.name.split('.').pop()?.toLowerCase(), size: file.size }, probe);
+  return { isAudio, thumbnail, tags, metadata: await withPlaybackCheck(metadata) };
+};
+
+// Adds a file to the vault, or refreshes the existing entry when the same file was imported before
+export const importMediaFile = async (file: File, stored: StoredSource, { path = file.name, folderId }: ImportOptions = {}): Promise<VideoItem> => {
+  const { addVideo, updateVideo } = useVideoStore.getState();
+  const contentHash = await computeContentHash(file).catch((err) => {
+    console.error('Hashing failed:', err);
+    return undefined;
+  });
+
+  // Same file seen again: refresh its source but keep progress, favorites and thumbnail
+  const existing = contentHash && findExistingEntry(useVideoStore.getState().videos, contentHash, path, file.size);
+  if (existing) {
+    if (existing.source) URL.revokeObjectURL(existing.source);
+    await persistMedia(existing.id, existing.title, stored);
+    // Entries imported before probing/playback checks existed get their codec details on the next scan
+    const probed = existing.metadata && !existing.metadata.container
+      ? withProbeMetadata(existing.metadata, await probeMedia(file))
+      : existing.metadata;
+    const metadata = probed && !probed.unsupported ? await withPlaybackCheck(probed) : probed;
+    const subtitles = existing.subtitles?.some(s => s.embedded !== undefined)
+      ? existing.subtitles
+      : [...(existing.subtitles || []), ...listEmbeddedSubtitles(metadata)];
+    // Audio imported before tags were read: switch it to the audio layout and take its cover art,
+    // unless a thumbnail was picked by hand since
+    const audio = !existing.audioTags && isAudioOnly(metadata?.tracks) ? await readAudioFile(file) : undefined;
+    if (audio?.thumbnail && !existing.thumbnail) {
+      await saveThumbnail(existing.id, audio.thumbnail).catch(err => console.error('Could not save cover art:', err));
+    }
+    updateVideo(existing.id, {
+      source: URL.createObjectURL(file), missing: false, contentHash, path, folderId: folderId ?? existing.folderId, metadata, subtitles,
+      ...(audio && {
+        type: 'audio' as const,
+        audioTags: audio.tags,
+        thumbnail: existing.thumbnail || (audio.thumbnail ? URL.createObjectURL(audio.thumbnail) : undefined),
+      }),
+    });
+    return existing;
+  }
+
+  const { isAudio, thumbnail, tags, metadata } = await readMediaDetails(file);
+  const subtitles = listEmbeddedSubtitles(metadata);
+  const newVideo: VideoItem = {
+    id: crypto.randomUUID(),
+    title: tags?.title || file.name.replace(/\.[^.]+$/, ''),
+    source: URL.createObjectURL(file),
+    type: isAudio ? 'audio' : 'local',
+    path,
+    folderId,
+    contentHash,
+    thumbnail: thumbnail ? URL.createObjectURL(thumbnail) : undefined,
+    metadata,
+    subtitles: subtitles.length > 0 ? subtitles : undefined,
+    audioTags: tags,
+    addedAt: Date.now(),
+  };
+  await persistMedia(newVideo.id, newVideo.title, stored, thumbnail);
+  addVideo(newVideo);
+  return newVideo;
+};
+
+// A known file whose bytes changed in place (re-encoded, tags edited): it gets the new hash and details,
+// while progress, favorites, tags, bookmarks, the thumbnail and playlist membership stay. Caches built
+// from the old bytes are dropped, and so are embedded subtitle tracks, which are listed again.
+export const refreshMediaFile = async (video: VideoItem, file: File, stored: StoredSource) => {
+  const contentHash = await computeContentHash(file).catch((err) => {
+    console.error('Hashing failed:', err);
+    return undefined;
+  });
+  const { isAudio, tags, metadata } = await readMediaDetails(file);
+  await persistMedia(video.id, video.title, stored);
+  deleteRemux(video.id).catch(console.error);
+  deleteStoryboard(video.id).catch(console.error);
+
+  const embedded = (video.subtitles || []).filter(s => s.embedded !== undefined);
+  embedded.forEach(s => deleteSubtitle(s.id).catch(console.error));
+  const subtitles = [...(video.subtitles || []).filter(s => s.embedded === undefined), ...listEmbeddedSubtitles(metadata)];
+  if (video.source) URL.revokeObjectURL(video.source);
+  useVideoStore.getState().updateVideo(video.id, {
+    source: '',
+    missing: false,
+    contentHash,
+    metadata,
+    subtitles: subtitles.length > 0 ? subtitles : undefined,
+    activeSubtitleId: embedded.some(s => s.id === video.activeSubtitleId) ? undefined : video.activeSubtitleId,
+    ...(isAudio && { type: 'audio' as const, audioTags: tags }),
+  });
+};
+
+// Attaches a subtitle file to a vault entry and makes it the active track
+export const importSubtitleFile = async (videoId: string, file: File): Promise<SubtitleTrack> => {
+  const format = subtitleFormatOf(file.name);
+  if (!format) throw new Error(`"${file.name}" is not an SRT, WebVTT or ASS/SSA file`);
+  const text = await decodeTextFile(file);
+  if (parseSubtitles(text, format).length === 0) throw new Error(`No subtitles found in "${file.name}"`);
+
+  const language = guessSubtitleLanguage(file.name);
+  const track: SubtitleTrack = {
+    id: crypto.randomUUID(),
+    label: language ? languageLabel(language) : file.name.replace(/\.[^.]+$/, ''),
+    language,
+    format,
+  };
+  try {
+    await saveSubtitle(track.id, text);
+  } catch (err) {
+    if (isQuotaError(err)) throw new Error('Not enough browser storage to keep this subtitle file');
+    throw err;
+  }
+
+  const { videos, updateVideo } = useVideoStore.getState();
+  const video = videos.find(v => v.id === videoId);
+  updateVideo(videoId, { subtitles: [...(video?.subtitles || []), track], activeSubtitleId: track.id });
+  return track;
+};
+
+// Replaces the video's chapters with a WebVTT chapters file; the embedded ones come back when it is cleared
+export const importChapterFile = async (videoId: string, file: File) => {
+  if (subtitleFormatOf(file.name) !== 'vtt') throw new Error(`"${file.name}" is not a WebVTT chapters file`);
+  const chapters = parseChapterFile(await decodeTextFile(file));
+  if (chapters.length === 0) throw new Error(`No chapters found in "${file.name}"`);
+  useVideoStore.getState().updateVideo(videoId, { chapters });
+  return chapters;
+};
@@ -0,0 +1,83 @@
+import { VideoItem, SyncedFolder, LibrarySortKey, LibraryGroupKey } from '../types';
+
+// Sorting and grouping for the library grid and list. Grouping never reorders: each group keeps
+// the sorted order of its members, and groups come out in the order they are first seen,
+// except date groups which always run newest first.
+
+export interface VideoGroup {
+  key: string;
+  label: string;
+  videos: VideoItem[];
+}
+
+export const SORT_LABELS: Record<LibrarySortKey, string> = {
+  view: 'Default', title: 'Title', size: 'Size', duration: 'Duration', added: 'Date Added', played: 'Last Played', progress: 'Progress',
+};
+
+export const GROUP_LABELS: Record<LibraryGroupKey, string> = {
+  none: 'None', folder: 'Folder', format: 'Format', tag: 'Tag', date: 'Date Added',
+};
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+const progressOf = (v: VideoItem) => (v.metadata?.duration ? (v.progress || 0) / v.metadata.duration : 0);
+
+const SORT_VALUES: Record<Exclude<LibrarySortKey, 'view' | 'title'>, (v: VideoItem) => number> = {
+  size: v => v.metadata?.size || 0,
+  duration: v => v.metadata?.duration || 0,
+  added: v => v.addedAt,
+  played: v => v.lastPlayedAt || 0,
+  progress: progressOf,
+};
+
+export const sortVideos = (videos: VideoItem[], sort: LibrarySortKey, descending: boolean): VideoItem[] => {
+  if (sort === 'view') return descending ? [...videos].reverse() : videos;
+  const direction = descending ? -1 : 1;
+  if (sort === 'title') return [...videos].sort((a, b) => direction * collator.compare(a.title, b.title));
+  const value = SORT_VALUES[sort];
+  return [...videos].sort((a, b) => direction * (value(a) - value(b)));
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Today, Yesterday, This Week, then calendar months
+const dateGroup = (addedAt: number, now: number) => {
+  const startOfToday = new Date(now).setHours(0, 0, 0, 0);
+  if (addedAt >= startOfToday) return { key: 'd0', label: 'Today', order: now };
+  if (addedAt >= startOfToday - DAY_MS) return { key: 'd1', label: 'Yesterday', order: now - 1 };
+  if (addedAt >= startOfToday - 6 * DAY_MS) return { key: 'd7', label: 'This Week', order: now - 2 };
+  const date = new Date(addedAt);
+  const month = new Date(date.getFullYear(), date.getMonth(), 1);
+  return { key: `m${month.getTime()}`, label: month.toLocaleDateString(undefined, { month: 'long', year: 'numeric' }), order: month.getTime() };
+};
+
+export const groupVideos = (videos: VideoItem[], group: LibraryGroupKey, folders: SyncedFolder[], now = Date.now()): VideoGroup[] => {
+  if (group === 'none') return [{ key: 'all', label: '', videos }];
+
+  const groups = new Map<string, VideoGroup & { order: number }>();
+  const add = (key: string, label: string, video: VideoItem, order = groups.size) => {
+    let g = groups.get(key);
+    if (!g) groups.set(key, g = { key, label, videos: [], order });
+    g.videos.push(video);
+  };
+  const folderNames = new Map(folders.map(f => [f.id, f.name]));
+
+  for (const v of videos) {
+    if (group === 'folder') {
+      const dir = v.path?.includes('/') ? v.path.slice(0, v.path.lastIndexOf('/')) : '';
+      const root = v.folderId ? folderNames.get(v.folderId) || 'Folder' : 'Loose Files';
+      add(`${v.folderId || ''}/${dir}`, dir ? `${root} / ${dir}` : root, v);
+    } else if (group === 'format') {
+      const format = (v.metadata?.container || v.metadata?.format || 'Unknown').toUpperCase();
+      add(format, format, v);
+    } else if (group === 'tag') {
+      // A video with several tags shows up under each of them
+      if (!v.tags?.length) add('', 'Untagged', v, Infinity);
+      for (const tag of v.tags || []) add(tag.toLowerCase(), tag, v);
+    } else {
+      const { key, label, order } = dateGroup(v.addedAt, now);
+      add(key, label, v, -order);
+    }
+  }
+  return [...groups.values()].sort((a, b) => a.order - b.order);
+};
@@ -0,0 +1,244 @@
+import { VideoItem, VideoMetadata, Loudness, LoudnessSkip } from '../types';
+import { useVideoStore } from '../store';
+import { isAbortError } from './folderSync';
+import { loadRemux, resolveSourceFile } from './vaultDb';
+
+// Loudness normalization: a background job decodes each file's audio with an OfflineAudioContext and
+// measures integrated loudness (EBU R128 / ITU-R BS.1770) and sample peak into VideoMetadata. While
+// normalization is on, the player turns that into a per-video gain (normalizationGain in utils/adjustments.ts).
+
+// decodeAudioData only takes a whole file and returns all of its PCM, first at the file's own rate and
+// then resampled down to ANALYSIS_RATE. Files whose encoded bytes or estimated PCM wouldn't fit in a tab
+// are marked as too large (VideoMetadata.loudnessSkip) rather than measured. Content above 12 kHz barely
+// moves a K-weighted measurement.
+const ANALYSIS_RATE = 24000;
+const MAX_FILE_SIZE = 256 * 1024 * 1024;
+const MAX_PCM_BYTES = 768 * 1024 * 1024; // About 23 minutes of 48 kHz stereo
+
+const BLOCK_STEP = 0.1; // Seconds; gating blocks are 400 ms with 75% overlap
+const ABSOLUTE_GATE = -70; // LUFS
+const RELATIVE_GATE = 10; // LU below the ungated mean
+const YIELD_EVERY = 1 << 20; // Samples between breaks for the main thread
+
+// Channel weights of BS.1770 in Web Audio's 5.1 order: L, R, C, LFE, SL, SR
+const channelWeights = (count: number) => (count === 6 ? [1, 1, 1, 0, 1.41, 1.41] : Array(count).fill(1));
+
+type Biquad = [b0: number, b1: number, b2: number, a1: number, a2: number];
+
+// The two-stage K-weighting filter of BS.1770 for any sample rate (coefficients as in libebur128)
+const kWeighting = (rate: number): [Biquad, Biquad] => {
+  let K = Math.tan(Math.PI * 1681.974450955533 / rate);
+  let Q = 0.7071752369554196;
+  const Vh = Math.pow(10, 3.999843853973347 / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q + K * K;
+  const shelf: Biquad = [
+    (Vh + Vb * K / Q + K * K) / a0, 2 * (K * K - Vh) / a0, (Vh - Vb * K / Q + K * K) / a0,
+    2 * (K * K - 1) / a0, (1 - K / Q + K * K) / a0,
+  ];
+  K = Math.tan(Math.PI * 38.13547087602444 / rate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+  const highPass: Biquad = [1, -2, 1, 2 * (K * K - 1) / a0, (1 - K / Q + K * K) / a0];
+  return [shelf, highPass];
+};
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('Loudness analysis cancelled', 'AbortError');
+};
+
+const nextTask = () => new Promise(resolve => setTimeout(resolve));
+
+const toDb = (power: number) => 10 * Math.log10(power);
+
+// Integrated loudness and sample peak of decoded PCM, one Float32Array per channel
+export const measureChannels = async (channels: Float32Array[], rate: number, { signal }: { signal?: AbortSignal } = {}): Promise<Loudness> => {
+  const step = Math.round(rate * BLOCK_STEP);
+  const length = channels[0]?.length || 0;
+  const steps = Math.floor(length / step);
+  const power = new Float64Array(steps); // Weighted sum of squares per 100 ms step, all channels
+  const weights = channelWeights(channels.length);
+  const [shelf, highPass] = kWeighting(rate);
+  let peak = 0;
+
+  for (let c = 0; c < channels.length; c++) {
+    const data = channels[c];
+    const weight = weights[c];
+    // Filter state: inputs and outputs of both stages
+    let x1 = 0, x2 = 0, y1 = 0, y2 = 0, z1 = 0, z2 = 0;
+    for (let i = 0; i < length; i++) {
+      if (i % YIELD_EVERY === YIELD_EVERY - 1) {
+        throwIfAborted(signal);
+        await nextTask();
+      }
+      const x = data[i];
+      const abs = Math.abs(x);
+      if (abs > peak) peak = abs;
+      if (!weight) continue;
+      const y = shelf[0] * x + shelf[1] * x1 + shelf[2] * x2 - shelf[3] * y1 - shelf[4] * y2;
+      const z = highPass[0] * y + highPass[1] * y1 + highPass[2] * y2 - highPass[3] * z1 - highPass[4] * z2;
+      x2 = x1; x1 = x;
+      z2 = z1; z1 = z;
+      y2 = y1; y1 = y;
+      const block = Math.floor(i / step);
+      if (block < steps) power[block] += weight * z * z;
+    }
+  }
+
+  // Mean power of each 400 ms block
+  const blocks: number[] = [];
+  for (let j = 0; j + 4 <= steps; j++) blocks.push((power[j] + power[j + 1] + power[j + 2] + power[j + 3]) / (4 * step));
+
+  const loudnessOf = (p: number) => -0.691 + toDb(p);
+  const mean = (list: number[]) => list.reduce((sum, p) => sum + p, 0) / list.length;
+  const aboveAbsolute = blocks.filter(p => loudnessOf(p) > ABSOLUTE_GATE);
+  let integrated: number | null = null;
+  if (aboveAbsolute.length > 0) {
+    const relativeGate = loudnessOf(mean(aboveAbsolute)) - RELATIVE_GATE;
+    const gated = aboveAbsolute.filter(p => loudnessOf(p) > relativeGate);
+    integrated = Math.round(loudnessOf(mean(gated)) * 10) / 10;
+  }
+  return { integrated, peak: peak > 0 ? Math.round(toDb(peak * peak) * 10) / 10 : null };
+};
+
+export const measureLoudness = async (file: Blob, { signal }: { signal?: AbortSignal } = {}): Promise<Loudness> => {
+  if (file.size > MAX_FILE_SIZE) throw new Error('The file is too large to analyze');
+  const bytes = await file.arrayBuffer();
+  throwIfAborted(signal);
+  // The context only decodes; its length and channel count don't limit what decodeAudioData returns
+  const context = new OfflineAudioContext(1, 1, ANALYSIS_RATE);
+  const buffer = await context.decodeAudioData(bytes);
+  throwIfAborted(signal);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, c) => buffer.getChannelData(c));
+  return measureChannels(channels, buffer.sampleRate, { signal });
+};
+
+// --- Background job -------------------------------------------------------
+
+const skipped = new Set<string>(); // Unreadable or failed, not retried this session
+const queue: string[] = [];
+const queued = new Set<string>();
+let active = false; // Normalization is on and the job has started
+let running = false;
+let controller: AbortController | null = null;
+
+const hasAudio = (v: VideoItem) => {
+  const tracks = v.metadata?.tracks;
+  return tracks ? tracks.some(t => t.kind === 'audio') : !!v.metadata;
+};
+
+// Float32 samples of the decode at the source rate plus the resampled copy; stereo 48 kHz when the track isn't known
+const estimatedPcmBytes = (v: VideoItem) => {
+  const track = v.metadata?.tracks?.find(t => t.kind === 'audio');
+  const channels = track?.channels || 2;
+  const rate = Math.max(track?.sampleRate || 48000, ANALYSIS_RATE);
+  return (v.metadata?.duration || 0) * channels * 4 * (rate + ANALYSIS_RATE);
+};
+
+const skipReason = (v: VideoItem): LoudnessSkip | null => {
+  if (!hasAudio(v)) return 'no-audio';
+  if ((v.metadata?.size || 0) > MAX_FILE_SIZE || estimatedPcmBytes(v) > MAX_PCM_BYTES) return 'too-large';
+  return null;
+};
+
+const needsAnalysis = (v: VideoItem) =>
+  !!v.metadata && !v.missing && !v.metadata.loudness && !v.metadata.loudnessSkip && !skipped.has(v.id);
+
+// decodeAudioData rejects with an EncodingError when it finds no audio it can decode
+const isDecodeError = (err: unknown) => err instanceof DOMException && err.name === 'EncodingError';
+
+const saveMetadata = (id: string, patch: Partial<VideoMetadata>) => {
+  const { videos, updateVideo } = useVideoStore.getState();
+  const current = videos.find(v => v.id === id);
+  if (current?.metadata) updateVideo(id, { metadata: { ...current.metadata, ...patch } });
+};
+
+// Measuring this video was tried this session and went wrong
+export const loudnessFailed = (id: string) => skipped.has(id);
+
+const enqueue = (videos: VideoItem[]) => {
+  for (const v of videos) {
+    if (queued.has(v.id) || !needsAnalysis(v)) continue;
+    queue.push(v.id);
+    queued.add(v.id);
+  }
+  pump();
+};
+
+const pump = async () => {
+  if (running || !active) return;
+  running = true;
+  try {
+    while (queue.length > 0 && active) {
+      const id = queue.shift()!;
+      queued.delete(id);
+      const video = useVideoStore.getState().videos.find(v => v.id === id);
+      if (!video || !needsAnalysis(video)) continue;
+      const reason = skipReason(video);
+      if (reason) {
+        saveMetadata(id, { loudnessSkip: reason });
+        continue;
+      }
+      const file = (await loadRemux(id).catch(() => undefined)) || await resolveSourceFile(id, false);
+      if (!file) {
+        skipped.add(id);
+        continue;
+      }
+      if (file.size > MAX_FILE_SIZE) {
+        saveMetadata(id, { loudnessSkip: 'too-large' });
+        continue;
+      }
+      if (!active) break;
+      controller = new AbortController();
+      try {
+        saveMetadata(id, { loudness: await measureLoudness(file, { signal: controller.signal }) });
+      } catch (err) {
+        if (isAbortError(err)) continue;
+        if (isDecodeError(err)) {
+          saveMetadata(id, { loudnessSkip: 'no-audio' });
+          continue;
+        }
+        skipped.add(id);
+        console.warn(`No loudness measurement for ${id}:`, err);
+      }
+    }
+  } finally {
+    controller = null;
+    running = false;
+  }
+};
+
+// The open video is measured next, e.g. right after its file became readable
+export const prioritizeLoudness = (id: string) => {
+  skipped.delete(id);
+  if (!active) return;
+  const index = queue.indexOf(id);
+  if (index >= 0) queue.splice(index, 1);
+  queue.unshift(id);
+  queued.add(id);
+  pump();
+};
+
+// Started once by the app; measures the library only while normalization is switched on
+export const startLoudnessJobs = () => {
+  const sync = (normalize: boolean) => {
+    if (normalize === active) return;
+    active = normalize;
+    if (normalize) {
+      enqueue(useVideoStore.getState().videos);
+    } else {
+      queue.length = 0;
+      queued.clear();
+      controller?.abort();
+    }
+  };
+  sync(useVideoStore.getState().settings.normalizeLoudness);
+  const unsubscribe = useVideoStore.subscribe((state, prev) => {
+    if (state.settings.normalizeLoudness !== prev.settings.normalizeLoudness) sync(state.settings.normalizeLoudness);
+    else if (active && state.videos !== prev.videos) enqueue(state.videos);
+  });
+  return () => {
+    unsubscribe();
+    sync(false);
+  };
+};
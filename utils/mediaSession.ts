@@ -0,0 +1,86 @@
+import { RefObject, useEffect, useRef } from 'react';
+import { VideoItem } from '../types';
+import { isAudioItem, trackArtist } from './audioLibrary';
+
+// OS media controls for the player: media keys, lock screen and notification controls and headset
+// buttons all go through the Media Session API. The session follows whichever video the player holds,
+// in the detail view and the mini-player alike.
+
+interface MediaSessionControls {
+  seek: (amount: number) => void; // Relative, in seconds
+  skip: (direction: 1 | -1) => void;
+  seekStep: number; // Used when the OS doesn't say how far to seek
+}
+
+const ACTIONS: MediaSessionAction[] = ['play', 'pause', 'seekbackward', 'seekforward', 'seekto', 'previoustrack', 'nexttrack'];
+
+// Browsers throw for actions they don't know rather than ignoring them
+const setHandler = (action: MediaSessionAction, handler: MediaSessionActionHandler | null) => {
+  try {
+    navigator.mediaSession.setActionHandler(action, handler);
+  } catch {
+    // Not supported here
+  }
+};
+
+const sessionMetadata = (video: VideoItem) => new MediaMetadata({
+  title: video.audioTags?.title || video.title,
+  artist: isAudioItem(video) ? trackArtist(video) : video.series || '',
+  album: video.audioTags?.album || '',
+  artwork: video.thumbnail ? [{ src: video.thumbnail }] : [],
+});
+
+export const useMediaSession = (mediaRef: RefObject<HTMLMediaElement | null>, video: VideoItem, controls: MediaSessionControls) => {
+  // Handlers are registered once; they read the latest callbacks from here
+  const controlsRef = useRef(controls);
+  controlsRef.current = controls;
+
+  useEffect(() => {
+    if (!('mediaSession' in navigator)) return;
+    navigator.mediaSession.metadata = sessionMetadata(video);
+  }, [video.id, video.title, video.series, video.thumbnail, video.audioTags]);
+
+  useEffect(() => {
+    const el = mediaRef.current;
+    if (!('mediaSession' in navigator) || !el) return;
+    const session = navigator.mediaSession;
+
+    // The OS extrapolates the position from the rate, so this is only needed when the timeline changes
+    const updatePosition = () => {
+      if (!Number.isFinite(el.duration) || el.duration <= 0) return;
+      try {
+        session.setPositionState({ duration: el.duration, playbackRate: el.playbackRate, position: Math.min(el.currentTime, el.duration) });
+      } catch {
+        // An invalid state (e.g. a zero rate) leaves the previous one up
+      }
+    };
+    const updatePlayback = () => {
+      session.playbackState = el.paused ? 'paused' : 'playing';
+      updatePosition();
+    };
+
+    setHandler('play', () => { el.play().catch(() => {}); });
+    setHandler('pause', () => el.pause());
+    setHandler('seekbackward', (details) => controlsRef.current.seek(-(details.seekOffset || controlsRef.current.seekStep)));
+    setHandler('seekforward', (details) => controlsRef.current.seek(details.seekOffset || controlsRef.current.seekStep));
+    setHandler('seekto', (details) => {
+      if (details.seekTime === undefined) return;
+      if (details.fastSeek) el.fastSeek(details.seekTime);
+      else el.currentTime = details.seekTime;
+      updatePosition();
+    });
+    setHandler('previoustrack', () => controlsRef.current.skip(-1));
+    setHandler('nexttrack', () => controlsRef.current.skip(1));
+
+    const events = ['play', 'pause', 'ratechange', 'durationchange', 'seeked'];
+    events.forEach(event => el.addEventListener(event, updatePlayback));
+    updatePlayback();
+
+    return () => {
+      events.forEach(event => el.removeEventListener(event, updatePlayback));
+      ACTIONS.forEach(action => setHandler(action, null));
+      session.metadata = null;
+      session.playbackState = 'none';
+    };
+  }, [mediaRef]);
+};
@@ -0,0 +1,49 @@
+import { RepeatMode } from '../types';
+
+// Pure helpers behind the session play queue in store.ts. Playback runs through a context (the
+// list a video was started from, e.g. the library view or a playlist) with a position in it;
+// anything the user queues by hand plays first, before the context carries on.
+
+export const shuffled = <T>(items: T[]): T[] => {
+  const result = [...items];
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [result[i], result[j]] = [result[j], result[i]];
+  }
+  return result;
+};
+
+// Keeps everything up to and including the current position in place and shuffles the rest
+export const shuffleUpcoming = (ids: string[], index: number) =>
+  [...ids.slice(0, index + 1), ...shuffled(ids.slice(index + 1))];
+
+export interface ContextStep {
+  context: string[];
+  index: number;
+}
+
+// Where the context goes from `index` in `direction`, or null when playback should stop.
+// Repeat-one is the player's business (it restarts the same video), so it steps like 'off' here.
+export const stepContext = (context: string[], index: number, direction: 1 | -1, repeat: RepeatMode, shuffle: boolean): ContextStep | null => {
+  if (context.length === 0) return null;
+  const target = index + direction;
+  if (target >= 0 && target < context.length) return { context, index: target };
+  if (repeat !== 'all') return null;
+  if (direction === -1) return { context, index: context.length - 1 };
+  // Another lap of a shuffled context gets a fresh order
+  return { context: shuffle ? shuffled(context) : context, index: 0 };
+};
+
+export const moveItem = <T>(items: T[], from: number, to: number): T[] => {
+  if (from === to || from < 0 || from >= items.length) return items;
+  const result = [...items];
+  const [item] = result.splice(from, 1);
+  result.splice(Math.max(0, Math.min(result.length, to)), 0, item);
+  return result;
+};
+
+// Drops every occurrence of `id` and keeps `index` pointing at the same entry (or the one before it)
+export const withoutId = (ids: string[], index: number, id: string) => ({
+  ids: ids.filter(x => x !== id),
+  index: index - ids.slice(0, index + 1).filter(x => x === id).length,
+});
@@ -0,0 +1,92 @@
+import { MediaTrack, VideoMetadata } from '../types';
+
+// MIME subtypes to ask the browser about for each probed container. Matroska has no type most
+// browsers answer to, so its tracks are also checked as WebM/MP4, which is what the decoder sees.
+const CONTAINER_TYPES: Record<string, string[]> = {
+  mp4: ['mp4'], m4a: ['mp4'], mov: ['mp4', 'quicktime'], '3gp': ['3gpp', 'mp4'],
+  webm: ['webm'], mkv: ['x-matroska', 'webm', 'mp4'],
+  ogg: ['ogg'], wav: ['wav'], flac: ['flac'], aac: ['aac', 'mp4'], mp3: ['mpeg'], mp2: ['mpeg'], mp1: ['mpeg'],
+};
+
+// Codecs the probe recognises without deriving an RFC 6381 string for them
+const FALLBACK_CODEC_STRINGS: Record<string, string> = {
+  dts: 'dtsc', truehd: 'mlpa', ac4: 'ac-4', alac: 'alac', pcm: '1', mp2: 'mp4a.69',
+  mpeg4: 'mp4v.20.9', mpeg2: 'mp4v.61', prores: 'apcn', theora: 'theora',
+};
+
+const CODEC_NAMES: Record<string, string> = {
+  h264: 'H.264', hevc: 'HEVC', av1: 'AV1', vp9: 'VP9', vp8: 'VP8', mpeg4: 'MPEG-4', mpeg2: 'MPEG-2', mpeg1: 'MPEG-1',
+  prores: 'ProRes', mjpeg: 'MJPEG', theora: 'Theora', vfw: 'VfW',
+  aac: 'AAC', opus: 'Opus', vorbis: 'Vorbis', flac: 'FLAC', ac3: 'AC-3', eac3: 'E-AC-3', ac4: 'AC-4',
+  dts: 'DTS', truehd: 'TrueHD', mp3: 'MP3', mp2: 'MP2', mp1: 'MP1', alac: 'ALAC', pcm: 'PCM',
+};
+
+// "HEVC video", "DTS audio (jpn)": what the UI shows for a track the browser can't decode
+export const describeTrack = (track: MediaTrack) => {
+  const name = CODEC_NAMES[track.codec] || track.codec.toUpperCase();
+  const language = track.language && track.language !== 'und' ? ` (${track.language})` : '';
+  return `${name} ${track.kind}${language}`;
+};
+
+let testElement: HTMLVideoElement | null = null;
+
+const typeSupported = (type: string) => {
+  if (typeof MediaSource !== 'undefined' && MediaSource.isTypeSupported(type)) return true;
+  testElement ??= document.createElement('video');
+  return testElement.canPlayType(type) !== '';
+};
+
+const decodingSupported = async (track: MediaTrack, contentType: string, bitrate?: number) => {
+  if (!navigator.mediaCapabilities?.decodingInfo) return false;
+  const config: MediaDecodingConfiguration = track.kind === 'video'
+    ? {
+        type: 'file',
+        video: {
+          contentType,
+          width: track.width || 1920,
+          height: track.height || 1080,
+          bitrate: bitrate || 8_000_000,
+          framerate: track.frameRate || 30,
+        },
+      }
+    : {
+        type: 'file',
+        audio: { contentType, channels: String(track.channels || 2), samplerate: track.sampleRate },
+      };
+  try {
+    return (await navigator.mediaCapabilities.decodingInfo(config)).supported;
+  } catch {
+    return false; // Malformed codec strings are rejected with a TypeError
+  }
+};
+
+const trackPlayable = async (track: MediaTrack, subtypes: string[], bitrate?: number) => {
+  const codecs = track.codecString || FALLBACK_CODEC_STRINGS[track.codec];
+  if (!codecs) return false;
+  for (const subtype of subtypes) {
+    const type = `${track.kind}/${subtype}; codecs="${codecs}"`;
+    if (typeSupported(type) || await decodingSupported(track, type, bitrate)) return true;
+  }
+  return false;
+};
+
+// Labels of everything in the file this browser won't decode; empty when it should all play.
+// Undefined when the probe found nothing to check against.
+export const checkPlayback = async (metadata: VideoMetadata): Promise<string[] | undefined> => {
+  if (!metadata.container || !metadata.tracks) return undefined;
+  const kind = metadata.tracks.some(t => t.kind === 'video') ? 'video' : 'audio';
+  const subtypes = CONTAINER_TYPES[metadata.container];
+  if (!subtypes || !subtypes.some(subtype => typeSupported(`${kind}/${subtype}`))) {
+    return [`${metadata.container.toUpperCase()} container`];
+  }
+
+  const unsupported = new Set<string>();
+  for (const track of metadata.tracks) {
+    if (track.kind === 'subtitle') continue;
+    if (!(await trackPlayable(track, subtypes, metadata.bitrate))) unsupported.add(describeTrack(track));
+  }
+  return Array.from(unsupported);
+};
+
+export const withPlaybackCheck = async (metadata: VideoMetadata): Promise<VideoMetadata> =>
+  ({ ...metadata, unsupported: await checkPlayback(metadata) });
@@ -0,0 +1,191 @@
+import { VideoItem, SyncedFolder, Playlist } from '../types';
+import { useVideoStore } from '../store';
+import { decodeTextFile } from './helpers';
+
+// M3U/M3U8 and XSPF playlists as written by other players. Entries point at files by path, which
+// rarely matches anything in the browser, so they are resolved against vault entries instead.
+
+export const PLAYLIST_FILE_EXTS = ['m3u', 'm3u8', 'xspf'];
+
+export type PlaylistFileFormat = 'm3u8' | 'xspf';
+
+export interface PlaylistFileEntry {
+  location: string;
+  title?: string;
+  duration?: number; // Seconds
+}
+
+interface ParsedPlaylistFile {
+  name?: string;
+  entries: PlaylistFileEntry[];
+}
+
+// Durations this close count as the same file; players round #EXTINF to whole seconds
+const DURATION_TOLERANCE = 2;
+
+// --- Parsing --------------------------------------------------------------
+
+const parseM3u = (text: string): ParsedPlaylistFile => {
+  const result: ParsedPlaylistFile = { entries: [] };
+  let pending: Omit<PlaylistFileEntry, 'location'> = {};
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim();
+    if (!line) continue;
+    const extinf = line.match(/^#EXTINF:\s*(-?[\d.]+)[^,]*,(.*)$/i);
+    if (extinf) {
+      const duration = Number(extinf[1]);
+      pending = { title: extinf[2].trim() || undefined, duration: duration > 0 ? duration : undefined };
+    } else if (/^#PLAYLIST:/i.test(line)) {
+      result.name = line.slice(10).trim() || undefined;
+    } else if (!line.startsWith('#')) {
+      result.entries.push({ location: line, ...pending });
+      pending = {};
+    }
+  }
+  return result;
+};
+
+const parseXspf = (text: string): ParsedPlaylistFile => {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('XSPF file is not valid XML');
+  const childText = (el: Element, tag: string) => {
+    const child = Array.from(el.children).find(c => c.localName === tag);
+    return child?.textContent?.trim() || undefined;
+  };
+
+  const playlist = doc.documentElement;
+  const entries = Array.from(doc.getElementsByTagNameNS('*', 'track')).flatMap((track): PlaylistFileEntry[] => {
+    const location = childText(track, 'location');
+    if (!location) return [];
+    const ms = Number(childText(track, 'duration'));
+    return [{ location, title: childText(track, 'title'), duration: ms > 0 ? ms / 1000 : undefined }];
+  });
+  return { name: childText(playlist, 'title'), entries };
+};
+
+// "file:///C:/Videos/Show%201/a.mkv", "..\\Show 1\\a.mkv" -> ['show 1', 'a.mkv']
+const pathSegments = (location: string) => {
+  let path = location.trim();
+  if (/^[a-z][a-z0-9+.-]*:\/\//i.test(path) || /%[0-9a-f]{2}/i.test(path)) {
+    path = path.replace(/^file:\/\/(localhost)?/i, '');
+    try {
+      path = decodeURIComponent(path);
+    } catch {
+      // Not actually escaped; use it as written
+    }
+  }
+  return path.replace(/\\/g, '/').replace(/^\/?[a-z]:\//i, '/').toLowerCase().split('/').filter(s => s && s !== '.' && s !== '..');
+};
+
+const baseName = (name: string) => name.replace(/\.[^.]+$/, '').toLowerCase().trim();
+
+// --- Resolving ------------------------------------------------------------
+
+const durationDistance = (entry: PlaylistFileEntry, video: VideoItem) =>
+  entry.duration && video.metadata?.duration ? Math.abs(entry.duration - video.metadata.duration) : 0;
+
+const closest = (entry: PlaylistFileEntry, candidates: VideoItem[]) =>
+  candidates.reduce<VideoItem | undefined>((best, v) => (!best || durationDistance(entry, v) < durationDistance(entry, best) ? v : best), undefined);
+
+// Longest shared tail of the path wins ("Show/S01/e1.mkv" beats a stray "e1.mkv"), then the title,
+// with duration breaking ties and ruling out same-named files of a different length either way
+const resolveEntry = (entry: PlaylistFileEntry, videos: VideoItem[]): VideoItem | undefined => {
+  const candidates = videos.filter(v => durationDistance(entry, v) <= DURATION_TOLERANCE);
+  const segments = pathSegments(entry.location);
+  if (segments.length > 0) {
+    let bestShared = 0;
+    let matches: VideoItem[] = [];
+    for (const video of candidates) {
+      const videoSegments = (video.path || '').toLowerCase().split('/').filter(Boolean);
+      let shared = 0;
+      while (shared < segments.length && shared < videoSegments.length &&
+             segments[segments.length - 1 - shared] === videoSegments[videoSegments.length - 1 - shared]) shared++;
+      if (shared === 0 || shared < bestShared) continue;
+      if (shared > bestShared) matches = [];
+      bestShared = shared;
+      matches.push(video);
+    }
+    if (matches.length > 0) return closest(entry, matches);
+  }
+
+  const names = [entry.title, segments[segments.length - 1]].filter((n): n is string => !!n).map(baseName);
+  const byName = candidates.filter(v => names.includes(v.title.toLowerCase().trim()));
+  return closest(entry, byName);
+};
+
+export interface PlaylistImportReport {
+  playlist: Playlist;
+  total: number;
+  unresolved: PlaylistFileEntry[];
+}
+
+export const resolvePlaylistEntries = (entries: PlaylistFileEntry[], videos: VideoItem[]) => {
+  const videoIds: string[] = [];
+  const unresolved: PlaylistFileEntry[] = [];
+  for (const entry of entries) {
+    const video = resolveEntry(entry, videos);
+    if (video) videoIds.push(video.id);
+    else unresolved.push(entry);
+  }
+  return { videoIds, unresolved };
+};
+
+// Reads a playlist file into a new vault playlist; entries that match nothing are reported, not dropped silently
+export const importPlaylistFile = async (file: File): Promise<PlaylistImportReport> => {
+  const ext = file.name.split('.').pop()?.toLowerCase() || '';
+  if (!PLAYLIST_FILE_EXTS.includes(ext)) throw new Error(`"${file.name}" is not an M3U or XSPF playlist`);
+  const text = await decodeTextFile(file);
+  const parsed = ext === 'xspf' ? parseXspf(text) : parseM3u(text);
+  if (parsed.entries.length === 0) throw new Error(`No entries found in "${file.name}"`);
+
+  const { videos, createPlaylist } = useVideoStore.getState();
+  const { videoIds, unresolved } = resolvePlaylistEntries(parsed.entries, videos);
+  const playlist = createPlaylist(parsed.name || file.name.replace(/\.[^.]+$/, ''), videoIds);
+  return { playlist, total: parsed.entries.length, unresolved };
+};
+
+// --- Writing --------------------------------------------------------------
+
+// Paths are relative to the synced folder root. A playlist spanning several folders is written as if
+// it sat next to them, so each path starts with its folder's name.
+const relativePaths = (videos: VideoItem[], folders: SyncedFolder[]) => {
+  const spansFolders = new Set(videos.map(v => v.folderId)).size > 1;
+  return videos.map(v => {
+    const path = v.path || `${v.title}.${v.metadata?.format || 'mp4'}`;
+    const folder = spansFolders && v.folderId ? folders.find(f => f.id === v.folderId) : undefined;
+    return folder ? `${folder.name}/${path}` : path;
+  });
+};
+
+const escapeXml = (s: string) =>
+  s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const toM3u = (name: string, videos: VideoItem[], paths: string[]) => [
+  '#EXTM3U',
+  `#PLAYLIST:${name}`,
+  ...videos.flatMap((v, i) => [`#EXTINF:${Math.round(v.metadata?.duration || -1)},${v.title}`, paths[i]]),
+].join('\n') + '\n';
+
+const toXspf = (name: string, videos: VideoItem[], paths: string[]) => [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  '<playlist version="1" xmlns="http://xspf.org/ns/0/">',
+  `  <title>${escapeXml(name)}</title>`,
+  '  <trackList>',
+  ...videos.map((v, i) => [
+    '    <track>',
+    `      <location>${escapeXml(paths[i].split('/').map(encodeURIComponent).join('/'))}</location>`,
+    `      <title>${escapeXml(v.title)}</title>`,
+    ...(v.metadata?.duration ? [`      <duration>${Math.round(v.metadata.duration * 1000)}</duration>`] : []),
+    '    </track>',
+  ].join('\n')),
+  '  </trackList>',
+  '</playlist>',
+].join('\n') + '\n';
+
+export const buildPlaylistFile = (name: string, videos: VideoItem[], folders: SyncedFolder[], format: PlaylistFileFormat) => {
+  const paths = relativePaths(videos, folders);
+  return format === 'xspf'
+    ? new Blob([toXspf(name, videos, paths)], { type: 'application/xspf+xml' })
+    : new Blob([toM3u(name, videos, paths)], { type: 'audio/x-mpegurl' });
+};
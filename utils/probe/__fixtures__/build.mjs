@@ -0,0 +1,161 @@
+// Writes the tiny media files the probe tests read. Every file is assembled byte by byte so the
+// expected values in probe.test.ts can be traced back to a line here. Run with:
+//   node utils/probe/__fixtures__/build.mjs
+
+import { writeFileSync } from 'node:fs';
+
+const dir = new URL('./', import.meta.url);
+
+const concat = (...parts) => Buffer.concat(parts.map(p => (Buffer.isBuffer(p) ? p : Buffer.from(p))));
+const ascii = (s) => Buffer.from(s, 'latin1');
+const u8 = (n) => Buffer.from([n]);
+const u16 = (n) => { const b = Buffer.alloc(2); b.writeUInt16BE(n); return b; };
+const u32 = (n) => { const b = Buffer.alloc(4); b.writeUInt32BE(n); return b; };
+const u32le = (n) => { const b = Buffer.alloc(4); b.writeUInt32LE(n); return b; };
+const u64 = (n) => concat(u32(Math.floor(n / 2 ** 32)), u32(n % 2 ** 32));
+const f64 = (n) => { const b = Buffer.alloc(8); b.writeDoubleBE(n); return b; };
+const zeros = (n) => Buffer.alloc(n);
+
+// --- ISO BMFF ----------------------------------------------------------------
+
+const box = (type, ...payload) => { const body = concat(...payload); return concat(u32(8 + body.length), ascii(type), body); };
+const fullBox = (type, version, flags, ...payload) => box(type, u8(version), u8(flags >> 16), u16(flags & 0xffff), ...payload);
+// ISO 639-2 packed into three 5-bit letters
+const language = (code) => u16([...code].reduce((n, c) => (n << 5) | (c.charCodeAt(0) - 0x60), 0));
+
+const tkhd = (trackId, flags, width = 0, height = 0) => fullBox('tkhd', 0, flags,
+  zeros(8), u32(trackId), zeros(4), u32(0), zeros(8), zeros(8), zeros(36), u32(width << 16), u32(height << 16));
+const mdhd = (timescale, duration, lang) => fullBox('mdhd', 0, 0, zeros(8), u32(timescale), u32(duration), language(lang), zeros(2));
+const hdlr = (type, name) => fullBox('hdlr', 0, 0, zeros(4), ascii(type), zeros(12), ascii(name), u8(0));
+const stbl = (entry, sampleCount) => box('stbl',
+  fullBox('stsd', 0, 0, u32(1), entry),
+  fullBox('stts', 0, 0, u32(0)),
+  fullBox('stsc', 0, 0, u32(0)),
+  fullBox('stsz', 0, 0, u32(0), u32(sampleCount), zeros(4 * sampleCount)),
+  fullBox('stco', 0, 0, u32(0)));
+const trak = (header, media, entry, sampleCount) => box('trak', header, box('mdia', ...media, box('minf', stbl(entry, sampleCount))));
+
+// High profile, level 3.1
+const avcC = box('avcC', u8(1), u8(0x64), u8(0x00), u8(0x1f), u8(0xff), u8(0xe0), u8(0x01));
+const avc1 = box('avc1', zeros(6), u16(1), zeros(16), u16(1280), u16(720), zeros(50), avcC);
+
+// ES_Descriptor > DecoderConfigDescriptor (AAC) > DecoderSpecificInfo: AAC-LC, 44.1 kHz, stereo
+const descriptor = (tag, ...body) => { const b = concat(...body); return concat(u8(tag), u8(b.length), b); };
+const esds = fullBox('esds', 0, 0, descriptor(0x03, u16(1), u8(0),
+  descriptor(0x04, u8(0x40), u8(0x15), zeros(3), u32(128000), u32(128000), descriptor(0x05, u8(0x12), u8(0x10)))));
+const mp4a = box('mp4a', zeros(6), u16(1), u16(0), zeros(6), u16(2), u16(16), zeros(4), u32(48000 * 2 ** 16), esds);
+
+// Nero chapters, 100 ns units
+const chpl = fullBox('chpl', 1, 0, zeros(4), u8(2),
+  u64(0), u8(5), ascii('Intro'),
+  u64(5 * 1e7), u8(4), ascii('Main'));
+
+const mp4 = concat(
+  box('ftyp', ascii('isom'), u32(512), ascii('isomavc1')),
+  box('moov',
+    fullBox('mvhd', 0, 0, zeros(8), u32(1000), u32(10000), zeros(80)),
+    trak(tkhd(1, 3, 1280, 720), [mdhd(1000, 10000, 'und'), hdlr('vide', 'VideoHandler')], avc1, 250),
+    trak(tkhd(2, 1), [mdhd(48000, 480000, 'eng'), hdlr('soun', 'Stereo')], mp4a, 469),
+    box('udta', chpl)),
+  box('mdat', zeros(16)));
+
+// --- Matroska ----------------------------------------------------------------
+
+const ebmlSize = (n) => (n < 0x7f ? u8(0x80 | n) : n < 0x3fff ? u16(0x4000 | n) : u32(0x10000000 | n));
+const idBytes = (id) => Buffer.from(id.toString(16).padStart(id > 0xffffff ? 8 : id > 0xffff ? 6 : id > 0xff ? 4 : 2, '0'), 'hex');
+const el = (id, ...payload) => { const body = concat(...payload); return concat(idBytes(id), ebmlSize(body.length), body); };
+const uint = (id, n) => { let hex = n.toString(16); if (hex.length % 2) hex = `0${hex}`; return el(id, Buffer.from(hex, 'hex')); };
+const str = (id, s) => el(id, Buffer.from(s, 'utf8'));
+
+const tracks = el(0x1654ae6b,
+  el(0xae, uint(0xd7, 1), uint(0x83, 1), str(0x86, 'V_MPEG4/ISO/AVC'), el(0x63a2, avcC.subarray(8)),
+    uint(0x23e383, 41708333), el(0xe0, uint(0xb0, 1920), uint(0xba, 1080))),
+  el(0xae, uint(0xd7, 2), uint(0x83, 2), str(0x86, 'A_OPUS'), str(0x22b59c, 'jpn'), uint(0x88, 0),
+    el(0xe1, el(0xb5, f64(48000)), uint(0x9f, 6))),
+  el(0xae, uint(0xd7, 3), uint(0x83, 0x11), str(0x86, 'S_TEXT/UTF8'), str(0x22b59c, 'und'), str(0x536e, 'Signs'),
+    el(0x6d80, el(0x6240, el(0x5034, uint(0x4254, 0))))));
+
+const info = el(0x1549a966, uint(0x2ad7b1, 1000000), el(0x4489, f64(5000)));
+const cluster = el(0x1f43b675, uint(0xe7, 0), el(0xa3, u8(0x81), u16(0), u8(0x80), zeros(8)));
+// Written after the cluster, as some muxers do, so it can only be found through the SeekHead
+const chapters = el(0x1043a770, el(0x45b9, uint(0x45db, 1),
+  el(0xb6, uint(0x91, 0), el(0x80, str(0x85, 'Opening'))),
+  el(0xb6, uint(0x91, 90e9), uint(0x98, 1), el(0x80, str(0x85, 'Hidden'))),
+  el(0xb6, uint(0x91, 60e9), uint(0x92, 120e9), el(0x80, str(0x85, 'Part B')))));
+
+// The SeekHead's own size doesn't depend on the position it holds, as long as it fits the same bytes
+const seekHead = (position) => el(0x114d9b74, el(0x4dbb, el(0x53ab, idBytes(0x1043a770)), el(0x53ac, u32(position))));
+const beforeChapters = seekHead(0).length + info.length + tracks.length + cluster.length;
+
+const mkv = concat(
+  el(0x1a45dfa3, uint(0x4286, 1), str(0x4282, 'matroska'), uint(0x4287, 4), uint(0x4285, 2)),
+  el(0x18538067, seekHead(beforeChapters), info, tracks, cluster, chapters));
+
+// --- FLAC --------------------------------------------------------------------
+
+// STREAMINFO: 44.1 kHz, 2 channels, 16 bits, 441000 samples (10 s)
+const streamInfo = concat(u16(4096), u16(4096), zeros(3), zeros(3),
+  u32(((44100 << 12) | (1 << 9) | (15 << 4)) >>> 0), u32(441000), zeros(16));
+const vorbisComment = (entries) => concat(
+  u32le(6), ascii('tester'), u32le(entries.length),
+  ...entries.map(e => concat(u32le(Buffer.byteLength(e)), Buffer.from(e, 'utf8'))));
+const flacComments = vorbisComment(['TITLE=Tone', 'ARTIST=Probe', 'TRACKNUMBER=3/12']);
+const flac = concat(ascii('fLaC'),
+  u8(0x00), u8(0), u16(streamInfo.length), streamInfo,
+  u8(0x84), u8(0), u16(flacComments.length), flacComments,
+  zeros(32));
+
+// --- MP3 and ADTS ------------------------------------------------------------
+
+const id3Frame = (id, text) => { const body = concat(u8(3), Buffer.from(text, 'utf8')); return concat(ascii(id), u32(body.length), zeros(2), body); };
+const id3Body = concat(id3Frame('TIT2', 'Sweep'), id3Frame('TPE1', 'Probe'), zeros(10));
+const syncsafe = (n) => Buffer.from([(n >> 21) & 0x7f, (n >> 14) & 0x7f, (n >> 7) & 0x7f, n & 0x7f]);
+
+// MPEG-1 Layer III, 128 kbps, 44.1 kHz, joint stereo: 144 * 128000 / 44100 = 417 bytes per frame
+const mp3Frame = concat(Buffer.from([0xff, 0xfb, 0x90, 0x64]), zeros(413));
+const mp3 = concat(ascii('ID3'), u8(4), u8(0), u8(0), syncsafe(id3Body.length), id3Body, ...Array(5).fill(mp3Frame));
+
+// AAC-LC, 44.1 kHz, stereo, no CRC, 64-byte frames
+const adtsFrame = (length) => concat(Buffer.from([
+  0xff, 0xf1,
+  (1 << 6) | (4 << 2) | (2 >> 2),
+  ((2 & 3) << 6) | (length >> 11),
+  (length >> 3) & 0xff,
+  ((length & 7) << 5) | 0x1f,
+  0xfc,
+]), zeros(length - 7));
+const aac = concat(...Array(5).fill(adtsFrame(64)));
+
+// --- Ogg ---------------------------------------------------------------------
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, i) => {
+  let r = i << 24;
+  for (let k = 0; k < 8; k++) r = r & 0x80000000 ? (r << 1) ^ 0x04c11db7 : r << 1;
+  return r >>> 0;
+});
+const oggCrc = (data) => data.reduce((crc, b) => ((crc << 8) ^ CRC_TABLE[((crc >>> 24) ^ b) & 0xff]) >>> 0, 0);
+
+// One page holding one packet; the first page of a stream is flagged beginning-of-stream
+const oggPage = (sequence, packet) => {
+  const page = concat(ascii('OggS'), u8(0), u8(sequence === 0 ? 2 : 0), zeros(8), u32le(0x1234), u32le(sequence), u32le(0), u8(1), u8(packet.length), packet);
+  page.writeUInt32LE(oggCrc(page), 22);
+  return page;
+};
+
+const opus = concat(
+  oggPage(0, concat(ascii('OpusHead'), u8(1), u8(2), Buffer.from([0x38, 0x01]), u32le(48000), zeros(2), u8(0))),
+  oggPage(1, concat(ascii('OpusTags'), vorbisComment(['TITLE=Chirp']))));
+const vorbis = concat(
+  oggPage(0, concat(u8(1), ascii('vorbis'), u32le(0), u8(1), u32le(22050), u32le(0), u32le(64000), u32le(0), u8(0xb8), u8(1))),
+  oggPage(1, concat(u8(3), ascii('vorbis'), vorbisComment(['TITLE=Hum']), u8(1))));
+
+const files = {
+  'h264-aac.mp4': mp4,
+  'h264-opus-subs.mkv': mkv,
+  'tone.flac': flac,
+  'sweep.mp3': mp3,
+  'tone.aac': aac,
+  'tone.opus': opus,
+  'tone.ogg': vorbis,
+};
+for (const [name, data] of Object.entries(files)) writeFileSync(new URL(name, dir), data);
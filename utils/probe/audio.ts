@@ -0,0 +1,168 @@
+import { MediaTrack } from '../../types';
+import { ProbeResult } from './types';
+import { readRange, readAscii, fourcc } from './reader';
+
+// Plain audio files: WAV, MP3, AAC (ADTS), FLAC and Ogg (Vorbis/Opus/FLAC)
+
+const audioTrack = (codec: string, codecString: string | undefined, channels?: number, sampleRate?: number): MediaTrack =>
+  ({ id: 1, kind: 'audio', codec, codecString, channels, sampleRate, isDefault: true });
+
+const probeWav = (view: DataView, size: number): ProbeResult | null => {
+  // RIFF chunks are little-endian; 'fmt ' usually follows the header directly but may not
+  let offset = 12;
+  while (offset + 8 <= view.byteLength) {
+    const id = fourcc(view, offset);
+    const chunkSize = view.getUint32(offset + 4, true);
+    if (id === 'fmt ' && offset + 24 <= view.byteLength) {
+      const format = view.getUint16(offset + 8, true);
+      const channels = view.getUint16(offset + 10, true);
+      const sampleRate = view.getUint32(offset + 12, true);
+      const byteRate = view.getUint32(offset + 16, true);
+      const codec = format === 0x55 ? 'mp3' : format === 0x2000 ? 'ac3' : 'pcm';
+      return {
+        container: 'wav',
+        duration: byteRate ? (size - 44) / byteRate : undefined,
+        tracks: [audioTrack(codec, codec === 'pcm' ? '1' : codec, channels, sampleRate)],
+      };
+    }
+    offset += 8 + chunkSize + (chunkSize % 2);
+  }
+  return { container: 'wav', tracks: [audioTrack('pcm', '1')] };
+};
+
+const syncsafe = (view: DataView, offset: number) =>
+  (view.getUint8(offset) << 21) | (view.getUint8(offset + 1) << 14) | (view.getUint8(offset + 2) << 7) | view.getUint8(offset + 3);
+
+const MPEG_SAMPLE_RATES = [[11025, 12000, 8000], [0, 0, 0], [22050, 24000, 16000], [44100, 48000, 32000]];
+const ADTS_SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+
+// kbps by bitrate index, for MPEG-1 layers I-III and MPEG-2/2.5 layer I and layers II-III
+const MPEG_BITRATES = {
+  v1: [
+    [0, 32, 64, 96, 128, 160, 192, 224, 256, 288, 320, 352, 384, 416, 448],
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320, 384],
+    [0, 32, 40, 48, 56, 64, 80, 96, 112, 128, 160, 192, 224, 256, 320],
+  ],
+  v2: [
+    [0, 32, 48, 56, 64, 80, 96, 112, 128, 144, 160, 176, 192, 224, 256],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+    [0, 8, 16, 24, 32, 40, 48, 56, 64, 80, 96, 112, 128, 144, 160],
+  ],
+};
+
+// A sync word alone turns up in any binary file, so this many frames have to follow each other
+// before the data is taken for MPEG audio or ADTS
+const REQUIRED_FRAMES = 3;
+const SYNC_SEARCH = 8192;
+const MAX_FRAME_SIZE = 8191; // ADTS; MPEG audio frames stay under 2 KB
+
+interface AudioFrame {
+  length: number; // Bytes, header included
+  stream: number; // Header bits that stay the same in every frame of a stream
+  result: ProbeResult;
+}
+
+const readAudioFrame = (view: DataView, i: number): AudioFrame | null => {
+  if (i + 6 > view.byteLength || view.getUint8(i) !== 0xff || (view.getUint8(i + 1) & 0xe0) !== 0xe0) return null;
+  const b1 = view.getUint8(i + 1);
+  const b2 = view.getUint8(i + 2);
+  const b3 = view.getUint8(i + 3);
+  const layer = (b1 >> 1) & 0x03;
+
+  if ((b1 & 0xf6) === 0xf0) {
+    // ADTS: 12-bit sync, layer always 0
+    const sampleRate = ADTS_SAMPLE_RATES[(b2 >> 2) & 0x0f];
+    const length = ((b3 & 0x03) << 11) | (view.getUint8(i + 4) << 3) | (view.getUint8(i + 5) >> 5);
+    if (!sampleRate || length < 7) return null;
+    const channels = ((b2 & 0x01) << 2) | (b3 >> 6);
+    const objectType = ((b2 >> 6) & 0x03) + 1;
+    return {
+      length,
+      stream: (b1 << 16) | (b2 << 8) | (b3 & 0xc0),
+      result: { container: 'aac', tracks: [audioTrack('aac', `mp4a.40.${objectType}`, channels || undefined, sampleRate)] },
+    };
+  }
+
+  const version = (b1 >> 3) & 0x03;
+  const rateIndex = (b2 >> 2) & 0x03;
+  const bitrateIndex = b2 >> 4;
+  if (layer === 0 || version === 1 || rateIndex === 3 || bitrateIndex === 0 || bitrateIndex === 15) return null;
+  const sampleRate = MPEG_SAMPLE_RATES[version][rateIndex];
+  const bitrate = MPEG_BITRATES[version === 3 ? 'v1' : 'v2'][3 - layer][bitrateIndex] * 1000;
+  const padding = (b2 >> 1) & 0x01;
+  const length = layer === 3
+    ? (Math.floor((12 * bitrate) / sampleRate) + padding) * 4
+    : Math.floor(((layer === 1 && version !== 3 ? 72 : 144) * bitrate) / sampleRate) + padding;
+  const channels = (b3 >> 6) === 3 ? 1 : 2;
+  const codec = layer === 1 ? 'mp3' : layer === 2 ? 'mp2' : 'mp1';
+  return {
+    length,
+    stream: ((b1 & 0xfe) << 8) | (b2 & 0x0c),
+    result: { container: codec, tracks: [audioTrack(codec, codec === 'mp3' ? 'mp3' : undefined, channels, sampleRate)] },
+  };
+};
+
+// First run of MPEG audio or ADTS frames after any ID3v2 tag. A file too short for the full run
+// still counts if its frames end exactly where the file does.
+const probeMpegAudio = async (file: Blob, view: DataView): Promise<ProbeResult | null> => {
+  let start = 0;
+  if (readAscii(view, 0, 3) === 'ID3' && view.byteLength >= 10) start = 10 + syncsafe(view, 6);
+  const frames = await readRange(file, start, SYNC_SEARCH + REQUIRED_FRAMES * MAX_FRAME_SIZE);
+
+  for (let i = 0; i < SYNC_SEARCH && i + 4 <= frames.byteLength; i++) {
+    const first = readAudioFrame(frames, i);
+    if (!first) continue;
+    let count = 1;
+    let end = i + first.length;
+    for (let frame = readAudioFrame(frames, end); frame && frame.stream === first.stream && count < REQUIRED_FRAMES; frame = readAudioFrame(frames, end)) {
+      count++;
+      end += frame.length;
+    }
+    if (count >= REQUIRED_FRAMES || start + end === file.size) return first.result;
+  }
+  return null;
+};
+
+const probeFlac = (view: DataView): ProbeResult | null => {
+  // STREAMINFO is always the first metadata block
+  if (view.byteLength < 26) return null;
+  const sampleRate = (view.getUint16(18) << 4) | (view.getUint8(20) >> 4);
+  const channels = ((view.getUint8(20) >> 1) & 0x07) + 1;
+  const totalSamples = (view.getUint8(21) & 0x0f) * 2 ** 32 + view.getUint32(22);
+  return {
+    container: 'flac',
+    duration: sampleRate && totalSamples ? totalSamples / sampleRate : undefined,
+    tracks: [audioTrack('flac', 'flac', channels, sampleRate)],
+  };
+};
+
+const probeOgg = (view: DataView): ProbeResult | null => {
+  // First page carries the codec identification header right after the segment table
+  if (view.byteLength < 28) return null;
+  const segments = view.getUint8(26);
+  const packet = 27 + segments;
+  if (packet + 20 > view.byteLength) return null;
+
+  if (readAscii(view, packet + 1, 6) === 'vorbis') {
+    return { container: 'ogg', tracks: [audioTrack('vorbis', 'vorbis', view.getUint8(packet + 11), view.getUint32(packet + 12, true))] };
+  }
+  if (readAscii(view, packet, 8) === 'OpusHead') {
+    return { container: 'ogg', tracks: [audioTrack('opus', 'opus', view.getUint8(packet + 9), 48000)] };
+  }
+  if (readAscii(view, packet + 1, 4) === 'FLAC') {
+    return { container: 'ogg', tracks: [audioTrack('flac', 'flac')] };
+  }
+  if (readAscii(view, packet + 1, 6) === 'theora') {
+    return { container: 'ogg', tracks: [{ id: 1, kind: 'video', codec: 'theora', codecString: 'theora' }] };
+  }
+  return { container: 'ogg', tracks: [] };
+};
+
+export const probeAudio = async (file: Blob, head: DataView): Promise<ProbeResult | null> => {
+  if (head.byteLength < 12) return null;
+  const magic = fourcc(head, 0);
+  if (magic === 'RIFF' && fourcc(head, 8) === 'WAVE') return probeWav(head, file.size);
+  if (magic === 'fLaC') return probeFlac(head);
+  if (magic === 'OggS') return probeOgg(head);
+  return probeMpegAudio(file, head);
+};
@@ -0,0 +1,61 @@
+import { hex } from './reader';
+
+// RFC 6381 codec strings built from the codec configuration records, shared by the MP4 and Matroska parsers.
+// These are what MediaSource.isTypeSupported / mediaCapabilities expect.
+
+const pad2 = (n: number) => n.toString().padStart(2, '0');
+
+// AVCDecoderConfigurationRecord: version, profile, compatibility, level
+export const avcCodecString = (config: DataView, prefix = 'avc1') =>
+  config.byteLength >= 4 ? `${prefix}.${hex(config.getUint8(1))}${hex(config.getUint8(2))}${hex(config.getUint8(3))}` : prefix;
+
+const reverseBits32 = (n: number) => {
+  let r = 0;
+  for (let i = 0; i < 32; i++) r = (r << 1) | ((n >>> i) & 1);
+  return r >>> 0;
+};
+
+// HEVCDecoderConfigurationRecord
+export const hevcCodecString = (config: DataView, prefix = 'hvc1') => {
+  if (config.byteLength < 13) return prefix;
+  const b1 = config.getUint8(1);
+  const space = ['', 'A', 'B', 'C'][b1 >> 6];
+  const tier = (b1 >> 5) & 1 ? 'H' : 'L';
+  const profile = b1 & 0x1f;
+  const compat = reverseBits32(config.getUint32(2)).toString(16).toUpperCase();
+  const level = config.getUint8(12);
+  const constraints: string[] = [];
+  for (let i = 6; i < 12; i++) constraints.push(hex(config.getUint8(i)));
+  while (constraints.length && constraints[constraints.length - 1] === '00') constraints.pop();
+  return [`${prefix}.${space}${profile}`, compat, `${tier}${level}`, ...constraints].join('.');
+};
+
+// AV1CodecConfigurationRecord
+export const av1CodecString = (config: DataView) => {
+  if (config.byteLength < 3) return 'av01';
+  const b1 = config.getUint8(1);
+  const b2 = config.getUint8(2);
+  const profile = b1 >> 5;
+  const level = b1 & 0x1f;
+  const tier = b2 >> 7 ? 'H' : 'M';
+  const bitDepth = (b2 >> 5) & 1 ? 12 : (b2 >> 6) & 1 ? 10 : 8;
+  return `av01.${profile}.${pad2(level)}${tier}.${pad2(bitDepth)}`;
+};
+
+// VPCodecConfigurationRecord (the 'vpcC' full box payload after version/flags)
+export const vp9CodecString = (config: DataView) => {
+  if (config.byteLength < 3) return 'vp09.00.10.08';
+  return `vp09.${pad2(config.getUint8(0))}.${pad2(config.getUint8(1))}.${pad2(config.getUint8(2) >> 4)}`;
+};
+
+// AudioSpecificConfig: the first 5 bits are the audio object type (2 = AAC-LC, 5 = HE-AAC, 29 = HE-AACv2)
+export const aacObjectType = (config: DataView) => {
+  if (config.byteLength < 1) return 2;
+  const type = config.getUint8(0) >> 3;
+  if (type !== 31 || config.byteLength < 2) return type;
+  return 32 + (((config.getUint8(0) & 0x07) << 3) | (config.getUint8(1) >> 5));
+};
+
+// channelConfiguration sits after the object type and the 4-bit sampling frequency index
+export const aacChannels = (config: DataView) =>
+  config.byteLength >= 2 ? ((config.getUint16(0) >> 3) & 0x0f) || undefined : undefined;
@@ -0,0 +1,49 @@
+import { VideoMetadata } from '../../types';
+import { ProbeResult } from './types';
+import { readRange, fourcc } from './reader';
+import { probeIsoBmff } from './isobmff';
+import { probeMatroska } from './matroska';
+import { probeAudio } from './audio';
+
+export type { ProbeResult } from './types';
+export { readAudioTags } from './tags';
+export type { TagResult } from './tags';
+
+// Sniffs the container from the first bytes and hands off to the matching parser.
+// Returns null for anything unrecognised or malformed; probing never throws.
+export const probeMedia = async (file: Blob): Promise<ProbeResult | null> => {
+  try {
+    const head = await readRange(file, 0, 4096);
+    if (head.byteLength < 12) return null;
+    if (fourcc(head, 4) === 'ftyp' || ['moov', 'mdat', 'wide', 'free'].includes(fourcc(head, 4))) return await probeIsoBmff(file);
+    if (head.getUint32(0) === 0x1a45dfa3) return await probeMatroska(file);
+    if (fourcc(head, 0) === 'RIFF' && fourcc(head, 8) === 'AVI ') return { container: 'avi', tracks: [] };
+    return await probeAudio(file, head);
+  } catch (err) {
+    console.error('Media probe failed:', err);
+    return null;
+  }
+};
+
+// Folds probe results into the metadata gathered from the <video> element
+export const withProbeMetadata = (metadata: VideoMetadata, probe: ProbeResult | null): VideoMetadata => {
+  if (!probe) return metadata;
+  const video = probe.tracks.find(t => t.kind === 'video' && t.isDefault !== false) || probe.tracks.find(t => t.kind === 'video');
+  const audio = probe.tracks.find(t => t.kind === 'audio' && t.isDefault !== false) || probe.tracks.find(t => t.kind === 'audio');
+  const duration = metadata.duration || probe.duration || 0;
+
+  return {
+    ...metadata,
+    duration,
+    width: metadata.width || video?.width || 0,
+    height: metadata.height || video?.height || 0,
+    container: probe.container,
+    videoCodec: video?.codec,
+    audioCodec: audio?.codec,
+    frameRate: video?.frameRate,
+    audioChannels: audio?.channels,
+    bitrate: metadata.size && duration ? Math.round((metadata.size * 8) / duration) : undefined,
+    tracks: probe.tracks,
+    chapters: probe.chapters?.length ? probe.chapters : undefined,
+  };
+};
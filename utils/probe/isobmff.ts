@@ -0,0 +1,390 @@
+import { MediaTrack, TrackKind, Chapter } from '../../types';
+import { ProbeResult } from './types';
+import { readRange, fourcc, getUint64, subView, readAscii, readUtf8 } from './reader';
+import { avcCodecString, hevcCodecString, av1CodecString, vp9CodecString, aacObjectType, aacChannels } from './codecs';
+
+// ISO Base Media File Format (MP4, MOV, M4A, 3GP). Only the 'moov' box is read.
+
+export interface Box {
+  type: string;
+  start: number; // Offset of the box header within the view
+  headerSize: number;
+  size: number;
+}
+
+export const boxPayload = (view: DataView, box: Box) =>
+  subView(view, box.start + box.headerSize, box.size - box.headerSize);
+
+export const readBoxes = (view: DataView, start = 0, end = view.byteLength): Box[] => {
+  const boxes: Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    const type = fourcc(view, offset + 4);
+    let headerSize = 8;
+    if (size === 1 && offset + 16 <= end) {
+      size = getUint64(view, offset + 8);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < headerSize) break;
+    boxes.push({ type, start: offset, headerSize, size: Math.min(size, end - offset) });
+    offset += size;
+  }
+  return boxes;
+};
+
+export const findBox = (view: DataView, type: string) => readBoxes(view).find(b => b.type === type);
+
+// Walks a path like ['mdia', 'minf', 'stbl'] and returns the payload of the last box
+export const findPath = (view: DataView, path: string[]): DataView | undefined => {
+  let current: DataView | undefined = view;
+  for (const type of path) {
+    const box = current && findBox(current, type);
+    if (!box || !current) return undefined;
+    current = boxPayload(current, box);
+  }
+  return current;
+};
+
+const MAX_MOOV_SIZE = 64 * 1024 * 1024;
+
+interface TopLevel {
+  ftyp?: DataView;
+  moov?: DataView;
+  fragmented: boolean;
+}
+
+// Top-level boxes are visited header by header, so 'mdat' payloads are never loaded
+export const readTopLevel = async (file: Blob): Promise<TopLevel> => {
+  const result: TopLevel = { fragmented: false };
+  let offset = 0;
+  for (let i = 0; i < 1000 && offset + 8 <= file.size; i++) {
+    const header = await readRange(file, offset, 16);
+    let size = header.getUint32(0);
+    const type = fourcc(header, 4);
+    let headerSize = 8;
+    if (size === 1) {
+      size = getUint64(header, 8);
+      headerSize = 16;
+    } else if (size === 0) {
+      size = file.size - offset;
+    }
+    if (size < headerSize) break;
+
+    if (type === 'ftyp') result.ftyp = subView(await readRange(file, offset, size), headerSize, size - headerSize);
+    if (type === 'moov' && size <= MAX_MOOV_SIZE) result.moov = subView(await readRange(file, offset, size), headerSize, size - headerSize);
+    if (type === 'moof') result.fragmented = true;
+    if (result.moov && (type === 'moof' || type === 'mdat')) break;
+    offset += size;
+  }
+  return result;
+};
+
+export interface Sample {
+  offset: number;
+  size: number;
+  start: number; // Seconds
+  end: number;
+}
+
+// Flattens stts/stsc/stsz/stco into one entry per sample
+export const readSampleTable = (stbl: DataView, timescale: number): Sample[] => {
+  const stts = findPath(stbl, ['stts']);
+  const stsc = findPath(stbl, ['stsc']);
+  const stsz = findPath(stbl, ['stsz']);
+  const stco = findPath(stbl, ['stco']);
+  const co64 = findPath(stbl, ['co64']);
+  const chunks = stco || co64;
+  if (!stts || !stsc || !stsz || !chunks || !timescale) return [];
+
+  const fixedSize = stsz.getUint32(4);
+  const count = stsz.getUint32(8);
+  const sizeOf = (i: number) => fixedSize || stsz.getUint32(12 + i * 4);
+  const chunkCount = chunks.getUint32(4);
+  const chunkOffset = (i: number) => (stco ? stco.getUint32(8 + i * 4) : getUint64(chunks, 8 + i * 8));
+
+  const times: number[] = [];
+  let time = 0;
+  for (let e = 0, entries = stts.getUint32(4); e < entries && times.length <= count; e++) {
+    const runLength = stts.getUint32(8 + e * 8);
+    const delta = stts.getUint32(12 + e * 8);
+    for (let k = 0; k < runLength && times.length <= count; k++, time += delta) times.push(time);
+  }
+  times.push(time);
+
+  const samples: Sample[] = [];
+  const entries = stsc.getUint32(4);
+  for (let e = 0; e < entries; e++) {
+    const firstChunk = stsc.getUint32(8 + e * 12) - 1;
+    const perChunk = stsc.getUint32(12 + e * 12);
+    const lastChunk = e + 1 < entries ? stsc.getUint32(8 + (e + 1) * 12) - 1 : chunkCount;
+    for (let c = firstChunk; c < lastChunk && samples.length < count; c++) {
+      let offset = chunkOffset(c);
+      for (let k = 0; k < perChunk && samples.length < count; k++) {
+        const i = samples.length;
+        const size = sizeOf(i);
+        samples.push({ offset, size, start: (times[i] ?? time) / timescale, end: (times[i + 1] ?? time) / timescale });
+        offset += size;
+      }
+    }
+  }
+  return samples;
+};
+
+const HANDLER_KINDS: Record<string, TrackKind> = {
+  vide: 'video',
+  soun: 'audio',
+  text: 'subtitle',
+  sbtl: 'subtitle',
+  subt: 'subtitle',
+  clcp: 'subtitle',
+};
+
+const SAMPLE_ENTRY_CODECS: Record<string, string> = {
+  avc1: 'h264', avc3: 'h264', hvc1: 'hevc', hev1: 'hevc', dvh1: 'hevc', dvhe: 'hevc',
+  av01: 'av1', vp09: 'vp9', vp08: 'vp8', mp4v: 'mpeg4', jpeg: 'mjpeg',
+  apcn: 'prores', apch: 'prores', apcs: 'prores', apco: 'prores', ap4h: 'prores',
+  mp4a: 'aac', Opus: 'opus', fLaC: 'flac', 'ac-3': 'ac3', 'ec-3': 'eac3', 'ac-4': 'ac4',
+  dtsc: 'dts', dtsh: 'dts', dtsl: 'dts', dtse: 'dts', 'mp3 ': 'mp3', '.mp3': 'mp3', alac: 'alac',
+  lpcm: 'pcm', sowt: 'pcm', twos: 'pcm', in24: 'pcm', in32: 'pcm', fl32: 'pcm', fl64: 'pcm', ipcm: 'pcm',
+  tx3g: 'tx3g', wvtt: 'webvtt', stpp: 'ttml', c608: 'cea608',
+};
+
+// Variable-length size field used by MPEG-4 descriptors
+const readDescriptorHeader = (view: DataView, offset: number) => {
+  const tag = view.getUint8(offset);
+  let size = 0;
+  let i = offset + 1;
+  for (let n = 0; n < 4 && i < view.byteLength; n++, i++) {
+    const b = view.getUint8(i);
+    size = (size << 7) | (b & 0x7f);
+    if (!(b & 0x80)) { i++; break; }
+  }
+  return { tag, size, bodyOffset: i };
+};
+
+// esds: ES_Descriptor > DecoderConfigDescriptor (object type) > DecoderSpecificInfo (AudioSpecificConfig)
+const parseEsds = (esds: DataView): { codec: string, codecString: string, config?: DataView } => {
+  let offset = 4; // version + flags
+  const es = readDescriptorHeader(esds, offset);
+  if (es.tag !== 0x03) return { codec: 'aac', codecString: 'mp4a.40.2' };
+  offset = es.bodyOffset + 2;
+  const flags = esds.getUint8(offset++);
+  if (flags & 0x80) offset += 2;
+  if (flags & 0x40) offset += 1 + esds.getUint8(offset);
+  if (flags & 0x20) offset += 2;
+
+  const dc = readDescriptorHeader(esds, offset);
+  if (dc.tag !== 0x04) return { codec: 'aac', codecString: 'mp4a.40.2' };
+  const objectType = esds.getUint8(dc.bodyOffset);
+  if (objectType === 0x6b || objectType === 0x69) return { codec: 'mp3', codecString: 'mp3' };
+  if (objectType !== 0x40) return { codec: 'aac', codecString: `mp4a.${objectType.toString(16).toUpperCase()}` };
+
+  const dsiOffset = dc.bodyOffset + 13;
+  if (dsiOffset >= esds.byteLength) return { codec: 'aac', codecString: 'mp4a.40.2' };
+  const dsi = readDescriptorHeader(esds, dsiOffset);
+  if (dsi.tag !== 0x05) return { codec: 'aac', codecString: 'mp4a.40.2' };
+  const config = subView(esds, dsi.bodyOffset, dsi.size);
+  return { codec: 'aac', codecString: `mp4a.40.${aacObjectType(config)}`, config };
+};
+
+// Encrypted entries (encv/enca) keep the real format in sinf/frma
+const originalFormat = (children: DataView, format: string) => {
+  const frma = findPath(children, ['sinf', 'frma']);
+  return frma && frma.byteLength >= 4 ? fourcc(frma, 0) : format;
+};
+
+const VISUAL_ENTRY_SIZE = 78;
+const AUDIO_ENTRY_SIZE = 28;
+
+const parseSampleEntry = (track: MediaTrack, stsd: DataView) => {
+  const entryBox = readBoxes(stsd, 8)[0];
+  if (!entryBox) return;
+  const entry = boxPayload(stsd, entryBox);
+  let format = entryBox.type;
+
+  if (track.kind === 'video' && entry.byteLength >= VISUAL_ENTRY_SIZE) {
+    const children = subView(entry, VISUAL_ENTRY_SIZE, entry.byteLength - VISUAL_ENTRY_SIZE);
+    if (format === 'encv') format = originalFormat(children, format);
+    track.width = track.width || entry.getUint16(24);
+    track.height = track.height || entry.getUint16(26);
+    const avcC = findPath(children, ['avcC']);
+    const hvcC = findPath(children, ['hvcC']);
+    const av1C = findPath(children, ['av1C']);
+    const vpcC = findPath(children, ['vpcC']);
+    if (avcC) track.codecString = avcCodecString(avcC, format);
+    else if (hvcC) track.codecString = hevcCodecString(hvcC, format);
+    else if (av1C) track.codecString = av1CodecString(av1C);
+    else if (vpcC) track.codecString = vp9CodecString(subView(vpcC, 4, vpcC.byteLength - 4));
+  }
+
+  if (track.kind === 'audio' && entry.byteLength >= AUDIO_ENTRY_SIZE) {
+    const version = entry.getUint16(8);
+    track.channels = entry.getUint16(16);
+    track.sampleRate = entry.getUint32(24) >>> 16;
+    // QuickTime sound description v1/v2 extend the entry before its child boxes
+    const childStart = AUDIO_ENTRY_SIZE + (version === 1 ? 16 : version === 2 ? 36 : 0);
+    const children = subView(entry, childStart, entry.byteLength - childStart);
+    if (format === 'enca') format = originalFormat(children, format);
+    if (version === 2 && entry.byteLength >= 48) {
+      track.sampleRate = Math.round(entry.getFloat64(32));
+      track.channels = entry.getUint32(40);
+    }
+
+    const esds = findPath(children, ['esds']) || findPath(children, ['wave', 'esds']);
+    if (format === 'mp4a' && esds) {
+      const { codec, codecString, config } = parseEsds(esds);
+      track.codec = codec;
+      track.codecString = codecString;
+      if (config && !track.channels) track.channels = aacChannels(config);
+      return;
+    }
+    if (format === 'Opus') track.codecString = 'opus';
+    if (format === 'fLaC') track.codecString = 'flac';
+    if (format === 'ac-3' || format === 'ec-3') track.codecString = format;
+  }
+
+  track.codec = SAMPLE_ENTRY_CODECS[format] || format.trim().toLowerCase();
+  if (track.kind === 'video' && !track.codecString && track.codec === 'vp8') track.codecString = 'vp8';
+};
+
+// ISO 639-2/T packed as three 5-bit characters
+const unpackLanguage = (packed: number) => {
+  const code = String.fromCharCode(((packed >> 10) & 0x1f) + 0x60, ((packed >> 5) & 0x1f) + 0x60, (packed & 0x1f) + 0x60);
+  return code === 'und' || !/^[a-z]{3}$/.test(code) ? undefined : code;
+};
+
+const parseTrak = (trak: DataView): MediaTrack | null => {
+  const tkhd = findPath(trak, ['tkhd']);
+  const mdia = findPath(trak, ['mdia']);
+  if (!tkhd || !mdia) return null;
+
+  const hdlr = findPath(mdia, ['hdlr']);
+  const kind = hdlr && HANDLER_KINDS[fourcc(hdlr, 8)];
+  if (!kind) return null;
+
+  const tkhdVersion = tkhd.getUint8(0);
+  const track: MediaTrack = {
+    id: tkhd.getUint32(tkhdVersion === 1 ? 20 : 12),
+    kind,
+    codec: 'unknown',
+    isDefault: (tkhd.getUint8(3) & 0x01) === 1,
+  };
+  if (kind === 'video') {
+    const dims = tkhdVersion === 1 ? 88 : 76;
+    if (tkhd.byteLength >= dims + 8) {
+      track.width = tkhd.getUint32(dims) >>> 16;
+      track.height = tkhd.getUint32(dims + 4) >>> 16;
+    }
+  }
+
+  const mdhd = findPath(mdia, ['mdhd']);
+  let trackDuration = 0;
+  if (mdhd) {
+    const v1 = mdhd.getUint8(0) === 1;
+    const timescale = mdhd.getUint32(v1 ? 20 : 12);
+    const duration = v1 ? getUint64(mdhd, 24) : mdhd.getUint32(16);
+    trackDuration = timescale ? duration / timescale : 0;
+    track.language = unpackLanguage(mdhd.getUint16(v1 ? 32 : 20));
+  }
+  if (hdlr && hdlr.byteLength > 24) {
+    const name = readAscii(hdlr, 24, hdlr.byteLength - 24).trim();
+    if (name && !/handler$/i.test(name)) track.name = name;
+  }
+
+  const stbl = findPath(mdia, ['minf', 'stbl']);
+  const stsd = stbl && findPath(stbl, ['stsd']);
+  if (stsd) parseSampleEntry(track, stsd);
+
+  const stsz = stbl && findPath(stbl, ['stsz']);
+  if (kind === 'video' && stsz && trackDuration > 0) {
+    const sampleCount = stsz.getUint32(8);
+    if (sampleCount > 1) track.frameRate = Math.round((sampleCount / trackDuration) * 1000) / 1000;
+  }
+  return track;
+};
+
+const trackIdOf = (trak: DataView) => {
+  const tkhd = findPath(trak, ['tkhd']);
+  return tkhd ? tkhd.getUint32(tkhd.getUint8(0) === 1 ? 20 : 12) : -1;
+};
+
+// Nero 'chpl' in moov/udta: a count, then 100ns start times with length-prefixed UTF-8 titles
+const parseChpl = (chpl: DataView): Chapter[] => {
+  const chapters: Chapter[] = [];
+  let offset = chpl.getUint8(0) >= 1 ? 8 : 4;
+  const count = chpl.getUint8(offset++);
+  for (let i = 0; i < count && offset + 9 <= chpl.byteLength; i++) {
+    const start = getUint64(chpl, offset) / 1e7;
+    const length = chpl.getUint8(offset + 8);
+    const title = readUtf8(chpl, offset + 9, length).trim();
+    chapters.push({ start, title: title || `Chapter ${i + 1}` });
+    offset += 9 + length;
+  }
+  return chapters;
+};
+
+const MAX_CHAPTER_SAMPLES = 1000;
+
+// QuickTime chapters: a text track referenced from another track's tref/chap, one sample per chapter
+const readChapterTrack = async (file: Blob, trak: DataView): Promise<Chapter[]> => {
+  const mdhd = findPath(trak, ['mdia', 'mdhd']);
+  const stbl = findPath(trak, ['mdia', 'minf', 'stbl']);
+  if (!mdhd || !stbl) return [];
+  const samples = readSampleTable(stbl, mdhd.getUint32(mdhd.getUint8(0) === 1 ? 20 : 12)).slice(0, MAX_CHAPTER_SAMPLES);
+
+  const chapters: Chapter[] = [];
+  for (const sample of samples) {
+    if (sample.size < 2) continue;
+    const data = await readRange(file, sample.offset, sample.size);
+    const length = Math.min(data.getUint16(0), data.byteLength - 2);
+    const bytes = new Uint8Array(data.buffer, data.byteOffset + 2, Math.max(0, length));
+    const utf16 = bytes[0] === 0xfe && bytes[1] === 0xff;
+    const title = new TextDecoder(utf16 ? 'utf-16be' : 'utf-8').decode(bytes).trim();
+    chapters.push({ start: sample.start, end: sample.end > sample.start ? sample.end : undefined, title: title || `Chapter ${chapters.length + 1}` });
+  }
+  return chapters;
+};
+
+const chapterTrackIds = (traks: DataView[]) => {
+  const ids = new Set<number>();
+  for (const trak of traks) {
+    const chap = findPath(trak, ['tref', 'chap']);
+    for (let i = 0; chap && i + 4 <= chap.byteLength; i += 4) ids.add(chap.getUint32(i));
+  }
+  return ids;
+};
+
+export const probeIsoBmff = async (file: Blob): Promise<ProbeResult | null> => {
+  const { ftyp, moov } = await readTopLevel(file);
+  if (!moov) return null;
+
+  const brand = ftyp ? fourcc(ftyp, 0) : '';
+  const container = brand === 'qt  ' ? 'mov' : brand.startsWith('3g') ? '3gp' : brand === 'M4A ' ? 'm4a' : 'mp4';
+
+  let duration: number | undefined;
+  const mvhd = findPath(moov, ['mvhd']);
+  if (mvhd) {
+    const v1 = mvhd.getUint8(0) === 1;
+    const timescale = mvhd.getUint32(v1 ? 20 : 12);
+    const raw = v1 ? getUint64(mvhd, 24) : mvhd.getUint32(16);
+    if (timescale) duration = raw / timescale;
+  }
+
+  const traks = readBoxes(moov).filter(b => b.type === 'trak').map(b => boxPayload(moov, b));
+  // Chapter text tracks are listed as chapters, not subtitles
+  const chapterIds = chapterTrackIds(traks);
+  const tracks = traks
+    .filter(trak => !chapterIds.has(trackIdOf(trak)))
+    .map(parseTrak)
+    .filter((t): t is MediaTrack => !!t);
+
+  const chpl = findPath(moov, ['udta', 'chpl']);
+  let chapters = chpl ? parseChpl(chpl) : [];
+  const chapterTrak = traks.find(trak => chapterIds.has(trackIdOf(trak)));
+  if (chapters.length === 0 && chapterTrak) chapters = await readChapterTrack(file, chapterTrak);
+
+  return { container, duration, tracks, chapters };
+};
@@ -0,0 +1,365 @@
+import { MediaTrack, TrackKind, Chapter } from '../../types';
+import { ProbeResult } from './types';
+import { readRange, readUtf8, subView } from './reader';
+import { avcCodecString, hevcCodecString, av1CodecString, aacObjectType } from './codecs';
+
+// Matroska / WebM (EBML). Only the segment-level metadata elements before the first Cluster are read,
+// with the SeekHead used to locate any that were written after the media data.
+
+export const EBML_ID = {
+  EBML: 0x1a45dfa3,
+  DocType: 0x4282,
+  Segment: 0x18538067,
+  SeekHead: 0x114d9b74,
+  Seek: 0x4dbb,
+  SeekID: 0x53ab,
+  SeekPosition: 0x53ac,
+  Info: 0x1549a966,
+  TimecodeScale: 0x2ad7b1,
+  Duration: 0x4489,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackType: 0x83,
+  FlagDefault: 0x88,
+  CodecID: 0x86,
+  CodecPrivate: 0x63a2,
+  DefaultDuration: 0x23e383,
+  ContentEncodings: 0x6d80,
+  ContentEncoding: 0x6240,
+  ContentCompression: 0x5034,
+  ContentCompAlgo: 0x4254,
+  ContentCompSettings: 0x4255,
+  ContentEncryption: 0x5035,
+  Language: 0x22b59c,
+  LanguageIETF: 0x22b59d,
+  Name: 0x536e,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  Audio: 0xe1,
+  SamplingFrequency: 0xb5,
+  Channels: 0x9f,
+  Cluster: 0x1f43b675,
+  Timecode: 0xe7,
+  SimpleBlock: 0xa3,
+  BlockGroup: 0xa0,
+  Block: 0xa1,
+  BlockDuration: 0x9b,
+  ReferenceBlock: 0xfb,
+  Cues: 0x1c53bb6b,
+  Chapters: 0x1043a770,
+  EditionEntry: 0x45b9,
+  EditionFlagHidden: 0x45bd,
+  EditionFlagDefault: 0x45db,
+  ChapterAtom: 0xb6,
+  ChapterTimeStart: 0x91,
+  ChapterTimeEnd: 0x92,
+  ChapterFlagHidden: 0x98,
+  ChapterFlagEnabled: 0x4598,
+  ChapterDisplay: 0x80,
+  ChapString: 0x85,
+  Tags: 0x1254c367,
+  Attachments: 0x1941a469,
+};
+
+export interface EbmlElement {
+  id: number;
+  dataStart: number; // Relative to the view the element was read from
+  size: number; // -1 for "unknown size" (live streams, some muxers' Segment/Cluster)
+}
+
+const vintLength = (first: number) => {
+  for (let i = 0; i < 8; i++) if (first & (0x80 >> i)) return i + 1;
+  return 0;
+};
+
+export const readElementHeader = (view: DataView, offset: number): EbmlElement | null => {
+  if (offset >= view.byteLength) return null;
+  const idLength = vintLength(view.getUint8(offset));
+  if (!idLength || idLength > 4 || offset + idLength >= view.byteLength) return null;
+  let id = 0;
+  for (let i = 0; i < idLength; i++) id = id * 256 + view.getUint8(offset + i);
+
+  const sizeOffset = offset + idLength;
+  const first = view.getUint8(sizeOffset);
+  const sizeLength = vintLength(first);
+  if (!sizeLength || sizeOffset + sizeLength > view.byteLength) return null;
+  let size = first & (0xff >> sizeLength);
+  let allOnes = size === (0xff >> sizeLength);
+  for (let i = 1; i < sizeLength; i++) {
+    const b = view.getUint8(sizeOffset + i);
+    if (b !== 0xff) allOnes = false;
+    size = size * 256 + b;
+  }
+  return { id, dataStart: sizeOffset + sizeLength, size: allOnes ? -1 : size };
+};
+
+export const readChildren = (view: DataView, start = 0, end = view.byteLength): EbmlElement[] => {
+  const children: EbmlElement[] = [];
+  let offset = start;
+  while (offset < end) {
+    const el = readElementHeader(view, offset);
+    if (!el) break;
+    const size = el.size < 0 ? end - el.dataStart : el.size;
+    children.push({ ...el, size });
+    offset = el.dataStart + size;
+  }
+  return children;
+};
+
+export const elementData = (view: DataView, el: EbmlElement) => subView(view, el.dataStart, el.size);
+
+export const readUint = (view: DataView, el: EbmlElement) => {
+  let n = 0;
+  for (let i = 0; i < el.size && i < 8; i++) n = n * 256 + view.getUint8(el.dataStart + i);
+  return n;
+};
+
+export const readFloat = (view: DataView, el: EbmlElement) =>
+  el.size === 4 ? view.getFloat32(el.dataStart) : el.size === 8 ? view.getFloat64(el.dataStart) : 0;
+
+export const findChild = (view: DataView, id: number) => readChildren(view).find(el => el.id === id);
+
+const childUint = (view: DataView, id: number, fallback = 0) => {
+  const el = findChild(view, id);
+  return el ? readUint(view, el) : fallback;
+};
+
+const childString = (view: DataView, id: number) => {
+  const el = findChild(view, id);
+  return el ? readUtf8(view, el.dataStart, el.size) : undefined;
+};
+
+const MAX_ELEMENT_SIZE = 16 * 1024 * 1024;
+const WANTED = [EBML_ID.SeekHead, EBML_ID.Info, EBML_ID.Tracks, EBML_ID.Chapters, EBML_ID.Tags, EBML_ID.Cues];
+
+export interface MatroskaSegment {
+  docType: string;
+  segmentStart: number; // File offset of the Segment payload; SeekPosition and Cue positions are relative to it
+  segmentEnd: number;
+  firstClusterOffset?: number;
+  elements: Map<number, DataView>; // Top-level metadata elements by ID (payload only)
+}
+
+const readTopLevelElement = async (file: Blob, offset: number) => {
+  const header = await readRange(file, offset, 12);
+  const el = readElementHeader(header, 0);
+  return el && { ...el, dataStart: offset + el.dataStart };
+};
+
+export const readMatroskaSegment = async (file: Blob): Promise<MatroskaSegment | null> => {
+  const head = await readRange(file, 0, 4096);
+  const ebml = readElementHeader(head, 0);
+  if (!ebml || ebml.id !== EBML_ID.EBML) return null;
+  const docType = childString(elementData(head, ebml), EBML_ID.DocType) || 'matroska';
+
+  const segment = await readTopLevelElement(file, ebml.dataStart + ebml.size);
+  if (!segment || segment.id !== EBML_ID.Segment) return null;
+
+  const segmentEnd = segment.size < 0 ? file.size : Math.min(file.size, segment.dataStart + segment.size);
+  const result: MatroskaSegment = { docType, segmentStart: segment.dataStart, segmentEnd, elements: new Map() };
+
+  const load = async (el: EbmlElement) => {
+    if (el.size < 0 || el.size > MAX_ELEMENT_SIZE || result.elements.has(el.id)) return;
+    result.elements.set(el.id, await readRange(file, el.dataStart, el.size));
+  };
+
+  let offset = segment.dataStart;
+  for (let i = 0; i < 256 && offset < segmentEnd; i++) {
+    const el = await readTopLevelElement(file, offset);
+    if (!el) break;
+    if (el.id === EBML_ID.Cluster) {
+      result.firstClusterOffset = offset;
+      break;
+    }
+    if (WANTED.includes(el.id)) await load(el);
+    if (el.size < 0) break;
+    offset = el.dataStart + el.size;
+  }
+
+  // Anything written after the clusters (common for Cues, sometimes Tracks/Chapters) is found via the SeekHead
+  const seekHead = result.elements.get(EBML_ID.SeekHead);
+  if (seekHead) {
+    for (const seek of readChildren(seekHead).filter(el => el.id === EBML_ID.Seek)) {
+      const data = elementData(seekHead, seek);
+      const idEl = findChild(data, EBML_ID.SeekID);
+      if (!idEl) continue;
+      const id = readUint(data, idEl);
+      if (!WANTED.includes(id) || result.elements.has(id)) continue;
+      const position = childUint(data, EBML_ID.SeekPosition, -1);
+      if (position < 0) continue;
+      const el = await readTopLevelElement(file, segment.dataStart + position);
+      if (el && el.id === id) await load(el);
+    }
+  }
+
+  return result;
+};
+
+const TRACK_KINDS: Record<number, TrackKind> = { 1: 'video', 2: 'audio', 0x11: 'subtitle' };
+
+const CODEC_IDS: Record<string, string> = {
+  'V_MPEG4/ISO/AVC': 'h264', 'V_MPEGH/ISO/HEVC': 'hevc', V_AV1: 'av1', V_VP9: 'vp9', V_VP8: 'vp8',
+  'V_MPEG4/ISO/ASP': 'mpeg4', 'V_MPEG4/ISO/SP': 'mpeg4', V_MPEG2: 'mpeg2', V_MPEG1: 'mpeg1', V_THEORA: 'theora',
+  'V_MS/VFW/FOURCC': 'vfw', V_PRORES: 'prores', V_MJPEG: 'mjpeg',
+  A_AAC: 'aac', A_OPUS: 'opus', A_VORBIS: 'vorbis', A_FLAC: 'flac', A_AC3: 'ac3', A_EAC3: 'eac3',
+  A_DTS: 'dts', A_TRUEHD: 'truehd', 'A_MPEG/L3': 'mp3', 'A_MPEG/L2': 'mp2', A_ALAC: 'alac',
+  'S_TEXT/UTF8': 'srt', 'S_TEXT/ASCII': 'srt', 'S_TEXT/ASS': 'ass', 'S_TEXT/SSA': 'ssa', 'S_ASS': 'ass', 'S_SSA': 'ssa',
+  'S_TEXT/WEBVTT': 'webvtt', 'S_HDMV/PGS': 'pgs', S_VOBSUB: 'vobsub', 'S_DVBSUB': 'dvbsub',
+};
+
+const normalizeCodec = (codecId: string) => {
+  if (CODEC_IDS[codecId]) return CODEC_IDS[codecId];
+  if (codecId.startsWith('A_AAC')) return 'aac';
+  if (codecId.startsWith('A_PCM')) return 'pcm';
+  if (codecId.startsWith('A_DTS')) return 'dts';
+  return codecId.toLowerCase();
+};
+
+const codecStringFor = (codec: string, codecId: string, priv?: DataView) => {
+  switch (codec) {
+    case 'h264': return priv ? avcCodecString(priv) : 'avc1';
+    case 'hevc': return priv ? hevcCodecString(priv) : 'hvc1';
+    case 'av1': return priv && priv.byteLength >= 4 ? av1CodecString(priv) : 'av01';
+    case 'vp9': return 'vp9';
+    case 'vp8': return 'vp8';
+    case 'opus': return 'opus';
+    case 'vorbis': return 'vorbis';
+    case 'flac': return 'flac';
+    case 'mp3': return 'mp3';
+    case 'ac3': return 'ac-3';
+    case 'eac3': return 'ec-3';
+    case 'aac':
+      if (priv && priv.byteLength >= 2) return `mp4a.40.${aacObjectType(priv)}`;
+      return /SBR|HE/.test(codecId) ? 'mp4a.40.5' : 'mp4a.40.2';
+    default: return undefined;
+  }
+};
+
+export interface MatroskaTrack extends MediaTrack {
+  codecId: string;
+  codecPrivate?: DataView;
+  defaultDuration?: number; // Nanoseconds per frame
+  strippedHeader?: Uint8Array; // Header-stripping compression: bytes removed from the front of every frame
+  unsupportedEncoding?: boolean; // zlib compression or encryption, which the remuxer doesn't undo
+  zlibCompressed?: boolean; // Usual for text subtitles; small enough to inflate in the browser
+}
+
+const parseContentEncodings = (entry: DataView, track: MatroskaTrack) => {
+  const encodingsEl = findChild(entry, EBML_ID.ContentEncodings);
+  if (!encodingsEl) return;
+  const encodings = elementData(entry, encodingsEl);
+  for (const encodingEl of readChildren(encodings).filter(el => el.id === EBML_ID.ContentEncoding)) {
+    const encoding = elementData(encodings, encodingEl);
+    const compressionEl = findChild(encoding, EBML_ID.ContentCompression);
+    const compression = compressionEl && elementData(encoding, compressionEl);
+    const settingsEl = compression && findChild(compression, EBML_ID.ContentCompSettings);
+    const algo = compression ? childUint(compression, EBML_ID.ContentCompAlgo) : -1;
+    if (compression && settingsEl && algo === 3) {
+      track.strippedHeader = new Uint8Array(compression.buffer, compression.byteOffset + settingsEl.dataStart, settingsEl.size);
+    } else {
+      track.unsupportedEncoding = true;
+      if (algo === 0) track.zlibCompressed = true;
+    }
+  }
+};
+
+export const parseMatroskaTracks = (tracksEl: DataView): MatroskaTrack[] => {
+  const tracks: MatroskaTrack[] = [];
+  for (const entryEl of readChildren(tracksEl).filter(el => el.id === EBML_ID.TrackEntry)) {
+    const entry = elementData(tracksEl, entryEl);
+    const kind = TRACK_KINDS[childUint(entry, EBML_ID.TrackType)];
+    if (!kind) continue;
+
+    const codecId = childString(entry, EBML_ID.CodecID) || '';
+    const privEl = findChild(entry, EBML_ID.CodecPrivate);
+    const codecPrivate = privEl ? elementData(entry, privEl) : undefined;
+    const codec = normalizeCodec(codecId);
+    const language = childString(entry, EBML_ID.LanguageIETF) || childString(entry, EBML_ID.Language) || 'eng';
+
+    const track: MatroskaTrack = {
+      id: childUint(entry, EBML_ID.TrackNumber),
+      kind,
+      codec,
+      codecId,
+      codecPrivate,
+      codecString: codecStringFor(codec, codecId, codecPrivate),
+      language: language === 'und' ? undefined : language,
+      name: childString(entry, EBML_ID.Name),
+      isDefault: childUint(entry, EBML_ID.FlagDefault, 1) === 1,
+    };
+
+    const videoEl = findChild(entry, EBML_ID.Video);
+    if (videoEl) {
+      const video = elementData(entry, videoEl);
+      track.width = childUint(video, EBML_ID.PixelWidth) || undefined;
+      track.height = childUint(video, EBML_ID.PixelHeight) || undefined;
+    }
+    const defaultDuration = childUint(entry, EBML_ID.DefaultDuration);
+    if (defaultDuration) track.defaultDuration = defaultDuration;
+    if (kind === 'video' && defaultDuration) track.frameRate = Math.round((1e9 / defaultDuration) * 1000) / 1000;
+
+    const audioEl = findChild(entry, EBML_ID.Audio);
+    if (audioEl) {
+      const audio = elementData(entry, audioEl);
+      const rateEl = findChild(audio, EBML_ID.SamplingFrequency);
+      if (rateEl) track.sampleRate = Math.round(readFloat(audio, rateEl));
+      track.channels = childUint(audio, EBML_ID.Channels, 1);
+    }
+    parseContentEncodings(entry, track);
+    tracks.push(track);
+  }
+  return tracks;
+};
+
+// Seconds per Block timecode unit
+export const timecodeScale = (segment: MatroskaSegment) => {
+  const info = segment.elements.get(EBML_ID.Info);
+  return (info ? childUint(info, EBML_ID.TimecodeScale, 1_000_000) : 1_000_000) / 1e9;
+};
+
+// Top-level atoms of the default edition (or the first visible one); nested sub-chapters are skipped.
+// Chapter times are in nanoseconds regardless of TimecodeScale.
+export const parseMatroskaChapters = (chaptersEl: DataView): Chapter[] => {
+  const editions = readChildren(chaptersEl).filter(el => el.id === EBML_ID.EditionEntry).map(el => elementData(chaptersEl, el));
+  const edition = editions.find(e => childUint(e, EBML_ID.EditionFlagDefault) === 1 && childUint(e, EBML_ID.EditionFlagHidden) !== 1)
+    || editions.find(e => childUint(e, EBML_ID.EditionFlagHidden) !== 1);
+  if (!edition) return [];
+
+  const chapters: Chapter[] = [];
+  for (const atomEl of readChildren(edition).filter(el => el.id === EBML_ID.ChapterAtom)) {
+    const atom = elementData(edition, atomEl);
+    if (childUint(atom, EBML_ID.ChapterFlagHidden) === 1 || childUint(atom, EBML_ID.ChapterFlagEnabled, 1) !== 1) continue;
+    const displayEl = findChild(atom, EBML_ID.ChapterDisplay);
+    const title = displayEl ? childString(elementData(atom, displayEl), EBML_ID.ChapString) : undefined;
+    const endEl = findChild(atom, EBML_ID.ChapterTimeEnd);
+    chapters.push({
+      start: childUint(atom, EBML_ID.ChapterTimeStart) / 1e9,
+      end: endEl ? readUint(atom, endEl) / 1e9 : undefined,
+      title: title?.trim() || `Chapter ${chapters.length + 1}`,
+    });
+  }
+  return chapters.sort((a, b) => a.start - b.start);
+};
+
+export const probeMatroska = async (file: Blob): Promise<ProbeResult | null> => {
+  const segment = await readMatroskaSegment(file);
+  if (!segment) return null;
+
+  let duration: number | undefined;
+  const info = segment.elements.get(EBML_ID.Info);
+  const durationEl = info && findChild(info, EBML_ID.Duration);
+  if (info && durationEl) duration = readFloat(info, durationEl) * timecodeScale(segment);
+
+  const tracksEl = segment.elements.get(EBML_ID.Tracks);
+  // Parser-only fields stay internal; callers get plain MediaTracks
+  const tracks: MediaTrack[] = tracksEl
+    ? parseMatroskaTracks(tracksEl).map(({ codecId, codecPrivate, defaultDuration, strippedHeader, unsupportedEncoding, zlibCompressed, ...track }) => track)
+    : [];
+
+  const chaptersEl = segment.elements.get(EBML_ID.Chapters);
+  const chapters = chaptersEl ? parseMatroskaChapters(chaptersEl) : [];
+
+  return { container: segment.docType === 'webm' ? 'webm' : 'mkv', duration, tracks, chapters };
+};
@@ -0,0 +1,157 @@
+import { readFileSync } from 'node:fs';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { probeMedia, readAudioTags } from '.';
+
+// Fixtures are generated by __fixtures__/build.mjs
+const fixture = (name: string) => readFileSync(new URL(`./__fixtures__/${name}`, import.meta.url));
+const blob = (bytes: Uint8Array) => new Blob([bytes]);
+
+const FIXTURES = ['h264-aac.mp4', 'h264-opus-subs.mkv', 'tone.flac', 'sweep.mp3', 'tone.aac', 'tone.opus', 'tone.ogg'];
+
+describe('probeMedia', () => {
+  it('reads tracks, duration and Nero chapters from MP4', async () => {
+    const result = await probeMedia(blob(fixture('h264-aac.mp4')));
+    expect(result).toEqual({
+      container: 'mp4',
+      duration: 10,
+      tracks: [
+        { id: 1, kind: 'video', codec: 'h264', codecString: 'avc1.64001F', isDefault: true, width: 1280, height: 720, frameRate: 25 },
+        { id: 2, kind: 'audio', codec: 'aac', codecString: 'mp4a.40.2', isDefault: true, language: 'eng', name: 'Stereo', channels: 2, sampleRate: 48000 },
+      ],
+      chapters: [{ start: 0, title: 'Intro' }, { start: 5, title: 'Main' }],
+    });
+  });
+
+  it('reads Matroska tracks and finds chapters written after the clusters through the SeekHead', async () => {
+    const result = await probeMedia(blob(fixture('h264-opus-subs.mkv')));
+    expect(result?.container).toBe('mkv');
+    expect(result?.duration).toBe(5);
+    expect(result?.tracks).toEqual([
+      { id: 1, kind: 'video', codec: 'h264', codecString: 'avc1.64001F', language: 'eng', isDefault: true, width: 1920, height: 1080, frameRate: 23.976 },
+      { id: 2, kind: 'audio', codec: 'opus', codecString: 'opus', language: 'jpn', isDefault: false, sampleRate: 48000, channels: 6 },
+      { id: 3, kind: 'subtitle', codec: 'srt', name: 'Signs', isDefault: true },
+    ]);
+    // The hidden atom is skipped and the rest come back in time order
+    expect(result?.chapters).toEqual([{ start: 0, title: 'Opening' }, { start: 60, end: 120, title: 'Part B' }]);
+  });
+
+  it('reads FLAC STREAMINFO', async () => {
+    expect(await probeMedia(blob(fixture('tone.flac')))).toEqual({
+      container: 'flac',
+      duration: 10,
+      tracks: [{ id: 1, kind: 'audio', codec: 'flac', codecString: 'flac', channels: 2, sampleRate: 44100, isDefault: true }],
+    });
+  });
+
+  it('finds the first MPEG audio frame after an ID3v2 tag', async () => {
+    expect(await probeMedia(blob(fixture('sweep.mp3')))).toEqual({
+      container: 'mp3',
+      tracks: [{ id: 1, kind: 'audio', codec: 'mp3', codecString: 'mp3', channels: 2, sampleRate: 44100, isDefault: true }],
+    });
+  });
+
+  it('only takes a run of frames for MPEG audio, not a stray sync word', async () => {
+    const frame = fixture('sweep.mp3').subarray(-417);
+    const stray = new Uint8Array(16384);
+    stray.set(frame.subarray(0, 4), 1000);
+    expect(await probeMedia(blob(stray))).toBeNull();
+    // Two frames are too few inside other data, but make up a whole file on their own
+    const two = Buffer.concat([frame, frame]);
+    expect(await probeMedia(blob(Buffer.concat([two, new Uint8Array(4096)])))).toBeNull();
+    expect((await probeMedia(blob(two)))?.container).toBe('mp3');
+  });
+
+  it('reads ADTS headers', async () => {
+    expect(await probeMedia(blob(fixture('tone.aac')))).toEqual({
+      container: 'aac',
+      tracks: [{ id: 1, kind: 'audio', codec: 'aac', codecString: 'mp4a.40.2', channels: 2, sampleRate: 44100, isDefault: true }],
+    });
+  });
+
+  it('identifies the codec of an Ogg stream from its first page', async () => {
+    const opus = await probeMedia(blob(fixture('tone.opus')));
+    const vorbis = await probeMedia(blob(fixture('tone.ogg')));
+    expect(opus?.tracks).toEqual([{ id: 1, kind: 'audio', codec: 'opus', codecString: 'opus', channels: 2, sampleRate: 48000, isDefault: true }]);
+    expect(vorbis?.tracks).toEqual([{ id: 1, kind: 'audio', codec: 'vorbis', codecString: 'vorbis', channels: 1, sampleRate: 22050, isDefault: true }]);
+  });
+});
+
+describe('readAudioTags', () => {
+  it('reads ID3v2 and Vorbis comments', async () => {
+    expect((await readAudioTags(blob(fixture('sweep.mp3')))).tags).toEqual({ title: 'Sweep', artist: 'Probe' });
+    expect((await readAudioTags(blob(fixture('tone.flac')))).tags).toEqual({ title: 'Tone', artist: 'Probe', track: 3, trackTotal: 12 });
+    expect((await readAudioTags(blob(fixture('tone.opus')))).tags).toEqual({ title: 'Chirp' });
+    expect((await readAudioTags(blob(fixture('tone.ogg')))).tags).toEqual({ title: 'Hum' });
+  });
+});
+
+describe('truncated and corrupt input', () => {
+  // Parsers bail out by throwing on out-of-range reads; probeMedia logs those and returns null
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  const expectWellFormed = (result: Awaited<ReturnType<typeof probeMedia>>) => {
+    if (!result) return;
+    expect(typeof result.container).toBe('string');
+    expect(Array.isArray(result.tracks)).toBe(true);
+    if (result.duration !== undefined) expect(Number.isFinite(result.duration)).toBe(true);
+  };
+
+  it.each(FIXTURES)('never throws on a truncated %s', async (name) => {
+    const bytes = fixture(name);
+    const step = Math.max(1, Math.floor(bytes.length / 300));
+    for (let length = 0; length < bytes.length; length += step) {
+      expectWellFormed(await probeMedia(blob(bytes.subarray(0, length))));
+    }
+  });
+
+  it.each(FIXTURES)('never throws on a corrupted %s', async (name) => {
+    // Deterministic byte flips, so a failure can be reproduced
+    let seed = 0x2545f491;
+    const random = () => {
+      seed ^= seed << 13;
+      seed ^= seed >>> 17;
+      seed ^= seed << 5;
+      return (seed >>> 0) / 2 ** 32;
+    };
+    const original = fixture(name);
+    for (let round = 0; round < 100; round++) {
+      const bytes = Uint8Array.from(original);
+      for (let flips = 0; flips < 8; flips++) bytes[Math.floor(random() * bytes.length)] = Math.floor(random() * 256);
+      expectWellFormed(await probeMedia(blob(bytes)));
+    }
+  });
+
+  it('gives up on headers cut short', async () => {
+    expect(await probeMedia(blob(fixture('h264-aac.mp4').subarray(0, 8)))).toBeNull();
+    expect(await probeMedia(blob(fixture('h264-opus-subs.mkv').subarray(0, 20)))).toBeNull();
+    expect(await probeMedia(blob(fixture('tone.flac').subarray(0, 20)))).toBeNull();
+    expect(await probeMedia(blob(fixture('tone.opus').subarray(0, 30)))).toBeNull();
+  });
+
+  it('returns no tracks when an MP4 is cut before any trak', async () => {
+    const bytes = fixture('h264-aac.mp4');
+    // ftyp plus a moov holding only mvhd, its size patched to match
+    const moovStart = bytes.readUInt32BE(0);
+    const moovLength = 8 + bytes.readUInt32BE(moovStart + 8);
+    const cut = Buffer.from(bytes.subarray(0, moovStart + moovLength));
+    cut.writeUInt32BE(moovLength, moovStart);
+    expect(await probeMedia(blob(cut))).toEqual({ container: 'mp4', duration: 10, tracks: [], chapters: [] });
+  });
+
+  it('rejects data that is not media', async () => {
+    let seed = 0x9e3779b9;
+    const noise = Uint8Array.from({ length: 65536 }, () => {
+      seed = (Math.imul(seed, 1664525) + 1013904223) >>> 0;
+      return seed >>> 24;
+    });
+    expect(await probeMedia(blob(noise))).toBeNull();
+    expect(await probeMedia(blob(new Uint8Array(0)))).toBeNull();
+    expect(await probeMedia(blob(new Uint8Array(4096)))).toBeNull();
+    expect(await probeMedia(blob(new TextEncoder().encode('#EXTM3U\n#EXTINF:10,Song\nsong.mp3\n')))).toBeNull();
+  });
+});
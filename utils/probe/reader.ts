@@ -0,0 +1,33 @@
+// Random-access byte reading over a File/Blob. Parsers only ever pull the ranges they need,
+// so probing a multi-GB file touches a few hundred KB at most.
+
+export const readRange = async (file: Blob, offset: number, length: number): Promise<DataView> => {
+  const end = Math.min(file.size, offset + length);
+  const buffer = await file.slice(offset, Math.max(offset, end)).arrayBuffer();
+  return new DataView(buffer);
+};
+
+export const fourcc = (view: DataView, offset: number) =>
+  String.fromCharCode(view.getUint8(offset), view.getUint8(offset + 1), view.getUint8(offset + 2), view.getUint8(offset + 3));
+
+export const readAscii = (view: DataView, offset: number, length: number) => {
+  let s = '';
+  for (let i = 0; i < length && offset + i < view.byteLength; i++) {
+    const c = view.getUint8(offset + i);
+    if (c === 0) break;
+    s += String.fromCharCode(c);
+  }
+  return s;
+};
+
+export const readUtf8 = (view: DataView, offset: number, length: number) =>
+  new TextDecoder('utf-8').decode(new Uint8Array(view.buffer, view.byteOffset + offset, Math.max(0, Math.min(length, view.byteLength - offset)))).replace(/\0+$/, '');
+
+// 64-bit reads are fine as doubles: nothing we parse comes close to 2^53
+export const getUint64 = (view: DataView, offset: number) =>
+  view.getUint32(offset) * 2 ** 32 + view.getUint32(offset + 4);
+
+export const hex = (n: number, width = 2) => n.toString(16).toUpperCase().padStart(width, '0');
+
+export const subView = (view: DataView, offset: number, length: number) =>
+  new DataView(view.buffer, view.byteOffset + offset, Math.max(0, Math.min(length, view.byteLength - offset)));
@@ -0,0 +1,351 @@
+import { AudioTags } from '../../types';
+import { readRange, readAscii, fourcc, subView } from './reader';
+
+// Song tags of plain audio files: ID3v2 (MP3, ADTS AAC), FLAC metadata blocks and Vorbis comments
+// (FLAC, Ogg Vorbis/Opus/FLAC), plus an ID3v1 fallback. Embedded cover art comes back as a Blob.
+
+export interface TagResult {
+  tags: AudioTags;
+  cover?: Blob;
+}
+
+// Cover art is the biggest thing in a tag; anything past this is not worth reading
+const MAX_TAG_SIZE = 16 * 1024 * 1024;
+
+const bytes = (view: DataView, offset = 0, length = view.byteLength - offset) =>
+  new Uint8Array(view.buffer, view.byteOffset + offset, Math.max(0, Math.min(length, view.byteLength - offset)));
+
+const decode = (data: Uint8Array, encoding: string) => {
+  try {
+    return new TextDecoder(encoding).decode(data);
+  } catch {
+    return '';
+  }
+};
+
+const parseNumber = (value?: string) => {
+  const n = parseInt(value || '', 10);
+  return Number.isInteger(n) && n > 0 ? n : undefined;
+};
+
+// "3/12" style positions
+const parsePosition = (value?: string) => {
+  const [number, total] = (value || '').split('/');
+  return { number: parseNumber(number), total: parseNumber(total) };
+};
+
+// Drops fields that were present but empty
+const clean = (tags: AudioTags): AudioTags =>
+  Object.fromEntries(Object.entries(tags).filter(([, value]) => value !== undefined && value !== '')) as AudioTags;
+
+// --- ID3v2 ----------------------------------------------------------------
+
+const syncsafe = (view: DataView, offset: number) =>
+  (view.getUint8(offset) << 21) | (view.getUint8(offset + 1) << 14) | (view.getUint8(offset + 2) << 7) | view.getUint8(offset + 3);
+
+// Undoes unsynchronisation: every 0xFF 0x00 was written for a plain 0xFF
+const resync = (data: Uint8Array) => {
+  const out = new Uint8Array(data.length);
+  let length = 0;
+  for (let i = 0; i < data.length; i++) {
+    out[length++] = data[i];
+    if (data[i] === 0xff && data[i + 1] === 0x00) i++;
+  }
+  return out.subarray(0, length);
+};
+
+const ID3_ENCODINGS = ['latin1', 'utf-16', 'utf-16be', 'utf-8'];
+
+// Offset just past the terminator of a string in the given ID3 encoding
+const skipString = (data: Uint8Array, offset: number, encoding: number) => {
+  const wide = encoding === 1 || encoding === 2;
+  for (let i = offset; i < data.length; i += wide ? 2 : 1) {
+    if (data[i] === 0 && (!wide || data[i + 1] === 0)) return i + (wide ? 2 : 1);
+  }
+  return data.length;
+};
+
+// Text frames may hold several values separated by nulls (ID3v2.4)
+const readText = (data: Uint8Array) => {
+  const text = decode(data.subarray(1), ID3_ENCODINGS[data[0]] || 'latin1');
+  return text.split('\0').map(s => s.trim()).filter(Boolean).join(', ');
+};
+
+// Genres may still be ID3v1 references like "(17)" or "(17)Rock"; only the text part is kept
+const readGenre = (value: string) => value.replace(/^\(\d+\)/, '').trim() || undefined;
+
+const readPicture = (data: Uint8Array, v22: boolean): { type: number, blob: Blob } | null => {
+  const encoding = data[0];
+  let offset = 1;
+  let mime: string;
+  if (v22) {
+    const format = decode(data.subarray(1, 4), 'latin1').toLowerCase();
+    mime = format === 'png' ? 'image/png' : 'image/jpeg';
+    offset = 4;
+  } else {
+    const end = skipString(data, 1, 0);
+    mime = decode(data.subarray(1, end - 1), 'latin1') || 'image/jpeg';
+    offset = end;
+  }
+  const type = data[offset];
+  offset = skipString(data, offset + 1, encoding);
+  if (offset >= data.length) return null;
+  // "-->" means a link to the picture instead of its data
+  if (mime === '-->') return null;
+  return { type, blob: new Blob([data.slice(offset)], { type: mime.includes('/') ? mime : `image/${mime}` }) };
+};
+
+type TextField = 'title' | 'artist' | 'album' | 'albumArtist' | 'genre';
+
+const ID3_FRAMES: Record<string, TextField | 'track' | 'disc' | 'year' | 'picture'> = {
+  TIT2: 'title', TT2: 'title',
+  TPE1: 'artist', TP1: 'artist',
+  TALB: 'album', TAL: 'album',
+  TPE2: 'albumArtist', TP2: 'albumArtist',
+  TRCK: 'track', TRK: 'track',
+  TPOS: 'disc', TPA: 'disc',
+  TYER: 'year', TYE: 'year', TDRC: 'year', TDOR: 'year',
+  TCON: 'genre', TCO: 'genre',
+  APIC: 'picture', PIC: 'picture',
+};
+
+// The front cover (type 3) wins over any other picture
+const FRONT_COVER = 3;
+
+const parseId3v2 = (view: DataView): TagResult | null => {
+  const major = view.getUint8(3);
+  const flags = view.getUint8(5);
+  if (major < 2 || major > 4) return null;
+  let data = bytes(view, 10, syncsafe(view, 6));
+  // v2.2/v2.3 unsynchronise the whole tag, v2.4 individual frames
+  if (flags & 0x80 && major < 4) data = resync(data);
+  const frames = new DataView(data.buffer, data.byteOffset, data.byteLength);
+
+  let offset = 0;
+  if (flags & 0x40 && major > 2) offset = major === 4 ? syncsafe(frames, 0) : frames.getUint32(0) + 4;
+
+  const tags: AudioTags = {};
+  let cover: { type: number, blob: Blob } | null = null;
+  const idLength = major === 2 ? 3 : 4;
+  const headerLength = major === 2 ? 6 : 10;
+  while (offset + headerLength <= data.length) {
+    const id = readAscii(frames, offset, idLength);
+    if (!/^[A-Z0-9]+$/.test(id) || id.length !== idLength) break; // Padding
+    const size = major === 2
+      ? (frames.getUint8(offset + 3) << 16) | (frames.getUint8(offset + 4) << 8) | frames.getUint8(offset + 5)
+      : major === 4 ? syncsafe(frames, offset + 4) : frames.getUint32(offset + 4);
+    const frameFlags = major === 2 ? 0 : frames.getUint16(offset + 8);
+    let frame = data.subarray(offset + headerLength, offset + headerLength + size);
+    offset += headerLength + size;
+
+    const field = ID3_FRAMES[id];
+    if (!field || frame.length === 0) continue;
+    if (major === 4) {
+      if (frameFlags & 0x000c) continue; // Compressed or encrypted
+      if (frameFlags & 0x0001) frame = frame.subarray(4); // Data length indicator
+      if (frameFlags & 0x0002) frame = resync(frame);
+    } else if (major === 3) {
+      if (frameFlags & 0x00c0) continue;
+      if (frameFlags & 0x0020) frame = frame.subarray(1); // Group id
+    }
+
+    if (field === 'picture') {
+      const picture = readPicture(frame, major === 2);
+      if (picture && (!cover || (picture.type === FRONT_COVER && cover.type !== FRONT_COVER))) cover = picture;
+      continue;
+    }
+    const text = readText(frame);
+    if (!text) continue;
+    if (field === 'track') {
+      const { number, total } = parsePosition(text);
+      tags.track = number;
+      tags.trackTotal = total;
+    } else if (field === 'disc') {
+      tags.disc = parsePosition(text).number;
+    } else if (field === 'year') {
+      tags.year ??= parseNumber(text.slice(0, 4));
+    } else if (field === 'genre') {
+      tags.genre = readGenre(text);
+    } else {
+      tags[field] = text;
+    }
+  }
+  return { tags: clean(tags), cover: cover?.blob };
+};
+
+const parseId3v1 = (view: DataView): AudioTags | null => {
+  if (view.byteLength < 128 || readAscii(view, 0, 3) !== 'TAG') return null;
+  const text = (offset: number, length: number) => decode(bytes(view, offset, length), 'latin1').replace(/\0.*$/, '').trim();
+  // ID3v1.1 keeps the track number in the last byte of the comment
+  const track = view.getUint8(125) === 0 ? view.getUint8(126) : 0;
+  return clean({ title: text(3, 30), artist: text(33, 30), album: text(63, 30), year: parseNumber(text(93, 4)), track: track || undefined });
+};
+
+// --- Vorbis comments and FLAC ---------------------------------------------
+
+const VORBIS_FIELDS: Record<string, TextField> = {
+  TITLE: 'title', ARTIST: 'artist', ALBUM: 'album', ALBUMARTIST: 'albumArtist', 'ALBUM ARTIST': 'albumArtist',
+  GENRE: 'genre',
+};
+
+// FLAC PICTURE block layout, also base64-encoded inside METADATA_BLOCK_PICTURE comments
+const parseFlacPicture = (view: DataView): { type: number, blob: Blob } | null => {
+  if (view.byteLength < 32) return null;
+  const type = view.getUint32(0);
+  const mimeLength = view.getUint32(4);
+  const mime = readAscii(view, 8, mimeLength);
+  const descriptionLength = view.getUint32(8 + mimeLength);
+  const lengthAt = 8 + mimeLength + 4 + descriptionLength + 16;
+  if (lengthAt + 4 > view.byteLength) return null;
+  const length = view.getUint32(lengthAt);
+  return { type, blob: new Blob([bytes(view, lengthAt + 4, length).slice()], { type: mime || 'image/jpeg' }) };
+};
+
+const base64Bytes = (value: string) => {
+  try {
+    return Uint8Array.from(atob(value.replace(/\s/g, '')), c => c.charCodeAt(0));
+  } catch {
+    return null;
+  }
+};
+
+// Little-endian vendor string, then "KEY=value" entries; keys are case-insensitive
+const parseVorbisComment = (view: DataView): TagResult => {
+  const tags: AudioTags = {};
+  let cover: { type: number, blob: Blob } | null = null;
+  let offset = 4 + view.getUint32(0, true);
+  const count = offset + 4 <= view.byteLength ? view.getUint32(offset, true) : 0;
+  offset += 4;
+  for (let i = 0; i < count && offset + 4 <= view.byteLength; i++) {
+    const length = view.getUint32(offset, true);
+    const entry = decode(bytes(view, offset + 4, length), 'utf-8');
+    offset += 4 + length;
+    const separator = entry.indexOf('=');
+    if (separator <= 0) continue;
+    const key = entry.slice(0, separator).toUpperCase();
+    const value = entry.slice(separator + 1).trim();
+    if (!value) continue;
+    if (VORBIS_FIELDS[key]) {
+      const field = VORBIS_FIELDS[key];
+      // Repeated fields (several artists) are joined
+      tags[field] = tags[field] ? `${tags[field]}, ${value}` : value;
+    } else if (key === 'TRACKNUMBER') {
+      const { number, total } = parsePosition(value);
+      tags.track = number;
+      tags.trackTotal ??= total;
+    } else if (key === 'TRACKTOTAL' || key === 'TOTALTRACKS') {
+      tags.trackTotal = parseNumber(value);
+    } else if (key === 'DISCNUMBER') {
+      tags.disc = parsePosition(value).number;
+    } else if (key === 'DATE' || key === 'YEAR') {
+      tags.year ??= parseNumber(value.slice(0, 4));
+    } else if (key === 'METADATA_BLOCK_PICTURE') {
+      const data = base64Bytes(value);
+      const picture = data && parseFlacPicture(new DataView(data.buffer));
+      if (picture && (!cover || (picture.type === FRONT_COVER && cover.type !== FRONT_COVER))) cover = picture;
+    }
+  }
+  return { tags: clean(tags), cover: cover?.blob };
+};
+
+const FLAC_VORBIS_COMMENT = 4;
+const FLAC_PICTURE = 6;
+
+const parseFlac = async (file: Blob): Promise<TagResult> => {
+  let result: TagResult = { tags: {} };
+  let cover: { type: number, blob: Blob } | null = null;
+  let offset = 4;
+  while (offset < Math.min(file.size, MAX_TAG_SIZE)) {
+    const header = await readRange(file, offset, 4);
+    if (header.byteLength < 4) break;
+    const type = header.getUint8(0) & 0x7f;
+    const length = (header.getUint8(1) << 16) | (header.getUint8(2) << 8) | header.getUint8(3);
+    if (type === FLAC_VORBIS_COMMENT) {
+      result = parseVorbisComment(await readRange(file, offset + 4, length));
+    } else if (type === FLAC_PICTURE) {
+      const picture = parseFlacPicture(await readRange(file, offset + 4, length));
+      if (picture && (!cover || (picture.type === FRONT_COVER && cover.type !== FRONT_COVER))) cover = picture;
+    }
+    offset += 4 + length;
+    if (header.getUint8(0) & 0x80) break; // Last metadata block
+  }
+  return { tags: result.tags, cover: cover?.blob || result.cover };
+};
+
+// Reassembles the second packet of the first logical stream, which holds the comments
+const readOggCommentPacket = async (file: Blob): Promise<Uint8Array | null> => {
+  const chunks: Uint8Array[] = [];
+  let packet = 0;
+  let size = 0;
+  let offset = 0;
+  while (offset < Math.min(file.size, MAX_TAG_SIZE)) {
+    const header = await readRange(file, offset, 27 + 255);
+    if (header.byteLength < 27 || fourcc(header, 0) !== 'OggS') return null;
+    const segments = header.getUint8(26);
+    const lacing = bytes(header, 27, segments);
+    const bodyLength = lacing.reduce((sum, n) => sum + n, 0);
+    const body = bytes(await readRange(file, offset + 27 + segments, bodyLength));
+    let position = 0;
+    for (const lace of lacing) {
+      if (packet === 1) {
+        chunks.push(body.subarray(position, position + lace));
+        size += lace;
+      }
+      position += lace;
+      if (lace < 255) {
+        if (packet === 1) {
+          const data = new Uint8Array(size);
+          let at = 0;
+          for (const chunk of chunks) {
+            data.set(chunk, at);
+            at += chunk.length;
+          }
+          return data;
+        }
+        packet++;
+      }
+    }
+    offset += 27 + segments + bodyLength;
+  }
+  return null;
+};
+
+const parseOgg = async (file: Blob): Promise<TagResult | null> => {
+  const packet = await readOggCommentPacket(file);
+  if (!packet) return null;
+  const view = new DataView(packet.buffer, packet.byteOffset, packet.byteLength);
+  if (packet[0] === 0x03 && readAscii(view, 1, 6) === 'vorbis') return parseVorbisComment(subView(view, 7, view.byteLength));
+  if (readAscii(view, 0, 8) === 'OpusTags') return parseVorbisComment(subView(view, 8, view.byteLength));
+  // Ogg FLAC: header packets after the first are FLAC metadata blocks
+  if ((packet[0] & 0x7f) === FLAC_VORBIS_COMMENT) return parseVorbisComment(subView(view, 4, view.byteLength));
+  return null;
+};
+
+// --- Entry point ----------------------------------------------------------
+
+// Never throws; files without tags give empty tags
+export const readAudioTags = async (file: Blob): Promise<TagResult> => {
+  try {
+    const head = await readRange(file, 0, 10);
+    if (head.byteLength < 10) return { tags: {} };
+    let id3: TagResult | null = null;
+    let start = 0;
+    if (readAscii(head, 0, 3) === 'ID3') {
+      start = 10 + syncsafe(head, 6);
+      id3 = parseId3v2(await readRange(file, 0, Math.min(MAX_TAG_SIZE, start)));
+    }
+    const magic = fourcc(await readRange(file, start, 4), 0);
+    // FLAC files sometimes carry a leading ID3 tag too; the native blocks win where both have a field
+    if (magic === 'fLaC') {
+      const flac = await parseFlac(file.slice(start));
+      return { tags: { ...id3?.tags, ...flac.tags }, cover: flac.cover || id3?.cover };
+    }
+    if (magic === 'OggS') return (await parseOgg(file)) || { tags: {} };
+    if (id3 && Object.keys(id3.tags).length > 0) return id3;
+    const tail = await readRange(file, Math.max(0, file.size - 128), 128);
+    return { tags: parseId3v1(tail) || {}, cover: id3?.cover };
+  } catch (err) {
+    console.error('Reading audio tags failed:', err);
+    return { tags: {} };
+  }
+};
@@ -0,0 +1,10 @@
+import { MediaTrack, Chapter } from '../../types';
+
+// What a container parser found. Offsets/sizes of anything interesting are kept out of here;
+// parsers that need sample data (subtitles, remux) re-read the file themselves.
+export interface ProbeResult {
+  container: string;
+  duration?: number; // Seconds
+  tracks: MediaTrack[];
+  chapters?: Chapter[];
+}
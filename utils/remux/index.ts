@@ -0,0 +1,231 @@
+import { MediaTrack, VideoItem, VideoMetadata } from '../../types';
+import { useVideoStore } from '../../store';
+import { readMatroskaSegment, parseMatroskaTracks, timecodeScale, EBML_ID, MatroskaTrack } from '../probe/matroska';
+import { describeTrack } from '../playability';
+import { StoredRemux, loadRemux, saveRemux, saveRemuxPart, deleteRemux, resolveSourceFile, isQuotaError } from '../vaultDb';
+import { readMatroskaClusters, MatroskaFrame } from './matroskaDemux';
+import { initSegment, fragment, sidx, concatBytes, Mp4Track, Mp4TrackRun, SegmentReference } from './mp4Writer';
+import { sampleEntryFor } from './sampleEntries';
+
+// Rewraps the streams of a Matroska file as fragmented MP4 without touching the compressed data,
+// for browsers that can decode the codecs but not the container. Fragments are handed out in parts
+// as they are written, so the output never has to fit in memory; only the header waits for the end.
+
+const REMUX_CODECS: Record<'video' | 'audio', string[]> = {
+  video: ['h264', 'hevc', 'av1', 'vp9', 'vp8'],
+  audio: ['aac', 'opus', 'flac', 'mp3'],
+};
+
+const VIDEO_TIMESCALE = 90000;
+const MIN_FRAGMENT_SECONDS = 1;
+const PART_SIZE = 16 * 1024 * 1024; // Bytes of fragments held before they are written out
+
+// Samples per frame for audio codecs whose frames have a fixed length
+const AUDIO_FRAME_SAMPLES: Record<string, number> = { aac: 1024, mp3: 1152, opus: 960 };
+
+interface RemuxOptions {
+  signal?: AbortSignal;
+  onProgress?: (fraction: number) => void;
+}
+
+const pickTrack = <T extends MediaTrack>(tracks: T[], kind: 'video' | 'audio', unsupported: string[]) => {
+  const candidates = tracks.filter(t => t.kind === kind && REMUX_CODECS[kind].includes(t.codec) && !unsupported.includes(describeTrack(t)));
+  return candidates.find(t => t.isDefault) || candidates[0];
+};
+
+// Matroska/WebM files with a video track the browser can decode once it is out of the container
+export const canRemux = (metadata?: VideoMetadata) =>
+  !!metadata?.tracks && (metadata.container === 'mkv' || metadata.container === 'webm') &&
+  !!pickTrack(metadata.tracks, 'video', metadata.unsupported || []);
+
+interface PendingSample {
+  data: Uint8Array;
+  pts: number;
+  keyframe: boolean;
+}
+
+interface OutputTrack {
+  source: MatroskaTrack;
+  mp4: Mp4Track;
+  frameDuration: number; // Ticks; used for laced frames and the last sample of a fragment
+  pending: PendingSample[];
+  lastDts: number;
+  endTime: number;
+}
+
+const createOutputTrack = (source: MatroskaTrack, id: number, firstFrame: Uint8Array): OutputTrack => {
+  const kind = source.kind as 'video' | 'audio';
+  const timescale = kind === 'video' ? VIDEO_TIMESCALE : source.codec === 'opus' ? 48000 : source.sampleRate || 48000;
+  const frameDuration = source.defaultDuration
+    ? Math.round((source.defaultDuration / 1e9) * timescale)
+    : kind === 'audio' ? AUDIO_FRAME_SAMPLES[source.codec] || 0 : 0;
+  return {
+    source,
+    mp4: {
+      id,
+      kind,
+      timescale,
+      duration: 0,
+      language: source.language,
+      width: source.width,
+      height: source.height,
+      sampleEntry: sampleEntryFor(source, firstFrame),
+    },
+    frameDuration,
+    pending: [],
+    lastDts: -1,
+    endTime: 0,
+  };
+};
+
+// Turns the pending samples into a track run. Matroska stores presentation times in decode order,
+// so decode times are the sorted presentation times; v1 trun boxes take the signed difference.
+const drainTrack = (track: OutputTrack): Mp4TrackRun | null => {
+  const { pending } = track;
+  if (pending.length === 0) return null;
+  const sortedPts = track.mp4.kind === 'video' ? pending.map(s => s.pts).sort((a, b) => a - b) : pending.map(s => s.pts);
+
+  const dts: number[] = [];
+  let previous = track.lastDts;
+  for (const pts of sortedPts) {
+    previous = Math.max(pts, previous + 1);
+    dts.push(previous);
+  }
+
+  const samples = pending.map((sample, i) => {
+    const duration = i + 1 < dts.length ? dts[i + 1] - dts[i] : track.frameDuration || (i > 0 ? dts[i] - dts[i - 1] : 1);
+    return { data: sample.data, duration, compositionOffset: sample.pts - dts[i], keyframe: sample.keyframe };
+  });
+
+  const last = samples[samples.length - 1];
+  track.lastDts = dts[dts.length - 1];
+  track.endTime = track.lastDts + last.duration;
+  track.pending = [];
+  return { trackId: track.mp4.id, baseDecodeTime: dts[0], samples };
+};
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('Remux cancelled', 'AbortError');
+};
+
+// `writePart` receives the fragments in order; the next part isn't built until the last one is written.
+// The returned head (init segment and index) goes in front of the parts.
+export const remuxMatroska = async (
+  file: Blob,
+  unsupported: string[],
+  writePart: (part: Blob, index: number) => Promise<void>,
+  { signal, onProgress }: RemuxOptions = {}
+): Promise<StoredRemux> => {
+  const segment = await readMatroskaSegment(file);
+  const tracksEl = segment?.elements.get(EBML_ID.Tracks);
+  if (!segment || !tracksEl) throw new Error('Not a readable Matroska file');
+
+  const sourceTracks = parseMatroskaTracks(tracksEl);
+  const selected = [pickTrack(sourceTracks, 'video', unsupported), pickTrack(sourceTracks, 'audio', unsupported)]
+    .filter((t): t is MatroskaTrack => !!t);
+  if (!selected.some(t => t.kind === 'video')) throw new Error('No video track that can be rewrapped as MP4');
+  if (selected.some(t => t.unsupportedEncoding)) throw new Error('Compressed or encrypted Matroska tracks are not supported');
+
+  const secondsPerTick = timecodeScale(segment);
+  const outputs = new Map<number, OutputTrack>();
+  const references: (SegmentReference & { start: number })[] = [];
+  let earliestPresentation = 0;
+  let batch: Uint8Array[] = [];
+  let batchSize = 0;
+  let parts = 0;
+
+  const writeBatch = async () => {
+    if (batch.length === 0) return;
+    const part = new Blob(batch);
+    batch = [];
+    batchSize = 0;
+    await writePart(part, parts++);
+  };
+
+  const video = () => Array.from(outputs.values()).find(t => t.mp4.kind === 'video');
+
+  const flush = () => {
+    const videoOutput = video();
+    if (!videoOutput?.pending.length) return; // Audio ahead of the first video frame waits for the next fragment
+    if (references.length === 0) earliestPresentation = Math.min(...videoOutput.pending.map(s => s.pts));
+    const runs = Array.from(outputs.values()).map(drainTrack).filter((r): r is Mp4TrackRun => !!r);
+    const videoRun = runs.find(r => r.trackId === videoOutput.mp4.id)!;
+    const bytes = fragment(references.length + 1, runs);
+    batch.push(bytes);
+    batchSize += bytes.byteLength;
+    references.push({ size: bytes.byteLength, duration: 0, start: videoRun.baseDecodeTime });
+  };
+
+  const addFrame = (frame: MatroskaFrame) => {
+    const source = selected.find(t => t.id === frame.track);
+    if (!source) return;
+    const data = source.strippedHeader ? concatBytes([source.strippedHeader, frame.data]) : frame.data;
+    let output = outputs.get(frame.track);
+    if (!output) {
+      output = createOutputTrack(source, outputs.size + 1, data);
+      outputs.set(frame.track, output);
+    }
+
+    const ticksPerSecond = output.mp4.timescale;
+    const pts = Math.max(0, Math.round(frame.timecode * secondsPerTick * ticksPerSecond) + frame.lacedIndex * output.frameDuration);
+
+    // New fragments start on video keyframes so every fragment is independently decodable
+    if (output.mp4.kind === 'video' && frame.keyframe && output.pending.length > 0 &&
+        pts - output.pending[0].pts >= MIN_FRAGMENT_SECONDS * ticksPerSecond) {
+      flush();
+    }
+    output.pending.push({ data, pts, keyframe: output.mp4.kind === 'audio' || frame.keyframe });
+  };
+
+  for await (const cluster of readMatroskaClusters(file, segment)) {
+    throwIfAborted(signal);
+    cluster.frames.forEach(addFrame);
+    if (batchSize >= PART_SIZE) await writeBatch();
+    onProgress?.(cluster.end / file.size);
+  }
+  flush();
+  await writeBatch();
+
+  const videoTrack = video();
+  if (!videoTrack || references.length === 0) throw new Error('No video frames found');
+
+  // Subsegment durations are the gaps between fragment start times; the last one runs to the end
+  references.forEach((ref, i) => {
+    ref.duration = (i + 1 < references.length ? references[i + 1].start : videoTrack.endTime) - ref.start;
+  });
+  const tracks = Array.from(outputs.values());
+  tracks.forEach(t => { t.mp4.duration = t.endTime; });
+
+  const init = initSegment(tracks.map(t => t.mp4));
+  const index = sidx(videoTrack.mp4.id, videoTrack.mp4.timescale, earliestPresentation, references);
+  return { head: new Blob([init, index], { type: 'video/mp4' }), parts };
+};
+
+// Cached copy first; otherwise remux the original file into the vault part by part and play it from there
+export const getRemuxedSource = async (video: VideoItem, options: RemuxOptions = {}): Promise<Blob> => {
+  const cached = await loadRemux(video.id).catch(() => undefined);
+  if (cached) return cached;
+
+  const file = await resolveSourceFile(video.id);
+  if (!file) throw new Error('The original file can no longer be read');
+  // Parts left behind by a conversion that didn't finish
+  await deleteRemux(video.id).catch(() => undefined);
+
+  try {
+    const remux = await remuxMatroska(file, video.metadata?.unsupported || [], async (part, index) => {
+      await saveRemuxPart(video.id, index, part);
+    }, options);
+    await saveRemux(video.id, remux);
+  } catch (err) {
+    deleteRemux(video.id).catch(console.error);
+    if (isQuotaError(err)) {
+      useVideoStore.getState().setStorageError(`Not enough browser storage to keep the MP4 copy of "${video.title}".`);
+      throw new Error('Not enough browser storage for the MP4 copy');
+    }
+    throw err;
+  }
+
+  const blob = await loadRemux(video.id);
+  if (!blob) throw new Error('The MP4 copy could not be read back');
+  return blob;
+};
@@ -0,0 +1,199 @@
+import { readRange } from '../probe/reader';
+import { EBML_ID, EbmlElement, MatroskaSegment, readElementHeader, readChildren, elementData, readUint } from '../probe/matroska';
+
+// Cluster-by-cluster reader for Matroska block data. Clusters are read in one piece up to
+// MAX_CLUSTER_SIZE; larger ones and streamed (unknown-size) ones are read block by block through a
+// window and handed out in batches, so memory use is bounded by that size rather than the file.
+
+export interface MatroskaFrame {
+  track: number;
+  timecode: number; // Block timecode units (see timecodeScale), presentation order
+  keyframe: boolean;
+  data: Uint8Array;
+  lacedIndex: number; // Position inside a laced block; frames after the first have no timecode of their own
+  duration?: number; // BlockDuration, in timecode units; set on subtitle blocks
+}
+
+export interface MatroskaCluster {
+  frames: MatroskaFrame[];
+  end: number; // File offset the cluster ends at, for progress
+}
+
+const MAX_CLUSTER_SIZE = 64 * 1024 * 1024;
+const READ_WINDOW = 4 * 1024 * 1024;
+
+// Segment children; in a cluster of unknown size, the first of these marks where it ends
+const SEGMENT_CHILDREN = new Set([
+  EBML_ID.Cluster, EBML_ID.Cues, EBML_ID.Tags, EBML_ID.Chapters, EBML_ID.Attachments, EBML_ID.SeekHead, EBML_ID.Info, EBML_ID.Tracks,
+]);
+
+const readVint = (bytes: Uint8Array, offset: number) => {
+  const first = bytes[offset];
+  let length = 1;
+  while (length <= 8 && !(first & (0x80 >> (length - 1)))) length++;
+  let value = first & (0xff >> length);
+  for (let i = 1; i < length; i++) value = value * 256 + bytes[offset + i];
+  return { value, length };
+};
+
+// Splits a laced block payload (Xiph, fixed-size or EBML lacing) into its frames
+const unlace = (data: Uint8Array, offset: number, lacing: number): Uint8Array[] => {
+  if (lacing === 0) return [data.subarray(offset)];
+  const count = data[offset] + 1;
+  let pos = offset + 1;
+  const sizes: number[] = [];
+
+  if (lacing === 1) {
+    for (let i = 0; i < count - 1; i++) {
+      let size = 0;
+      let b: number;
+      do {
+        b = data[pos++];
+        size += b;
+      } while (b === 0xff);
+      sizes.push(size);
+    }
+  } else if (lacing === 3) {
+    const first = readVint(data, pos);
+    pos += first.length;
+    let size = first.value;
+    sizes.push(size);
+    for (let i = 1; i < count - 1; i++) {
+      const delta = readVint(data, pos);
+      pos += delta.length;
+      size += delta.value - (2 ** (7 * delta.length - 1) - 1); // Signed, stored with a bias
+      sizes.push(size);
+    }
+  } else {
+    const size = (data.length - pos) / count;
+    for (let i = 0; i < count - 1; i++) sizes.push(size);
+  }
+
+  const frames: Uint8Array[] = [];
+  for (const size of sizes) {
+    frames.push(data.subarray(pos, pos + size));
+    pos += size;
+  }
+  frames.push(data.subarray(pos));
+  return frames;
+};
+
+const parseBlock = (block: Uint8Array, clusterTimecode: number, keyframe: (flags: number) => boolean, duration?: number): MatroskaFrame[] => {
+  const track = readVint(block, 0);
+  const header = track.length;
+  const relative = ((block[header] << 8) | block[header + 1]) << 16 >> 16;
+  const flags = block[header + 2];
+  return unlace(block, header + 3, (flags >> 1) & 3).map((data, lacedIndex) => ({
+    track: track.value,
+    timecode: clusterTimecode + relative,
+    keyframe: keyframe(flags),
+    data,
+    lacedIndex,
+    duration,
+  }));
+};
+
+// Frames of one SimpleBlock or BlockGroup; `el` is relative to `view`
+const parseClusterChild = (view: DataView, el: EbmlElement, timecode: number): MatroskaFrame[] => {
+  const bytes = new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+  if (el.id === EBML_ID.SimpleBlock) {
+    return parseBlock(bytes.subarray(el.dataStart, el.dataStart + el.size), timecode, flags => !!(flags & 0x80));
+  }
+  if (el.id !== EBML_ID.BlockGroup) return [];
+  const group = elementData(view, el);
+  const children = readChildren(group);
+  const blockEl = children.find(c => c.id === EBML_ID.Block);
+  if (!blockEl) return [];
+  // Blocks referencing nothing else are keyframes
+  const isKey = !children.some(c => c.id === EBML_ID.ReferenceBlock);
+  const durationEl = children.find(c => c.id === EBML_ID.BlockDuration);
+  const offset = el.dataStart + blockEl.dataStart;
+  return parseBlock(bytes.subarray(offset, offset + blockEl.size), timecode, () => isKey, durationEl && readUint(group, durationEl));
+};
+
+const parseCluster = (cluster: DataView): MatroskaFrame[] => {
+  const frames: MatroskaFrame[] = [];
+  let timecode = 0;
+  for (const el of readChildren(cluster)) {
+    if (el.id === EBML_ID.Timecode) timecode = readUint(cluster, el);
+    else frames.push(...parseClusterChild(cluster, el, timecode));
+  }
+  return frames;
+};
+
+// Reads the children of a cluster from `start` until `end`, or until the next segment child when the
+// cluster's size is unknown. Returns the offset the cluster ended at.
+async function* readClusterInPieces(file: Blob, start: number, end: number): AsyncGenerator<MatroskaCluster, number> {
+  let view = new DataView(new ArrayBuffer(0));
+  let viewStart = start;
+  let offset = start;
+  let timecode = 0;
+  let frames: MatroskaFrame[] = [];
+  let batchSize = 0;
+
+  // Makes sure `length` bytes from `offset` are in the window, moving it forward if they aren't
+  const ensure = async (length: number) => {
+    if (offset - viewStart + length <= view.byteLength) return;
+    viewStart = offset;
+    view = await readRange(file, offset, Math.max(length, READ_WINDOW));
+  };
+
+  while (offset < end) {
+    await ensure(12);
+    let el = readElementHeader(view, offset - viewStart);
+    if (!el || SEGMENT_CHILDREN.has(el.id)) break;
+    if (el.size < 0) throw new Error('Matroska block of unknown size');
+    if (el.size > MAX_CLUSTER_SIZE) throw new Error('Matroska block is too large to remux');
+    const headerLength = el.dataStart - (offset - viewStart);
+    await ensure(headerLength + el.size);
+    el = { ...el, dataStart: offset - viewStart + headerLength };
+    if (el.dataStart + el.size > view.byteLength) break; // Cut short
+
+    if (el.id === EBML_ID.Timecode) {
+      timecode = readUint(view, el);
+    } else {
+      frames.push(...parseClusterChild(view, el, timecode));
+      batchSize += el.size;
+    }
+    offset = viewStart + el.dataStart + el.size;
+    if (batchSize >= MAX_CLUSTER_SIZE) {
+      yield { frames, end: offset };
+      frames = [];
+      batchSize = 0;
+    }
+  }
+  if (frames.length > 0) yield { frames, end: offset };
+  return offset;
+}
+
+export async function* readMatroskaClusters(file: Blob, segment: MatroskaSegment): AsyncGenerator<MatroskaCluster> {
+  if (segment.firstClusterOffset === undefined) throw new Error('No media data found in this file');
+  let offset = segment.firstClusterOffset;
+
+  while (offset < segment.segmentEnd) {
+    const header = await readRange(file, offset, 12);
+    const el = readElementHeader(header, 0);
+    if (!el) break;
+    const dataStart = offset + el.dataStart;
+
+    if (el.id !== EBML_ID.Cluster) {
+      // Cues, Tags and friends can sit between or after clusters
+      if (el.size < 0) break;
+      offset = dataStart + el.size;
+      continue;
+    }
+    if (el.size < 0) {
+      offset = yield* readClusterInPieces(file, dataStart, segment.segmentEnd);
+      continue;
+    }
+    if (el.size > MAX_CLUSTER_SIZE) {
+      yield* readClusterInPieces(file, dataStart, dataStart + el.size);
+      offset = dataStart + el.size;
+      continue;
+    }
+
+    const cluster = await readRange(file, dataStart, el.size);
+    offset = dataStart + el.size;
+    yield { frames: parseCluster(cluster), end: offset };
+  }
+}
@@ -0,0 +1,190 @@
+// Minimal ISO BMFF writer for fragmented MP4: one init segment (ftyp + moov with mvex),
+// a sidx so the result seeks like a regular file, then moof/mdat pairs.
+
+export const concatBytes = (parts: Uint8Array[]) => {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.byteLength, 0));
+  let offset = 0;
+  for (const part of parts) {
+    out.set(part, offset);
+    offset += part.byteLength;
+  }
+  return out;
+};
+
+const u8 = (n: number) => Uint8Array.of(n & 0xff);
+const u16 = (n: number) => Uint8Array.of((n >> 8) & 0xff, n & 0xff);
+const u24 = (n: number) => Uint8Array.of((n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff);
+const u32 = (n: number) => {
+  const b = new Uint8Array(4);
+  new DataView(b.buffer).setUint32(0, n >>> 0);
+  return b;
+};
+const i32 = (n: number) => {
+  const b = new Uint8Array(4);
+  new DataView(b.buffer).setInt32(0, n);
+  return b;
+};
+const u64 = (n: number) => {
+  const b = new Uint8Array(8);
+  const view = new DataView(b.buffer);
+  view.setUint32(0, Math.floor(n / 2 ** 32));
+  view.setUint32(4, n % 2 ** 32);
+  return b;
+};
+const ascii = (s: string) => Uint8Array.from(s, c => c.charCodeAt(0));
+const zeros = (n: number) => new Uint8Array(n);
+
+export const box = (type: string, ...payload: Uint8Array[]) => {
+  const body = concatBytes(payload);
+  return concatBytes([u32(8 + body.byteLength), ascii(type), body]);
+};
+
+export const fullBox = (type: string, version: number, flags: number, ...payload: Uint8Array[]) =>
+  box(type, u8(version), u24(flags), ...payload);
+
+const UNITY_MATRIX = concatBytes([u32(0x00010000), u32(0), u32(0), u32(0), u32(0x00010000), u32(0), u32(0), u32(0), u32(0x40000000)]);
+
+// --- Sample entries -------------------------------------------------------
+
+export const visualSampleEntry = (format: string, width: number, height: number, ...config: Uint8Array[]) =>
+  box(format,
+    zeros(6), u16(1), // reserved, data_reference_index
+    zeros(16),
+    u16(width), u16(height),
+    u32(0x00480000), u32(0x00480000), // 72 dpi
+    u32(0), u16(1), // reserved, frame_count
+    zeros(32), // compressorname
+    u16(0x0018), u16(0xffff),
+    ...config);
+
+export const audioSampleEntry = (format: string, channels: number, sampleRate: number, ...config: Uint8Array[]) =>
+  box(format,
+    zeros(6), u16(1),
+    zeros(8),
+    u16(channels), u16(16), u16(0), u16(0),
+    u32(sampleRate > 0xffff ? 0 : sampleRate * 0x10000), // 16.16; rates that don't fit are carried by the config box
+    ...config);
+
+// MPEG-4 descriptors use a variable-length size; the padded four-byte form is always valid
+const descriptor = (tag: number, ...payload: Uint8Array[]) => {
+  const body = concatBytes(payload);
+  const n = body.byteLength;
+  return concatBytes([Uint8Array.of(tag, 0x80 | ((n >> 21) & 0x7f), 0x80 | ((n >> 14) & 0x7f), 0x80 | ((n >> 7) & 0x7f), n & 0x7f), body]);
+};
+
+export const esds = (objectType: number, decoderSpecificInfo?: Uint8Array) =>
+  fullBox('esds', 0, 0, descriptor(0x03,
+    u16(0), u8(0), // ES_ID, flags
+    descriptor(0x04,
+      u8(objectType), u8(0x15), u24(0), u32(0), u32(0), // audio stream, no buffer/bitrate hints
+      ...(decoderSpecificInfo ? [descriptor(0x05, decoderSpecificInfo)] : [])),
+    descriptor(0x06, u8(0x02))));
+
+// --- Init segment ---------------------------------------------------------
+
+export interface Mp4Track {
+  id: number;
+  kind: 'video' | 'audio';
+  timescale: number;
+  duration: number; // In the track's timescale
+  language?: string; // ISO 639-2
+  width?: number;
+  height?: number;
+  sampleEntry: Uint8Array;
+}
+
+const MOVIE_TIMESCALE = 1000;
+
+const packLanguage = (language = 'und') => {
+  const code = /^[a-z]{3}$/.test(language) ? language : 'und';
+  return ((code.charCodeAt(0) - 0x60) << 10) | ((code.charCodeAt(1) - 0x60) << 5) | (code.charCodeAt(2) - 0x60);
+};
+
+const trak = (track: Mp4Track) => {
+  const movieDuration = Math.round((track.duration / track.timescale) * MOVIE_TIMESCALE);
+  const isVideo = track.kind === 'video';
+  return box('trak',
+    fullBox('tkhd', 0, 0x3, // enabled, in movie
+      u32(0), u32(0), u32(track.id), u32(0), u32(movieDuration),
+      zeros(8), u16(0), u16(0), u16(isVideo ? 0 : 0x0100), u16(0),
+      UNITY_MATRIX,
+      u32((track.width || 0) * 0x10000), u32((track.height || 0) * 0x10000)),
+    box('mdia',
+      fullBox('mdhd', 0, 0, u32(0), u32(0), u32(track.timescale), u32(track.duration), u16(packLanguage(track.language)), u16(0)),
+      fullBox('hdlr', 0, 0, u32(0), ascii(isVideo ? 'vide' : 'soun'), zeros(12), ascii(isVideo ? 'VideoHandler' : 'SoundHandler'), u8(0)),
+      box('minf',
+        isVideo ? fullBox('vmhd', 0, 1, zeros(8)) : fullBox('smhd', 0, 0, zeros(4)),
+        box('dinf', fullBox('dref', 0, 0, u32(1), fullBox('url ', 0, 1))),
+        box('stbl',
+          fullBox('stsd', 0, 0, u32(1), track.sampleEntry),
+          fullBox('stts', 0, 0, u32(0)),
+          fullBox('stsc', 0, 0, u32(0)),
+          fullBox('stsz', 0, 0, u32(0), u32(0)),
+          fullBox('stco', 0, 0, u32(0))))));
+};
+
+export const initSegment = (tracks: Mp4Track[]) => {
+  const duration = Math.max(0, ...tracks.map(t => Math.round((t.duration / t.timescale) * MOVIE_TIMESCALE)));
+  return concatBytes([
+    box('ftyp', ascii('isom'), u32(0x200), ...['isom', 'iso6', 'mp41'].map(ascii)),
+    box('moov',
+      fullBox('mvhd', 0, 0,
+        u32(0), u32(0), u32(MOVIE_TIMESCALE), u32(duration),
+        u32(0x00010000), u16(0x0100), zeros(10), UNITY_MATRIX, zeros(24),
+        u32(Math.max(...tracks.map(t => t.id)) + 1)),
+      ...tracks.map(trak),
+      box('mvex',
+        fullBox('mehd', 0, 0, u32(duration)),
+        ...tracks.map(t => fullBox('trex', 0, 0, u32(t.id), u32(1), u32(0), u32(0), u32(0))))),
+  ]);
+};
+
+// --- Fragments ------------------------------------------------------------
+
+export interface Mp4Sample {
+  data: Uint8Array;
+  duration: number;
+  compositionOffset: number; // pts - dts, may be negative
+  keyframe: boolean;
+}
+
+export interface Mp4TrackRun {
+  trackId: number;
+  baseDecodeTime: number;
+  samples: Mp4Sample[];
+}
+
+const SYNC_SAMPLE = 0x02000000; // sample_depends_on = 2
+const NON_SYNC_SAMPLE = 0x01010000; // sample_depends_on = 1, sample_is_non_sync_sample
+
+const traf = (run: Mp4TrackRun, dataOffset: number) =>
+  box('traf',
+    fullBox('tfhd', 0, 0x020000, u32(run.trackId)), // default-base-is-moof
+    fullBox('tfdt', 1, 0, u64(run.baseDecodeTime)),
+    // data-offset, sample duration, size, flags and composition offset present; v1 allows negative offsets
+    fullBox('trun', 1, 0x000f01, u32(run.samples.length), i32(dataOffset),
+      ...run.samples.map(s => concatBytes([u32(s.duration), u32(s.data.byteLength), u32(s.keyframe ? SYNC_SAMPLE : NON_SYNC_SAMPLE), i32(s.compositionOffset)]))));
+
+export const fragment = (sequence: number, runs: Mp4TrackRun[]) => {
+  // The moof's size doesn't depend on the offsets, so build it once to measure and once for real
+  const build = (offsets: number[]) => box('moof', fullBox('mfhd', 0, 0, u32(sequence)), ...runs.map((run, i) => traf(run, offsets[i])));
+  const moofSize = build(runs.map(() => 0)).byteLength;
+  const offsets: number[] = [];
+  let offset = moofSize + 8;
+  for (const run of runs) {
+    offsets.push(offset);
+    offset += run.samples.reduce((n, s) => n + s.data.byteLength, 0);
+  }
+  const mdatSize = offset - moofSize;
+  return concatBytes([build(offsets), u32(mdatSize), ascii('mdat'), ...runs.flatMap(run => run.samples.map(s => s.data))]);
+};
+
+export interface SegmentReference {
+  size: number;
+  duration: number; // In the reference track's timescale
+}
+
+export const sidx = (trackId: number, timescale: number, earliestPresentationTime: number, references: SegmentReference[]) =>
+  fullBox('sidx', 1, 0,
+    u32(trackId), u32(timescale), u64(earliestPresentationTime), u64(0), u16(0), u16(references.length),
+    ...references.map(r => concatBytes([u32(r.size & 0x7fffffff), u32(r.duration), u32(0x90000000)]))); // starts_with_SAP, SAP type 1
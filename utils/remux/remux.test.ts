@@ -0,0 +1,185 @@
+import { describe, expect, it } from 'vitest';
+import { readMatroskaSegment } from '../probe/matroska';
+import { readBoxes, boxPayload, findPath, Box } from '../probe/isobmff';
+import { readMatroskaClusters, MatroskaFrame } from './matroskaDemux';
+import { concatBytes } from './mp4Writer';
+import { remuxMatroska } from '.';
+
+// --- A tiny Matroska writer ---------------------------------------------------
+
+type Bytes = Uint8Array | number[];
+const join = (...parts: Bytes[]) => concatBytes(parts.map(p => (p instanceof Uint8Array ? p : Uint8Array.from(p))));
+const idBytes = (id: number) => {
+  const out: number[] = [];
+  for (let n = id; n > 0; n = Math.floor(n / 256)) out.unshift(n & 0xff);
+  return out;
+};
+// Four-byte sizes hold anything up to 256 MB, which covers every element written here
+const sizeBytes = (n: number) => [0x10 | (n >>> 24), (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff];
+const UNKNOWN_SIZE = [0x01, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff, 0xff];
+
+const el = (id: number, ...payload: Bytes[]) => {
+  const body = join(...payload);
+  return join(idBytes(id), sizeBytes(body.byteLength), body);
+};
+const unknownSizeEl = (id: number, ...payload: Bytes[]) => join(idBytes(id), UNKNOWN_SIZE, ...payload);
+const uint = (id: number, n: number) => el(id, n > 0xffff ? [n >>> 24, (n >>> 16) & 0xff, (n >>> 8) & 0xff, n & 0xff] : [n >> 8, n & 0xff]);
+const str = (id: number, s: string) => el(id, new TextEncoder().encode(s));
+const float = (id: number, n: number) => {
+  const b = new Uint8Array(8);
+  new DataView(b.buffer).setFloat64(0, n);
+  return el(id, b);
+};
+
+// Track number, signed timecode relative to the cluster, flags, then the frame data
+const blockBody = (track: number, relative: number, flags: number, ...data: Bytes[]) =>
+  join([0x80 | track, (relative >> 8) & 0xff, relative & 0xff, flags], ...data);
+const simpleBlock = (track: number, relative: number, keyframe: boolean, data: Bytes) =>
+  el(0xa3, blockBody(track, relative, keyframe ? 0x80 : 0, data));
+// Xiph lacing: the frame count minus one, then every size but the last
+const lacedBlock = (track: number, relative: number, frames: number[][]) =>
+  el(0xa3, blockBody(track, relative, 0x80 | (1 << 1), [frames.length - 1, ...frames.slice(0, -1).map(f => f.length)], ...frames));
+
+const EBML_HEADER = el(0x1a45dfa3, uint(0x4286, 1), str(0x4282, 'matroska'), uint(0x4287, 4), uint(0x4285, 2));
+const AVC_CONFIG = [1, 0x64, 0x00, 0x1f, 0xff, 0xe0, 0x00];
+
+const tracks = el(0x1654ae6b,
+  el(0xae, uint(0xd7, 1), uint(0x83, 1), str(0x86, 'V_MPEG4/ISO/AVC'), el(0x63a2, AVC_CONFIG), uint(0x23e383, 40_000_000),
+    el(0xe0, uint(0xb0, 320), uint(0xba, 240))),
+  el(0xae, uint(0xd7, 2), uint(0x83, 2), str(0x86, 'A_AAC'), el(0x63a2, [0x12, 0x10]), str(0x22b59c, 'eng'),
+    el(0xe1, float(0xb5, 44100), uint(0x9f, 2))));
+
+// Millisecond timecodes (the default TimecodeScale)
+const mkv = (...clusters: Uint8Array[]) =>
+  new Blob([EBML_HEADER, el(0x18538067, el(0x1549a966, uint(0x2ad7b1, 1_000_000)), tracks, ...clusters)]);
+
+const cluster = (timecode: number, ...children: Uint8Array[]) => el(0x1f43b675, uint(0xe7, timecode), ...children);
+
+const readClusters = async (file: Blob) => {
+  const segment = await readMatroskaSegment(file);
+  const clusters: { frames: MatroskaFrame[], end: number }[] = [];
+  for await (const c of readMatroskaClusters(file, segment!)) clusters.push(c);
+  return clusters.map(c => ({ end: c.end, frames: c.frames.map(f => ({ ...f, data: Array.from(f.data) })) }));
+};
+
+describe('readMatroskaClusters', () => {
+  it('splits clusters into frames, unlacing blocks and reading block groups', async () => {
+    const file = mkv(cluster(0,
+      simpleBlock(1, 0, true, [1, 1]),
+      lacedBlock(2, 0, [[2], [3, 3]]),
+      // Refers back to the keyframe and carries its own duration
+      el(0xa0, el(0xa1, blockBody(1, 40, 0, [4])), el(0xfb, [0xd8]), uint(0x9b, 40))));
+
+    const [only, ...rest] = await readClusters(file);
+    expect(rest).toEqual([]);
+    expect(only.end).toBe(file.size);
+    expect(only.frames).toEqual([
+      { track: 1, timecode: 0, keyframe: true, data: [1, 1], lacedIndex: 0, duration: undefined },
+      { track: 2, timecode: 0, keyframe: true, data: [2], lacedIndex: 0, duration: undefined },
+      { track: 2, timecode: 0, keyframe: true, data: [3, 3], lacedIndex: 1, duration: undefined },
+      { track: 1, timecode: 40, keyframe: false, data: [4], lacedIndex: 0, duration: 40 },
+    ]);
+  });
+
+  it('reads a cluster of unknown size up to the next segment child', async () => {
+    const streamed = unknownSizeEl(0x1f43b675, uint(0xe7, 1000), simpleBlock(1, 0, true, [5]), simpleBlock(1, 40, false, [6]));
+    const cues = el(0x1c53bb6b, el(0xbb, uint(0xb3, 0)));
+    const last = cluster(2000, simpleBlock(1, 0, true, [7]));
+    const file = mkv(cluster(0, simpleBlock(1, 0, true, [1])), streamed, cues, last);
+
+    const clusters = await readClusters(file);
+    expect(clusters.map(c => c.frames.map(f => [f.timecode, ...f.data]))).toEqual([[[0, 1]], [[1000, 5], [1040, 6]], [[2000, 7]]]);
+    // The streamed cluster ends where the Cues start
+    expect(clusters[1].end).toBe(file.size - cues.byteLength - last.byteLength);
+  });
+
+  it('stops at a block cut short', async () => {
+    const full = mkv(cluster(0, simpleBlock(1, 0, true, [1])), unknownSizeEl(0x1f43b675, uint(0xe7, 40), simpleBlock(1, 0, true, [2, 2, 2, 2])));
+    const clusters = await readClusters(full.slice(0, full.size - 2));
+    expect(clusters.flatMap(c => c.frames.map(f => f.data))).toEqual([[1]]);
+  });
+});
+
+// --- Remuxing ---------------------------------------------------------------
+
+const view = (bytes: Uint8Array) => new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+const types = (boxes: Box[]) => boxes.map(b => b.type);
+
+const remux = async (file: Blob) => {
+  const parts: { index: number, bytes: Uint8Array }[] = [];
+  const result = await remuxMatroska(file, [], async (part, index) => {
+    parts.push({ index, bytes: new Uint8Array(await part.arrayBuffer()) });
+  });
+  return { head: new Uint8Array(await result.head.arrayBuffer()), count: result.parts, parts };
+};
+
+// sidx v1: reference count at byte 30 of the payload, then 12 bytes per reference
+const sidxReferences = (sidx: DataView) =>
+  Array.from({ length: sidx.getUint16(30) }, (_, i) => ({
+    size: sidx.getUint32(32 + i * 12) & 0x7fffffff,
+    duration: sidx.getUint32(36 + i * 12),
+  }));
+
+describe('remuxMatroska', () => {
+  it('writes an init segment and index, then one moof/mdat pair per keyframe second', async () => {
+    // Video keyframes every second with two frames after each; AAC frames alongside
+    const file = mkv(...[0, 1000, 2000].map(t => cluster(t,
+      simpleBlock(1, 0, true, [0, 0, 0, 1, 0x65]),
+      simpleBlock(2, 0, true, [0x21, 1]),
+      simpleBlock(1, 40, false, [0, 0, 0, 1, 0x41]),
+      simpleBlock(2, 23, true, [0x21, 2]),
+      simpleBlock(1, 80, false, [0, 0, 0, 1, 0x41]))));
+
+    const { head, count, parts } = await remux(file);
+    expect(count).toBe(1);
+    expect(parts.map(p => p.index)).toEqual([0]);
+
+    const headBoxes = readBoxes(view(head));
+    expect(types(headBoxes)).toEqual(['ftyp', 'moov', 'sidx']);
+    const moov = boxPayload(view(head), headBoxes[1]);
+    expect(types(readBoxes(moov))).toEqual(['mvhd', 'trak', 'trak', 'mvex']);
+    // The video track runs to the end of its last frame: 2080 ms plus one 40 ms frame, at 90 kHz
+    const mdhd = findPath(readBoxes(moov).filter(b => b.type === 'trak').map(b => boxPayload(moov, b))[0], ['mdia', 'mdhd'])!;
+    expect(mdhd.getUint32(12)).toBe(90000);
+    expect(mdhd.getUint32(16)).toBe(190800);
+
+    const media = view(parts[0].bytes);
+    const mediaBoxes = readBoxes(media);
+    expect(types(mediaBoxes)).toEqual(['moof', 'mdat', 'moof', 'mdat', 'moof', 'mdat']);
+    expect(mediaBoxes.reduce((n, b) => n + b.size, 0)).toBe(media.byteLength);
+
+    // Each index entry covers one moof/mdat pair, timed by the gaps between keyframes
+    const references = sidxReferences(boxPayload(view(head), headBoxes[2]));
+    expect(references).toEqual([0, 2, 4].map((i, n) => ({
+      size: mediaBoxes[i].size + mediaBoxes[i + 1].size,
+      duration: n < 2 ? 90000 : 10800,
+    })));
+
+    // Both tracks have a run in the first fragment: three video frames and two audio frames
+    const moof = boxPayload(media, mediaBoxes[0]);
+    const runs = readBoxes(moof).filter(b => b.type === 'traf').map(b => findPath(boxPayload(moof, b), ['trun'])!.getUint32(4));
+    expect(runs).toEqual([3, 2]);
+  });
+
+  it('hands the fragments out in parts as they pass the part size', async () => {
+    // Four 9 MB keyframes: the part size is reached after every second fragment
+    const frame = new Uint8Array(9 * 1024 * 1024);
+    const file = mkv(...[0, 1000, 2000, 3000].map(t => cluster(t, simpleBlock(1, 0, true, frame))));
+
+    const { head, count, parts } = await remux(file);
+    expect(count).toBe(2);
+    expect(parts.map(p => p.index)).toEqual([0, 1]);
+    parts.forEach(p => expect(types(readBoxes(view(p.bytes)))).toEqual(['moof', 'mdat', 'moof', 'mdat']));
+
+    const headBoxes = readBoxes(view(head));
+    const indexed = sidxReferences(boxPayload(view(head), headBoxes[2])).reduce((n, r) => n + r.size, 0);
+    expect(indexed).toBe(parts.reduce((n, p) => n + p.bytes.byteLength, 0));
+  });
+
+  it('refuses a file without a video track it can carry', async () => {
+    const audioOnly = new Blob([EBML_HEADER, el(0x18538067, el(0x1654ae6b,
+      el(0xae, uint(0xd7, 2), uint(0x83, 2), str(0x86, 'A_AAC'), el(0x63a2, [0x12, 0x10]))),
+      cluster(0, simpleBlock(2, 0, true, [0x21, 1])))]);
+    await expect(remux(audioOnly)).rejects.toThrow('No video track');
+  });
+});
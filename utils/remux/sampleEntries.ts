@@ -0,0 +1,74 @@
+import { MatroskaTrack } from '../probe/matroska';
+import { box, fullBox, esds, visualSampleEntry, audioSampleEntry } from './mp4Writer';
+
+// Matroska CodecPrivate → MP4 sample description. For most codecs the private data already is
+// the MP4 configuration record; Opus, FLAC, VP8/9 and legacy AAC tracks need a little translation.
+
+const bytesOf = (view: DataView) => new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+
+const AAC_SAMPLE_RATES = [96000, 88200, 64000, 48000, 44100, 32000, 24000, 22050, 16000, 12000, 11025, 8000, 7350];
+
+// Old A_AAC/MPEG4/* codec IDs carry no AudioSpecificConfig, so build a plain one from the track header
+const aacConfig = (track: MatroskaTrack) => {
+  if (track.codecPrivate && track.codecPrivate.byteLength >= 2) return bytesOf(track.codecPrivate);
+  const objectType = /MAIN/.test(track.codecId) ? 1 : 2;
+  const rateIndex = Math.max(0, AAC_SAMPLE_RATES.indexOf(track.sampleRate || 48000));
+  const channels = track.channels || 2;
+  return Uint8Array.of((objectType << 3) | (rateIndex >> 1), ((rateIndex & 1) << 7) | (channels << 3));
+};
+
+// OpusHead (little-endian, Ogg mapping) → dOps (big-endian, ISO BMFF mapping)
+const opusConfig = (track: MatroskaTrack) => {
+  const head = track.codecPrivate;
+  if (!head || head.byteLength < 19) throw new Error('Opus track has no OpusHead');
+  const channels = head.getUint8(9);
+  const family = head.getUint8(18);
+  const dOps = new Uint8Array(11 + (family ? 2 + channels : 0));
+  const view = new DataView(dOps.buffer);
+  view.setUint8(1, channels);
+  view.setUint16(2, head.getUint16(10, true));
+  view.setUint32(4, head.getUint32(12, true));
+  view.setInt16(8, head.getInt16(16, true));
+  view.setUint8(10, family);
+  if (family) dOps.set(bytesOf(head).subarray(19, 21 + channels), 11);
+  return box('dOps', dOps);
+};
+
+// CodecPrivate is the "fLaC" marker followed by the metadata blocks dfLa wants
+const flacConfig = (track: MatroskaTrack) => {
+  if (!track.codecPrivate || track.codecPrivate.byteLength < 42) throw new Error('FLAC track has no STREAMINFO');
+  return fullBox('dfLa', 0, 0, bytesOf(track.codecPrivate).subarray(4));
+};
+
+// VP8/VP9 tracks in Matroska have no configuration record; the profile comes from the first frame header
+const vpConfig = (track: MatroskaTrack, firstFrame: Uint8Array) => {
+  const profile = track.codec === 'vp9' ? ((firstFrame[0] >> 5) & 1) | (((firstFrame[0] >> 4) & 1) << 1) : 0;
+  const bitDepth = profile >= 2 ? 10 : 8;
+  // level 3.1, 4:2:0, BT.709 primaries/transfer/matrix, limited range, no initialization data
+  return fullBox('vpcC', 1, 0, Uint8Array.of(profile, 31, (bitDepth << 4) | (1 << 1), 1, 1, 1, 0, 0));
+};
+
+const requirePrivate = (track: MatroskaTrack) => {
+  if (!track.codecPrivate) throw new Error(`${track.codec.toUpperCase()} track has no codec configuration`);
+  return bytesOf(track.codecPrivate);
+};
+
+export const sampleEntryFor = (track: MatroskaTrack, firstFrame: Uint8Array): Uint8Array => {
+  const width = track.width || 0;
+  const height = track.height || 0;
+  const channels = track.channels || 2;
+  const sampleRate = track.sampleRate || 48000;
+
+  switch (track.codec) {
+    case 'h264': return visualSampleEntry('avc1', width, height, box('avcC', requirePrivate(track)));
+    case 'hevc': return visualSampleEntry('hvc1', width, height, box('hvcC', requirePrivate(track)));
+    case 'av1': return visualSampleEntry('av01', width, height, box('av1C', requirePrivate(track)));
+    case 'vp9': return visualSampleEntry('vp09', width, height, vpConfig(track, firstFrame));
+    case 'vp8': return visualSampleEntry('vp08', width, height, vpConfig(track, firstFrame));
+    case 'aac': return audioSampleEntry('mp4a', channels, sampleRate, esds(0x40, aacConfig(track)));
+    case 'mp3': return audioSampleEntry('mp4a', channels, sampleRate, esds(0x6b));
+    case 'opus': return audioSampleEntry('Opus', channels, 48000, opusConfig(track));
+    case 'flac': return audioSampleEntry('fLaC', channels, sampleRate, flacConfig(track));
+    default: throw new Error(`${track.codec.toUpperCase()} can't be carried in MP4`);
+  }
+};
@@ -0,0 +1,54 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { VideoItem } from '../types';
+import { parseSearchQuery } from './searchQuery';
+import { searchVideos, syncIndex } from './searchIndex';
+
+const video = (id: string, title: string, extra: Partial<VideoItem> = {}): VideoItem => ({
+  id, title, source: '', type: 'local', addedAt: 1700000000000, favorite: false, ...extra,
+} as VideoItem);
+
+const library = [
+  video('matrix', 'The Matrix Reloaded', { tags: ['Sci-Fi'] }),
+  video('badlands', 'Badlands'),
+  video('boys', 'Bad Boys', { path: 'Action/Bad Boys (1995).mkv' }),
+  video('amelie', 'Amélie', { notes: 'Paris, Montmartre' }),
+];
+
+const search = (input: string, base = library) => searchVideos(base, parseSearchQuery(input)).map(v => v.id);
+
+describe('searchVideos', () => {
+  beforeEach(() => syncIndex(library));
+
+  it('matches word prefixes across every indexed field, ignoring accents', () => {
+    expect(search('reload')).toEqual(['matrix']);
+    expect(search('ba')).toEqual(['badlands', 'boys']);
+    expect(search('amelie montmar')).toEqual(['amelie']);
+    expect(search('sci')).toEqual(['matrix']);
+    expect(search('action 1995')).toEqual(['boys']);
+  });
+
+  it('allows typos in longer words only', () => {
+    expect(search('matrx')).toEqual(['matrix']);
+    expect(search('relaoded')).toEqual(['matrix']);
+    expect(search('bda')).toEqual([]);
+  });
+
+  it('excludes whole words, and phrases as text', () => {
+    expect(search('ba -bad')).toEqual(['badlands']);
+    expect(search('ba -"bad boys"')).toEqual(['badlands']);
+    expect(search('"bad boys"')).toEqual(['boys']);
+    expect(search('"boys bad"')).toEqual([]);
+  });
+
+  it('keeps the order of the list it filters', () => {
+    expect(search('ba', [...library].reverse())).toEqual(['boys', 'badlands']);
+  });
+
+  it('follows changes to the library', () => {
+    syncIndex([...library.slice(1), { ...library[0], title: 'Inception' }]);
+    expect(search('matrix')).toEqual([]);
+    expect(search('incep')).toEqual(['matrix']);
+    syncIndex(library.slice(1));
+    expect(search('sci')).toEqual([]);
+  });
+});
@@ -0,0 +1,213 @@
+import { VideoItem, SubtitleTrack } from '../types';
+import { useVideoStore } from '../store';
+import { loadSubtitle } from './vaultDb';
+import { parseSubtitles } from './subtitles';
+import { SearchQuery, normalizeText, tokenize, matchesFilters } from './searchQuery';
+
+// Inverted index over the text fields users search by (title, path, tags, series, notes, song tags).
+// It follows the store: entries are re-tokenized only when their searchable text changes, so
+// progress updates during playback cost a string comparison rather than a rebuild.
+
+interface IndexedDoc {
+  text: string; // Normalized, for phrase and exclusion checks
+  tokens: Set<string>;
+}
+
+const docs = new Map<string, IndexedDoc>();
+const postings = new Map<string, Set<string>>(); // Token -> video ids
+const expansions = new Map<string, string[]>(); // Query word -> index tokens it matches; reset on change
+
+const searchableText = (v: VideoItem) =>
+  [v.title, v.path, v.series, v.notes, ...(v.tags || []), v.audioTags?.artist, v.audioTags?.albumArtist, v.audioTags?.album]
+    .filter(Boolean).join('\n');
+
+const unindex = (id: string) => {
+  const doc = docs.get(id);
+  if (!doc) return;
+  for (const token of doc.tokens) {
+    const ids = postings.get(token);
+    ids?.delete(id);
+    if (ids?.size === 0) postings.delete(token);
+  }
+  docs.delete(id);
+};
+
+const index = (id: string, raw: string) => {
+  const tokens = new Set(tokenize(raw));
+  docs.set(id, { text: normalizeText(raw), tokens });
+  for (const token of tokens) {
+    let ids = postings.get(token);
+    if (!ids) postings.set(token, ids = new Set());
+    ids.add(id);
+  }
+};
+
+const rawTexts = new Map<string, string>();
+const seen = new Map<string, VideoItem>(); // Store updates replace only the records they touch
+
+// Brings the index in line with a snapshot of the library
+export const syncIndex = (videos: VideoItem[]) => {
+  let changed = false;
+  const live = new Set<string>();
+  for (const v of videos) {
+    live.add(v.id);
+    if (seen.get(v.id) === v) continue;
+    seen.set(v.id, v);
+    const raw = searchableText(v);
+    if (rawTexts.get(v.id) === raw) continue;
+    unindex(v.id);
+    index(v.id, raw);
+    rawTexts.set(v.id, raw);
+    changed = true;
+  }
+  for (const id of [...docs.keys()]) {
+    if (live.has(id)) continue;
+    unindex(id);
+    rawTexts.delete(id);
+    seen.delete(id);
+    changed = true;
+  }
+  if (changed) expansions.clear();
+};
+
+// Started once by the app; keeps the index in step with the store until the returned function is called
+export const startSearchIndex = () => {
+  syncIndex(useVideoStore.getState().videos);
+  return useVideoStore.subscribe((state, prev) => {
+    if (state.videos !== prev.videos) syncIndex(state.videos);
+  });
+};
+
+// --- Fuzzy matching -------------------------------------------------------
+
+// Levenshtein distance, giving up once it is certain to exceed `max`
+const editDistance = (a: string, b: string, max: number) => {
+  if (Math.abs(a.length - b.length) > max) return max + 1;
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    let best = i;
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+      best = Math.min(best, row[j]);
+    }
+    if (best > max) return max + 1;
+    prev = row;
+  }
+  return prev[b.length];
+};
+
+// Typos allowed grow with the word; short words must be typed exactly (as a prefix)
+const allowedTypos = (word: string) => (word.length >= 8 ? 2 : word.length >= 4 ? 1 : 0);
+
+// Index tokens a query word stands for: prefixes while typing, and near-misses for typos
+const expand = (word: string) => {
+  const cached = expansions.get(word);
+  if (cached) return cached;
+  const typos = allowedTypos(word);
+  const matches: string[] = [];
+  for (const token of postings.keys()) {
+    if (token.startsWith(word) ||
+        (typos > 0 && editDistance(word, token.slice(0, word.length + typos), typos) <= typos) ||
+        (typos > 0 && editDistance(word, token, typos) <= typos)) {
+      matches.push(token);
+    }
+  }
+  expansions.set(word, matches);
+  return matches;
+};
+
+const idsForWord = (word: string) => {
+  const ids = new Set<string>();
+  for (const token of expand(word)) postings.get(token)!.forEach(id => ids.add(id));
+  return ids;
+};
+
+// Filters `base` down to what the query matches, keeping its order
+export const searchVideos = (base: VideoItem[], query: SearchQuery): VideoItem[] => {
+  let candidates: Set<string> | null = null;
+  for (const word of query.words) {
+    const ids = idsForWord(word);
+    candidates = candidates ? new Set([...candidates].filter(id => ids.has(id))) : ids;
+    if (candidates.size === 0) return [];
+  }
+
+  const now = Date.now();
+  return base.filter(v => {
+    if (candidates && !candidates.has(v.id)) return false;
+    const doc = docs.get(v.id);
+    const text = doc?.text ?? normalizeText(searchableText(v));
+    if (query.phrases.some(p => !text.includes(p))) return false;
+    // -word drops whole words only, so -bad doesn't also hide "Badlands"
+    if (query.excluded.some(x => /[^\p{L}\p{N}]/u.test(x) ? text.includes(x) : doc?.tokens.has(x))) return false;
+    return matchesFilters(v, query.filters, now);
+  });
+};
+
+// --- Subtitle text --------------------------------------------------------
+
+export interface SubtitleHit {
+  videoId: string;
+  trackId: string;
+  time: number; // Cue start, seconds
+  text: string; // Cue text without markup
+}
+
+interface IndexedCue {
+  start: number;
+  text: string;
+  normalized: string;
+}
+
+// Parsed cue text per track. Only text already in the vault is searched; embedded tracks that have
+// never been shown are not extracted just for a search.
+const cueCache = new Map<string, IndexedCue[]>();
+const MAX_CACHED_TRACKS = 200;
+
+const loadCues = async (track: SubtitleTrack): Promise<IndexedCue[] | null> => {
+  const cached = cueCache.get(track.id);
+  if (cached) return cached;
+  const text = await loadSubtitle(track.id).catch(() => undefined);
+  if (text == null) return null;
+  const cues = parseSubtitles(text, track.format).map(cue => {
+    const plain = cue.text.replace(/<[^>]+>/g, '').replace(/\n/g, ' ');
+    return { start: cue.start, text: plain, normalized: normalizeText(plain) };
+  });
+  if (cueCache.size >= MAX_CACHED_TRACKS) cueCache.delete(cueCache.keys().next().value!);
+  cueCache.set(track.id, cues);
+  return cues;
+};
+
+const cueMatches = (cue: IndexedCue, query: SearchQuery) => {
+  if (query.phrases.some(p => !cue.normalized.includes(p))) return false;
+  if (query.excluded.some(x => cue.normalized.includes(x))) return false;
+  if (query.words.length === 0) return true;
+  const tokens = tokenize(cue.text);
+  return query.words.every(w => tokens.some(t => t.startsWith(w)));
+};
+
+// Cues matching the text part of the query, in the videos that pass its field filters.
+// Subtitle dialogue is too noisy for typo tolerance, so words only match as prefixes.
+export const searchSubtitles = async (
+  videos: VideoItem[],
+  query: SearchQuery,
+  { signal, limit = 50 }: { signal?: AbortSignal, limit?: number } = {}
+): Promise<SubtitleHit[]> => {
+  const hits: SubtitleHit[] = [];
+  if (query.words.length === 0 && query.phrases.length === 0) return hits;
+  const now = Date.now();
+
+  for (const video of videos) {
+    if (!video.subtitles?.length || !matchesFilters(video, query.filters, now)) continue;
+    for (const track of video.subtitles) {
+      if (signal?.aborted) throw new DOMException('Search cancelled', 'AbortError');
+      const cues = await loadCues(track);
+      for (const cue of cues || []) {
+        if (!cueMatches(cue, query)) continue;
+        hits.push({ videoId: video.id, trackId: track.id, time: cue.start, text: cue.text });
+        if (hits.length >= limit) return hits;
+      }
+    }
+  }
+  return hits;
+};
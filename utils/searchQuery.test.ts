@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { VideoItem } from '../types';
+import { parseSearchQuery, matchesFilters, isEmptyQuery } from './searchQuery';
+
+const NOW = Date.UTC(2025, 5, 15);
+const DAY = 86400e3;
+
+const video = (extra: Partial<VideoItem> = {}): VideoItem => ({
+  id: 'v', title: 'Video', source: '', type: 'local', addedAt: NOW - DAY, favorite: false,
+  metadata: { duration: 45 * 60, size: 1000, format: 'mkv', width: 0, height: 0 }, ...extra,
+} as VideoItem);
+
+const matches = (input: string, v: VideoItem) => matchesFilters(v, parseSearchQuery(input).filters, NOW);
+
+describe('parseSearchQuery', () => {
+  it('splits words, phrases, exclusions and field filters', () => {
+    expect(parseSearchQuery('Amélie format:MKV -bad "Exact Phrase" -"not this" tag:"sci fi"')).toEqual({
+      words: ['amelie'],
+      phrases: ['exact phrase'],
+      excluded: ['bad', 'not this'],
+      filters: [
+        { field: 'format', op: '=', value: 'MKV', negate: false },
+        { field: 'tag', op: '=', value: 'sci fi', negate: false },
+      ],
+    });
+  });
+
+  it('reads comparison operators and field aliases', () => {
+    expect(parseSearchQuery('duration:>30m added:<2w length:<=90 stars:>=4 -fav:yes').filters).toEqual([
+      { field: 'duration', op: '>', value: '30m', negate: false },
+      { field: 'added', op: '<', value: '2w', negate: false },
+      { field: 'duration', op: '<=', value: '90', negate: false },
+      { field: 'rating', op: '>=', value: '4', negate: false },
+      { field: 'fav', op: '=', value: 'yes', negate: true },
+    ]);
+  });
+
+  it('runs an unterminated phrase to the end of the input', () => {
+    const query = parseSearchQuery('show "open phrase');
+    expect(query.words).toEqual(['show']);
+    expect(query.phrases).toEqual(['open phrase']);
+  });
+
+  it('treats an unknown prefix as text', () => {
+    expect(parseSearchQuery('re:zero')).toEqual({ words: ['re', 'zero'], phrases: [], excluded: [], filters: [] });
+  });
+
+  it('drops empty terms', () => {
+    expect(isEmptyQuery(parseSearchQuery('  "" format:"" '))).toBe(true);
+  });
+});
+
+describe('matchesFilters', () => {
+  it('compares durations with the unit as tolerance for equality', () => {
+    expect(matches('duration:>30m', video())).toBe(true);
+    expect(matches('duration:>30m', video({ metadata: { ...video().metadata!, duration: 20 * 60 } }))).toBe(false);
+    expect(matches('duration:45m', video({ metadata: { ...video().metadata!, duration: 45 * 60 + 20 } }))).toBe(true);
+    expect(matches('duration:1h30m', video())).toBe(false);
+    // Bare numbers are minutes
+    expect(matches('duration:<60', video())).toBe(true);
+  });
+
+  it('reads added:<2w as less than two weeks ago', () => {
+    expect(matches('added:<2w', video({ addedAt: NOW - 3 * DAY }))).toBe(true);
+    expect(matches('added:<2w', video({ addedAt: NOW - 30 * DAY }))).toBe(false);
+    expect(matches('added:>2w', video({ addedAt: NOW - 30 * DAY }))).toBe(true);
+    expect(matches('added:>2025-06-01', video())).toBe(true);
+  });
+
+  it('negates a filter with a leading minus', () => {
+    expect(matches('fav:yes', video({ favorite: true }))).toBe(true);
+    expect(matches('-fav:yes', video({ favorite: true }))).toBe(false);
+    expect(matches('-format:mkv', video())).toBe(false);
+    expect(matches('status:unwatched tag:anime', video({ tags: ['Anime'] }))).toBe(true);
+    expect(matches('status:watched', video({ progress: 10 }))).toBe(false);
+  });
+});
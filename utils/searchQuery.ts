@@ -0,0 +1,144 @@
+import { VideoItem } from '../types';
+import { hasTag } from './smartCollections';
+import { watchStatus } from './watchState';
+
+// The search box language. Bare words match titles (fuzzy), "quoted text" matches exactly,
+// a leading - excludes, and field:value terms filter on metadata:
+//   format:mkv duration:>30m fav:yes added:<2w tag:anime rating:>=4 status:unwatched "exact phrase" -excluded
+
+export type SearchField = 'format' | 'duration' | 'fav' | 'added' | 'tag' | 'series' | 'rating' | 'status';
+
+export type CompareOp = '<' | '<=' | '>' | '>=' | '=';
+
+export interface SearchFilter {
+  field: SearchField;
+  op: CompareOp;
+  value: string;
+  negate: boolean;
+}
+
+export interface SearchQuery {
+  words: string[]; // Normalized; matched fuzzily against the index
+  phrases: string[]; // Normalized; matched as exact substrings
+  excluded: string[]; // Normalized words or phrases that must not appear
+  filters: SearchFilter[];
+}
+
+const FIELD_ALIASES: Record<string, SearchField> = {
+  format: 'format', ext: 'format', container: 'format',
+  duration: 'duration', length: 'duration', dur: 'duration',
+  fav: 'fav', favorite: 'fav', liked: 'fav',
+  added: 'added',
+  tag: 'tag', tags: 'tag',
+  series: 'series', show: 'series',
+  rating: 'rating', stars: 'rating',
+  status: 'status', watched: 'status',
+};
+
+// Lowercase with accents stripped, so "Amélie" and "amelie" are the same text
+export const normalizeText = (text: string) =>
+  text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+
+export const tokenize = (text: string) =>
+  normalizeText(text).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+// -word, field:value, field:"two words", "a phrase", -"a phrase"
+const TERM_PATTERN = /(-?)(?:([a-z]+):)?(?:"([^"]*)"?|(\S+))/gi;
+
+export const parseSearchQuery = (input: string): SearchQuery => {
+  const query: SearchQuery = { words: [], phrases: [], excluded: [], filters: [] };
+
+  for (const match of input.matchAll(TERM_PATTERN)) {
+    const [, minus, fieldName, quoted, bare] = match;
+    const negate = minus === '-';
+    const field = fieldName ? FIELD_ALIASES[fieldName.toLowerCase()] : undefined;
+
+    if (field) {
+      const raw = (quoted ?? bare ?? '').trim();
+      const op = raw.match(/^(<=|>=|<|>|=)?/)![0] as CompareOp | '';
+      const value = raw.slice(op.length).trim();
+      if (value) query.filters.push({ field, op: op || '=', value, negate });
+      continue;
+    }
+
+    // An unknown prefix ("re:zero") is just part of the text
+    const text = normalizeText(quoted ?? `${fieldName ? `${fieldName}:` : ''}${bare}`).trim();
+    if (!text) continue;
+    if (negate) query.excluded.push(text);
+    else if (quoted != null) query.phrases.push(text);
+    else query.words.push(...tokenize(text));
+  }
+  return query;
+};
+
+export const isEmptyQuery = (query: SearchQuery) =>
+  !query.words.length && !query.phrases.length && !query.excluded.length && !query.filters.length;
+
+const compare = (actual: number, op: CompareOp, expected: number, tolerance = 0) => {
+  switch (op) {
+    case '<': return actual < expected;
+    case '<=': return actual <= expected;
+    case '>': return actual > expected;
+    case '>=': return actual >= expected;
+    case '=': return Math.abs(actual - expected) <= tolerance;
+  }
+};
+
+const DURATION_UNITS: Record<string, number> = { s: 1, m: 60, h: 3600 };
+const AGE_UNITS: Record<string, number> = { h: 3600e3, d: 86400e3, w: 7 * 86400e3, m: 30 * 86400e3, y: 365 * 86400e3 };
+
+// "90", "30m", "1.5h", "1h30m" -> seconds; bare numbers are minutes
+const parseDuration = (value: string): { seconds: number, unit: number } | null => {
+  if (/^\d+(\.\d+)?$/.test(value)) return { seconds: Number(value) * 60, unit: 60 };
+  const parts = [...value.toLowerCase().matchAll(/(\d+(?:\.\d+)?)([hms])/g)];
+  if (parts.length === 0 || parts.map(p => p[0]).join('') !== value.toLowerCase()) return null;
+  return {
+    seconds: parts.reduce((sum, [, n, u]) => sum + Number(n) * DURATION_UNITS[u], 0),
+    unit: DURATION_UNITS[parts[parts.length - 1][2]],
+  };
+};
+
+const isYes = (value: string) => ['yes', 'y', 'true', '1', 'on'].includes(value.toLowerCase());
+
+// added:<2w is "less than two weeks ago"; added:>2024-01-01 is "after that date"
+const matchesAdded = (video: VideoItem, filter: SearchFilter, now: number) => {
+  const age = filter.value.toLowerCase().match(/^(\d+(?:\.\d+)?)([hdwmy])$/);
+  if (age) return compare(now - video.addedAt, filter.op, Number(age[1]) * AGE_UNITS[age[2]], AGE_UNITS[age[2]] / 2);
+  const date = Date.parse(filter.value);
+  if (Number.isNaN(date)) return true;
+  return filter.op === '='
+    ? new Date(video.addedAt).toDateString() === new Date(date).toDateString()
+    : compare(video.addedAt, filter.op, date);
+};
+
+const matchesFilterValue = (video: VideoItem, filter: SearchFilter, now: number): boolean => {
+  const value = normalizeText(filter.value);
+  switch (filter.field) {
+    case 'format':
+      return [video.metadata?.format, video.metadata?.container, video.metadata?.videoCodec, video.metadata?.audioCodec]
+        .some(f => f?.toLowerCase() === value);
+    case 'duration': {
+      const parsed = parseDuration(filter.value);
+      return !parsed || compare(video.metadata?.duration || 0, filter.op, parsed.seconds, parsed.unit / 2);
+    }
+    case 'fav':
+      return !!video.favorite === isYes(value);
+    case 'added':
+      return matchesAdded(video, filter, now);
+    case 'tag':
+      return hasTag(video, filter.value);
+    case 'series':
+      return normalizeText(video.series || '').includes(value);
+    case 'rating':
+      return Number.isFinite(Number(value)) ? compare(video.rating || 0, filter.op, Number(value)) : true;
+    case 'status': {
+      const status = watchStatus(video);
+      if (value === 'yes' || value === 'no') return (status === 'watched') === isYes(value);
+      return status.replace('-', '') === value.replace(/[-\s]/g, '');
+    }
+  }
+};
+
+// Field terms only; the text terms go through the index in utils/searchIndex.ts
+export const matchesFilters = (video: VideoItem, filters: SearchFilter[], now = Date.now()) =>
+  filters.every(filter => matchesFilterValue(video, filter, now) !== filter.negate);
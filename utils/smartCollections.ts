@@ -0,0 +1,96 @@
+import { VideoItem, SmartCollection, SmartRule, SmartRuleField, SmartRuleOp } from '../types';
+import { watchStatus } from './watchState';
+
+// Rule evaluation for smart collections. Collections store only their rules, so they stay current
+// as videos are added, tagged or watched without anything being written back.
+
+interface RuleFieldSpec {
+  label: string;
+  ops: SmartRuleOp[];
+  input: 'text' | 'number' | 'choice';
+  choices?: string[];
+  unit?: string;
+  defaultValue: string | number;
+}
+
+export const RULE_FIELDS: Record<SmartRuleField, RuleFieldSpec> = {
+  tag: { label: 'Tag', ops: ['is', 'isNot'], input: 'text', defaultValue: '' },
+  duration: { label: 'Duration', ops: ['gt', 'lt'], input: 'number', unit: 'min', defaultValue: 20 },
+  status: { label: 'Status', ops: ['is', 'isNot'], input: 'choice', choices: ['unwatched', 'in-progress', 'watched'], defaultValue: 'unwatched' },
+  added: { label: 'Added', ops: ['lt', 'gt'], input: 'number', unit: 'days ago', defaultValue: 7 },
+  favorite: { label: 'Favorite', ops: ['is'], input: 'choice', choices: ['yes', 'no'], defaultValue: 'yes' },
+  rating: { label: 'Rating', ops: ['gt', 'lt', 'is'], input: 'number', unit: 'stars', defaultValue: 3 },
+  series: { label: 'Series', ops: ['is', 'isNot'], input: 'text', defaultValue: '' },
+  format: { label: 'Format', ops: ['is', 'isNot'], input: 'text', defaultValue: 'mkv' },
+};
+
+export const OP_LABELS: Record<SmartRuleOp, string> = { is: 'is', isNot: 'is not', gt: 'over', lt: 'under' };
+
+export const createRule = (field: SmartRuleField): SmartRule => ({
+  field,
+  op: RULE_FIELDS[field].ops[0],
+  value: RULE_FIELDS[field].defaultValue,
+});
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const normalizeTag = (tag: string) => tag.trim().replace(/\s+/g, ' ');
+
+export const hasTag = (video: VideoItem, tag: string) => {
+  const needle = normalizeTag(tag).toLowerCase();
+  return !!video.tags?.some(t => t.toLowerCase() === needle);
+};
+
+// Every tag in use, first spelling wins, alphabetical
+export const collectTags = (videos: VideoItem[]) => {
+  const tags = new Map<string, string>();
+  for (const tag of videos.flatMap(v => v.tags || [])) {
+    if (!tags.has(tag.toLowerCase())) tags.set(tag.toLowerCase(), tag);
+  }
+  return [...tags.values()].sort((a, b) => a.localeCompare(b));
+};
+
+const compare = (actual: number | undefined, op: SmartRuleOp, expected: number) => {
+  if (actual == null) return false;
+  if (op === 'gt') return actual > expected;
+  if (op === 'lt') return actual < expected;
+  return actual === expected;
+};
+
+const sameText = (a: string | undefined, b: string | number) =>
+  (a || '').trim().toLowerCase() === String(b).trim().toLowerCase();
+
+export const matchesRule = (video: VideoItem, rule: SmartRule, now = Date.now()): boolean => {
+  const negate = rule.op === 'isNot';
+  switch (rule.field) {
+    case 'tag':
+      return hasTag(video, String(rule.value)) !== negate;
+    case 'duration':
+      return compare(video.metadata?.duration && video.metadata.duration / 60, rule.op, Number(rule.value));
+    case 'status':
+      return (watchStatus(video) === rule.value) !== negate;
+    case 'added':
+      return compare((now - video.addedAt) / DAY_MS, rule.op, Number(rule.value));
+    case 'favorite':
+      return !!video.favorite === (rule.value === 'yes');
+    case 'rating':
+      return compare(video.rating, rule.op, Number(rule.value));
+    case 'series':
+      return sameText(video.series, rule.value) !== negate;
+    case 'format':
+      return (sameText(video.metadata?.format, rule.value) || sameText(video.metadata?.container, rule.value)) !== negate;
+  }
+};
+
+// A collection without rules matches nothing rather than the whole vault
+export const matchesCollection = (video: VideoItem, collection: SmartCollection, now = Date.now()) => {
+  if (collection.rules.length === 0) return false;
+  return collection.match === 'all'
+    ? collection.rules.every(rule => matchesRule(video, rule, now))
+    : collection.rules.some(rule => matchesRule(video, rule, now));
+};
+
+export const isSmartRule = (rule: any): rule is SmartRule =>
+  !!rule && Object.prototype.hasOwnProperty.call(RULE_FIELDS, rule.field) &&
+  RULE_FIELDS[rule.field as SmartRuleField].ops.includes(rule.op) &&
+  (typeof rule.value === 'string' || (typeof rule.value === 'number' && Number.isFinite(rule.value)));
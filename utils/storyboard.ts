@@ -0,0 +1,306 @@
+import { useEffect, useState, CSSProperties } from 'react';
+import { VideoItem } from '../types';
+import { useVideoStore } from '../store';
+import { isAbortError } from './folderSync';
+import { StoredStoryboard, saveStoryboard, loadStoryboard, idbKeys, STORYBOARDS_STORE, loadRemux, resolveSourceFile, isQuotaError } from './vaultDb';
+
+// Storyboards: sprite sheets of small frames sampled through a video, used for seek-bar hover previews
+// and animated library cards. A background job builds them one video at a time with an offscreen
+// <video> and a canvas, and keeps the sheets in IndexedDB.
+
+const FRAME_WIDTH = 160;
+const FRAME_HEIGHT = 90;
+const COLUMNS = 10;
+const ROWS = 10;
+const MAX_FRAMES = 200;
+const MIN_INTERVAL = 2; // Seconds between frames for short videos
+const SEEK_TIMEOUT = 10000;
+
+export const storyboardInterval = (duration: number) => Math.max(MIN_INTERVAL, Math.ceil(duration / MAX_FRAMES));
+
+const throwIfAborted = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw new DOMException('Storyboard generation cancelled', 'AbortError');
+};
+
+const waitFor = (el: HTMLVideoElement, event: 'loadedmetadata' | 'seeked', signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    const cleanup = () => {
+      clearTimeout(timer);
+      el.removeEventListener(event, onDone);
+      el.removeEventListener('error', onError);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onDone = () => { cleanup(); resolve(); };
+    const onError = () => { cleanup(); reject(new Error('The video could not be decoded')); };
+    const onAbort = () => { cleanup(); reject(new DOMException('Storyboard generation cancelled', 'AbortError')); };
+    const timer = setTimeout(() => { cleanup(); reject(new Error(`Timed out waiting for ${event}`)); }, SEEK_TIMEOUT);
+    el.addEventListener(event, onDone);
+    el.addEventListener('error', onError);
+    signal?.addEventListener('abort', onAbort);
+  });
+
+const canvasBlob = (canvas: HTMLCanvasElement) =>
+  new Promise<Blob>((resolve, reject) => canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Could not encode a storyboard sheet'))), 'image/jpeg', 0.7));
+
+// Frames are letterboxed into fixed 16:9 cells so every sheet has the same geometry
+export const generateStoryboard = async (file: Blob, { signal }: { signal?: AbortSignal } = {}): Promise<StoredStoryboard> => {
+  const el = document.createElement('video');
+  el.muted = true;
+  el.preload = 'auto';
+  el.src = URL.createObjectURL(file);
+  try {
+    const loaded = waitFor(el, 'loadedmetadata', signal);
+    el.load();
+    await loaded;
+    if (!(el.duration > 0) || !Number.isFinite(el.duration) || !el.videoWidth) throw new Error('The video has no frames to sample');
+
+    const interval = storyboardInterval(el.duration);
+    const count = Math.max(1, Math.min(MAX_FRAMES, Math.floor(el.duration / interval)));
+    const scale = Math.min(FRAME_WIDTH / el.videoWidth, FRAME_HEIGHT / el.videoHeight);
+    const drawWidth = el.videoWidth * scale;
+    const drawHeight = el.videoHeight * scale;
+    const perSheet = COLUMNS * ROWS;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = FRAME_WIDTH * COLUMNS;
+    canvas.height = FRAME_HEIGHT * ROWS;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas is not available');
+
+    const sheets: Blob[] = [];
+    for (let i = 0; i < count; i++) {
+      throwIfAborted(signal);
+      const cell = i % perSheet;
+      if (cell === 0) {
+        ctx.fillStyle = '#000';
+        ctx.fillRect(0, 0, canvas.width, canvas.height);
+      }
+      const seeked = waitFor(el, 'seeked', signal);
+      el.currentTime = Math.min(el.duration - 0.05, (i + 0.5) * interval);
+      await seeked;
+      const x = (cell % COLUMNS) * FRAME_WIDTH + (FRAME_WIDTH - drawWidth) / 2;
+      const y = Math.floor(cell / COLUMNS) * FRAME_HEIGHT + (FRAME_HEIGHT - drawHeight) / 2;
+      ctx.drawImage(el, x, y, drawWidth, drawHeight);
+      if (cell === perSheet - 1 || i === count - 1) sheets.push(await canvasBlob(canvas));
+    }
+    return { interval, count, frameWidth: FRAME_WIDTH, frameHeight: FRAME_HEIGHT, columns: COLUMNS, rows: ROWS, sheets };
+  } finally {
+    URL.revokeObjectURL(el.src);
+    el.removeAttribute('src');
+    el.load();
+  }
+};
+
+// --- Display --------------------------------------------------------------
+
+export interface Storyboard extends Omit<StoredStoryboard, 'sheets'> {
+  urls: string[]; // Object URLs of the sheets
+}
+
+const MAX_LOADED = 24;
+
+interface LoadedStoryboard {
+  promise: Promise<Storyboard | null>;
+  users: number; // Mounted consumers showing it; its URLs stay valid until this drops to zero
+}
+
+const loaded = new Map<string, LoadedStoryboard>(); // Insertion order doubles as LRU order
+
+const revoke = (entry: LoadedStoryboard) => entry.promise.then(board => board?.urls.forEach(url => URL.revokeObjectURL(url)));
+
+// Forgets a board; one still on screen is revoked when its last consumer lets go
+const release = (id: string) => {
+  const entry = loaded.get(id);
+  loaded.delete(id);
+  if (entry && entry.users === 0) revoke(entry);
+};
+
+// Evicts the least recently used boards nobody is showing
+const trim = () => {
+  for (const [id, entry] of loaded) {
+    if (loaded.size <= MAX_LOADED) break;
+    if (entry.users === 0) release(id);
+  }
+};
+
+// Loads a board and keeps its URLs alive until `unhold` is called
+const holdStoryboard = (id: string) => {
+  let entry = loaded.get(id);
+  if (entry) {
+    loaded.delete(id);
+  } else {
+    const promise = loadStoryboard(id)
+      .then(stored => {
+        if (!stored) return null;
+        const { sheets, ...geometry } = stored;
+        return { ...geometry, urls: sheets.map(blob => URL.createObjectURL(blob)) };
+      })
+      .catch(() => null);
+    entry = { promise, users: 0 };
+    // A miss is not cached, so the board shows up once the job has made it
+    promise.then(board => !board && loaded.get(id)?.promise === promise && loaded.delete(id));
+  }
+  loaded.set(id, entry);
+  entry.users++;
+  trim();
+
+  const held = entry;
+  let done = false;
+  const unhold = () => {
+    if (done) return;
+    done = true;
+    held.users--;
+    if (held.users > 0) return;
+    // Dropped from the cache while on screen
+    if (loaded.get(id) !== held) revoke(held);
+    else trim();
+  };
+  return { promise: held.promise, unhold };
+};
+
+// CSS for one frame scaled to fill its box, whatever the box size
+export const storyboardFrameStyle = (board: Storyboard, time: number): CSSProperties => {
+  const index = Math.max(0, Math.min(board.count - 1, Math.floor(time / board.interval)));
+  const perSheet = board.columns * board.rows;
+  const cell = index % perSheet;
+  return {
+    backgroundImage: `url(${board.urls[Math.floor(index / perSheet)]})`,
+    backgroundSize: `${board.columns * 100}% ${board.rows * 100}%`,
+    backgroundPosition: `${((cell % board.columns) / (board.columns - 1)) * 100}% ${(Math.floor(cell / board.columns) / (board.rows - 1)) * 100}%`,
+  };
+};
+
+// --- Background job -------------------------------------------------------
+
+const ready = new Set<string>(); // Videos with a stored storyboard
+const skipped = new Set<string>(); // Undecodable, not retried this session
+const unreadable = new Set<string>(); // No file access yet; retried once the video is opened or relinked
+const queue: string[] = [];
+const queued = new Set<string>();
+const listeners = new Set<(id: string) => void>();
+let started = false;
+let running = false;
+let controller: AbortController | null = null;
+
+const notify = (id: string) => listeners.forEach(listener => listener(id));
+
+const enqueue = (videos: VideoItem[]) => {
+  for (const v of videos) {
+    // Audio items have no pictures to preview
+    if (ready.has(v.id) || skipped.has(v.id) || unreadable.has(v.id) || v.missing || v.type === 'audio' || queued.has(v.id)) continue;
+    queue.push(v.id);
+    queued.add(v.id);
+  }
+  pump();
+};
+
+// Remuxed copies first: they exist precisely because the original doesn't play in this browser
+const readableFile = async (id: string) => (await loadRemux(id).catch(() => undefined)) || resolveSourceFile(id, false);
+
+const pump = async () => {
+  if (running || !started) return;
+  running = true;
+  try {
+    while (queue.length > 0) {
+      const id = queue.shift()!;
+      queued.delete(id);
+      const video = useVideoStore.getState().videos.find(v => v.id === id);
+      if (ready.has(id) || !video || video.type === 'audio') continue;
+      const file = await readableFile(id);
+      if (!file) {
+        unreadable.add(id);
+        continue;
+      }
+      controller = new AbortController();
+      try {
+        await saveStoryboard(id, await generateStoryboard(file, { signal: controller.signal }));
+        ready.add(id);
+        notify(id);
+      } catch (err) {
+        if (isAbortError(err)) continue;
+        skipped.add(id);
+        if (isQuotaError(err)) {
+          console.warn('Storyboards paused: not enough browser storage');
+          queue.length = 0;
+          queued.clear();
+          return;
+        }
+        console.warn(`No storyboard for ${id}:`, err);
+      }
+    }
+  } finally {
+    controller = null;
+    running = false;
+  }
+};
+
+// Moves a video to the front of the queue, e.g. when it is opened in the player
+export const prioritizeStoryboard = (id: string) => {
+  unreadable.delete(id);
+  if (!started || ready.has(id) || skipped.has(id)) return;
+  const index = queue.indexOf(id);
+  if (index >= 0) queue.splice(index, 1);
+  queue.unshift(id);
+  queued.add(id);
+  pump();
+};
+
+// Started once by the app; queues every video without a storyboard and follows the library from then on
+export const startStoryboardJobs = () => {
+  let stopped = false;
+  let unsubscribe = () => {};
+  idbKeys(STORYBOARDS_STORE).catch(() => []).then((keys) => {
+    if (stopped) return;
+    started = true;
+    keys.forEach(key => ready.add(key));
+    enqueue(useVideoStore.getState().videos);
+    unsubscribe = useVideoStore.subscribe((state, prev) => {
+      if (state.videos === prev.videos) return;
+      const live = new Set(state.videos.map(v => v.id));
+      for (const id of [...ready]) {
+        if (live.has(id)) continue;
+        ready.delete(id);
+        release(id);
+      }
+      // A video that came back (relinked, re-imported) gets another try
+      const wasMissing = new Set(prev.videos.filter(v => v.missing).map(v => v.id));
+      state.videos.forEach(v => !v.missing && wasMissing.has(v.id) && unreadable.delete(v.id));
+      enqueue(state.videos);
+    });
+  });
+  return () => {
+    stopped = true;
+    started = false;
+    unsubscribe();
+    queue.length = 0;
+    queued.clear();
+    controller?.abort();
+  };
+};
+
+// The storyboard of a video once it exists; `enabled` defers loading until it is needed (e.g. on hover)
+export const useStoryboard = (id: string, enabled = true) => {
+  const [board, setBoard] = useState<Storyboard | null>(null);
+  useEffect(() => {
+    setBoard(null);
+    if (!enabled) return;
+    let active = true;
+    let unhold = () => {};
+    const load = () => {
+      const hold = holdStoryboard(id);
+      // The new hold is taken first so a board already on screen is never revoked in between
+      unhold();
+      unhold = hold.unhold;
+      hold.promise.then(b => active && setBoard(b));
+    };
+    load();
+    const onReady = (readyId: string) => readyId === id && load();
+    listeners.add(onReady);
+    return () => {
+      active = false;
+      listeners.delete(onReady);
+      unhold();
+    };
+  }, [id, enabled]);
+  return board;
+};
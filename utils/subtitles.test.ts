@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { parseSubtitles, sanitizeCueText, cueSegments, assText } from './subtitles';
+
+describe('parseSubtitles', () => {
+  it('reads SRT cues with comma milliseconds and multi-line text', () => {
+    const srt = '1\r\n00:00:01,000 --> 00:00:02,500\r\nHello\r\nworld\r\n\r\n2\r\n01:01:02,5 --> 01:01:03,000\r\n<i>Two</i>\r\n';
+    expect(parseSubtitles(srt, 'srt')).toEqual([
+      { start: 1, end: 2.5, text: 'Hello\nworld' },
+      { start: 3662.5, end: 3663, text: '<i>Two</i>' },
+    ]);
+  });
+
+  it('reads WebVTT cues without hours, ignoring settings, identifiers and backwards timings', () => {
+    const vtt = 'WEBVTT\n\nintro\n02:03.250 --> 02:04.000 align:start line:90%\n<v Bob>Hi</v> <c.red>there</c>\n\n00:05.000 --> 00:04.000\nbackwards\n\n00:06.000 --> 00:07.000\n\n';
+    expect(parseSubtitles(vtt, 'vtt')).toEqual([{ start: 123.25, end: 124, text: 'Hi there' }]);
+  });
+
+  it('reads ASS dialogue by its Format line, in time order', () => {
+    const ass = [
+      '[Script Info]',
+      'Title: Test',
+      '',
+      '[V4+ Styles]',
+      'Format: Name, Fontname',
+      'Dialogue: 0,0:00:00.00,0:00:09.00,Default,,0,0,0,,Not an event',
+      '',
+      '[Events]',
+      'Format: Layer, Start, End, Style, Name, MarginL, MarginR, MarginV, Effect, Text',
+      'Dialogue: 0,0:00:05.00,0:00:06.50,Default,,0,0,0,,{\\pos(10,10)\\i1}Hello{\\i0}, world\\Nbye',
+      'Dialogue: 0,0:00:01.25,0:00:02.00,Default,,0,0,0,,First',
+      'Dialogue: 0,0:00:03.00,0:00:04.00,Default,,0,0,0,,{\\p1}m 0 0 l 10 10',
+      'Comment: 0,0:00:03.00,0:00:04.00,Default,,0,0,0,,Hidden',
+    ].join('\n');
+    expect(parseSubtitles(ass, 'ass')).toEqual([
+      { start: 1.25, end: 2, text: 'First' },
+      { start: 5, end: 6.5, text: '<i>Hello</i>, world\nbye' },
+    ]);
+  });
+});
+
+describe('assText', () => {
+  it('keeps italic, bold and underline toggles, turns \\h into a hard space and drops every other override', () => {
+    expect(assText('{\\an8\\b1\\c&H00FF00&}Top{\\b0} {\\u1\\k20}under{\\u0}\\hline')).toBe('<b>Top</b> <u>under</u>\u00a0line');
+    expect(assText('{\\fad(200,200)}Plain')).toBe('Plain');
+  });
+
+  it('drops drawings entirely', () => {
+    expect(assText('{\\p1}m 0 0 l 100 0 100 100{\\p0}')).toBe('');
+  });
+});
+
+describe('sanitizeCueText', () => {
+  it('keeps bare i, b and u tags and removes every other tag', () => {
+    expect(sanitizeCueText('<i onclick="x">a</i> <B>b</B> <script>alert(1)</script><img src=x onerror=alert(1)>'))
+      .toBe('<i>a</i> <b>b</b> alert(1)');
+  });
+
+  it('escapes stray brackets and ampersands but leaves known entities', () => {
+    expect(sanitizeCueText('a < b & c &amp; d &foo;')).toBe('a &lt; b &amp; c &amp; d &amp;foo;');
+    expect(sanitizeCueText('3 > 2')).toBe('3 &gt; 2');
+  });
+
+  it("doesn't let placeholder characters in the input forge tags", () => {
+    expect(sanitizeCueText('\u0001script\u0002x\u0001/script\u0002')).toBe('scriptx/script');
+  });
+});
+
+describe('cueSegments', () => {
+  it('returns markup and entities only as text', () => {
+    const segments = cueSegments(sanitizeCueText('<b>x &lt;img src=x onerror=alert(1)&gt;</b> <script>y'));
+    expect(segments).toEqual([
+      { text: 'x <img src=x onerror=alert(1)>', italic: false, bold: true, underline: false },
+      { text: ' y', italic: false, bold: false, underline: false },
+    ]);
+  });
+
+  it('decodes the entities VTT allows', () => {
+    expect(cueSegments('a&nbsp;b&lrm;&amp;&lt;&gt;').map(s => s.text)).toEqual(['a\u00a0b\u200e&<>']);
+  });
+
+  it('tolerates unbalanced tags', () => {
+    expect(cueSegments('<i>a<b>b</i>c</b></u>d')).toEqual([
+      { text: 'a', italic: true, bold: false, underline: false },
+      { text: 'b', italic: true, bold: true, underline: false },
+      { text: 'c', italic: false, bold: true, underline: false },
+      { text: 'd', italic: false, bold: false, underline: false },
+    ]);
+  });
+});
@@ -0,0 +1,167 @@
+import { SubtitleFormat, SubtitleTrack, VideoItem } from '../types';
+
+// Subtitle parsing for the player. Every format ends up as a list of cues whose text is
+// WebVTT cue markup restricted to <i>, <b> and <u>. The player renders it through cueSegments as
+// text nodes, never as HTML.
+
+export interface SubtitleCue {
+  start: number; // Seconds
+  end: number;
+  text: string;
+}
+
+export const SUBTITLE_EXTS = ['srt', 'vtt', 'ass', 'ssa'];
+
+export const subtitleFormatOf = (fileName: string): SubtitleFormat | null => {
+  const ext = fileName.split('.').pop()?.toLowerCase() || '';
+  if (ext === 'ssa') return 'ass';
+  return ext === 'srt' || ext === 'vtt' || ext === 'ass' ? ext : null;
+};
+
+// "01:02:03,456", "02:03.456" (VTT) or "1:02:03.45" (ASS centiseconds)
+const parseClock = (value: string): number | null => {
+  const m = value.trim().match(/^(?:(\d+):)?(\d{1,2}):(\d{1,2})(?:[,.](\d{1,3}))?$/);
+  if (!m) return null;
+  return Number(m[1] || 0) * 3600 + Number(m[2]) * 60 + Number(m[3]) + (m[4] ? Number(`0.${m[4]}`) : 0);
+};
+
+// Keeps <i>, <b> and <u>, drops every other tag (font, c, v, ruby, karaoke timestamps) and escapes the rest.
+// The control characters used as tag placeholders are removed from the input first so they can't be forged.
+export const sanitizeCueText = (raw: string) => raw
+  .replace(/[\u0000-\u0008]/g, '')
+  .replace(/\{\\[^}]*\}/g, '')
+  .replace(/&(?!(?:amp|lt|gt|nbsp|lrm|rlm);)/g, '&amp;')
+  .replace(/<(\/?)([ibu])(?:\s[^>]*)?>/gi, (_, close, tag) => `\u0001${close}${tag.toLowerCase()}\u0002`)
+  .replace(/<[^>]*>/g, '')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/\u0001/g, '<')
+  .replace(/\u0002/g, '>')
+  .trim();
+
+export interface CueSegment {
+  text: string;
+  italic: boolean;
+  bold: boolean;
+  underline: boolean;
+}
+
+const CUE_ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', nbsp: '\u00a0', lrm: '\u200e', rlm: '\u200f' };
+
+// Splits sanitized cue markup into styled runs of plain text. Unbalanced tags are tolerated the way
+// browsers tolerate them in VTT: a stray close is ignored and an unclosed tag runs to the end of the cue.
+export const cueSegments = (markup: string): CueSegment[] => {
+  const depth = { i: 0, b: 0, u: 0 };
+  const segments: CueSegment[] = [];
+  for (const part of markup.split(/(<\/?[ibu]>)/)) {
+    const tag = part.match(/^<(\/?)([ibu])>$/);
+    if (tag) {
+      const name = tag[2] as keyof typeof depth;
+      depth[name] = Math.max(0, depth[name] + (tag[1] ? -1 : 1));
+      continue;
+    }
+    if (!part) continue;
+    segments.push({
+      text: part.replace(/<[^>]*>/g, '').replace(/&(amp|lt|gt|nbsp|lrm|rlm);/g, (_, name: string) => CUE_ENTITIES[name]),
+      italic: depth.i > 0,
+      bold: depth.b > 0,
+      underline: depth.u > 0,
+    });
+  }
+  return segments;
+};
+
+// SRT and WebVTT share the same shape: an optional identifier, a "start --> end" line, then text until a blank line
+const parseTimedBlocks = (text: string): SubtitleCue[] => {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  const cues: SubtitleCue[] = [];
+  for (let i = 0; i < lines.length; i++) {
+    const arrow = lines[i].indexOf('-->');
+    if (arrow < 0) continue;
+    const start = parseClock(lines[i].slice(0, arrow));
+    const end = parseClock(lines[i].slice(arrow + 3).trim().split(/\s+/)[0]);
+    const body: string[] = [];
+    while (i + 1 < lines.length && lines[i + 1].trim() !== '') body.push(lines[++i]);
+    if (start === null || end === null || end <= start) continue;
+    const cueText = sanitizeCueText(body.join('\n'));
+    if (cueText) cues.push({ start, end, text: cueText });
+  }
+  return cues;
+};
+
+// ASS override blocks: italic/bold/underline toggles become tags, everything else (positioning, karaoke,
+// colours) is dropped. Drawing commands carry no text at all.
+export const assText = (raw: string) => {
+  if (/\{[^}]*\\p[1-9]/.test(raw)) return '';
+  const text = raw
+    .replace(/\\N|\\n/g, '\n')
+    .replace(/\\h/g, ' ')
+    .replace(/\{([^}]*)\}/g, (_, block: string) =>
+      Array.from(block.matchAll(/\\([ibu])(\d)/g)).map(([, tag, on]) => (on === '0' ? `</${tag}>` : `<${tag}>`)).join(''));
+  return sanitizeCueText(text);
+};
+
+const parseAss = (text: string): SubtitleCue[] => {
+  const cues: SubtitleCue[] = [];
+  let inEvents = false;
+  let format: string[] = [];
+
+  for (const line of text.replace(/\r\n?/g, '\n').split('\n')) {
+    const trimmed = line.trim();
+    if (trimmed.startsWith('[')) {
+      inEvents = trimmed.toLowerCase() === '[events]';
+      continue;
+    }
+    if (!inEvents) continue;
+    if (/^format:/i.test(trimmed)) {
+      format = trimmed.slice(7).split(',').map(f => f.trim().toLowerCase());
+      continue;
+    }
+    if (!/^dialogue:/i.test(trimmed) || format.length === 0) continue;
+
+    // The Text field is last and may itself contain commas
+    const fields = trimmed.slice(9).split(',');
+    const values = [...fields.slice(0, format.length - 1), fields.slice(format.length - 1).join(',')].map(f => f.trim());
+    const field = (name: string) => values[format.indexOf(name)] ?? '';
+    const start = parseClock(field('start'));
+    const end = parseClock(field('end'));
+    const cueText = assText(field('text'));
+    if (start !== null && end !== null && end > start && cueText) cues.push({ start, end, text: cueText });
+  }
+  return cues.sort((a, b) => a.start - b.start);
+};
+
+export const parseSubtitles = (text: string, format: SubtitleFormat): SubtitleCue[] =>
+  format === 'ass' ? parseAss(text) : parseTimedBlocks(text);
+
+const vttClock = (seconds: number) => {
+  const ms = Math.round(seconds * 1000);
+  const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}.${pad(ms % 1000, 3)}`;
+};
+
+// Cue text is already VTT markup; blank lines inside a cue would end it early, so they are collapsed
+export const cuesToVtt = (cues: SubtitleCue[]) =>
+  ['WEBVTT', ...cues.map(c => `${vttClock(c.start)} --> ${vttClock(c.end)}\n${c.text.replace(/\n{2,}/g, '\n')}`)].join('\n\n') + '\n';
+
+export const languageLabel = (code: string) => {
+  try {
+    return new Intl.DisplayNames(undefined, { type: 'language' }).of(code) || code;
+  } catch {
+    return code;
+  }
+};
+
+// "Movie.en.srt", "Movie.fre.forced.ass": the language is a 2-3 letter segment between title and extension
+export const guessSubtitleLanguage = (fileName: string) => {
+  const segments = fileName.toLowerCase().split('.').slice(1, -1).reverse();
+  return segments.find(s => /^[a-z]{2,3}(-[a-z]{2,4})?$/.test(s) && languageLabel(s).toLowerCase() !== s);
+};
+
+// Explicit choice (including "off") wins; otherwise the first track in the user's preferred language
+export const pickSubtitle = (video: VideoItem, preferredLanguage?: string): SubtitleTrack | undefined => {
+  if (video.activeSubtitleId === null) return undefined;
+  const tracks = video.subtitles || [];
+  if (video.activeSubtitleId) return tracks.find(t => t.id === video.activeSubtitleId);
+  return preferredLanguage ? tracks.find(t => t.language === preferredLanguage) : undefined;
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { VideoItem } from '../types';
+import { DEFAULT_SETTINGS } from './vaultSchema';
+import { VaultBundle, buildVaultBundle, mergeSettings, mergeVaultBundle, parseVaultBundle } from './vaultBackup';
+
+const video = (id: string, title: string, extra: Partial<VideoItem> = {}): VideoItem => ({
+  id, title, source: '', type: 'local', addedAt: 1700000000000, favorite: false,
+  metadata: { duration: 600, size: 1000, format: 'mp4', width: 0, height: 0 }, ...extra,
+} as VideoItem);
+
+const empty = { videos: [], settings: DEFAULT_SETTINGS, folders: [], playlists: [], smartCollections: [] };
+
+describe('vault backups', () => {
+  it('round-trips playlists, smart collections and folders', async () => {
+    const vault = {
+      videos: [video('a', 'Song', { folderId: 'f1', path: 'Music/Song.mp4' })],
+      settings: { ...DEFAULT_SETTINGS, volume: 0.3 },
+      folders: [{ id: 'f1', name: 'Music', lastSyncedAt: 1700000000000 }],
+      playlists: [{ id: 'p1', name: 'Mix', videoIds: ['a'], createdAt: 1, updatedAt: 1 }],
+      smartCollections: [{ id: 'c1', name: 'Faves', match: 'all' as const, rules: [{ field: 'favorite' as const, op: 'is' as const, value: 'yes' }], createdAt: 1 }],
+    };
+    const bundle = parseVaultBundle(JSON.stringify(await buildVaultBundle(vault)));
+    expect(bundle.videos[0].folderId).toBe('f1');
+    expect(bundle.folders).toEqual([{ id: 'f1', name: 'Music', lastSyncedAt: 0 }]);
+    expect(bundle.playlists).toEqual(vault.playlists);
+    expect(bundle.smartCollections).toEqual(vault.smartCollections);
+    expect(bundle.settings.volume).toBe(0.3);
+  });
+
+  it('reads backups from before collections were exported', () => {
+    const bundle = parseVaultBundle(JSON.stringify({
+      format: 'nexus-vault-backup', vaultVersion: 1, settings: {}, videos: [video('a', 'Song', { folderId: 'gone' })],
+    }));
+    expect(bundle.videos[0].folderId).toBeUndefined();
+    expect(bundle.playlists).toEqual([]);
+  });
+
+  it('keeps settings changed here and takes the rest from the backup', () => {
+    const current = { ...DEFAULT_SETTINGS, volume: 0.3, subtitleStyle: { ...DEFAULT_SETTINGS.subtitleStyle, color: '#ffff00' } };
+    const incoming = { ...DEFAULT_SETTINGS, volume: 1, seekStep: 5, subtitleStyle: { ...DEFAULT_SETTINGS.subtitleStyle, color: '#00ff00', fontSize: 150 } };
+    const merged = mergeSettings(current, incoming);
+    expect(merged.volume).toBe(0.3);
+    expect(merged.seekStep).toBe(5);
+    expect(merged.subtitleStyle).toEqual({ ...DEFAULT_SETTINGS.subtitleStyle, color: '#ffff00', fontSize: 150 });
+  });
+
+  it('points imported playlists at the entries their videos were merged into', () => {
+    const bundle: VaultBundle = {
+      format: 'nexus-vault-backup', vaultVersion: 3, exportedAt: 0, settings: DEFAULT_SETTINGS,
+      videos: [video('other-a', 'Song'), video('b', 'New', { folderId: 'f2' })],
+      folders: [{ id: 'f1', name: 'Unused', lastSyncedAt: 0 }, { id: 'f2', name: 'Shows', lastSyncedAt: 0 }],
+      playlists: [{ id: 'p1', name: 'Mix', videoIds: ['other-a', 'b'], createdAt: 1, updatedAt: 1 }],
+      smartCollections: [],
+    };
+    const merged = mergeVaultBundle({ ...empty, videos: [video('a', 'Song')] }, bundle);
+    expect(merged.videos.map(v => v.id)).toEqual(['a', 'b']);
+    expect(merged.playlists[0].videoIds).toEqual(['a', 'b']);
+    expect(merged.folders.map(f => f.id)).toEqual(['f2']);
+    expect([merged.added, merged.updated]).toEqual([1, 1]);
+  });
+});
@@ -0,0 +1,232 @@
+import { VideoItem, PlayerSettings, SyncedFolder, Playlist, SmartCollection } from '../types';
+import { idbGet, THUMBNAILS_STORE, loadSubtitle } from './vaultDb';
+import { VAULT_VERSION, DEFAULT_SETTINGS, PersistedVault, migrateVaultState, validateVaultState } from './vaultSchema';
+import { blobToDataUrl, readMediaDuration } from './helpers';
+import { sortBookmarks } from './chapters';
+
+export const BACKUP_FORMAT = 'nexus-vault-backup';
+
+// Portable snapshot of the library. `vaultVersion` is the schema the videos were written with,
+// so older backups go through the same migration pipeline as persisted state.
+export interface VaultBundle {
+  format: typeof BACKUP_FORMAT;
+  vaultVersion: number;
+  exportedAt: number;
+  settings: PlayerSettings;
+  videos: VideoItem[]; // `thumbnail` holds a data URL, `source` is always empty
+  folders: SyncedFolder[]; // Records only; each folder is picked again on this machine to reconnect it
+  playlists: Playlist[];
+  smartCollections: SmartCollection[];
+  subtitles?: Record<string, string>; // Subtitle file text by SubtitleTrack.id
+}
+
+export type VaultContents = Omit<PersistedVault, 'quarantine'>;
+
+export const buildVaultBundle = async ({ videos, settings, folders, playlists, smartCollections }: VaultContents): Promise<VaultBundle> => {
+  const exported: VideoItem[] = [];
+  const subtitles: Record<string, string> = {};
+  for (const v of videos) {
+    for (const track of v.subtitles || []) {
+      const text = await loadSubtitle(track.id).catch(() => undefined);
+      if (text != null) subtitles[track.id] = text;
+    }
+    const blob = await idbGet<Blob>(THUMBNAILS_STORE, v.id).catch(() => undefined);
+    exported.push({
+      ...v,
+      source: '',
+      missing: undefined,
+      thumbnail: blob ? await blobToDataUrl(blob) : undefined,
+    });
+  }
+  return {
+    format: BACKUP_FORMAT,
+    vaultVersion: VAULT_VERSION,
+    exportedAt: Date.now(),
+    settings,
+    videos: exported,
+    folders,
+    playlists,
+    smartCollections,
+    subtitles,
+  };
+};
+
+export const parseVaultBundle = (text: string): VaultBundle => {
+  let raw: any;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    throw new Error('Backup file is not valid JSON');
+  }
+  if (raw?.format !== BACKUP_FORMAT) throw new Error('Not a vault backup file');
+  const version = Number(raw.vaultVersion) || 0;
+  if (version > VAULT_VERSION) throw new Error('Backup was made by a newer version of the app');
+
+  const { videos: validated, settings, folders, playlists, smartCollections } = validateVaultState(migrateVaultState(raw, version));
+  // Backups from before folders were exported can't say which folder an entry belonged to
+  const folderIds = new Set(folders.map(f => f.id));
+  const videos = validated.map(v => (v.folderId && !folderIds.has(v.folderId) ? { ...v, folderId: undefined } : v));
+  const subtitles = Object.fromEntries(Object.entries(raw.subtitles && typeof raw.subtitles === 'object' ? raw.subtitles : {})
+    .filter((entry): entry is [string, string] => typeof entry[1] === 'string'));
+  return {
+    format: BACKUP_FORMAT,
+    vaultVersion: VAULT_VERSION,
+    exportedAt: Number(raw.exportedAt) || 0,
+    settings,
+    videos,
+    // Folder handles don't travel between machines, so a restored folder starts out never synced here
+    folders: folders.map(f => ({ ...f, lastSyncedAt: 0 })),
+    playlists,
+    smartCollections,
+    subtitles,
+  };
+};
+
+// Same file in two vaults will usually have different ids, so fall back to what the user would recognise
+const identityKey = (v: VideoItem) =>
+  `${v.title.toLowerCase()}|${v.metadata?.size ?? ''}|${Math.round(v.metadata?.duration ?? 0)}`;
+
+export interface MergeResult {
+  videos: VideoItem[];
+  ids: Map<string, string>; // Incoming id -> id of the entry it became or was merged into
+  added: number;
+  updated: number;
+}
+
+// Union of both libraries: newest progress wins, favorites, watched, tags and bookmarks are OR-ed, local details are kept
+// over incoming ones, local sources are never replaced
+export const mergeVaultItems = (existing: VideoItem[], incoming: VideoItem[]): MergeResult => {
+  const videos = [...existing];
+  const byId = new Map(existing.map((v, i) => [v.id, i]));
+  const byKey = new Map(existing.map((v, i) => [identityKey(v), i]));
+  const ids = new Map<string, string>();
+  let added = 0;
+  let updated = 0;
+
+  for (const item of incoming) {
+    const index = byId.get(item.id) ?? byKey.get(identityKey(item));
+    if (index === undefined) {
+      byId.set(item.id, videos.length);
+      byKey.set(identityKey(item), videos.length);
+      ids.set(item.id, item.id);
+      videos.push({ ...item, source: '', missing: true });
+      added++;
+      continue;
+    }
+
+    const current = videos[index];
+    ids.set(item.id, current.id);
+    const incomingIsNewer = (item.lastPlayedAt || 0) > (current.lastPlayedAt || 0);
+    videos[index] = {
+      ...current,
+      favorite: !!(current.favorite || item.favorite),
+      watched: !!(current.watched || item.watched),
+      progress: incomingIsNewer ? item.progress : current.progress,
+      lastPlayedAt: incomingIsNewer ? item.lastPlayedAt : current.lastPlayedAt,
+      thumbnail: current.thumbnail || item.thumbnail,
+      metadata: current.metadata || item.metadata,
+      subtitles: [...(current.subtitles || []), ...(item.subtitles || []).filter(s => !current.subtitles?.some(c => c.id === s.id))],
+      tags: [...(current.tags || []), ...(item.tags || []).filter(t => !current.tags?.some(c => c.toLowerCase() === t.toLowerCase()))],
+      series: current.series ?? item.series,
+      season: current.season ?? item.season,
+      episode: current.episode ?? item.episode,
+      rating: current.rating ?? item.rating,
+      notes: current.notes ?? item.notes,
+      bookmarks: sortBookmarks([...(current.bookmarks || []), ...(item.bookmarks || []).filter(b => !current.bookmarks?.some(c => c.id === b.id))]),
+      chapters: current.chapters ?? item.chapters,
+      loop: current.loop ?? item.loop,
+      picture: current.picture ?? item.picture,
+      audioTags: current.audioTags ?? item.audioTags,
+    };
+    updated++;
+  }
+
+  return { videos, ids, added, updated };
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+// Per field, recursing into nested groups like subtitleStyle: a value changed here is kept,
+// one still at its default takes the incoming value
+const mergeChanged = (current: unknown, incoming: unknown, fallback: unknown): unknown => {
+  if (isPlainObject(current) && isPlainObject(incoming) && isPlainObject(fallback)) {
+    const keys = new Set([...Object.keys(current), ...Object.keys(incoming)]);
+    return Object.fromEntries(Array.from(keys, key => [key, mergeChanged(current[key], incoming[key], fallback[key])]));
+  }
+  return incoming !== undefined && JSON.stringify(current) === JSON.stringify(fallback) ? incoming : current;
+};
+
+export const mergeSettings = (current: PlayerSettings, incoming: PlayerSettings) =>
+  mergeChanged(current, incoming, DEFAULT_SETTINGS) as PlayerSettings;
+
+// Union by id; on a clash the local record wins, except that the more recently edited playlist does.
+// Incoming playlists are pointed at the entries their videos were merged into, and incoming folders
+// are only kept if some new entry still belongs to them.
+const mergeCollections = (current: VaultContents, bundle: VaultBundle, { videos, ids }: MergeResult) => {
+  const remap = (p: Playlist): Playlist => ({ ...p, videoIds: p.videoIds.map(id => ids.get(id)).filter((id): id is string => !!id) });
+  const playlists = [...current.playlists];
+  for (const playlist of bundle.playlists.map(remap)) {
+    const index = playlists.findIndex(p => p.id === playlist.id);
+    if (index < 0) playlists.push(playlist);
+    else if (playlist.updatedAt > playlists[index].updatedAt) playlists[index] = playlist;
+  }
+  return {
+    folders: [...current.folders, ...bundle.folders.filter(f => !current.folders.some(c => c.id === f.id) && videos.some(v => v.folderId === f.id))],
+    playlists,
+    smartCollections: [...current.smartCollections, ...bundle.smartCollections.filter(c => !current.smartCollections.some(s => s.id === c.id))],
+  };
+};
+
+export interface VaultMergeResult extends VaultContents {
+  added: number;
+  updated: number;
+}
+
+// Folds a backup into the current vault without losing anything on either side
+export const mergeVaultBundle = (current: VaultContents, bundle: VaultBundle): VaultMergeResult => {
+  const merged = mergeVaultItems(current.videos, bundle.videos);
+  return {
+    videos: merged.videos,
+    settings: mergeSettings(current.settings, bundle.settings),
+    ...mergeCollections(current, bundle, merged),
+    added: merged.added,
+    updated: merged.updated,
+  };
+};
+
+export interface RelinkMatch {
+  id: string;
+  file: File;
+  handle: FileSystemFileHandle;
+}
+
+// Pairs unresolved vault entries with local files: file name + size first, then size + duration for renamed files
+export const findRelinkMatches = async (
+  videos: VideoItem[],
+  files: AsyncIterable<{ file: File, handle: FileSystemFileHandle }>
+): Promise<RelinkMatch[]> => {
+  const pending = videos.filter(v => v.missing);
+  const matches: RelinkMatch[] = [];
+
+  for await (const { file, handle } of files) {
+    if (pending.length === 0) break;
+    const name = file.name.toLowerCase();
+    const sameSize = pending.filter(v => v.metadata?.size == null || v.metadata.size === file.size);
+    if (sameSize.length === 0) continue;
+
+    let match = sameSize.find(v => `${v.title}.${v.metadata?.format ?? ''}`.toLowerCase() === name);
+    if (!match) {
+      const candidates = sameSize.filter(v => v.metadata?.size != null && v.metadata.duration > 0);
+      if (candidates.length === 0) continue;
+      const duration = await readMediaDuration(file);
+      match = candidates.find(v => Math.abs(v.metadata!.duration - duration) < 1);
+    }
+    if (!match) continue;
+
+    matches.push({ id: match.id, file, handle });
+    pending.splice(pending.indexOf(match), 1);
+  }
+
+  return matches;
+};
@@ -0,0 +1,225 @@
+// Thin promise wrapper around the IndexedDB database that backs the vault.
+// Anything too large or not serializable for localStorage (file handles, Blobs) lives here.
+
+const DB_NAME = 'nexus-vault';
+const DB_VERSION = 7;
+
+export const SOURCES_STORE = 'sources';
+export const THUMBNAILS_STORE = 'thumbnails';
+export const STATE_STORE = 'state';
+export const FOLDERS_STORE = 'folders';
+export const REMUXES_STORE = 'remuxes';
+export const REMUX_PARTS_STORE = 'remuxParts';
+export const SUBTITLES_STORE = 'subtitles';
+export const STORYBOARDS_STORE = 'storyboards';
+
+const STORES = [SOURCES_STORE, THUMBNAILS_STORE, STATE_STORE, FOLDERS_STORE, REMUXES_STORE, REMUX_PARTS_STORE, SUBTITLES_STORE, STORYBOARDS_STORE];
+
+// A source is either a File System Access handle (re-readable across sessions)
+// or the File/Blob itself when the browser only gave us an <input> upload.
+export type StoredSource = FileSystemFileHandle | Blob;
+
+// Seek-preview frames of one video (utils/storyboard.ts): every sheet is a full columns x rows grid
+// of frameWidth x frameHeight cells, frame i showing the video at (i + 0.5) * interval seconds
+export interface StoredStoryboard {
+  interval: number;
+  count: number;
+  frameWidth: number;
+  frameHeight: number;
+  columns: number;
+  rows: number;
+  sheets: Blob[]; // JPEG
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openVaultDb = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      STORES.forEach((name) => {
+        if (!db.objectStoreNames.contains(name)) db.createObjectStore(name);
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+};
+
+const run = async <T>(storeName: string, mode: IDBTransactionMode, action: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openVaultDb();
+  return new Promise((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result as T);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+export const idbGet = <T>(storeName: string, key: string) =>
+  run<T | undefined>(storeName, 'readonly', (store) => store.get(key));
+
+export const idbPut = (storeName: string, key: string, value: unknown) =>
+  run<IDBValidKey>(storeName, 'readwrite', (store) => store.put(value, key));
+
+export const idbGetAll = <T>(storeName: string, range: IDBKeyRange) =>
+  run<T[]>(storeName, 'readonly', (store) => store.getAll(range));
+
+export const idbDelete = (storeName: string, key: string | IDBKeyRange) =>
+  run<undefined>(storeName, 'readwrite', (store) => store.delete(key));
+
+export const idbClear = (storeName: string) =>
+  run<undefined>(storeName, 'readwrite', (store) => store.clear());
+
+export const idbKeys = (storeName: string) =>
+  run<IDBValidKey[]>(storeName, 'readonly', (store) => store.getAllKeys()).then(keys => keys.map(String));
+
+export const isQuotaError = (err: unknown) =>
+  err instanceof DOMException && (err.name === 'QuotaExceededError' || err.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+
+// Reads every key/value pair of a store in one cursor pass
+export const idbEntries = async <T>(storeName: string): Promise<[string, T][]> => {
+  const db = await openVaultDb();
+  return new Promise((resolve, reject) => {
+    const entries: [string, T][] = [];
+    const tx = db.transaction(storeName, 'readonly');
+    const request = tx.objectStore(storeName).openCursor();
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) return;
+      entries.push([String(cursor.key), cursor.value as T]);
+      cursor.continue();
+    };
+    tx.oncomplete = () => resolve(entries);
+    tx.onerror = () => reject(tx.error);
+  });
+};
+
+export const saveSource = (id: string, source: StoredSource) => idbPut(SOURCES_STORE, id, source);
+
+export const deleteSource = (id: string) => idbDelete(SOURCES_STORE, id);
+
+export const clearSources = () => idbClear(SOURCES_STORE);
+
+export const saveThumbnail = (id: string, thumbnail: Blob) => idbPut(THUMBNAILS_STORE, id, thumbnail);
+
+export const deleteThumbnail = (id: string) => idbDelete(THUMBNAILS_STORE, id);
+
+export const clearThumbnails = () => idbClear(THUMBNAILS_STORE);
+
+// Thumbnails are kept as Blobs and only turned into object URLs for the current session
+export const loadThumbnailUrls = async (): Promise<Record<string, string>> => {
+  const entries = await idbEntries<Blob>(THUMBNAILS_STORE);
+  return Object.fromEntries(entries.map(([id, blob]) => [id, URL.createObjectURL(blob)]));
+};
+
+// Directory handles of synced folders, keyed by SyncedFolder.id
+export const saveFolderHandle = (id: string, handle: FileSystemDirectoryHandle) => idbPut(FOLDERS_STORE, id, handle);
+
+export const loadFolderHandle = (id: string) => idbGet<FileSystemDirectoryHandle>(FOLDERS_STORE, id);
+
+export const deleteFolderHandle = (id: string) => idbDelete(FOLDERS_STORE, id);
+
+export const clearFolderHandles = () => idbClear(FOLDERS_STORE);
+
+// MP4 copies of Matroska files the browser can't open directly (utils/remux), played in their place.
+// The media data is written in parts while the remux runs, so a long file never has to fit in memory;
+// the record itself holds the header that can only be built at the end. Older copies are a single Blob.
+export interface StoredRemux {
+  head: Blob;
+  parts: number;
+}
+
+// Zero-padded so the parts of one copy sort in order
+const remuxPartKey = (id: string, index: number) => `${id}:${String(index).padStart(6, '0')}`;
+const remuxPartRange = (id: string) => IDBKeyRange.bound(`${id}:`, `${id}:\uffff`);
+
+export const saveRemuxPart = (id: string, index: number, part: Blob) => idbPut(REMUX_PARTS_STORE, remuxPartKey(id, index), part);
+
+export const saveRemux = (id: string, remux: StoredRemux) => idbPut(REMUXES_STORE, id, remux);
+
+// Blobs read back from IndexedDB stay on disk, so the joined copy doesn't load the parts either
+export const loadRemux = async (id: string): Promise<Blob | undefined> => {
+  const stored = await idbGet<Blob | StoredRemux>(REMUXES_STORE, id);
+  if (!stored) return undefined;
+  if (stored instanceof Blob) return stored;
+  const parts = await idbGetAll<Blob>(REMUX_PARTS_STORE, remuxPartRange(id));
+  if (parts.length !== stored.parts) return undefined;
+  return new Blob([stored.head, ...parts], { type: 'video/mp4' });
+};
+
+export const deleteRemux = (id: string) =>
+  Promise.all([idbDelete(REMUXES_STORE, id), idbDelete(REMUX_PARTS_STORE, remuxPartRange(id))]);
+
+export const clearRemuxes = () => Promise.all([idbClear(REMUXES_STORE), idbClear(REMUX_PARTS_STORE)]);
+
+// Subtitle file text keyed by SubtitleTrack.id; parsed again whenever a track is shown
+export const saveSubtitle = (id: string, text: string) => idbPut(SUBTITLES_STORE, id, text);
+
+export const loadSubtitle = (id: string) => idbGet<string>(SUBTITLES_STORE, id);
+
+export const deleteSubtitle = (id: string) => idbDelete(SUBTITLES_STORE, id);
+
+export const clearSubtitles = () => idbClear(SUBTITLES_STORE);
+
+export const saveStoryboard = (id: string, storyboard: StoredStoryboard) => idbPut(STORYBOARDS_STORE, id, storyboard);
+
+export const loadStoryboard = (id: string) => idbGet<StoredStoryboard>(STORYBOARDS_STORE, id);
+
+export const deleteStoryboard = (id: string) => idbDelete(STORYBOARDS_STORE, id);
+
+export const clearStoryboards = () => idbClear(STORYBOARDS_STORE);
+
+const isFileHandle = (source: StoredSource): source is FileSystemFileHandle =>
+  !(source instanceof Blob) && (source as FileSystemFileHandle).kind === 'file';
+
+// Chromium's permission methods on handles; not in the DOM typings yet
+interface PermissionedHandle {
+  queryPermission(descriptor: { mode: 'read' | 'readwrite' }): Promise<PermissionState>;
+  requestPermission(descriptor: { mode: 'read' | 'readwrite' }): Promise<PermissionState>;
+}
+
+const isPermissioned = (handle: FileSystemHandle): handle is FileSystemHandle & PermissionedHandle =>
+  'queryPermission' in handle && 'requestPermission' in handle;
+
+// Handles lose their permission grant between sessions; asking again needs a user gesture,
+// which is why this is only ever reached from a click (setCurrentVideo, folder re-sync).
+export const ensurePermission = async (handle: FileSystemHandle, prompt = true): Promise<boolean> => {
+  if (!isPermissioned(handle)) return true;
+  if ((await handle.queryPermission({ mode: 'read' })) === 'granted') return true;
+  if (!prompt) return false;
+  try {
+    return (await handle.requestPermission({ mode: 'read' })) === 'granted';
+  } catch {
+    return false;
+  }
+};
+
+// Returns the original file of a vault entry, or null if it can no longer be read.
+// Background work passes prompt = false so it never asks for access outside a click.
+export const resolveSourceFile = async (id: string, prompt = true): Promise<Blob | null> => {
+  try {
+    const stored = await idbGet<StoredSource>(SOURCES_STORE, id);
+    if (!stored) return null;
+    if (!isFileHandle(stored)) return stored;
+    if (!(await ensurePermission(stored, prompt))) return null;
+    return await stored.getFile();
+  } catch (err) {
+    console.error('Failed to resolve vault source:', err);
+    return null;
+  }
+};
+
+// Returns a playable object URL for a vault entry, preferring a cached remux over the original file.
+export const resolveSourceUrl = async (id: string): Promise<string | null> => {
+  const remux = await loadRemux(id).catch(() => undefined);
+  const source = remux || await resolveSourceFile(id);
+  return source ? URL.createObjectURL(source) : null;
+};
@@ -0,0 +1,103 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_SETTINGS, MAX_PLAYBACK_RATE, VAULT_VERSION, migrateVaultState, validateVaultState } from './vaultSchema';
+
+const fixture = (name: string) => JSON.parse(readFileSync(new URL(`./__fixtures__/vault/${name}`, import.meta.url), 'utf8'));
+
+// What the store does on rehydration: migrate from the stored version, then validate
+const rehydrate = (persisted: unknown, fromVersion: number) => validateVaultState(migrateVaultState(persisted, fromVersion));
+
+describe('migrateVaultState', () => {
+  it('upgrades unversioned records and quarantines the ones it cannot read', () => {
+    const { videos, quarantine } = migrateVaultState(fixture('v0.json'), 0);
+
+    expect(videos.map(v => v.id)).toEqual(['a1', 'a2']);
+    expect(videos.every(v => v.source === '')).toBe(true);
+    expect(videos[0].type).toBe('local');
+    expect(videos[0].addedAt).toBe(1571234567000);
+    expect(videos[1].favorite).toBe(true);
+    expect(quarantine.map(q => q.record)).toEqual([null, 'not a record']);
+    expect(quarantine.every(q => q.fromVersion === 0 && q.reason === 'Record is not an object')).toBe(true);
+  });
+
+  it('leaves current records alone', () => {
+    const persisted = fixture('v1.json');
+    const { videos } = migrateVaultState(persisted, VAULT_VERSION);
+    expect(videos).toEqual(persisted.videos);
+  });
+
+  it('marks entries left past the watched threshold as watched when upgrading to watch tracking', () => {
+    // The fixture's threshold is clamped to 0.5, so 1000 of 1800 seconds counts
+    const videos = rehydrate(fixture('v1.json'), 1).videos;
+    const watched = (id: string) => videos.find(v => v.id === id)?.watched;
+    expect(watched('b1')).toBeUndefined();
+    expect(watched('b4')).toBe(true);
+    expect(watched('b5')).toBe(false);
+  });
+
+  it('switches audio-only entries to the audio type when upgrading to the audio layout', () => {
+    expect(rehydrate(fixture('v1.json'), 1).videos.find(v => v.id === 'b6')?.type).toBe('audio');
+    expect(rehydrate(fixture('v1.json'), VAULT_VERSION).videos.find(v => v.id === 'b6')?.type).toBe('local');
+  });
+
+  it('infers watched state only once', () => {
+    const videos = rehydrate(fixture('v1.json'), VAULT_VERSION).videos;
+    expect(videos.find(v => v.id === 'b4')?.watched).toBeUndefined();
+  });
+
+  it('never throws on garbage', () => {
+    for (const persisted of [null, undefined, 42, 'vault', [], { videos: 'nope', settings: null }]) {
+      expect(() => rehydrate(persisted, 0)).not.toThrow();
+    }
+    expect(rehydrate(null, 0)).toEqual({ videos: [], settings: DEFAULT_SETTINGS, folders: [], playlists: [], smartCollections: [], quarantine: [] });
+  });
+});
+
+describe('validateVaultState', () => {
+  it('fills in settings an unversioned build never wrote', () => {
+    const { settings } = rehydrate(fixture('v0.json'), 0);
+    expect(settings).toEqual({ ...DEFAULT_SETTINGS, volume: 0.5, playbackRate: 1.5 });
+  });
+
+  it('drops unknown subtitle tracks without quarantining the video', () => {
+    const { videos } = rehydrate(fixture('v0.json'), 0);
+    expect(videos.find(v => v.id === 'a2')?.subtitles?.map(t => t.id)).toEqual(['s1']);
+  });
+
+  it('quarantines invalid and duplicate records, keeping what was already set aside', () => {
+    const { videos, quarantine } = rehydrate(fixture('v1.json'), 1);
+
+    expect(videos.map(v => v.id)).toEqual(['b1', 'b4', 'b5', 'b6']);
+    expect(videos[0].title).toBe('Pilot');
+    expect(quarantine.map(q => q.reason)).toEqual(['Missing title', 'Invalid addedAt', 'Invalid progress', 'Duplicate id', 'Missing id']);
+    expect(quarantine[0].quarantinedAt).toBe(1690000000000);
+    expect(quarantine.slice(1).every(q => q.fromVersion === VAULT_VERSION)).toBe(true);
+  });
+
+  it('drops bad optional details instead of the record', () => {
+    const [video] = rehydrate(fixture('v1.json'), 1).videos;
+    expect(video.tags).toEqual(['Drama', 'drama']);
+    expect(video.season).toBe(1);
+    expect(video.episode).toBeUndefined();
+    expect(video.rating).toBeUndefined();
+  });
+
+  it('clamps out-of-range settings and resets unknown choices', () => {
+    const { settings } = rehydrate(fixture('v1.json'), 1);
+    expect(settings.volume).toBe(1);
+    expect(settings.playbackRate).toBe(MAX_PLAYBACK_RATE);
+    expect(settings.repeat).toBe(DEFAULT_SETTINGS.repeat);
+    expect(settings.watchedThreshold).toBe(0.5);
+    expect(settings.subtitleStyle).toEqual({ fontSize: 300, color: DEFAULT_SETTINGS.subtitleStyle.color, background: '#101010', backgroundOpacity: 0.3 });
+    expect(settings.library).toEqual({ sort: 'title', descending: true, group: DEFAULT_SETTINGS.library.group, mode: 'list' });
+  });
+
+  it('keeps collections but drops entries that point at missing videos', () => {
+    const { folders, playlists, smartCollections } = rehydrate(fixture('v1.json'), 1);
+    expect(folders.map(f => f.id)).toEqual(['f1']);
+    expect(playlists).toHaveLength(1);
+    expect(playlists[0].videoIds).toEqual(['b1']);
+    expect(smartCollections[0].match).toBe('all');
+    expect(smartCollections[0].rules).toEqual([{ field: 'favorite', op: 'is', value: 'yes' }]);
+  });
+});
@@ -0,0 +1,282 @@
+import { VideoItem, AudioTags, PlayerSettings, QuarantinedRecord, SyncedFolder, SubtitleTrack, Playlist, SmartCollection } from '../types';
+import { isSmartRule, normalizeTag } from './smartCollections';
+import { crossesWatchedThreshold } from './watchState';
+import { isChapter, isBookmark, sortBookmarks } from './chapters';
+import { isAudioOnly } from './audioLibrary';
+import { DEFAULT_PICTURE, DEFAULT_AUDIO, MIN_LOUDNESS_TARGET, MAX_LOUDNESS_TARGET, sanitizePicture, sanitizeAudio, isLoudness } from './adjustments';
+
+// Bump this and add a migrator below whenever the persisted shape of VideoItem or PlayerSettings changes.
+export const VAULT_VERSION = 3;
+
+// The range browsers accept for HTMLMediaElement.playbackRate
+export const MIN_PLAYBACK_RATE = 0.0625;
+export const MAX_PLAYBACK_RATE = 16;
+
+export const DEFAULT_SETTINGS: PlayerSettings = {
+  volume: 0.8,
+  playbackRate: 1,
+  isMuted: false,
+  isTheaterMode: false,
+  miniPlayerCorner: 'bottom-right',
+  quality: 'auto',
+  shuffle: false,
+  repeat: 'off',
+  watchedThreshold: 0.95,
+  resumeTail: 30,
+  seekStep: 10,
+  longSeekStep: 60,
+  subtitleStyle: {
+    fontSize: 100,
+    color: '#ffffff',
+    background: '#000000',
+    backgroundOpacity: 0.6,
+  },
+  picture: DEFAULT_PICTURE,
+  audio: DEFAULT_AUDIO,
+  normalizeLoudness: false,
+  loudnessTarget: -16,
+  visualizer: 'spectrum',
+  library: {
+    sort: 'view',
+    descending: false,
+    group: 'none',
+    mode: 'grid',
+  },
+};
+
+export interface PersistedVault {
+  videos: VideoItem[];
+  settings: PlayerSettings;
+  folders: SyncedFolder[];
+  playlists: Playlist[];
+  smartCollections: SmartCollection[];
+  quarantine: QuarantinedRecord[];
+}
+
+type Migrator = (record: any) => any;
+
+// Each entry upgrades a single record from `version - 1` to `version`. Throwing quarantines that record.
+// Video upgrades may depend on the snapshot's own settings, already migrated and sanitized.
+const videoMigrators = (settings: PlayerSettings): Record<number, Migrator> => ({
+  // v0 -> v1: unversioned builds. Drop session-only URLs and coerce loosely typed fields.
+  1: (v) => {
+    if (!v || typeof v !== 'object') throw new Error('Record is not an object');
+    return {
+      ...v,
+      source: '',
+      type: 'local',
+      addedAt: Number(v.addedAt) || Date.now(),
+      favorite: !!v.favorite,
+    };
+  },
+  // v1 -> v2: watch tracking. Entries from before it count as watched if they were left past the user's threshold.
+  2: (v) => {
+    if (!v || typeof v !== 'object' || v.watched != null) return v;
+    const finished = crossesWatchedThreshold(Number(v.progress) || 0, Number(v.metadata?.duration) || 0, settings.watchedThreshold);
+    return finished ? { ...v, watched: true } : v;
+  },
+  // v2 -> v3: audio layout. Audio files imported as plain media switch type; their tags are read on the next folder scan.
+  3: (v) => (Array.isArray(v?.metadata?.tracks) && isAudioOnly(v.metadata.tracks) ? { ...v, type: 'audio' } : v),
+});
+
+const settingsMigrators: Record<number, Migrator> = {
+  1: (s) => ({ ...s }),
+};
+
+const applyMigrators = (record: unknown, migrators: Record<number, Migrator>, fromVersion: number): any => {
+  let result = record;
+  for (let version = fromVersion + 1; version <= VAULT_VERSION; version++) {
+    if (migrators[version]) result = migrators[version](result);
+  }
+  return result;
+};
+
+const quarantine = (record: unknown, reason: string, fromVersion: number): QuarantinedRecord => ({
+  record,
+  reason,
+  fromVersion,
+  quarantinedAt: Date.now(),
+});
+
+const isFiniteNumber = (n: unknown): n is number => typeof n === 'number' && Number.isFinite(n);
+
+// Returns a reason string when the record is not a usable VideoItem
+const validateVideo = (v: any): string | null => {
+  if (!v || typeof v !== 'object') return 'Record is not an object';
+  if (typeof v.id !== 'string' || !v.id) return 'Missing id';
+  if (typeof v.title !== 'string') return 'Missing title';
+  if (!isFiniteNumber(v.addedAt)) return 'Invalid addedAt';
+  if (v.progress != null && !isFiniteNumber(v.progress)) return 'Invalid progress';
+  if (v.metadata != null && (typeof v.metadata !== 'object' || !isFiniteNumber(v.metadata.duration))) return 'Invalid metadata';
+  if (v.subtitles != null && !Array.isArray(v.subtitles)) return 'Invalid subtitles';
+  return null;
+};
+
+const isSubtitleTrack = (t: any): t is SubtitleTrack =>
+  typeof t?.id === 'string' && typeof t.label === 'string' && ['srt', 'vtt', 'ass'].includes(t.format) &&
+  (t.embedded == null || Number.isInteger(t.embedded));
+
+const isPositiveInteger = (n: unknown): n is number => Number.isInteger(n) && (n as number) > 0;
+
+const sanitizeAudioTags = (t: any): AudioTags => {
+  const tags: AudioTags = {};
+  for (const key of ['title', 'artist', 'album', 'albumArtist', 'genre'] as const) {
+    if (typeof t[key] === 'string' && t[key]) tags[key] = t[key];
+  }
+  for (const key of ['track', 'trackTotal', 'disc', 'year'] as const) {
+    if (isPositiveInteger(t[key])) tags[key] = t[key];
+  }
+  return tags;
+};
+
+// User-entered details are optional, so a bad value is dropped instead of quarantining the whole record
+const sanitizeVideo = (v: any): VideoItem => {
+  const video = { ...v };
+  if (video.subtitles) video.subtitles = video.subtitles.filter(isSubtitleTrack);
+  if (video.tags != null) {
+    video.tags = Array.isArray(video.tags)
+      ? video.tags.filter((t: unknown) => typeof t === 'string' && normalizeTag(t)).map(normalizeTag)
+      : undefined;
+  }
+  if (video.series != null && typeof video.series !== 'string') delete video.series;
+  if (video.notes != null && typeof video.notes !== 'string') delete video.notes;
+  if (video.season != null && !isPositiveInteger(video.season)) delete video.season;
+  if (video.episode != null && !isPositiveInteger(video.episode)) delete video.episode;
+  if (video.watched != null && typeof video.watched !== 'boolean') delete video.watched;
+  if (video.rating != null && !(Number.isInteger(video.rating) && video.rating >= 1 && video.rating <= 5)) delete video.rating;
+  if (video.bookmarks != null) video.bookmarks = Array.isArray(video.bookmarks) ? sortBookmarks(video.bookmarks.filter(isBookmark)) : undefined;
+  if (video.chapters != null) video.chapters = Array.isArray(video.chapters) ? video.chapters.filter(isChapter) : undefined;
+  if (video.loop != null && !(isFiniteNumber(video.loop.start) && isFiniteNumber(video.loop.end) && video.loop.start >= 0 && video.loop.end > video.loop.start)) delete video.loop;
+  if (video.picture != null) video.picture = typeof video.picture === 'object' ? sanitizePicture(video.picture) : undefined;
+  if (video.audioTags != null) video.audioTags = typeof video.audioTags === 'object' ? sanitizeAudioTags(video.audioTags) : undefined;
+  if (!['local', 'audio'].includes(video.type)) video.type = 'local';
+  if (video.metadata?.chapters != null) {
+    video.metadata = { ...video.metadata, chapters: Array.isArray(video.metadata.chapters) ? video.metadata.chapters.filter(isChapter) : undefined };
+  }
+  if (video.metadata?.loudness != null && !isLoudness(video.metadata.loudness)) {
+    video.metadata = { ...video.metadata, loudness: undefined };
+  }
+  if (video.metadata?.loudnessSkip != null && !['too-large', 'no-audio'].includes(video.metadata.loudnessSkip)) {
+    video.metadata = { ...video.metadata, loudnessSkip: undefined };
+  }
+  return video;
+};
+
+const isHexColor = (c: unknown): c is string => typeof c === 'string' && /^#[0-9a-f]{6}$/i.test(c);
+
+const sanitizeSettings = (s: any): PlayerSettings => {
+  const settings = { ...DEFAULT_SETTINGS };
+  if (!s || typeof s !== 'object') return settings;
+  if (isFiniteNumber(s.volume)) settings.volume = Math.min(1, Math.max(0, s.volume));
+  if (isFiniteNumber(s.playbackRate) && s.playbackRate > 0) settings.playbackRate = Math.min(MAX_PLAYBACK_RATE, Math.max(MIN_PLAYBACK_RATE, s.playbackRate));
+  if (typeof s.isMuted === 'boolean') settings.isMuted = s.isMuted;
+  if (typeof s.isTheaterMode === 'boolean') settings.isTheaterMode = s.isTheaterMode;
+  if (['top-left', 'top-right', 'bottom-left', 'bottom-right'].includes(s.miniPlayerCorner)) settings.miniPlayerCorner = s.miniPlayerCorner;
+  if (['auto', '1080p', '720p', '480p'].includes(s.quality)) settings.quality = s.quality;
+  if (typeof s.shuffle === 'boolean') settings.shuffle = s.shuffle;
+  if (['off', 'all', 'one'].includes(s.repeat)) settings.repeat = s.repeat;
+  if (isFiniteNumber(s.watchedThreshold)) settings.watchedThreshold = Math.min(1, Math.max(0.5, s.watchedThreshold));
+  if (isFiniteNumber(s.resumeTail)) settings.resumeTail = Math.min(600, Math.max(0, s.resumeTail));
+  if (isFiniteNumber(s.seekStep) && s.seekStep > 0) settings.seekStep = Math.min(600, s.seekStep);
+  if (isFiniteNumber(s.longSeekStep) && s.longSeekStep > 0) settings.longSeekStep = Math.min(3600, s.longSeekStep);
+  if (typeof s.subtitleLanguage === 'string') settings.subtitleLanguage = s.subtitleLanguage;
+  const style = s.subtitleStyle;
+  if (style && typeof style === 'object') {
+    settings.subtitleStyle = {
+      fontSize: isFiniteNumber(style.fontSize) ? Math.min(300, Math.max(50, style.fontSize)) : DEFAULT_SETTINGS.subtitleStyle.fontSize,
+      color: isHexColor(style.color) ? style.color : DEFAULT_SETTINGS.subtitleStyle.color,
+      background: isHexColor(style.background) ? style.background : DEFAULT_SETTINGS.subtitleStyle.background,
+      backgroundOpacity: isFiniteNumber(style.backgroundOpacity)
+        ? Math.min(1, Math.max(0, style.backgroundOpacity))
+        : DEFAULT_SETTINGS.subtitleStyle.backgroundOpacity,
+    };
+  }
+  if (s.picture && typeof s.picture === 'object') settings.picture = sanitizePicture(s.picture);
+  if (s.audio && typeof s.audio === 'object') settings.audio = sanitizeAudio(s.audio);
+  if (typeof s.normalizeLoudness === 'boolean') settings.normalizeLoudness = s.normalizeLoudness;
+  if (isFiniteNumber(s.loudnessTarget)) settings.loudnessTarget = Math.min(MAX_LOUDNESS_TARGET, Math.max(MIN_LOUDNESS_TARGET, s.loudnessTarget));
+  if (['spectrum', 'waveform'].includes(s.visualizer)) settings.visualizer = s.visualizer;
+  const library = s.library;
+  if (library && typeof library === 'object') {
+    settings.library = {
+      sort: ['view', 'title', 'size', 'duration', 'added', 'played', 'progress'].includes(library.sort) ? library.sort : DEFAULT_SETTINGS.library.sort,
+      descending: typeof library.descending === 'boolean' ? library.descending : DEFAULT_SETTINGS.library.descending,
+      group: ['none', 'folder', 'format', 'tag', 'date'].includes(library.group) ? library.group : DEFAULT_SETTINGS.library.group,
+      mode: library.mode === 'list' ? 'list' : 'grid',
+    };
+  }
+  return settings;
+};
+
+// Upgrades a persisted snapshot written at `fromVersion`. Never throws: bad records are quarantined.
+export const migrateVaultState = (persisted: unknown, fromVersion: number): PersistedVault => {
+  const raw = (persisted && typeof persisted === 'object' ? persisted : {}) as any;
+  const result: PersistedVault = {
+    videos: [],
+    settings: DEFAULT_SETTINGS,
+    folders: Array.isArray(raw.folders) ? raw.folders : [],
+    playlists: Array.isArray(raw.playlists) ? raw.playlists : [],
+    smartCollections: Array.isArray(raw.smartCollections) ? raw.smartCollections : [],
+    quarantine: Array.isArray(raw.quarantine) ? raw.quarantine : [],
+  };
+
+  try {
+    result.settings = applyMigrators(raw.settings, settingsMigrators, fromVersion);
+  } catch {
+    result.settings = DEFAULT_SETTINGS;
+  }
+
+  const migrators = videoMigrators(sanitizeSettings(result.settings));
+  for (const record of Array.isArray(raw.videos) ? raw.videos : []) {
+    try {
+      result.videos.push(applyMigrators(record, migrators, fromVersion));
+    } catch (err) {
+      result.quarantine.push(quarantine(record, err instanceof Error ? err.message : String(err), fromVersion));
+    }
+  }
+  return result;
+};
+
+// Runs on every rehydration, migrated or not, so the store only ever sees well-formed records.
+export const validateVaultState = (persisted: unknown): PersistedVault => {
+  const raw = (persisted && typeof persisted === 'object' ? persisted : {}) as any;
+  const videos: VideoItem[] = [];
+  const quarantined: QuarantinedRecord[] = Array.isArray(raw.quarantine) ? [...raw.quarantine] : [];
+  const seen = new Set<string>();
+
+  for (const record of Array.isArray(raw.videos) ? raw.videos : []) {
+    const reason = validateVideo(record) ?? (seen.has(record.id) ? 'Duplicate id' : null);
+    if (reason) {
+      quarantined.push(quarantine(record, reason, VAULT_VERSION));
+      continue;
+    }
+    seen.add(record.id);
+    videos.push(sanitizeVideo(record));
+  }
+
+  const folders = (Array.isArray(raw.folders) ? raw.folders : [])
+    .filter((f: any): f is SyncedFolder => typeof f?.id === 'string' && typeof f.name === 'string');
+
+  // Entries pointing at quarantined or deleted videos are dropped rather than the whole playlist
+  const playlists = (Array.isArray(raw.playlists) ? raw.playlists : [])
+    .filter((p: any) => typeof p?.id === 'string' && typeof p.name === 'string' && Array.isArray(p.videoIds))
+    .map((p: any): Playlist => ({
+      id: p.id,
+      name: p.name,
+      videoIds: p.videoIds.filter((id: unknown) => typeof id === 'string' && seen.has(id)),
+      createdAt: isFiniteNumber(p.createdAt) ? p.createdAt : Date.now(),
+      updatedAt: isFiniteNumber(p.updatedAt) ? p.updatedAt : Date.now(),
+    }));
+
+  const smartCollections = (Array.isArray(raw.smartCollections) ? raw.smartCollections : [])
+    .filter((c: any) => typeof c?.id === 'string' && typeof c.name === 'string' && Array.isArray(c.rules))
+    .map((c: any): SmartCollection => ({
+      id: c.id,
+      name: c.name,
+      match: c.match === 'any' ? 'any' : 'all',
+      rules: c.rules.filter(isSmartRule),
+      createdAt: isFiniteNumber(c.createdAt) ? c.createdAt : Date.now(),
+    }));
+
+  return { videos, settings: sanitizeSettings(raw.settings), folders, playlists, smartCollections, quarantine: quarantined };
+};
@@ -0,0 +1,37 @@
+import { StateStorage } from 'zustand/middleware';
+import { idbGet, idbPut, idbDelete, isQuotaError, STATE_STORE } from './vaultDb';
+
+// zustand `persist` backend that keeps the serialized vault in IndexedDB instead of localStorage.
+// Write failures are reported through `onError` rather than thrown, so a full disk never breaks the UI.
+export const createVaultStorage = (onError: (message: string) => void): StateStorage => ({
+  getItem: async (name) => {
+    const stored = await idbGet<string>(STATE_STORE, name);
+    if (stored != null) return stored;
+
+    // One-time move of libraries saved by older builds
+    const legacy = localStorage.getItem(name);
+    if (legacy == null) return null;
+    try {
+      await idbPut(STATE_STORE, name, legacy);
+      localStorage.removeItem(name);
+    } catch (err) {
+      console.error('Legacy vault migration failed:', err);
+    }
+    return legacy;
+  },
+
+  setItem: async (name, value) => {
+    try {
+      await idbPut(STATE_STORE, name, value);
+    } catch (err) {
+      console.error('Vault save failed:', err);
+      onError(isQuotaError(err)
+        ? 'Browser storage is full. Remove some items or free up disk space to keep saving your vault.'
+        : 'Your vault could not be saved. Recent changes may be lost after a reload.');
+    }
+  },
+
+  removeItem: async (name) => {
+    await idbDelete(STATE_STORE, name);
+  },
+});
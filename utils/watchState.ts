@@ -0,0 +1,30 @@
+import { VideoItem, PlayerSettings } from '../types';
+
+// Watch state and resume rules. `watched` is set once playback crosses the watched threshold (or by
+// hand) and stays set through rewatches; `progress` is only where to pick up again.
+
+export type WatchStatus = 'unwatched' | 'in-progress' | 'watched';
+
+export const watchStatus = (video: VideoItem): WatchStatus =>
+  video.watched ? 'watched' : video.progress ? 'in-progress' : 'unwatched';
+
+export const crossesWatchedThreshold = (progress: number, duration: number, threshold: number) =>
+  duration > 0 && progress >= duration * threshold;
+
+type ResumeSettings = Pick<PlayerSettings, 'watchedThreshold' | 'resumeTail'>;
+
+// Where playback should start: the saved position, unless the video was (nearly) finished there
+export const resumePosition = (video: VideoItem, duration: number, settings: ResumeSettings) => {
+  const progress = video.progress || 0;
+  if (progress <= 0 || !(duration > 0)) return 0;
+  if (progress >= duration - settings.resumeTail) return 0;
+  if (crossesWatchedThreshold(progress, duration, settings.watchedThreshold)) return 0;
+  return progress;
+};
+
+// Started, not finished and worth resuming, most recently played first
+export const continueWatching = (videos: VideoItem[], settings: ResumeSettings, limit = 12) =>
+  videos
+    .filter(v => !v.watched && !v.missing && resumePosition(v, v.metadata?.duration || 0, settings) > 0)
+    .sort((a, b) => (b.lastPlayedAt || 0) - (a.lastPlayedAt || 0))
+    .slice(0, limit);
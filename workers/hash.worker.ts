@@ -0,0 +1,10 @@
+import { hashFileSample } from '../utils/sampleHash';
+
+self.onmessage = async (e: MessageEvent<{ id: number, file: File }>) => {
+  const { id, file } = e.data;
+  try {
+    self.postMessage({ id, hash: await hashFileSample(file) });
+  } catch (err) {
+    self.postMessage({ id, error: err instanceof Error ? err.message : String(err) });
+  }
+};